@@ -0,0 +1,95 @@
+/**
+ * Import USPTO bulk grant/application files into the local patent corpus.
+ *
+ *   npm run corpus:import -- ipg250107.xml ipa250109.xml patents.jsonl
+ *
+ * XML files are the unzipped weekly full-text files from
+ * https://bulkdata.uspto.gov; JSON may be an array or JSON Lines. Re-importing
+ * a patent replaces it. Search it with PATENT_SEARCH_BACKEND=local.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { closeLocalDb } from '@/lib/local-db/client';
+import { importPatentRecords, getLocalCorpusSize } from '@/lib/patents/local-corpus';
+import { createUsptoXmlSplitter, parseUsptoJson, parseUsptoXmlDocument } from '@/lib/patents/uspto-bulk';
+
+const BATCH_SIZE = 500;
+
+async function importXmlFile(file: string) {
+  const splitter = createUsptoXmlSplitter();
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  let batch: Record<string, any>[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = () => {
+    const result = importPatentRecords(batch);
+    imported += result.imported;
+    skipped += result.skipped;
+    batch = [];
+    process.stdout.write(`\r  ${imported} imported`);
+  };
+
+  const collect = (doc: string | null) => {
+    if (!doc) return;
+    const record = parseUsptoXmlDocument(doc);
+    if (record) batch.push(record);
+    else skipped++;
+    if (batch.length >= BATCH_SIZE) flush();
+  };
+
+  for await (const line of lines) {
+    collect(splitter.push(line));
+  }
+  collect(splitter.flush());
+  flush();
+  process.stdout.write('\n');
+
+  return { imported, skipped };
+}
+
+function importJsonFile(file: string) {
+  const records = parseUsptoJson(fs.readFileSync(file, 'utf8'));
+  let imported = 0;
+  let skipped = 0;
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    const result = importPatentRecords(records.slice(i, i + BATCH_SIZE));
+    imported += result.imported;
+    skipped += result.skipped;
+  }
+  return { imported, skipped };
+}
+
+async function main() {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    console.error('Usage: npm run corpus:import -- <file.xml|file.json|file.jsonl> [...]');
+    process.exit(1);
+  }
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase();
+    if (!fs.existsSync(file)) {
+      console.error(`[Corpus] Not found: ${file}`);
+      continue;
+    }
+    if (extension === '.zip') {
+      console.error(`[Corpus] Unzip ${file} first - the importer reads the .xml inside`);
+      continue;
+    }
+
+    console.log(`[Corpus] Importing ${file}`);
+    const { imported, skipped } = extension === '.xml' ? await importXmlFile(file) : importJsonFile(file);
+    console.log(`[Corpus] ${file}: ${imported} imported, ${skipped} skipped`);
+  }
+
+  console.log(`[Corpus] ${getLocalCorpusSize()} patents in .local-data/dev.db`);
+  closeLocalDb();
+}
+
+main().catch((error) => {
+  console.error('[Corpus] Import failed:', error);
+  process.exit(1);
+});
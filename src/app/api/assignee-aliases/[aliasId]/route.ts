@@ -0,0 +1,27 @@
+import * as db from '@/lib/db';
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ aliasId: string }> }) {
+  const { aliasId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.deleteAssigneeAlias(aliasId, user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,76 @@
+import * as db from '@/lib/db';
+import { randomUUID } from 'crypto';
+
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: aliases, error } = await db.getAssigneeAliases(user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  // Normalize field names (SQLite uses camelCase, Supabase uses snake_case)
+  const normalizedAliases = aliases?.map((a: any) => ({
+    id: a.id,
+    alias: a.alias,
+    canonical: a.canonical,
+    parent: a.parent || null,
+    created_at: a.created_at || a.createdAt,
+  })) || [];
+
+  return new Response(JSON.stringify({ aliases: normalizedAliases }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function POST(req: Request) {
+  const { alias, canonical, parent } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (typeof alias !== 'string' || !alias.trim() || typeof canonical !== 'string' || !canonical.trim()) {
+    return new Response(JSON.stringify({ error: "Both an alias and a canonical name are required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const aliasId = randomUUID();
+  const { error } = await db.createAssigneeAlias({
+    id: aliasId,
+    user_id: user.id,
+    alias: alias.trim(),
+    canonical: canonical.trim(),
+    parent: typeof parent === 'string' && parent.trim() ? parent.trim() : null,
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ id: aliasId }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as db from '@/lib/db';
+import { parseProvenance } from '@/lib/provenance';
 
 /**
  * GET /api/charts/[chartId]
@@ -37,15 +38,17 @@ export async function GET(
       ? JSON.parse(chartDataField)
       : chartDataField;
 
-    // Return chart configuration for BiomedicalChart component
+    // Return chart configuration for BiomedicalChart (or CitationNetworkChart for "network")
     return NextResponse.json({
       chartType: parsedChartData.chartType || parsedChartData.type,
       title: parsedChartData.title,
       xAxisLabel: parsedChartData.xAxisLabel,
       yAxisLabel: parsedChartData.yAxisLabel,
       dataSeries: parsedChartData.dataSeries,
+      graph: parsedChartData.graph,
       description: parsedChartData.description,
       metadata: parsedChartData.metadata,
+      provenance: parseProvenance((chartData as any).provenance),
     });
   } catch (error: any) {
     console.error('[GET /api/charts/[chartId]] Error:', error);
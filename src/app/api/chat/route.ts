@@ -11,16 +11,20 @@ import { getPolarTrackedModel } from '@/lib/polar-llm-strategy';
 import * as db from '@/lib/db';
 import { isDevelopmentMode } from '@/lib/local-db/local-auth';
 import { saveChatMessages } from '@/lib/db';
+import { verifyConversation } from '@/lib/patents/verification';
+import { createSearchProvider } from '@/lib/search/provider';
+import { createSessionPatentStore } from '@/lib/patents/session-patents';
 
 // 13mins max streaming (vercel limit)
 export const maxDuration = 800;
 
 export async function POST(req: Request) {
   try {
-    const { messages, sessionId, useValyuMode = true }: { messages: BiomedUIMessage[], sessionId?: string, useValyuMode?: boolean } = await req.json();
+    const { messages, sessionId, useValyuMode = true, priorArtMode = false, pinnedCpcClasses = [] }: { messages: BiomedUIMessage[], sessionId?: string, useValyuMode?: boolean, priorArtMode?: boolean, pinnedCpcClasses?: string[] } = await req.json();
     console.log("[Chat API] ========== NEW REQUEST ==========");
     console.log("[Chat API] Received sessionId:", sessionId);
     console.log("[Chat API] Use Valyu Mode:", useValyuMode);
+    console.log("[Chat API] Prior-art Mode:", priorArtMode);
     console.log("[Chat API] Number of messages:", messages.length);
     // console.log(
     //   "[Chat API] Incoming messages:",
@@ -381,6 +385,7 @@ export async function POST(req: Request) {
           id: msg.id,
           role: msg.role,
           content: typeof msg.content === 'string' ? JSON.parse(msg.content) : msg.content,
+          metadata: typeof msg.metadata === 'string' ? JSON.parse(msg.metadata) : msg.metadata,
         })));
 
         // Update session timestamp
@@ -528,8 +533,15 @@ export async function POST(req: Request) {
       - ✅ ALWAYS start directly with the findings report format (see below)
 
       DATA PROCESSING:
-      When you see multiple patent records:
-      - Deduplicate: If two entries have the same patent number and application number, treat them as ONE patent.
+      Patent tool results are already normalized and deduplicated (patentNumber, applicationNumber, title, abstract, claims, assignees, inventors, filingDate, priorityDate, publicationDate, cpcCodes, url). When you see multiple patent records:
+      - Patent families: records sharing a familyId are the same invention (publication, grant, continuations, divisionals). Count families, not documents, in charts and rankings.
+      - Assignees: names are already canonical ("GOOGLE INC." and "Google LLC" are both "Google"), and parentAssignees rolls subsidiaries up to their parent. For top-assignee charts use the tool's assigneeCounts instead of counting by hand.
+      - Claims: use patentClaims for claim scope. Independent claims define the invention; analyse claim 1 and the other independent claims before any dependent claim.
+      - Claim charts: use claimChart to map an independent claim to a product or prior-art reference, then embed the returned csvId.
+      - Comparing patents: use comparePatents for 2-4 patents ("compare", "how do these differ") and embed the returned csvId. Base shared/unique claim language and CPC overlap on its output.
+      - Saved collections: when the user names one of their collections or shortlists, call collectionPatents with that name first, then work on the returned patents (compare, count, chart). Respect the user's notes and tags on each item.
+      - Counts and trends: use aggregatePatents (with chartType) for filing trends, top assignees, CPC or country breakdowns. NEVER count results by hand or type counts into createChart.
+      - Expiry: NEVER estimate when a patent expires. Call patentTerm with the filing and grant dates (plus any PTA, PTE or terminal disclaimer) and report its adjustedExpiry and maintenance fee windows.
       - Discard useless entries: If an entry has almost all fields missing (e.g. patent number, title, filing date, publication date, assignee), ignore it.
       - Respect recency: If the user asks for "recent" patents, prioritize the most recent publication dates. If dates are present, mention the rough timeframe covered (e.g. "Most patents here are from 2022–2024.").
 
@@ -782,6 +794,7 @@ export async function POST(req: Request) {
          - Charts are ALSO saved to the database and MUST be referenced in your markdown response
          - The createChart tool returns a chartId and imageUrl for every chart created
          - YOU MUST ALWAYS embed charts in your response using markdown image syntax: ![Chart Title](/api/charts/{chartId}/image)
+         - The patentCitationGraph, patentTerm and aggregatePatents (with chartType) tools also return a chartId - embed their charts the same way
          - Embed charts at appropriate locations within your response, just like a professional research publication
          - Place charts AFTER the relevant analysis section that discusses the data shown in the chart
          - Charts should enhance and support your written analysis - they are not optional
@@ -851,6 +864,36 @@ export async function POST(req: Request) {
          
          Always use LaTeX for mathematical expressions to ensure proper rendering.`;
 
+    // Prior-art mode: the latest user message is an invention disclosure
+    let disclosure: string | undefined;
+    if (useValyuMode && priorArtMode) {
+      const lastUserMessage = [...messages].reverse().find((msg) => msg.role === 'user');
+      disclosure = lastUserMessage?.parts
+        ?.filter((p: any) => p.type === 'text')
+        .map((p: any) => p.text)
+        .join('\n')
+        .trim();
+
+      systemPrompt += `
+
+      PRIOR-ART MODE:
+      The user's latest message is an invention disclosure, not a question. Run a prior-art search for it:
+      1. Call priorArtSearch once (do not pass the disclosure - it is supplied automatically). Only run extra patentSearch/webSearch calls to fill gaps it reports.
+      2. Embed the coverage matrix it returns with ![csv](csv:csvId).
+      3. Write the narrative: the closest references and which features each discloses (cite them), the features no reference fully discloses, and whether references could plausibly be combined against the disclosure.
+      4. End with a short list of suggested next steps (claims to focus on, additional search angles).
+      Be precise about coverage - never say a feature is disclosed unless the matrix marks it ● Disclosed.`;
+    }
+
+    // Classes pinned in the CPC browser apply to every patentSearch in the chat
+    if (useValyuMode && pinnedCpcClasses.length > 0) {
+      systemPrompt += `
+
+      PINNED CLASSIFICATIONS:
+      The user has pinned these CPC classes as filters for this chat: ${pinnedCpcClasses.join(', ')}.
+      patentSearch applies them automatically when you do not pass cpcClasses. Mention in your answer that results are limited to these classes.`;
+    }
+
     const result = streamText({
       model: selectedModel as any,
       messages: convertToModelMessages(processedMessages),
@@ -859,6 +902,14 @@ export async function POST(req: Request) {
         userId: user?.id,
         userTier,
         sessionId,
+        // Tools that need their own model call (e.g. claimChart) use the chat model
+        model: selectedModel,
+        disclosure,
+        pinnedCpcClasses,
+        // Valyu, the local patent corpus or recorded fixtures depending on env (see lib/search/provider.ts)
+        searchProvider: createSearchProvider({ userId: user?.id, sessionId }),
+        // Patents retrieved so far in the session, for aggregatePatents and comparePatents (see lib/patents/session-patents.ts)
+        sessionPatents: createSessionPatentStore(messages),
       },
       providerOptions,
       // DON'T pass abortSignal - we want the stream to continue even if user switches tabs
@@ -885,6 +936,13 @@ export async function POST(req: Request) {
 
           // The correct pattern: Save ALL messages from the conversation
           // This replaces all messages in the session with the complete, up-to-date conversation
+          // Flag patent numbers in assistant text that no tool call or user message produced
+          const verifications = verifyConversation(allMessages);
+          const latestVerification = verifications[verifications.length - 1];
+          if (latestVerification && latestVerification.unverified.length > 0) {
+            console.warn('[Chat API] Unverified patent numbers in response:', latestVerification.unverified.join(', '));
+          }
+
           const { randomUUID } = await import('crypto');
           const messagesToSave = allMessages.map((message: any, index: number) => {
             // AI SDK v5 uses 'parts' array for UIMessage
@@ -907,6 +965,9 @@ export async function POST(req: Request) {
                 (message as any).processing_time_ms || (message as any).processingTimeMs || null,
               toolCalls: (message as any).toolCalls || [],
               createdAt: (message as any).createdAt || new Date().toISOString(),
+              metadata: verifications[index]
+                ? { ...(message.metadata || {}), patentVerification: verifications[index] }
+                : message.metadata,
             };
           });
 
@@ -0,0 +1,39 @@
+import * as db from '@/lib/db';
+import { DEFAULT_SEARCH_LIMIT, toChatSearchResult } from '@/lib/chat-search';
+
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const query = new URL(req.url).searchParams.get('q')?.trim() || '';
+  if (!query) {
+    return new Response(JSON.stringify({ results: [] }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  try {
+    // Messages saved before search existed have no search text yet
+    const { error: backfillError } = await db.backfillChatSearchText(user.id);
+    if (backfillError) throw backfillError;
+
+    const { data, error } = await db.searchChatHistory(user.id, query, DEFAULT_SEARCH_LIMIT);
+    if (error) throw error;
+
+    const results = (data || []).map(toChatSearchResult);
+    return new Response(JSON.stringify({ results }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import * as db from '@/lib/db';
+import { exportSessionBundle } from '@/lib/session-bundle';
+
+export async function GET(req: Request, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  try {
+    const bundle = await exportSessionBundle(sessionId, user.id);
+    if (!bundle) {
+      return new Response(JSON.stringify({ error: "Session not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    const filename = (bundle.session.title || 'chat')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'chat';
+
+    return new Response(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}.session.json"`
+      }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+}
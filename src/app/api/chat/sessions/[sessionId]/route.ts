@@ -40,12 +40,23 @@ export async function GET(req: Request, { params }: { params: Promise<{ sessionI
       }
     }
 
+    // Metadata is TEXT in SQLite and jsonb in Supabase
+    let metadata = (msg as any).metadata;
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch (e) {
+        metadata = undefined;
+      }
+    }
+
     return {
       id: msg.id,
       role: msg.role,
       parts: parsedContent || [],
       createdAt: (msg as any).created_at || (msg as any).createdAt,
       processing_time_ms: (msg as any).processing_time_ms || (msg as any).processingTimeMs,
+      metadata: metadata || undefined,
     };
   }) || [];
 
@@ -79,7 +90,7 @@ export async function DELETE(req: Request, { params }: { params: Promise<{ sessi
 
 export async function PATCH(req: Request, { params }: { params: Promise<{ sessionId: string }> }) {
   const { sessionId } = await params;
-  const { title } = await req.json();
+  const { title, projectId } = await req.json();
 
   const { data: { user } } = await db.getUser();
 
@@ -89,7 +100,20 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ sessio
     });
   }
 
-  const { error } = await db.updateChatSession(sessionId, user.id, { title });
+  // projectId: string moves the chat into that project, null removes it from its project
+  if (projectId) {
+    const { data: project } = await db.getProject(projectId, user.id);
+    if (!project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404
+      });
+    }
+  }
+
+  const { error } = await db.updateChatSession(sessionId, user.id, {
+    title,
+    ...(projectId !== undefined ? { project_id: projectId || null } : {}),
+  });
 
   if (error) {
     return new Response(JSON.stringify({ error: error.message || error }), {
@@ -0,0 +1,55 @@
+import * as db from '@/lib/db';
+import { importSessionBundle, validateSessionBundle } from '@/lib/session-bundle';
+
+/**
+ * POST /api/chat/sessions/import
+ * Body: { bundle, projectId? } where bundle is a file from the export route.
+ * Re-creates the session under fresh IDs and returns the new session ID.
+ */
+export async function POST(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const invalid = validateSessionBundle(body?.bundle);
+  if (invalid) {
+    return new Response(JSON.stringify({ error: invalid }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  // A project that no longer exists (deleted in another tab) imports the chat unassigned
+  let projectId: string | null = null;
+  if (body.projectId) {
+    const { data: project } = await db.getProject(body.projectId, user.id);
+    projectId = project ? body.projectId : null;
+  }
+
+  try {
+    const sessionId = await importSessionBundle(body.bundle, user.id, { projectId });
+    return new Response(JSON.stringify({ sessionId }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+}
@@ -27,6 +27,7 @@ export async function GET(req: Request) {
     created_at: s.created_at || s.createdAt,
     updated_at: s.updated_at || s.updatedAt,
     last_message_at: s.last_message_at || s.lastMessageAt,
+    project_id: s.project_id || s.projectId || null,
   })) || [];
 
   return new Response(JSON.stringify({ sessions: normalizedSessions }), {
@@ -35,7 +36,7 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const { title = "New Chat" } = await req.json();
+  const { title = "New Chat", projectId } = await req.json();
 
   const { data: { user } } = await db.getUser();
 
@@ -46,11 +47,19 @@ export async function POST(req: Request) {
     });
   }
 
+  // A project that no longer exists (deleted in another tab) starts the chat unassigned
+  let project_id: string | null = null;
+  if (projectId) {
+    const { data: project } = await db.getProject(projectId, user.id);
+    project_id = project ? projectId : null;
+  }
+
   const sessionId = randomUUID();
   const { error } = await db.createChatSession({
     id: sessionId,
     user_id: user.id,
-    title
+    title,
+    project_id
   });
 
   if (error) {
@@ -0,0 +1,78 @@
+import * as db from '@/lib/db';
+import { normalizeTags } from '@/lib/patents/collections';
+
+type ItemParams = { params: Promise<{ collectionId: string; itemId: string }> };
+
+export async function PATCH(req: Request, { params }: ItemParams) {
+  const { collectionId, itemId } = await params;
+  const { notes, tags } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: collection } = await db.getPatentCollection(collectionId, user.id);
+
+  if (!collection) {
+    return new Response(JSON.stringify({ error: "Collection not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.updatePatentCollectionItem(itemId, collectionId, {
+    ...(typeof notes === 'string' ? { notes: notes.trim() || null } : {}),
+    ...(tags !== undefined ? { tags: normalizeTags(tags) } : {}),
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function DELETE(req: Request, { params }: ItemParams) {
+  const { collectionId, itemId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: collection } = await db.getPatentCollection(collectionId, user.id);
+
+  if (!collection) {
+    return new Response(JSON.stringify({ error: "Collection not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.deletePatentCollectionItem(itemId, collectionId);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
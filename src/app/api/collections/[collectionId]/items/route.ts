@@ -0,0 +1,73 @@
+import * as db from '@/lib/db';
+import { randomUUID } from 'crypto';
+import { isPatentRecord } from '@/lib/patents/record';
+import { findCollectionItem, loadPatentCollection, normalizeTags } from '@/lib/patents/collections';
+
+/**
+ * POST /api/collections/[collectionId]/items
+ * Save a patent to a collection. Saving a patent the collection already holds
+ * refreshes its snapshot and adds any new tags instead of duplicating it.
+ *
+ * Request body: { patent: PatentRecord, notes?: string, tags?: string[] | string }
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ collectionId: string }> }) {
+  const { collectionId } = await params;
+  const { patent, notes, tags } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (!isPatentRecord(patent) || !patent.patentNumber) {
+    return new Response(JSON.stringify({ error: "A patent record is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const collection = await loadPatentCollection(collectionId, user.id);
+
+  if (!collection) {
+    return new Response(JSON.stringify({ error: "Collection not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const existing = findCollectionItem(collection, patent.patentNumber);
+  const itemId = existing?.id || randomUUID();
+  const { error } = existing
+    ? await db.updatePatentCollectionItem(existing.id, collectionId, {
+        snapshot: patent,
+        tags: normalizeTags([...existing.tags, ...normalizeTags(tags)]),
+        ...(typeof notes === 'string' && notes.trim() ? { notes: notes.trim() } : {}),
+      })
+    : await db.createPatentCollectionItem({
+        id: itemId,
+        collection_id: collectionId,
+        patent_number: patent.patentNumber,
+        snapshot: patent,
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+        tags: normalizeTags(tags),
+      });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  // Keeps recently used collections at the top of the list
+  await db.updatePatentCollection(collectionId, user.id, {});
+
+  return new Response(JSON.stringify({ itemId, created: !existing }), {
+    status: existing ? 200 : 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,95 @@
+import * as db from '@/lib/db';
+import { loadPatentCollection } from '@/lib/patents/collections';
+
+export async function GET(req: Request, { params }: { params: Promise<{ collectionId: string }> }) {
+  const { collectionId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const collection = await loadPatentCollection(collectionId, user.id);
+
+  if (!collection) {
+    return new Response(JSON.stringify({ error: "Collection not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ collection }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ collectionId: string }> }) {
+  const { collectionId } = await params;
+  const { name, description, projectId } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (projectId) {
+    const { data: project } = await db.getProject(projectId, user.id);
+    if (!project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+
+  const { error } = await db.updatePatentCollection(collectionId, user.id, {
+    ...(typeof name === 'string' && name.trim() ? { name: name.trim().slice(0, 120) } : {}),
+    ...(typeof description === 'string' ? { description: description.trim() || null } : {}),
+    ...(projectId !== undefined ? { project_id: projectId || null } : {}),
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ collectionId: string }> }) {
+  const { collectionId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.deletePatentCollection(collectionId, user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
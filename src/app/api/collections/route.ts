@@ -0,0 +1,75 @@
+import * as db from '@/lib/db';
+import { randomUUID } from 'crypto';
+import { loadPatentCollection, loadPatentCollections } from '@/lib/patents/collections';
+
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  try {
+    const collections = await loadPatentCollections(user.id);
+    return new Response(JSON.stringify({ collections }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+}
+
+export async function POST(req: Request) {
+  const { name, description, projectId } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return new Response(JSON.stringify({ error: "A collection name is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  let project_id: string | null = null;
+  if (projectId) {
+    const { data: project } = await db.getProject(projectId, user.id);
+    project_id = project ? projectId : null;
+  }
+
+  const collectionId = randomUUID();
+  const { error } = await db.createPatentCollection({
+    id: collectionId,
+    user_id: user.id,
+    name: name.trim().slice(0, 120),
+    description: typeof description === 'string' && description.trim() ? description.trim() : null,
+    project_id,
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const collection = await loadPatentCollection(collectionId, user.id);
+
+  return new Response(JSON.stringify({ collection }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as db from '@/lib/db';
+import { parseProvenance } from '@/lib/provenance';
 
 /**
  * GET /api/csvs/[csvId]
@@ -64,6 +65,7 @@ export async function GET(
       headers: parsedHeaders,
       rows: parsedRows,
       createdAt: createdAt,
+      provenance: parseProvenance((csvData as any).provenance),
     });
   } catch (error: any) {
     console.error('[GET /api/csvs/[csvId]] Error:', error);
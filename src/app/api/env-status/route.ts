@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
+import { createSearchProvider } from "@/lib/search/provider";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   try {
     const isDevelopment = process.env.NEXT_PUBLIC_APP_MODE === 'development';
-    const valyuKeyPresent = !!process.env.VALYU_API_KEY;
+    // The local patent corpus or recorded fixtures stand in for a Valyu key
+    const valyuKeyPresent = !!createSearchProvider();
     const daytonaKeyPresent = !!process.env.DAYTONA_API_KEY;
     const openaiKeyPresent = !!process.env.OPENAI_API_KEY;
     const aiGatewayKeyPresent = !!process.env.AI_GATEWAY_API_KEY;
@@ -0,0 +1,116 @@
+import * as db from '@/lib/db';
+import { parseJson } from '@/lib/db-rows';
+import { randomUUID } from 'crypto';
+import { PatentRecord } from '@/lib/patents/record';
+import { MAX_COMPARED_PATENTS, MIN_COMPARED_PATENTS, comparePatents, comparisonTable } from '@/lib/patents/compare';
+import { matchesPatentNumber } from '@/lib/patents/lookup';
+import { createSessionPatentStore } from '@/lib/patents/session-patents';
+import { createProvenance } from '@/lib/provenance';
+
+/**
+ * POST /api/patents/compare
+ * Save a comparison opened from a search results carousel as a CSV table.
+ * Only patent numbers come from the client: the records are resolved from
+ * the tool results saved in the session, so the table is built from
+ * retrieved data alone.
+ *
+ * Request body: { patentNumbers: string[], sessionId: string }
+ */
+export async function POST(req: Request) {
+  const { patentNumbers, sessionId } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (typeof sessionId !== 'string' || !sessionId) {
+    return new Response(JSON.stringify({ error: "A session is required to save a comparison" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (
+    !Array.isArray(patentNumbers) ||
+    patentNumbers.length < MIN_COMPARED_PATENTS ||
+    patentNumbers.length > MAX_COMPARED_PATENTS ||
+    !patentNumbers.every((number) => typeof number === 'string' && number)
+  ) {
+    return new Response(JSON.stringify({ error: `Select ${MIN_COMPARED_PATENTS}-${MAX_COMPARED_PATENTS} patents to compare` }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: session } = await db.getChatSession(sessionId, user.id);
+  if (!session) {
+    return new Response(JSON.stringify({ error: "Session not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: messages, error: messagesError } = await db.getChatMessages(sessionId);
+  if (messagesError) {
+    return new Response(JSON.stringify({ error: (messagesError as any).message || messagesError }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const store = createSessionPatentStore((messages || []).map((row: any) => ({ parts: parseJson<any[]>(row.content, []) })));
+  const patents: PatentRecord[] = [];
+  const missing: string[] = [];
+  for (const number of patentNumbers as string[]) {
+    const record = store.all().find((candidate) => matchesPatentNumber(candidate, number));
+    if (record) patents.push(record);
+    else missing.push(number);
+  }
+  if (missing.length > 0) {
+    return new Response(JSON.stringify({ error: `Not retrieved in this session: ${missing.join(', ')}` }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  let table;
+  try {
+    table = comparisonTable(comparePatents(patents));
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid comparison' }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const csvId = randomUUID();
+  const { error } = await db.createCSV({
+    id: csvId,
+    user_id: user.id,
+    session_id: sessionId,
+    ...table,
+    provenance: createProvenance({
+      method: 'deterministic',
+      tool: 'comparePatents',
+      patentNumbers: patents.map((patent) => patent.patentNumber),
+      sourceToolCallIds: store.toolCallIdsFor(patents.map((patent) => patent.patentNumber)),
+    }),
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ csvId, title: table.title }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,69 @@
+import * as db from '@/lib/db';
+import { randomUUID } from 'crypto';
+import { toProject } from '@/lib/projects';
+
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: projects, error } = await db.getProjects(user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ projects: (projects || []).map(toProject) }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function POST(req: Request) {
+  const { name, description } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return new Response(JSON.stringify({ error: "A project name is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const projectId = randomUUID();
+  const { error } = await db.createProject({
+    id: projectId,
+    user_id: user.id,
+    name: name.trim().slice(0, 120),
+    description: typeof description === 'string' && description.trim() ? description.trim() : null,
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: project } = await db.getProject(projectId, user.id);
+
+  return new Response(JSON.stringify({ project: toProject(project) }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Browser } from 'puppeteer';
+import * as db from '@/lib/db';
+import { launchReportBrowser, renderChartAsImage } from '@/lib/reports/charts';
+import { buildReportDocx, DOCX_CONTENT_TYPE } from '@/lib/reports/docx';
+import { buildReportHtml } from '@/lib/reports/html';
+import { buildReportMarkdown } from '@/lib/reports/markdown';
+import { buildSessionReport, sanitizeFileName, SessionReport } from '@/lib/reports/session-report';
+import { createZip } from '@/lib/reports/zip';
+
+// Chart rendering for DOCX can take as long as the PDF route
+export const maxDuration = 300; // 5 minutes
+
+const EXPORT_FORMATS = ['docx', 'html', 'md'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Chart PNGs (base64) for the DOCX export. Without Chrome/Chromium the
+ * document is still built, with a note in place of each chart.
+ */
+async function renderChartPngs(report: SessionReport): Promise<Map<string, string>> {
+  const chartImages = new Map<string, string>();
+  const chartIds = Array.from(report.charts.keys());
+  if (chartIds.length === 0) return chartImages;
+
+  let browser: Browser;
+  try {
+    browser = await launchReportBrowser();
+  } catch (error) {
+    console.warn('[Report Export] Browser unavailable, exporting without chart images:', error);
+    return chartImages;
+  }
+
+  try {
+    const images = await Promise.all(chartIds.map(chartId => renderChartAsImage(browser, chartId, report.charts.get(chartId))));
+    chartIds.forEach((chartId, index) => {
+      if (images[index]) chartImages.set(chartId, images[index]);
+    });
+    console.log('[Report Export] Charts rendered:', chartImages.size, '/', chartIds.length);
+  } finally {
+    await browser.close();
+  }
+  return chartImages;
+}
+
+/**
+ * POST /api/reports/export
+ * Export a chat session as an editable report without the PDF pipeline
+ *
+ * Request body: { sessionId: string, format: 'docx' | 'html' | 'md' }
+ * Response: .docx, standalone .html, or .md (a .zip with a charts/ folder
+ * when the report has charts)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, format } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: { user } } = await db.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { data: report, error: reportError } = await buildSessionReport(sessionId, user.id);
+    if (reportError || !report) {
+      return NextResponse.json(
+        { error: reportError?.message || 'Failed to assemble report' },
+        { status: reportError?.status || 500 }
+      );
+    }
+
+    const fileName = sanitizeFileName(report.title);
+
+    switch (format as ExportFormat) {
+      case 'docx': {
+        const docx = buildReportDocx(report, await renderChartPngs(report));
+        return new NextResponse(new Uint8Array(docx), {
+          headers: {
+            'Content-Type': DOCX_CONTENT_TYPE,
+            'Content-Disposition': `attachment; filename="${fileName}.docx"`,
+          },
+        });
+      }
+
+      case 'html':
+        return new NextResponse(buildReportHtml(report), {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${fileName}.html"`,
+          },
+        });
+
+      case 'md': {
+        const { markdown, assets } = buildReportMarkdown(report);
+        if (assets.length === 0) {
+          return new NextResponse(markdown, {
+            headers: {
+              'Content-Type': 'text/markdown; charset=utf-8',
+              'Content-Disposition': `attachment; filename="${fileName}.md"`,
+            },
+          });
+        }
+        const zip = createZip([{ path: `${fileName}.md`, data: markdown }, ...assets]);
+        return new NextResponse(new Uint8Array(zip), {
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${fileName}.zip"`,
+          },
+        });
+      }
+    }
+  } catch (error: any) {
+    console.error('[Report Export] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export report',
+        details: error?.message || 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
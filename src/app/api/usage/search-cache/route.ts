@@ -0,0 +1,57 @@
+import * as db from '@/lib/db';
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/usage/search-cache - Searches served from the search cache for the
+ * current user and the dollars they saved
+ */
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: hits, error } = await db.getSearchCacheHits(user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  // Normalize field names (SQLite uses camelCase, Supabase uses snake_case)
+  const normalizedHits = (hits || []).map((h: any) => ({
+    source: h.source as string,
+    query: h.query as string,
+    savedDollars: Number(h.saved_dollars ?? h.savedDollars ?? 0),
+    createdAt: new Date(h.created_at || h.createdAt),
+  }));
+
+  const summarize = (list: typeof normalizedHits) => ({
+    hits: list.length,
+    savedDollars: list.reduce((sum, h) => sum + h.savedDollars, 0),
+  });
+
+  const bySource: Record<string, { hits: number; savedDollars: number }> = {};
+  for (const hit of normalizedHits) {
+    bySource[hit.source] = bySource[hit.source] || { hits: 0, savedDollars: 0 };
+    bySource[hit.source].hits++;
+    bySource[hit.source].savedDollars += hit.savedDollars;
+  }
+
+  const since = Date.now() - THIRTY_DAYS_MS;
+  return new Response(JSON.stringify({
+    total: summarize(normalizedHits),
+    last30Days: summarize(normalizedHits.filter((h) => h.createdAt.getTime() >= since)),
+    bySource,
+    recent: normalizedHits.slice(0, 10),
+  }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -0,0 +1,89 @@
+import * as db from '@/lib/db';
+import { toPatentWatch, toPatentWatchSnapshot } from '@/lib/patents/watches';
+
+export async function GET(req: Request, { params }: { params: Promise<{ watchId: string }> }) {
+  const { watchId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: watch, error } = await db.getPatentWatch(watchId, user.id);
+
+  if (error || !watch) {
+    return new Response(JSON.stringify({ error: "Watch not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: snapshots } = await db.getPatentWatchSnapshots(watchId);
+
+  return new Response(JSON.stringify({
+    watch: toPatentWatch(watch),
+    snapshots: (snapshots || []).map(toPatentWatchSnapshot),
+  }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ watchId: string }> }) {
+  const { watchId } = await params;
+  const { name, markSeen } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.updatePatentWatch(watchId, user.id, {
+    ...(typeof name === 'string' && name.trim() ? { name: name.trim() } : {}),
+    ...(markSeen ? { unseen_count: 0 } : {}),
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ watchId: string }> }) {
+  const { watchId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { error } = await db.deletePatentWatch(watchId, user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
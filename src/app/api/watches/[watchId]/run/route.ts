@@ -0,0 +1,51 @@
+import * as db from '@/lib/db';
+import { runPatentWatch, toPatentWatch, trackPatentWatchUsage } from '@/lib/patents/watches';
+
+export async function POST(req: Request, { params }: { params: Promise<{ watchId: string }> }) {
+  const { watchId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: row, error } = await db.getPatentWatch(watchId, user.id);
+
+  if (error || !row) {
+    return new Response(JSON.stringify({ error: "Watch not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const watch = toPatentWatch(row);
+
+  try {
+    const run = await runPatentWatch(watch, user.id);
+    await trackPatentWatchUsage(watch, user.id, run);
+
+    const { data: updated } = await db.getPatentWatch(watchId, user.id);
+
+    return new Response(JSON.stringify({
+      watch: toPatentWatch(updated || row),
+      snapshotId: run.snapshotId,
+      resultCount: run.resultCount,
+      baseline: run.baseline,
+      newPatents: run.newPatents,
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  } catch (runError) {
+    console.error('[Watches API] Run failed:', runError);
+    return new Response(JSON.stringify({
+      error: runError instanceof Error ? runError.message : 'Failed to run watch'
+    }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import * as db from '@/lib/db';
+import { randomUUID } from 'crypto';
+import { compactFilters } from '@/lib/patents/filters';
+import { runPatentWatch, toPatentWatch, trackPatentWatchUsage } from '@/lib/patents/watches';
+
+export async function GET(req: Request) {
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: watches, error } = await db.getPatentWatches(user.id);
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ watches: (watches || []).map(toPatentWatch) }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+export async function POST(req: Request) {
+  const { name, query, filters = {}, maxResults = 15 } = await req.json();
+
+  const { data: { user } } = await db.getUser();
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  if (typeof query !== 'string' || !query.trim()) {
+    return new Response(JSON.stringify({ error: "A search query is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const watchId = randomUUID();
+  const { error } = await db.createPatentWatch({
+    id: watchId,
+    user_id: user.id,
+    name: (typeof name === 'string' && name.trim()) || query.trim().slice(0, 80),
+    query: query.trim(),
+    filters: compactFilters(filters),
+    max_results: Math.min(Math.max(Number(maxResults) || 15, 1), 40),
+  });
+
+  if (error) {
+    return new Response(JSON.stringify({ error: (error as any).message || error }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: row } = await db.getPatentWatch(watchId, user.id);
+  const watch = toPatentWatch(row);
+
+  // The first run records the baseline, so later runs only report what is new
+  try {
+    const run = await runPatentWatch(watch, user.id);
+    await trackPatentWatchUsage(watch, user.id, run);
+  } catch (runError) {
+    console.error('[Watches API] Baseline run failed:', runError);
+  }
+
+  const { data: updated } = await db.getPatentWatch(watchId, user.id);
+
+  return new Response(JSON.stringify({ watch: toPatentWatch(updated || row) }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" }
+  });
+}
@@ -208,9 +208,15 @@ function HomeContent() {
     }
   }, [hasMessages, autoTiltTriggered]);
 
-  const updateUrlWithSession = useCallback((sessionId: string | null) => {
+  const updateUrlWithSession = useCallback((sessionId: string | null, messageId?: string) => {
     startTransition(() => {
       const url = new URL(window.location.href);
+      // Set when opening a chat search result, so the chat scrolls to the match
+      if (messageId) {
+        url.searchParams.set('messageId', messageId);
+      } else {
+        url.searchParams.delete('messageId');
+      }
       if (sessionId) {
         url.searchParams.set('chatId', sessionId);
       } else {
@@ -227,9 +233,9 @@ function HomeContent() {
     updateUrlWithSession(null);
   }, [updateUrlWithSession]);
 
-  const handleSessionSelect = useCallback((sessionId: string) => {
+  const handleSessionSelect = useCallback((sessionId: string, messageId?: string) => {
     setCurrentSessionId(sessionId);
-    updateUrlWithSession(sessionId);
+    updateUrlWithSession(sessionId, messageId);
   }, [updateUrlWithSession]);
 
   const handleNewChat = useCallback(() => {
@@ -0,0 +1,235 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ArrowLeft, ExternalLink, MessageSquare } from 'lucide-react';
+import * as db from '@/lib/db';
+import { ClaimTree } from '@/components/claim-tree';
+import { PatentDetail, getPatentDetail } from '@/lib/patents/detail';
+
+interface PatentPageProps {
+  params: Promise<{ number: string }>;
+}
+
+export async function generateMetadata({ params }: PatentPageProps): Promise<Metadata> {
+  const { number } = await params;
+  return { title: decodeURIComponent(number) };
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="mb-10">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Field({ label, value }: { label: string; value?: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="text-sm text-gray-900 dark:text-gray-100 mt-0.5">{value || '-'}</dd>
+    </div>
+  );
+}
+
+function patentHref(patentNumber: string): string {
+  return `/patents/${encodeURIComponent(patentNumber)}`;
+}
+
+function CitingSessions({ sessions }: { sessions: PatentDetail['citingSessions'] }) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Not cited in any of your chats yet.</p>;
+  }
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-800 rounded-lg">
+      {sessions.map((session) => (
+        <li key={session.sessionId}>
+          <Link
+            href={`/?chatId=${session.sessionId}`}
+            className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
+          >
+            <MessageSquare className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="text-sm text-gray-900 dark:text-gray-100 truncate flex-1">{session.title}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+              {session.mentions} {session.mentions === 1 ? 'message' : 'messages'}
+              {session.lastCitedAt && ` · ${session.lastCitedAt.slice(0, 10)}`}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * /patents/[number] - one patent with its claims, drawings, family and the
+ * chats that cited it. Citation hover cards link here.
+ */
+export default async function PatentPage({ params }: PatentPageProps) {
+  const { number } = await params;
+  const patentNumber = decodeURIComponent(number).trim();
+
+  const { data: { user } } = await db.getUser();
+
+  let detail: PatentDetail | null = null;
+  if (user) {
+    try {
+      detail = await getPatentDetail(user.id, patentNumber);
+    } catch (error) {
+      console.error('[Patent Page] Failed to load patent:', error);
+    }
+  }
+  const record = detail?.record;
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-950">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 mb-8"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to chat
+        </Link>
+
+        {!user ? (
+          <div className="text-center py-16">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{patentNumber}</h1>
+            <p className="text-gray-600 dark:text-gray-400">Sign in to view patent details and the chats that cite this patent.</p>
+          </div>
+        ) : !detail || !record ? (
+          <div className="py-16">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{patentNumber}</h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-10">
+              {detail ? 'This patent could not be found in USPTO data.' : 'Patent details could not be loaded. Try again later.'}
+            </p>
+            {detail && (
+              <Section title="Cited in">
+                <CitingSessions sessions={detail.citingSessions} />
+              </Section>
+            )}
+          </div>
+        ) : (
+          <>
+            <header className="mb-10">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="font-mono text-sm text-blue-700 dark:text-blue-400">{record.patentNumber}</span>
+                {record.kindCode && (
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+                    {record.kindCode}
+                  </span>
+                )}
+                {detail.recordSource === 'session' && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">As retrieved in your chats</span>
+                )}
+              </div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">{record.title}</h1>
+              {record.url && (
+                <a
+                  href={record.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  <ExternalLink className="h-3.5 w-3.5" />
+                  View source
+                </a>
+              )}
+            </header>
+
+            <Section title="Details">
+              <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-4">
+                <Field label="Assignees" value={record.assignees.join(', ')} />
+                <Field label="Inventors" value={record.inventors.join(', ')} />
+                <Field label="Application number" value={record.applicationNumber} />
+                <Field label="Priority date" value={record.priorityDate} />
+                <Field label="Filing date" value={record.filingDate} />
+                <Field label="Publication date" value={record.publicationDate} />
+                <Field label="Inventor countries" value={record.inventorCountries.join(', ')} />
+                <Field label="Backward citations" value={record.citedPatents.length || undefined} />
+                <Field label="Forward citations" value={record.citedBy.length || undefined} />
+              </dl>
+              {record.cpcCodes.length > 0 && (
+                <div className="mt-6">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1.5">CPC classifications</div>
+                  <ul className="space-y-1">
+                    {record.cpcCodes.map((code) => (
+                      <li key={code} className="text-sm">
+                        <span className="font-mono text-gray-900 dark:text-gray-100">{code}</span>
+                        {record.cpcTitles[code] && (
+                          <span className="text-gray-500 dark:text-gray-400"> - {record.cpcTitles[code]}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </Section>
+
+            {record.abstract && (
+              <Section title="Abstract">
+                <p className="text-gray-700 dark:text-gray-300 leading-relaxed">{record.abstract}</p>
+              </Section>
+            )}
+
+            <Section title="Claims">
+              {record.claims.length > 0 ? (
+                <ClaimTree claims={record.claims} />
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No claims text is available for this patent.</p>
+              )}
+            </Section>
+
+            {detail.drawings.length > 0 && (
+              <Section title="Drawings">
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {detail.drawings.map((url) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block overflow-hidden rounded-lg border border-gray-200 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-600"
+                    >
+                      <Image src={url} alt={`${record.patentNumber} drawing`} width={400} height={300} className="w-full h-48 object-contain bg-white" />
+                    </a>
+                  ))}
+                </div>
+              </Section>
+            )}
+
+            <Section title="Family">
+              {detail.familyMembers.length > 0 ? (
+                <ul className="space-y-1.5">
+                  {detail.familyMembers.map((member) => (
+                    <li key={member.patentNumber} className="text-sm">
+                      <Link href={patentHref(member.patentNumber)} className="font-mono text-blue-600 dark:text-blue-400 hover:underline">
+                        {member.patentNumber}
+                      </Link>
+                      <span className="text-gray-600 dark:text-gray-400"> - {member.title}</span>
+                      {(member.publicationDate || member.filingDate) && (
+                        <span className="text-gray-400"> ({member.publicationDate || member.filingDate})</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No other family members found.</p>
+              )}
+              {record.relatedApplications.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                  Related applications: {record.relatedApplications.join(', ')}
+                </p>
+              )}
+            </Section>
+
+            <Section title="Cited in">
+              <CitingSessions sessions={detail.citingSessions} />
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeft, BarChart3, Bookmark, MessageSquare, Table } from 'lucide-react';
+import * as db from '@/lib/db';
+import { describeProvenanceMethod } from '@/lib/provenance';
+import { ProjectOverview, getProjectOverview } from '@/lib/projects';
+import { ProjectSettings } from '@/components/project-settings';
+
+interface ProjectPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+export const metadata: Metadata = { title: 'Project' };
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  return (
+    <section className="mb-10">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+        {title} <span className="text-gray-400 dark:text-gray-500 font-normal">({count})</span>
+      </h2>
+      {children}
+    </section>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-gray-500 dark:text-gray-400">{children}</p>;
+}
+
+function formatDate(value: string | null): string {
+  return value ? value.slice(0, 10) : '';
+}
+
+function Artifacts({ artifacts }: { artifacts: ProjectOverview['artifacts'] }) {
+  if (artifacts.length === 0) {
+    return <Empty>Charts and tables created in this project&apos;s chats will appear here.</Empty>;
+  }
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-800 rounded-lg">
+      {artifacts.map((artifact) => (
+        <li key={`${artifact.kind}-${artifact.id}`}>
+          <Link
+            href={`/?chatId=${artifact.sessionId}`}
+            className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
+          >
+            {artifact.kind === 'chart' ? (
+              <BarChart3 className="h-4 w-4 text-cyan-500 flex-shrink-0" />
+            ) : (
+              <Table className="h-4 w-4 text-teal-500 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-gray-900 dark:text-gray-100 truncate">{artifact.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {artifact.detail} · in {artifact.sessionTitle}
+              </div>
+            </div>
+            <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 text-right">
+              {artifact.provenance && (
+                <span className="block">{describeProvenanceMethod(artifact.provenance.method)}</span>
+              )}
+              {formatDate(artifact.createdAt)}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * /projects/[projectId] - everything one project owns: its chats, the
+ * charts and CSVs produced across them, and its patent collections.
+ */
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const { projectId } = await params;
+
+  const { data: { user } } = await db.getUser();
+
+  let overview: ProjectOverview | null = null;
+  if (user) {
+    try {
+      overview = await getProjectOverview(user.id, projectId);
+    } catch (error) {
+      console.error('[Project Page] Failed to load project:', error);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-950">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 mb-8"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to chat
+        </Link>
+
+        {!user ? (
+          <div className="text-center py-16">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Project</h1>
+            <p className="text-gray-600 dark:text-gray-400">Sign in to view your projects.</p>
+          </div>
+        ) : !overview ? (
+          <div className="text-center py-16">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Project not found</h1>
+            <p className="text-gray-600 dark:text-gray-400">It may have been deleted.</p>
+          </div>
+        ) : (
+          <>
+            <header className="mb-10">
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">{overview.project.name}</h1>
+              {overview.project.description && (
+                <p className="text-gray-600 dark:text-gray-400 mt-2">{overview.project.description}</p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                {overview.sessions.length} chats · {overview.artifacts.length} charts and tables · {overview.collections.length} collections
+              </p>
+            </header>
+
+            <Section title="Chats" count={overview.sessions.length}>
+              {overview.sessions.length === 0 ? (
+                <Empty>No chats yet. Pick this project in the sidebar and start a new chat, or add existing chats below.</Empty>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-800 rounded-lg">
+                  {overview.sessions.map((session) => (
+                    <li key={session.id}>
+                      <Link
+                        href={`/?chatId=${session.id}`}
+                        className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
+                      >
+                        <MessageSquare className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        <span className="text-sm text-gray-900 dark:text-gray-100 truncate flex-1">{session.title}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          {formatDate(session.lastMessageAt || session.createdAt)}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title="Charts & tables" count={overview.artifacts.length}>
+              <Artifacts artifacts={overview.artifacts} />
+            </Section>
+
+            <Section title="Collections" count={overview.collections.length}>
+              {overview.collections.length === 0 ? (
+                <Empty>Collections created while this project is active belong to it.</Empty>
+              ) : (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {overview.collections.map((collection) => (
+                    <li key={collection.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-800">
+                      <div className="flex items-center gap-2">
+                        <Bookmark className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                        <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{collection.name}</span>
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {collection.items.map((item) => (
+                          <li key={item.id} className="text-xs truncate">
+                            <Link
+                              href={`/patents/${encodeURIComponent(item.patentNumber)}`}
+                              className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {item.patentNumber}
+                            </Link>
+                            <span className="text-gray-600 dark:text-gray-400"> - {item.snapshot.title}</span>
+                          </li>
+                        ))}
+                        {collection.items.length === 0 && <li className="text-xs text-gray-500">Empty</li>}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <ProjectSettings project={overview.project} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
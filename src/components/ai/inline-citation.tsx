@@ -10,7 +10,8 @@ import {
   useCarousel,
 } from "@/components/ui/carousel";
 import { cn } from "@/lib/utils";
-import { ExternalLink, FileText, ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { ExternalLink, FileText, ChevronLeft, ChevronRight, ScrollText } from "lucide-react";
 import { Favicon } from "@/components/favicon";
 
 // Container for citation text and card
@@ -299,8 +300,10 @@ export const InlineCitationSource = React.forwardRef<
     authors?: string[];
     doi?: string;
     relevanceScore?: number;
+    /** Links to the patent's detail page when set */
+    patentNumber?: string;
   }
->(({ title, url, description, date, authors, doi, relevanceScore, className, ...props }, ref) => {
+>(({ title, url, description, date, authors, doi, relevanceScore, patentNumber, className, ...props }, ref) => {
   const getHostname = (url: string) => {
     try {
       const urlObj = new URL(url);
@@ -372,15 +375,26 @@ export const InlineCitationSource = React.forwardRef<
         </div>
       )}
 
-      <a
-        href={url}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="inline-flex items-center gap-1 text-[11px] text-blue-600 dark:text-blue-400 hover:underline"
-      >
-        <ExternalLink className="h-3 w-3" />
-        View source
-      </a>
+      <div className="flex items-center gap-3">
+        {patentNumber && (
+          <Link
+            href={`/patents/${encodeURIComponent(patentNumber)}`}
+            className="inline-flex items-center gap-1 text-[11px] text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <ScrollText className="h-3 w-3" />
+            Patent details
+          </Link>
+        )}
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-[11px] text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <ExternalLink className="h-3 w-3" />
+          View source
+        </a>
+      </div>
     </div>
   );
 });
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bot, MessageSquare, User } from 'lucide-react';
+import { createClient } from '@/utils/supabase/client-wrapper';
+import { splitHighlights, type ChatSearchResult } from '@/lib/chat-search';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlights(snippet).map((segment, i) =>
+        segment.highlight ? (
+          <mark key={i} className="bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Full-text search results over all chat history, shown in the sidebar's
+ * History dropdown while the user types. Selecting a message match opens its
+ * chat scrolled to that message.
+ */
+export function ChatSearchResults({
+  query,
+  onSelect,
+}: {
+  query: string;
+  onSelect: (sessionId: string, messageId?: string) => void;
+}) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results = [], isFetching, isFetched } = useQuery({
+    queryKey: ['chat-search', debouncedQuery],
+    queryFn: async () => {
+      const response = await fetch(`/api/chat/search?q=${encodeURIComponent(debouncedQuery)}`, {
+        headers: await authHeaders(),
+      });
+      if (!response.ok) return [];
+      const { results } = await response.json();
+      return (results || []) as ChatSearchResult[];
+    },
+    enabled: debouncedQuery.length > 0,
+    staleTime: 30_000,
+  });
+
+  if (results.length === 0) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+          {isFetching || !isFetched ? 'Searching…' : 'No matches'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1 py-2">
+      {results.map((result) => {
+        const Icon = !result.messageId ? MessageSquare : result.role === 'user' ? User : Bot;
+        return (
+          <div
+            key={`${result.sessionId}-${result.messageId ?? 'title'}`}
+            onClick={() => onSelect(result.sessionId, result.messageId ?? undefined)}
+            className="flex items-start gap-3 p-3 rounded-xl hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm cursor-pointer transition-colors border border-transparent hover:border-blue-200/30 dark:hover:border-purple-500/20"
+          >
+            <Icon className="h-4 w-4 mt-0.5 text-gray-400 dark:text-gray-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                {result.messageId ? result.sessionTitle : <Snippet snippet={result.snippet} />}
+              </div>
+              {result.messageId && (
+                <div className="text-xs text-gray-600 dark:text-gray-400 mt-0.5 line-clamp-3 break-words">
+                  <Snippet snippet={result.snippet} />
+                </div>
+              )}
+              {result.createdAt && (
+                <div className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                  {new Date(result.createdAt).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { useLocalProvider } from "@/lib/ollama-context";
 import { useAuthStore } from "@/lib/stores/use-auth-store";
+import { useProjectStore } from "@/lib/stores/use-project-store";
 import { useSubscription } from "@/hooks/use-subscription";
 import { createClient } from '@/utils/supabase/client-wrapper';
 import { track } from '@vercel/analytics';
@@ -30,6 +31,12 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import { VirtualizedContentDialog } from "@/components/virtualized-content-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   useState,
   useRef,
@@ -67,6 +74,15 @@ import {
   BarChart3,
   Check,
   X,
+  Filter,
+  AlertTriangle,
+  Network,
+  ListTree,
+  CalendarClock,
+  FolderTree,
+  FileSearch,
+  Columns3,
+  Bookmark,
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -74,9 +90,18 @@ import rehypeRaw from "rehype-raw";
 import "katex/dist/katex.min.css";
 import katex from "katex";
 import { BiomedicalChart } from "@/components/financial-chart";
+import { CitationNetworkChart } from "@/components/citation-network-chart";
+import { ClaimTree } from "@/components/claim-tree";
+import { PatentComparisonDialog, PatentComparisonView } from "@/components/patent-comparison";
+import { MAX_COMPARED_PATENTS, MIN_COMPARED_PATENTS } from "@/lib/patents/compare";
+import { PriorArtModeToggle } from "@/components/prior-art-mode-toggle";
+import { SaveWatchButton } from "@/components/patent-watches";
+import { SaveToCollectionButton } from "@/components/patent-collections";
+import { CpcBrowser } from "@/components/cpc-browser";
+import type { CpcNode } from "@/lib/patents/cpc";
 import { CSVPreview } from "@/components/csv-preview";
 import { CitationTextRenderer } from "@/components/citation-text-renderer";
-import { CitationMap } from "@/lib/citation-utils";
+import { CitationMap, citationFromResult, getSearchToolName } from "@/lib/citation-utils";
 import { CsvRenderer } from "@/components/csv-renderer";
 import { Favicon } from "@/components/favicon";
 const JsonView = dynamic(() => import("@uiw/react-json-view"), {
@@ -93,6 +118,9 @@ import SocialLinks from "./social-links";
 import { calculateMessageMetrics, MessageMetrics } from "@/lib/metrics-calculator";
 import { MetricsPills } from "@/components/metrics-pills";
 import { PATENT_COMPANIES, PATENT_TOPICS } from "@/data/patent-suggestion-data";
+import { describeFilters } from "@/lib/patents/filters";
+import { findPatentNumbers, isPatentRecord, patentNumberKey } from "@/lib/patents/record";
+import { PatentVerification, collectKnownPatentNumbers, verifyPatentNumbers } from "@/lib/patents/verification";
 
 // Debug toggles removed per request
 
@@ -203,6 +231,15 @@ const TECHNOLOGY_FOCUSED_CONFIGS: SuggestionCardConfig[] = [
   },
 ];
 
+type ReportDownloadFormat = "pdf" | "docx" | "html" | "md";
+
+const REPORT_DOWNLOAD_FORMATS: Array<{ format: ReportDownloadFormat; label: string }> = [
+  { format: "pdf", label: "PDF" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "html", label: "HTML" },
+  { format: "md", label: "Markdown" },
+];
+
 // Professional BioMed Research UI - Workflow-inspired with checkmarks and clean cards
 const TimelineStep = memo(({
   part,
@@ -479,7 +516,11 @@ const ChartImageRendererComponent = ({ chartId, alt }: { chartId: string; alt?:
 
   return (
     <span className="block w-full my-4">
-      <BiomedicalChart {...chartData} key={chartId} />
+      {chartData.chartType === "network" ? (
+        <CitationNetworkChart {...chartData} key={chartId} />
+      ) : (
+        <BiomedicalChart {...chartData} key={chartId} />
+      )}
     </span>
   );
 };
@@ -506,7 +547,11 @@ const MemoizedChartResult = memo(function MemoizedChartResult({
 }) {
   return (
     <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
-      <BiomedicalChart {...chartData} />
+      {chartData.chartType === "network" ? (
+        <CitationNetworkChart {...chartData} />
+      ) : (
+        <BiomedicalChart {...chartData} />
+      )}
     </div>
   );
 }, (prevProps, nextProps) => {
@@ -890,6 +935,7 @@ const MemoizedTextPartWithCitations = memo(
     allMessages,
     currentMessageIndex,
     useValyuMode = true,
+    patentVerification,
   }: {
     text: string;
     messageParts: any[];
@@ -897,40 +943,20 @@ const MemoizedTextPartWithCitations = memo(
     allMessages?: any[];
     currentMessageIndex?: number;
     useValyuMode?: boolean;
+    patentVerification?: PatentVerification;
   }) {
     // Extract citations only when parts before this one change, not when text streams
     const citations = useMemo(() => {
       const citationMap: CitationMap = {};
       let citationNumber = 1;
 
+      // Check for search tool results - handle both live streaming and saved message formats
+      // Live: p.type = "tool-patentSearch", Saved: p.type = "tool-result" with toolName
+      const collectCitations = (parts: any[]) => {
+        for (const p of parts) {
+          const toolName = getSearchToolName(p);
+          if (!toolName || !(p.output || p.result)) continue;
 
-      // Scan ALL previous messages AND current message for tool results
-      if (allMessages && currentMessageIndex !== undefined) {
-        for (let msgIdx = 0; msgIdx <= currentMessageIndex; msgIdx++) {
-          const msg = allMessages[msgIdx];
-          if (!msg) continue; // Skip if message doesn't exist
-          const parts = msg.parts || (Array.isArray(msg.content) ? msg.content : []);
-
-
-          for (let i = 0; i < parts.length; i++) {
-            const p = parts[i];
-
-
-        // Check for search tool results - handle both live streaming and saved message formats
-        // Live: p.type = "tool-clinicalTrialsSearch", Saved: p.type = "tool-result" with toolName
-        const isSearchTool =
-          p.type === "tool-clinicalTrialsSearch" ||
-          p.type === "tool-drugInformationSearch" ||
-          p.type === "tool-biomedicalLiteratureSearch" ||
-          p.type === "tool-webSearch" ||
-          (p.type === "tool-result" && (
-            p.toolName === "clinicalTrialsSearch" ||
-            p.toolName === "drugInformationSearch" ||
-            p.toolName === "biomedicalLiteratureSearch" ||
-            p.toolName === "webSearch"
-          ));
-
-        if (isSearchTool && (p.output || p.result)) {
           try {
             const output = typeof p.output === "string" ? JSON.parse(p.output) :
                           typeof p.result === "string" ? JSON.parse(p.result) :
@@ -939,32 +965,7 @@ const MemoizedTextPartWithCitations = memo(
             // Check if this is a search result with multiple items
             if (output.results && Array.isArray(output.results)) {
               output.results.forEach((item: any) => {
-                const key = `[${citationNumber}]`;
-                let description = item.content || item.summary || item.description || "";
-                if (typeof description === "object") {
-                  description = JSON.stringify(description);
-                }
-                citationMap[key] = [
-                  {
-                    number: citationNumber.toString(),
-                    title: item.title || `Source ${citationNumber}`,
-                    url: item.url || "",
-                    description: description,
-                    source: item.source,
-                    date: item.date,
-                    authors: Array.isArray(item.authors) ? item.authors : [],
-                    doi: item.doi,
-                    relevanceScore: item.relevanceScore || item.relevance_score,
-                    toolType:
-                      p.type === "tool-clinicalTrialsSearch" || p.toolName === "clinicalTrialsSearch"
-                        ? "clinical"
-                        : p.type === "tool-drugInformationSearch" || p.toolName === "drugInformationSearch"
-                        ? "drug"
-                        : p.type === "tool-biomedicalLiteratureSearch" || p.toolName === "biomedicalLiteratureSearch"
-                        ? "literature"
-                        : "web",
-                  },
-                ];
+                citationMap[`[${citationNumber}]`] = [citationFromResult(item, citationNumber, toolName)];
                 citationNumber++;
               });
             }
@@ -972,67 +973,18 @@ const MemoizedTextPartWithCitations = memo(
             // Ignore parse errors
           }
         }
-          }
+      };
+
+      // Scan ALL previous messages AND current message for tool results
+      if (allMessages && currentMessageIndex !== undefined) {
+        for (let msgIdx = 0; msgIdx <= currentMessageIndex; msgIdx++) {
+          const msg = allMessages[msgIdx];
+          if (!msg) continue; // Skip if message doesn't exist
+          collectCitations(msg.parts || (Array.isArray(msg.content) ? msg.content : []));
         }
       } else {
         // Fallback: scan current message only (for streaming messages)
-        for (let i = 0; i < messageParts.length; i++) {
-          const p = messageParts[i];
-
-          const isSearchTool =
-            p.type === "tool-clinicalTrialsSearch" ||
-            p.type === "tool-drugInformationSearch" ||
-            p.type === "tool-biomedicalLiteratureSearch" ||
-            p.type === "tool-webSearch" ||
-            (p.type === "tool-result" && (
-              p.toolName === "clinicalTrialsSearch" ||
-              p.toolName === "drugInformationSearch" ||
-              p.toolName === "biomedicalLiteratureSearch" ||
-              p.toolName === "webSearch"
-            ));
-
-          if (isSearchTool && (p.output || p.result)) {
-            try {
-              const output = typeof p.output === "string" ? JSON.parse(p.output) :
-                            typeof p.result === "string" ? JSON.parse(p.result) :
-                            p.output || p.result;
-
-              if (output.results && Array.isArray(output.results)) {
-                output.results.forEach((item: any) => {
-                  const key = `[${citationNumber}]`;
-                  let description = item.content || item.summary || item.description || "";
-                  if (typeof description === "object") {
-                    description = JSON.stringify(description);
-                  }
-                  citationMap[key] = [
-                    {
-                      number: citationNumber.toString(),
-                      title: item.title || `Source ${citationNumber}`,
-                      url: item.url || "",
-                      description: description,
-                      source: item.source,
-                      date: item.date,
-                      authors: Array.isArray(item.authors) ? item.authors : [],
-                      doi: item.doi,
-                      relevanceScore: item.relevanceScore || item.relevance_score,
-                      toolType:
-                        p.type === "tool-clinicalTrialsSearch" || p.toolName === "clinicalTrialsSearch"
-                          ? "clinical"
-                          : p.type === "tool-drugInformationSearch" || p.toolName === "drugInformationSearch"
-                          ? "drug"
-                          : p.type === "tool-biomedicalLiteratureSearch" || p.toolName === "biomedicalLiteratureSearch"
-                          ? "literature"
-                          : "web",
-                    },
-                  ];
-                  citationNumber++;
-                });
-              }
-            } catch (error) {
-              // Ignore parse errors
-            }
-          }
-        }
+        collectCitations(messageParts);
       }
 
       return citationMap;
@@ -1043,12 +995,47 @@ const MemoizedTextPartWithCitations = memo(
       return Object.keys(citations).length > 0;
     }, [citations]);
 
+    // Patent numbers the session has actually seen - recomputed with parts, not text
+    const knownPatentNumbers = useMemo(() => {
+      if (patentVerification) return null;
+      const scope = allMessages && currentMessageIndex !== undefined
+        ? allMessages.slice(0, currentMessageIndex + 1)
+        : [{ role: "assistant", parts: messageParts }];
+      return collectKnownPatentNumbers(scope);
+    }, [patentVerification, messageParts, allMessages, currentMessageIndex]);
+
+    // Prefer the server's saved verification; fall back to checking live messages locally
+    const unverifiedNumbers = useMemo(() => {
+      const inThisPart = findPatentNumbers(text);
+      if (patentVerification) {
+        const flagged = new Set(patentVerification.unverified.map(patentNumberKey));
+        return inThisPart.filter((n) => flagged.has(patentNumberKey(n)));
+      }
+      return knownPatentNumbers ? verifyPatentNumbers(text, knownPatentNumbers).unverified : [];
+    }, [text, patentVerification, knownPatentNumbers]);
+
     // Render with or without citations (only in Valyu mode)
-    if (hasCitations && useValyuMode) {
-      return <CitationTextRenderer text={text} citations={citations} />;
-    } else {
-      return <MemoizedMarkdown text={text} useValyuMode={useValyuMode} />;
-    }
+    const body = hasCitations && useValyuMode
+      ? <CitationTextRenderer text={text} citations={citations} />
+      : <MemoizedMarkdown text={text} useValyuMode={useValyuMode} />;
+
+    if (unverifiedNumbers.length === 0) return body;
+
+    return (
+      <>
+        {body}
+        <div
+          className="mt-2 inline-flex items-start gap-1.5 rounded-md border border-amber-300 dark:border-amber-700/60 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 text-xs text-amber-800 dark:text-amber-300"
+          title="These numbers were not returned by any search in this session. Verify them before relying on this answer."
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          <span>
+            Unverified patent {unverifiedNumbers.length === 1 ? "number" : "numbers"}:{" "}
+            <span className="font-mono">{unverifiedNumbers.join(", ")}</span>
+          </span>
+        </div>
+      </>
+    );
   },
   (prevProps, nextProps) => {
     // Custom comparison: only re-render if text changed OR parts structure changed OR useValyuMode changed
@@ -1057,7 +1044,8 @@ const MemoizedTextPartWithCitations = memo(
       prevProps.text === nextProps.text &&
       prevProps.currentPartIndex === nextProps.currentPartIndex &&
       prevProps.messageParts.length === nextProps.messageParts.length &&
-      prevProps.useValyuMode === nextProps.useValyuMode
+      prevProps.useValyuMode === nextProps.useValyuMode &&
+      prevProps.patentVerification === nextProps.patentVerification
     );
   }
 );
@@ -1067,7 +1055,21 @@ const extractSearchResults = (jsonOutput: string) => {
   try {
     const data = JSON.parse(jsonOutput);
     if (data.results && Array.isArray(data.results)) {
-      const mappedResults = data.results.map((result: any, index: number) => ({
+      const mappedResults = data.results.map((result: any, index: number) => isPatentRecord(result) ? ({
+        id: index,
+        title: result.patentNumber ? `${result.patentNumber}: ${result.title}` : result.title,
+        summary: result.abstract.length > 150 ? result.abstract.substring(0, 150) + "..." : result.abstract || "No summary available",
+        source: result.assignees.join(", ") || result.source,
+        date: result.publicationDate || result.filingDate || "",
+        url: result.url,
+        fullContent: result.fullText || [result.abstract, ...result.claims].filter(Boolean).join("\n\n") || "No content available",
+        isStructured: false,
+        dataType: "patent",
+        imageUrls: result.imageUrl ? { main: result.imageUrl } : {},
+        relevanceScore: result.relevanceScore,
+        rerankScore: result.rerankScore,
+        patent: result,
+      }) : ({
         id: index,
         title: result.title || `Result ${index + 1}`,
         summary: result.content
@@ -1101,8 +1103,9 @@ const extractSearchResults = (jsonOutput: string) => {
         if (a.isStructured && !b.isStructured) return -1;
         if (!a.isStructured && b.isStructured) return 1;
 
-        // Within the same category, sort by relevance score (higher score first)
-        return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        // Within the same category, sort by relevance score (higher score first),
+        // preferring the embedding rerank score when results were reranked
+        return (b.rerankScore ?? b.relevanceScore ?? 0) - (a.rerankScore ?? a.relevanceScore ?? 0);
       });
     }
     return [];
@@ -1111,7 +1114,64 @@ const extractSearchResults = (jsonOutput: string) => {
   }
 };
 
+// Helper function to read the filters echoed back by patent tools
+const extractFilterChips = (jsonOutput: string): string[] => {
+  try {
+    const data = JSON.parse(jsonOutput);
+    return data.filters?.applied ? describeFilters(data.filters.applied) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Whether a search tool's results came from the search cache
+const isCachedOutput = (jsonOutput: string): boolean => {
+  try {
+    return JSON.parse(jsonOutput).cached === true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// CPC/IPC codes with their class titles, shown in patent result dialogs
+const PatentClassificationsSection = ({ patent, className = "" }: { patent: any; className?: string }) => {
+  const codes: string[] = Array.from(new Set([...(patent.cpcCodes || []), ...(patent.ipcCodes || [])]));
+  if (codes.length === 0) return null;
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <FolderTree className="h-4 w-4" />
+        Classifications
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {codes.map((code) => (
+          <span
+            key={code}
+            className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          >
+            <span className="font-mono">{code}</span>
+            {patent.cpcTitles?.[code] && (
+              <span className="text-gray-500 dark:text-gray-400"> · {patent.cpcTitles[code]}</span>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // Search Result Card Component
+// Claim tree section shown in patent result dialogs
+const PatentClaimsSection = ({ claims, className = "" }: { claims: string[]; className?: string }) => (
+  <div className={`space-y-2 ${className}`}>
+    <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+      <ListTree className="h-4 w-4" />
+      Claims
+    </div>
+    <ClaimTree claims={claims} />
+  </div>
+);
+
 const SearchResultCard = ({
   result,
   type,
@@ -1120,6 +1180,7 @@ const SearchResultCard = ({
   type: "clinical" | "drug" | "literature" | "web";
 }) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const user = useAuthStore((state) => state.user);
 
   // Calculate content size to determine if we need virtualization
   const contentSize = useMemo(() => {
@@ -1219,6 +1280,7 @@ const SearchResultCard = ({
                       }
                     })()}
                   </span>
+                  {user && result.patent && <SaveToCollectionButton patent={result.patent} />}
                 </div>
               </div>
             </div>
@@ -1231,7 +1293,12 @@ const SearchResultCard = ({
           title={result.title}
           content={content}
           isJson={result.isStructured}
-        />
+        >
+          {result.patent && <PatentClassificationsSection patent={result.patent} className="mb-4" />}
+          {result.patent?.claims?.length > 0 && (
+            <PatentClaimsSection claims={result.patent.claims} className="mb-4" />
+          )}
+        </VirtualizedContentDialog>
       </>
     );
   }
@@ -1306,6 +1373,7 @@ const SearchResultCard = ({
                       }
                     })()}
                   </span>
+                  {user && result.patent && <SaveToCollectionButton patent={result.patent} />}
                 </div>
               </div>
             </div>
@@ -1326,6 +1394,14 @@ const SearchResultCard = ({
                   {(result.relevanceScore * 100).toFixed(0)}% relevance
                 </span>
               )}
+              {typeof result.rerankScore === "number" && (
+                <span
+                  className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded"
+                  title="Embedding similarity to the query (local reranker)"
+                >
+                  {(result.rerankScore * 100).toFixed(0)}% match
+                </span>
+              )}
               {type === "literature" && result.doi && (
                 <span className="text-xs bg-indigo-100 dark:bg-indigo-800/30 text-indigo-700 dark:text-indigo-300 px-2 py-1 rounded">
                   DOI: {result.doi}
@@ -1438,6 +1514,10 @@ const SearchResultCard = ({
           ) : (
             // Unstructured data - show as markdown
             <div className="space-y-4">
+              {result.patent && <PatentClassificationsSection patent={result.patent} />}
+              {result.patent?.claims?.length > 0 && (
+                <PatentClaimsSection claims={result.patent.claims} />
+              )}
               <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
                 <FileText className="h-4 w-4" />
                 Content
@@ -1475,15 +1555,91 @@ const SearchResultCard = ({
 const SearchResultsCarousel = ({
   results,
   type,
+  sessionId,
 }: {
   results: any[];
   type: "clinical" | "drug" | "literature" | "web";
+  /** Lets a patent comparison opened from this carousel be saved to the session */
+  sessionId?: string;
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const imagesScrollRef = useRef<HTMLDivElement>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [showAllImages, setShowAllImages] = useState(false);
+  const [expandedFamilies, setExpandedFamilies] = useState<Set<string>>(new Set());
+  const [comparePatentNumbers, setComparePatentNumbers] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  const comparedPatents = useMemo(
+    () =>
+      comparePatentNumbers
+        .map((number) => results.find((result) => result.patent?.patentNumber === number)?.patent)
+        .filter(Boolean),
+    [comparePatentNumbers, results]
+  );
+
+  const toggleCompare = (patentNumber: string) => {
+    setComparePatentNumbers((prev) =>
+      prev.includes(patentNumber)
+        ? prev.filter((number) => number !== patentNumber)
+        : prev.length < MAX_COMPARED_PATENTS
+          ? [...prev, patentNumber]
+          : prev
+    );
+  };
+
+  const renderCompareToggle = (result: any) => {
+    const patentNumber = result.patent?.patentNumber;
+    if (!patentNumber) return null;
+    const selected = comparePatentNumbers.includes(patentNumber);
+    const disabled = !selected && comparePatentNumbers.length >= MAX_COMPARED_PATENTS;
+    return (
+      <label
+        className={`flex items-center gap-1.5 text-xs px-2 py-0.5 select-none ${
+          disabled ? "text-gray-300 dark:text-gray-600" : "text-gray-500 dark:text-gray-400 cursor-pointer"
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={selected}
+          disabled={disabled}
+          onChange={() => toggleCompare(patentNumber)}
+          className="h-3 w-3 accent-blue-600"
+        />
+        Compare
+      </label>
+    );
+  };
+
+  // Collapse patent family members behind one card per family
+  const familyGroups = useMemo(() => {
+    const groups: { key: string; lead: any; members: any[] }[] = [];
+    const byFamily = new Map<string, { key: string; lead: any; members: any[] }>();
+
+    results.forEach((result) => {
+      const familyId = result.patent?.familyId;
+      const existing = familyId ? byFamily.get(familyId) : undefined;
+      if (existing) {
+        existing.members.push(result);
+        return;
+      }
+      const group = { key: familyId || `result-${result.id}`, lead: result, members: [] as any[] };
+      if (familyId) byFamily.set(familyId, group);
+      groups.push(group);
+    });
+
+    return groups;
+  }, [results]);
+
+  const toggleFamily = (key: string) => {
+    setExpandedFamilies((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
 
   // Extract all images from results
   const allImages: { url: string; title: string; sourceUrl: string }[] = [];
@@ -1555,12 +1711,65 @@ const SearchResultsCarousel = ({
           className="flex gap-2 sm:gap-3 overflow-x-auto scrollbar-hide py-1 sm:py-2 px-1 sm:px-2"
           style={{ scrollbarWidth: "none", msOverflowStyle: "none" }}
         >
-          {results.map((result) => (
-            <SearchResultCard key={result.id} result={result} type={type} />
+          {familyGroups.map((group) => (
+            <React.Fragment key={group.key}>
+              <div className="flex flex-col gap-1 flex-shrink-0">
+                <SearchResultCard result={group.lead} type={type} />
+                {renderCompareToggle(group.lead)}
+                {group.members.length > 0 && (
+                  <button
+                    onClick={() => toggleFamily(group.key)}
+                    className="text-xs text-left px-2 py-0.5 text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {expandedFamilies.has(group.key)
+                      ? "Hide family members"
+                      : `+${group.members.length} family ${group.members.length === 1 ? "member" : "members"}`}
+                  </button>
+                )}
+              </div>
+              {expandedFamilies.has(group.key) &&
+                group.members.map((member) => (
+                  <div key={member.id} className="flex-shrink-0 flex flex-col gap-1 pl-1 border-l-2 border-blue-200 dark:border-blue-800">
+                    <SearchResultCard result={member} type={type} />
+                    {renderCompareToggle(member)}
+                  </div>
+                ))}
+            </React.Fragment>
           ))}
         </div>
       </div>
 
+      {comparePatentNumbers.length > 0 && (
+        <div className="flex items-center gap-3 px-2 text-xs">
+          <span className="text-gray-500 dark:text-gray-400">
+            {comparePatentNumbers.length} of {MAX_COMPARED_PATENTS} selected
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={comparePatentNumbers.length < MIN_COMPARED_PATENTS}
+            onClick={() => setCompareOpen(true)}
+          >
+            <Columns3 className="h-3.5 w-3.5 mr-1" />
+            Compare
+          </Button>
+          <button
+            onClick={() => setComparePatentNumbers([])}
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <PatentComparisonDialog
+        patents={comparedPatents}
+        open={compareOpen}
+        onOpenChange={setCompareOpen}
+        sessionId={sessionId}
+      />
+
       {/* Images Carousel - Only show if there are images */}
       {allImages.length > 0 && (
         <div className="relative">
@@ -1751,6 +1960,13 @@ export function ChatInterface({
   onModeChange: (mode: boolean) => void;
 }) {
   const [input, setInput] = useState("");
+  // Prior-art mode treats the next message as an invention disclosure (Valyu mode only)
+  const [priorArtMode, setPriorArtMode] = useState(false);
+  // Set when a disclosure is submitted and consumed by that message's chat request,
+  // so follow-ups are ordinary questions
+  const priorArtRequestRef = useRef(false);
+  // CPC classes pinned as patentSearch filters for this chat
+  const [pinnedCpcClasses, setPinnedCpcClasses] = useState<string[]>([]);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingText, setEditingText] = useState("");
   const [expandedTools, setExpandedTools] = useState<Set<string>>(new Set());
@@ -1959,7 +2175,7 @@ export function ChatInterface({
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session?.access_token}`
         },
-        body: JSON.stringify({ title: quickTitle })
+        body: JSON.stringify({ title: quickTitle, projectId: useProjectStore.getState().activeProjectId })
       });
 
       if (response.ok) {
@@ -2008,6 +2224,12 @@ export function ChatInterface({
 
   // Placeholder for loadSessionMessages - will be defined after useChat hook
   
+  const consumePriorArtRequest = useCallback(() => {
+    const requested = priorArtRequestRef.current;
+    priorArtRequestRef.current = false;
+    return requested;
+  }, []);
+
   const transport = useMemo(() =>
     new DefaultChatTransport({
       api: "/api/chat",
@@ -2044,11 +2266,13 @@ export function ChatInterface({
             messages,
             sessionId: sessionIdRef.current,
             useValyuMode,
+            priorArtMode: consumePriorArtRequest(),
+            pinnedCpcClasses: useValyuMode ? pinnedCpcClasses : [],
           },
           headers,
         };
       }
-    }), [selectedModel, selectedProvider, user, increment, useValyuMode]
+    }), [selectedModel, selectedProvider, user, increment, useValyuMode, consumePriorArtRequest, pinnedCpcClasses]
   );
 
   const {
@@ -2117,7 +2341,8 @@ export function ChatInterface({
           parts: msg.parts,
           toolCalls: msg.toolCalls,
           createdAt: msg.createdAt,
-          processing_time_ms: msg.processing_time_ms
+          processing_time_ms: msg.processing_time_ms,
+          metadata: msg.metadata
         }));
         
         // Set messages in the chat
@@ -2130,7 +2355,10 @@ export function ChatInterface({
           setIsFormAtBottom(true);
         }
         
-        // Scroll to bottom after loading messages
+        // Scroll to bottom after loading messages, unless a chat search
+        // result linked to one of them (handled by the messageId effect)
+        const linkedMessageId = new URLSearchParams(window.location.search).get('messageId');
+        if (linkedMessageId && convertedMessages.some((msg: any) => msg.id === linkedMessageId)) return;
         setTimeout(() => {
           const c = messagesContainerRef.current;
           if (c) {
@@ -2183,6 +2411,7 @@ export function ChatInterface({
         setCurrentSessionId(undefined);
         setMessages([]);
         setInput(''); // Clear input field
+        setPinnedCpcClasses([]);
         setIsFormAtBottom(false); // Reset form position for new chat
         setEditingMessageId(null); // Clear any editing state
         setEditingText('');
@@ -2372,6 +2601,45 @@ export function ChatInterface({
     }
   }, [searchParams, messages.length, isStartingNewChat, isSubmitting]);
 
+  // Scroll to the message a chat search result linked to (?messageId=) once
+  // it is loaded, and highlight it briefly
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const linkedMessageRef = useRef<string | null>(null);
+  useEffect(() => {
+    const messageId = searchParams.get("messageId");
+    if (!messageId) {
+      linkedMessageRef.current = null;
+      return;
+    }
+    if (linkedMessageRef.current === messageId) return;
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index === -1) return;
+
+    linkedMessageRef.current = messageId;
+    shouldStickToBottomRef.current = false;
+    setHighlightedMessageId(messageId);
+
+    let attempts = 0;
+    const scrollToMessage = () => {
+      const c = messagesContainerRef.current;
+      const el = c?.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`);
+      if (el) {
+        el.scrollIntoView({ behavior: "smooth", block: "center" });
+        return;
+      }
+      // Long threads only render rows near the scroll position; jump to the
+      // estimated offset so the row mounts, then retry
+      if (c && virtualizationEnabled) {
+        c.scrollTop = index * Math.max(60, avgRowHeight);
+        updateVisibleRange();
+      }
+      if (++attempts < 10) setTimeout(scrollToMessage, 150);
+    };
+    setTimeout(scrollToMessage, 300);
+    setTimeout(() => setHighlightedMessageId(null), 4000);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, messages]);
+
   // Clear submitting flag when message is added
   useEffect(() => {
     if (isSubmitting && messages.length > 0) {
@@ -2566,9 +2834,10 @@ export function ChatInterface({
     }
   }, [status]);
 
-  const handleSubmit = async (e: React.FormEvent, skipSignupPrompt = false) => {
+  const handleSubmit = async (e: React.FormEvent, skipSignupPrompt = false, queryOverride?: string) => {
     e.preventDefault();
-    if (input.trim() && status === "ready") {
+    const submittedInput = queryOverride ?? input;
+    if (submittedInput.trim() && status === "ready") {
       // Check current rate limit status immediately before sending
 
       if (!canSendQuery) {
@@ -2579,7 +2848,7 @@ export function ChatInterface({
       }
 
       // Store the input to send
-      const queryText = input.trim();
+      const queryText = submittedInput.trim();
 
       // Show signup prompt for non-authenticated users on first message
       if (!user && messages.length === 0 && !skipSignupPrompt) {
@@ -2601,7 +2870,10 @@ export function ChatInterface({
         remainingQueries: remaining ? remaining - 1 : 0
       });
 
-      updateUrlWithQuery(queryText);
+      // Disclosures are far too long for the URL
+      if (!priorArtMode) {
+        updateUrlWithQuery(queryText);
+      }
       // Move form to bottom when submitting (always true on mobile, conditional on desktop)
       if (!isFormAtBottom) {
         setIsFormAtBottom(true);
@@ -2631,7 +2903,12 @@ export function ChatInterface({
       }
 
       // Send message with sessionId available for usage tracking
+      priorArtRequestRef.current = useValyuMode && priorArtMode;
       sendMessage({ text: queryText });
+      // Prior-art mode covers one disclosure; follow-ups are ordinary questions
+      if (priorArtMode) {
+        setPriorArtMode(false);
+      }
       
       // For authenticated users, trigger optimistic rate limit update
       if (user) {
@@ -2724,45 +3001,50 @@ export function ChatInterface({
     }
   }, []);
 
-  // Track PDF download state
-  const [isDownloadingPDF, setIsDownloadingPDF] = useState(false);
+  // Track report download state
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
 
-  // Download professional PDF report with charts and citations
-  const handleDownloadPDF = useCallback(async () => {
+  // Download the report with charts and citations: PDF, or an editable
+  // Word, HTML or Markdown export
+  const handleDownloadReport = useCallback(async (format: ReportDownloadFormat) => {
     if (!sessionIdRef.current) {
       return;
     }
 
-    // Track PDF download
-    track('PDF Download Started', {
+    const isPdf = format === 'pdf';
+
+    // Track report download
+    track(isPdf ? 'PDF Download Started' : 'Report Export Started', {
       sessionId: sessionIdRef.current,
-      messageCount: messages.length
+      messageCount: messages.length,
+      ...(isPdf ? {} : { format }),
     });
 
-    setIsDownloadingPDF(true);
+    setIsDownloadingReport(true);
 
     try {
 
-      // Call server-side PDF generation API
-      const response = await fetch('/api/reports/generate-pdf', {
+      // Call server-side report generation API
+      const response = await fetch(isPdf ? '/api/reports/generate-pdf' : '/api/reports/export', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           sessionId: sessionIdRef.current,
+          ...(isPdf ? {} : { format }),
         }),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        const errorMessage = error.error || 'Failed to generate PDF';
+        const errorMessage = error.error || (isPdf ? 'Failed to generate PDF' : 'Failed to export report');
         const errorDetails = error.details ? `\n\nDetails: ${error.details}` : '';
         const errorHelp = error.help ? `\n\n${error.help}` : '';
         throw new Error(errorMessage + errorDetails + errorHelp);
       }
 
-      // Get PDF blob
+      // Get file blob
       const blob = await response.blob();
 
       // Create download link
@@ -2773,7 +3055,7 @@ export function ChatInterface({
       // Get filename from response header or use default
       const contentDisposition = response.headers.get('Content-Disposition');
       const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
-      const filename = filenameMatch ? filenameMatch[1] : `report-${Date.now()}.pdf`;
+      const filename = filenameMatch ? filenameMatch[1] : `report-${Date.now()}.${format}`;
 
       link.download = filename;
       document.body.appendChild(link);
@@ -2782,16 +3064,17 @@ export function ChatInterface({
       window.URL.revokeObjectURL(url);
 
 
-      track('PDF Downloaded', {
+      track(isPdf ? 'PDF Downloaded' : 'Report Exported', {
         sessionId: sessionIdRef.current,
         messageCount: messages.length,
+        ...(isPdf ? {} : { format }),
       });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to generate PDF. Please try again.';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate report. Please try again.';
       alert(errorMessage);
-      console.error('[PDF Download] Error:', err);
+      console.error('[Report Download] Error:', err);
     } finally {
-      setIsDownloadingPDF(false);
+      setIsDownloadingReport(false);
     }
   }, [messages]);
 
@@ -2830,6 +3113,19 @@ export function ChatInterface({
     }, 4); // Adjust speed here (lower = faster)
   };
 
+  const handleTogglePinnedClass = (code: string) => {
+    setPinnedCpcClasses((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]
+    );
+  };
+
+  // Picking a class in the CPC browser sends a class-scoped search straight away
+  const handleSearchClass = (node: CpcNode) => {
+    const query = `Search patents in CPC ${node.code} (${node.title})`;
+    setInput(query);
+    handleSubmit({ preventDefault: () => {} } as React.FormEvent, false, query);
+  };
+
   const getMessageText = (message: BiomedUIMessage) => {
     return message.parts
       .filter((part) => part.type === "text")
@@ -3025,12 +3321,24 @@ export function ChatInterface({
                       </>
                     )}
                   </button>
+                  <PriorArtModeToggle
+                    enabled={useValyuMode && priorArtMode}
+                    disabled={isLoading || !useValyuMode}
+                    onToggle={() => setPriorArtMode((prev) => !prev)}
+                    onDisclosureLoaded={setInput}
+                  />
+                  <CpcBrowser
+                    pinned={pinnedCpcClasses}
+                    disabled={isLoading || !useValyuMode}
+                    onTogglePin={handleTogglePinnedClass}
+                    onSearchClass={handleSearchClass}
+                  />
                   
                   <div className="flex-1 relative">
                     <Textarea
                       value={input}
                       onChange={handleInputChange}
-                      placeholder="Ask a question..."
+                      placeholder={useValyuMode && priorArtMode ? "Paste or upload an invention disclosure..." : "Ask a question..."}
                       className="w-full resize-none rounded-2xl px-3 sm:px-4 py-2.5 sm:py-3 pr-14 sm:pr-16 min-h-[38px] sm:min-h-[40px] max-h-28 sm:max-h-32 overflow-y-auto text-sm sm:text-base bg-purple-200 dark:bg-purple-900/30 bg-clip-padding backdrop-filter backdrop-blur-xl bg-opacity-20 dark:bg-opacity-30 border border-gray-100 dark:border-purple-500/30 focus:border-purple-300 dark:focus:border-purple-400 focus:ring-2 focus:ring-purple-500/20 dark:focus:ring-purple-500/20 focus-visible:ring-0 focus-visible:ring-offset-0 shadow-lg shadow-blue-500/10 dark:shadow-purple-500/20"
                       disabled={status === "error" || isLoading}
                       rows={1}
@@ -3116,7 +3424,12 @@ export function ChatInterface({
           ).map(({ item: message, realIndex }) => (
             <motion.div
               key={message.id}
-              className="group"
+              data-message-id={message.id}
+              className={`group rounded-2xl transition-shadow duration-700 ${
+                highlightedMessageId === message.id
+                  ? "ring-2 ring-purple-400/60 dark:ring-purple-500/60 ring-offset-4 ring-offset-transparent"
+                  : ""
+              }`}
               initial={
                 virtualizationEnabled ? undefined : { opacity: 0, y: 20 }
               }
@@ -3274,6 +3587,14 @@ export function ChatInterface({
                               latestStepTitle = "Literature Search";
                               latestStepSubtitle = latestStep.part.input?.query || "...";
                               latestStepIcon = <BookOpen className="h-5 w-5 text-indigo-500" />;
+                            } else if (toolType === "patentSearch" || toolType === "patentAnalysis" || toolType === "patentFamily") {
+                              latestStepTitle = toolType === "patentAnalysis"
+                                ? "Patent Analysis"
+                                : toolType === "patentFamily"
+                                ? "Patent Family"
+                                : "Patent Search";
+                              latestStepSubtitle = latestStep.part.input?.query || latestStep.part.input?.patentNumber || "...";
+                              latestStepIcon = <FileText className="h-5 w-5 text-blue-500" />;
                             } else if (toolType === "webSearch") {
                               latestStepTitle = "Web Search";
                               latestStepSubtitle = latestStep.part.input?.query || "...";
@@ -3286,6 +3607,38 @@ export function ChatInterface({
                               latestStepTitle = "Creating Chart";
                               latestStepSubtitle = latestStep.part.output?.title || "Generating visualization";
                               latestStepIcon = <BarChart3 className="h-5 w-5 text-cyan-500" />;
+                            } else if (toolType === "priorArtSearch") {
+                              latestStepTitle = "Prior-Art Search";
+                              latestStepSubtitle = latestStep.part.input?.focus || "Searching each disclosure feature";
+                              latestStepIcon = <FileSearch className="h-5 w-5 text-amber-500" />;
+                            } else if (toolType === "claimChart") {
+                              latestStepTitle = "Claim Chart";
+                              latestStepSubtitle = latestStep.part.input?.patentNumber || "Mapping claim elements";
+                              latestStepIcon = <Table className="h-5 w-5 text-teal-500" />;
+                            } else if (toolType === "comparePatents") {
+                              latestStepTitle = "Comparing Patents";
+                              latestStepSubtitle = latestStep.part.input?.patentNumbers?.join(" vs ") || "Comparing claims and classifications";
+                              latestStepIcon = <Columns3 className="h-5 w-5 text-indigo-500" />;
+                            } else if (toolType === "collectionPatents") {
+                              latestStepTitle = "Saved Collection";
+                              latestStepSubtitle = latestStep.part.input?.name || "Listing your collections";
+                              latestStepIcon = <Bookmark className="h-5 w-5 text-blue-500" />;
+                            } else if (toolType === "patentClaims") {
+                              latestStepTitle = "Patent Claims";
+                              latestStepSubtitle = latestStep.part.input?.patentNumber || "Parsing claims";
+                              latestStepIcon = <ListTree className="h-5 w-5 text-blue-500" />;
+                            } else if (toolType === "aggregatePatents") {
+                              latestStepTitle = "Counting Patents";
+                              latestStepSubtitle = latestStep.part.input?.groupBy ? `By ${latestStep.part.input.groupBy}` : "Aggregating retrieved patents";
+                              latestStepIcon = <BarChart3 className="h-5 w-5 text-cyan-500" />;
+                            } else if (toolType === "patentTerm") {
+                              latestStepTitle = "Patent Term";
+                              latestStepSubtitle = latestStep.part.input?.patentNumber || "Calculating expiry";
+                              latestStepIcon = <CalendarClock className="h-5 w-5 text-rose-500" />;
+                            } else if (toolType === "patentCitationGraph") {
+                              latestStepTitle = "Citation Network";
+                              latestStepSubtitle = latestStep.part.input?.patentNumber || "Expanding citations";
+                              latestStepIcon = <Network className="h-5 w-5 text-red-500" />;
                             } else if (toolType === "createCSV") {
                               latestStepTitle = "Creating Table";
                               latestStepSubtitle = latestStep.part.output?.title || "Generating CSV data";
@@ -3458,6 +3811,7 @@ export function ChatInterface({
                                       allMessages={deferredMessages}
                                       currentMessageIndex={realIndex}
                                       useValyuMode={useValyuMode}
+                                      patentVerification={(message as any).metadata?.patentVerification}
                                     />
                                   </div>
                                 );
@@ -3641,6 +3995,207 @@ export function ChatInterface({
                                 );
                               }
 
+                              // Patent Search / Analysis Tools
+                              case "tool-patentSearch":
+                              case "tool-patentAnalysis":
+                              case "tool-patentFamily": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasResults = part.state === "output-available";
+                                const hasError = part.state === "output-error";
+                                const stepTitle = part.type === "tool-patentAnalysis"
+                                  ? "Patent Analysis"
+                                  : part.type === "tool-patentFamily"
+                                  ? "Patent Family"
+                                  : "Patent Search";
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId} className="my-1">
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="search"
+                                        title={`${stepTitle} Error`}
+                                        subtitle={part.errorText}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                const patentResults = hasResults ? extractSearchResults(part.output) : [];
+                                const filterChips = hasResults ? extractFilterChips(part.output) : [];
+                                const cached = hasResults && isCachedOutput(part.output);
+                                const familyCount = new Set(
+                                  patentResults.map((result: any) => result.patent?.familyId || `result-${result.id}`)
+                                ).size;
+                                const query = part.input?.query || part.input?.patentNumber || "";
+
+                                let subtitleContent: React.ReactNode = query;
+                                if (!isStreaming && (patentResults.length > 0 || filterChips.length > 0)) {
+                                  subtitleContent = (
+                                    <div className="flex flex-col gap-1">
+                                      <div className="text-xs text-gray-600 dark:text-gray-400">{query}</div>
+                                      {filterChips.length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-1">
+                                          <Filter className="h-3 w-3 text-gray-500 dark:text-gray-400" />
+                                          {filterChips.map((chip) => (
+                                            <span
+                                              key={chip}
+                                              className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+                                            >
+                                              {chip}
+                                            </span>
+                                          ))}
+                                        </div>
+                                      )}
+                                      <span className="text-xs text-gray-600 dark:text-gray-400">
+                                        {patentResults.length} results
+                                        {familyCount < patentResults.length && ` · ${familyCount} families`}
+                                        {cached && ` · cached`}
+                                      </span>
+                                      {user && part.type === "tool-patentSearch" && (
+                                        <SaveWatchButton input={part.input} />
+                                      )}
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="search"
+                                      title={stepTitle}
+                                      subtitle={subtitleContent}
+                                      icon={<FileText />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {hasResults && patentResults.length > 0 && (
+                                        <SearchResultsCarousel
+                                          results={patentResults}
+                                          type="web"
+                                          sessionId={currentSessionId}
+                                        />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              // Saved Collection Tool
+                              case "tool-collectionPatents": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasResults = part.state === "output-available";
+                                const collectionResults = hasResults && typeof part.output === "string" ? extractSearchResults(part.output) : [];
+                                const failed = hasResults && typeof part.output === "string" && part.output.startsWith("❌");
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={part.state === "output-error" || failed ? "error" : isStreaming ? "streaming" : "complete"}
+                                      type="search"
+                                      title="Saved Collection"
+                                      subtitle={
+                                        failed
+                                          ? part.output.replace(/^❌\s*/, "")
+                                          : part.input?.name
+                                          ? `${part.input.name}${hasResults ? ` · ${collectionResults.length} patents` : ""}`
+                                          : "Your collections"
+                                      }
+                                      icon={<Bookmark />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {collectionResults.length > 0 && (
+                                        <SearchResultsCarousel
+                                          results={collectionResults}
+                                          type="web"
+                                          sessionId={currentSessionId}
+                                        />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              // Prior-Art Search Tool
+                              case "tool-priorArtSearch": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const priorArt = (() => {
+                                  if (part.state !== "output-available" || typeof part.output !== "string") return null;
+                                  try {
+                                    return JSON.parse(part.output);
+                                  } catch {
+                                    return null;
+                                  }
+                                })();
+                                const hasError = part.state === "output-error" || (part.state === "output-available" && !priorArt);
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId} className="my-1">
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="search"
+                                        title="Prior-Art Search Error"
+                                        subtitle={part.errorText || part.output}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                const references = priorArt ? extractSearchResults(part.output) : [];
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="search"
+                                      title="Prior-Art Search"
+                                      subtitle={priorArt
+                                        ? `${priorArt.features.length} features · ${priorArt.resultCount} references ranked of ${priorArt.candidateCount}`
+                                        : part.input?.focus || "Invention disclosure"}
+                                      icon={<FileSearch />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {priorArt && (
+                                        <div className="space-y-3">
+                                          <CSVPreview {...priorArt.matrix} />
+                                          {references.length > 0 && (
+                                            <SearchResultsCarousel results={references} type="web" />
+                                          )}
+                                        </div>
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
                               // Web Search Tool
                               case "tool-webSearch": {
                                 const callId = part.toolCallId;
@@ -3937,9 +4492,279 @@ export function ChatInterface({
                                 );
                               }
 
+                              // Patent Claims Tool
+                              case "tool-patentClaims": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const claimsData = (() => {
+                                  if (part.state !== "output-available" || typeof part.output !== "string") return null;
+                                  try {
+                                    return JSON.parse(part.output);
+                                  } catch {
+                                    return null;
+                                  }
+                                })();
+                                const hasError = part.state === "output-error" || (part.state === "output-available" && !claimsData);
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId}>
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="tool"
+                                        title="Patent Claims Error"
+                                        subtitle={part.errorText || part.output}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="tool"
+                                      title={claimsData ? `Claims: ${claimsData.patentNumber}` : "Patent Claims"}
+                                      subtitle={claimsData
+                                        ? `${claimsData.claimCount} claims · independent ${claimsData.independentClaims.join(", ")}`
+                                        : part.input?.patentNumber}
+                                      icon={<ListTree />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {claimsData && <ClaimTree claims={claimsData.claims} />}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              // Patent Citation Graph Tool
+                              case "tool-aggregatePatents": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasOutput = part.state === "output-available" && typeof part.output === "object";
+                                const hasError = part.state === "output-error" || typeof part.output === "string";
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId}>
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="tool"
+                                        title="Aggregation Error"
+                                        subtitle={part.errorText || part.output}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="tool"
+                                      title={hasOutput && part.output.title ? part.output.title : "Patent Counts"}
+                                      subtitle={hasOutput
+                                        ? `${part.output.totalPatents} ${part.output.countedUnit} · by ${part.output.groupBy}${part.output.seriesBy ? ` and ${part.output.seriesBy}` : ""}`
+                                        : part.input?.groupBy}
+                                      icon={<BarChart3 />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {hasOutput && part.output.chartType && (
+                                        <MemoizedChartResult
+                                          chartData={part.output}
+                                          actionId={callId}
+                                          expandedTools={expandedTools}
+                                          toggleToolExpansion={toggleToolExpansion}
+                                        />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              case "tool-patentTerm": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasOutput = part.state === "output-available" && typeof part.output === "object";
+                                const hasError = part.state === "output-error" || typeof part.output === "string";
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId}>
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="tool"
+                                        title="Patent Term Error"
+                                        subtitle={part.errorText || part.output}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="tool"
+                                      title={hasOutput ? part.output.title : "Patent Term"}
+                                      subtitle={hasOutput && part.output?.term
+                                        ? `${part.output.term.expired ? "Expired" : "Expires"} ${part.output.term.adjustedExpiry}`
+                                        : part.input?.patentNumber}
+                                      icon={<CalendarClock />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {hasOutput && (
+                                        <MemoizedChartResult
+                                          chartData={part.output}
+                                          actionId={callId}
+                                          expandedTools={expandedTools}
+                                          toggleToolExpansion={toggleToolExpansion}
+                                        />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              case "tool-patentCitationGraph": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasOutput = part.state === "output-available" && typeof part.output === "object";
+                                const hasError = part.state === "output-error" || typeof part.output === "string";
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId}>
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="tool"
+                                        title="Citation Graph Error"
+                                        subtitle={part.errorText || part.output}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="tool"
+                                      title={hasOutput ? part.output.title : "Citation Network"}
+                                      subtitle={hasOutput && part.output?.metadata
+                                        ? `${part.output.metadata.totalNodes} patents · ${part.output.metadata.totalEdges} citations`
+                                        : part.input?.patentNumber}
+                                      icon={<Network />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {hasOutput && (
+                                        <MemoizedChartResult
+                                          chartData={part.output}
+                                          actionId={callId}
+                                          expandedTools={expandedTools}
+                                          toggleToolExpansion={toggleToolExpansion}
+                                        />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
+                              // Patent Comparison Tool
+                              case "tool-comparePatents": {
+                                const callId = part.toolCallId;
+                                const isStreaming = part.state === "input-streaming" || part.state === "input-available";
+                                const hasOutput = part.state === "output-available" && !!part.output?.comparison;
+                                const hasError = part.state === "output-error" || part.output?.error;
+
+                                if (hasError) {
+                                  return (
+                                    <div key={callId}>
+                                      <TimelineStep
+                                        part={part}
+                                        messageId={message.id}
+                                        index={index}
+                                        status="error"
+                                        type="tool"
+                                        title="Comparison Error"
+                                        subtitle={part.output?.message || part.errorText}
+                                        icon={<AlertCircle />}
+                                        expandedTools={expandedTools}
+                                        toggleToolExpansion={toggleToolExpansion}
+                                      />
+                                    </div>
+                                  );
+                                }
+
+                                return (
+                                  <div key={callId}>
+                                    <TimelineStep
+                                      part={part}
+                                      messageId={message.id}
+                                      index={index}
+                                      status={isStreaming ? "streaming" : "complete"}
+                                      type="tool"
+                                      title="Patent Comparison"
+                                      subtitle={hasOutput
+                                        ? `${part.output.comparison.patents.length} patents · ${part.output.comparison.sharedTerms.length} shared claim terms`
+                                        : part.input?.patentNumbers?.join(" vs ")}
+                                      icon={<Columns3 />}
+                                      expandedTools={expandedTools}
+                                      toggleToolExpansion={toggleToolExpansion}
+                                    >
+                                      {hasOutput && (
+                                        <PatentComparisonView comparison={part.output.comparison} />
+                                      )}
+                                    </TimelineStep>
+                                  </div>
+                                );
+                              }
+
                               // CSV Creation Tool
-                              case "tool-createCSV": {
+                              case "tool-createCSV":
+                              case "tool-claimChart": {
                                 const callId = part.toolCallId;
+                                const isClaimChart = part.type === "tool-claimChart";
                                 const isStreaming = part.state === "input-streaming" || part.state === "input-available";
                                 const hasOutput = part.state === "output-available";
                                 const hasError = part.state === "output-error" || part.output?.error;
@@ -3953,7 +4778,7 @@ export function ChatInterface({
                                         index={index}
                                         status="error"
                                         type="tool"
-                                        title="CSV Creation Error"
+                                        title={isClaimChart ? "Claim Chart Error" : "CSV Creation Error"}
                                         subtitle={part.output?.message || part.errorText}
                                         icon={<AlertCircle />}
                                         expandedTools={expandedTools}
@@ -3963,8 +4788,12 @@ export function ChatInterface({
                                   );
                                 }
 
-                                const title = hasOutput && part.output?.title ? part.output.title : "CSV Table";
-                                const subtitle = hasOutput ? `${part.output.rowCount} rows · ${part.output.columnCount} columns` : undefined;
+                                const title = hasOutput && part.output?.title ? part.output.title : isClaimChart ? "Claim Chart" : "CSV Table";
+                                const subtitle = !hasOutput
+                                  ? undefined
+                                  : isClaimChart && part.output.summary
+                                  ? `${part.output.rowCount} elements · ${part.output.summary["Met"]} met · ${part.output.summary["Partially met"]} partial · ${part.output.summary["Not found"]} not found`
+                                  : `${part.output.rowCount} rows · ${part.output.columnCount} columns`;
 
                                 return (
                                   <div key={callId}>
@@ -4048,24 +4877,39 @@ export function ChatInterface({
                       {deferredMessages[deferredMessages.length - 1]?.id === message.id &&
                        sessionIdRef.current && (
                         subscription.canDownloadReports ? (
-                          <button
-                            onClick={handleDownloadPDF}
-                            disabled={isDownloadingPDF}
-                            className="inline-flex items-center gap-2 px-4 py-1.5 text-xs font-semibold text-gray-900 dark:text-gray-100 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                            title="Download full report as PDF"
-                          >
-                            {isDownloadingPDF ? (
-                              <>
-                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                                <span>Generating...</span>
-                              </>
-                            ) : (
-                              <>
-                                <Download className="h-3.5 w-3.5" />
-                                <span>Download Report</span>
-                              </>
-                            )}
-                          </button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                disabled={isDownloadingReport}
+                                className="inline-flex items-center gap-2 px-4 py-1.5 text-xs font-semibold text-gray-900 dark:text-gray-100 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Download full report"
+                              >
+                                {isDownloadingReport ? (
+                                  <>
+                                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                    <span>Generating...</span>
+                                  </>
+                                ) : (
+                                  <>
+                                    <Download className="h-3.5 w-3.5" />
+                                    <span>Download Report</span>
+                                    <ChevronDown className="h-3 w-3" />
+                                  </>
+                                )}
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-44">
+                              {REPORT_DOWNLOAD_FORMATS.map(({ format, label }) => (
+                                <DropdownMenuItem
+                                  key={format}
+                                  onSelect={() => handleDownloadReport(format)}
+                                  className="text-xs"
+                                >
+                                  {label}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         ) : (
                           <button
                             onClick={() => setShowAuthModal(true)}
@@ -4222,11 +5066,23 @@ export function ChatInterface({
                     </>
                   )}
                 </button>
+                <PriorArtModeToggle
+                  enabled={useValyuMode && priorArtMode}
+                  disabled={isLoading || !useValyuMode}
+                  onToggle={() => setPriorArtMode((prev) => !prev)}
+                  onDisclosureLoaded={setInput}
+                />
+                <CpcBrowser
+                  pinned={pinnedCpcClasses}
+                  disabled={isLoading || !useValyuMode}
+                  onTogglePin={handleTogglePinnedClass}
+                  onSearchClass={handleSearchClass}
+                />
                 
                 <Textarea
                   value={input}
                   onChange={handleInputChange}
-                  placeholder="Ask a question..."
+                  placeholder={useValyuMode && priorArtMode ? "Paste or upload an invention disclosure..." : "Ask a question..."}
                   className="w-full resize-none border-0 px-0 py-2 pr-12 min-h-[36px] max-h-24 focus:ring-0 focus-visible:ring-0 bg-transparent overflow-y-auto text-base placeholder:text-gray-400 dark:placeholder:text-gray-500 shadow-none"
                   disabled={status === "error" || isLoading}
                   rows={1}
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import Image from 'next/image';
+import {
+  CitationGraph,
+  HOP_COLORS,
+  layoutCitationGraph,
+  nodeRadius,
+} from '@/lib/patents/citation-graph';
+import { ProvenanceSources } from '@/components/provenance-sources';
+import type { ArtifactProvenance } from '@/lib/provenance';
+
+const WIDTH = 800;
+const HEIGHT = 480;
+
+interface CitationNetworkChartProps {
+  title: string;
+  description?: string;
+  graph: CitationGraph;
+  metadata?: {
+    totalNodes: number;
+    totalEdges: number;
+    depth: number;
+    direction: string;
+    truncated?: boolean;
+  };
+  provenance?: ArtifactProvenance | null;
+  hideDownloadButton?: boolean;
+}
+
+function CitationNetworkChartComponent({
+  title,
+  description,
+  graph,
+  metadata,
+  provenance,
+  hideDownloadButton = false,
+}: CitationNetworkChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  // Layout is deterministic, so it only needs computing once per graph
+  const nodes = useMemo(() => layoutCitationGraph(graph, WIDTH, HEIGHT), [graph]);
+  const positions = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+
+  const neighbours = useMemo(() => {
+    if (!hoveredId) return null;
+    const ids = new Set([hoveredId]);
+    graph.edges.forEach((e) => {
+      if (e.source === hoveredId) ids.add(e.target);
+      if (e.target === hoveredId) ids.add(e.source);
+    });
+    return ids;
+  }, [hoveredId, graph.edges]);
+
+  const hovered = hoveredId ? positions.get(hoveredId) : undefined;
+
+  // Download chart as PNG
+  const handleDownload = async () => {
+    if (!chartRef.current) return;
+
+    setIsDownloading(true);
+    try {
+      const { toPng } = await import('html-to-image');
+      const dataUrl = await toPng(chartRef.current, {
+        cacheBust: true,
+        pixelRatio: 2,
+        backgroundColor: '#ffffff',
+      });
+
+      const link = document.createElement('a');
+      link.href = dataUrl;
+      link.download = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div ref={chartRef} className="w-full bg-gradient-to-br from-white to-gray-50/30 dark:from-gray-900 dark:to-gray-900/80 rounded-xl border border-gray-200/80 dark:border-gray-700/50 overflow-hidden shadow-sm">
+        {/* Header */}
+        <div className="px-6 pt-5 pb-4 border-b border-gray-200/60 dark:border-gray-700/50">
+          <div className="flex gap-4 items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1.5">
+                {title}
+              </h3>
+              {description && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">
+                  {description}
+                </p>
+              )}
+
+              {metadata && (
+                <div className="flex flex-wrap gap-1.5 mt-2.5">
+                  <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                    {metadata.totalNodes} Patents
+                  </span>
+                  <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                    {metadata.totalEdges} Citations
+                  </span>
+                  <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                    {metadata.depth} {metadata.depth === 1 ? 'Hop' : 'Hops'} · {metadata.direction}
+                  </span>
+                  {metadata.truncated && (
+                    <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300">
+                      Truncated
+                    </span>
+                  )}
+                  <ProvenanceSources provenance={provenance} />
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-center flex-shrink-0">
+              <Image
+                src="/valyu.svg"
+                alt="Valyu"
+                width={70}
+                height={70}
+                className="opacity-80"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Network */}
+        <div className="p-6 relative">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+            <defs>
+              <marker id="citation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+              </marker>
+            </defs>
+
+            {graph.edges.map((edge) => {
+              const source = positions.get(edge.source);
+              const target = positions.get(edge.target);
+              if (!source || !target) return null;
+
+              // Stop the arrow at the target's edge rather than its centre
+              const r = nodeRadius(graph, target.id) + 2;
+              const dx = target.x - source.x;
+              const dy = target.y - source.y;
+              const len = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+              const dimmed = neighbours && !(neighbours.has(edge.source) && neighbours.has(edge.target));
+
+              return (
+                <line
+                  key={`${edge.source}->${edge.target}`}
+                  x1={source.x}
+                  y1={source.y}
+                  x2={target.x - (dx / len) * r}
+                  y2={target.y - (dy / len) * r}
+                  stroke="#94a3b8"
+                  strokeWidth={1.2}
+                  strokeOpacity={dimmed ? 0.15 : 0.7}
+                  markerEnd="url(#citation-arrow)"
+                />
+              );
+            })}
+
+            {nodes.map((node) => {
+              const dimmed = neighbours && !neighbours.has(node.id);
+              const color = HOP_COLORS[Math.min(node.hop, HOP_COLORS.length - 1)];
+              const radius = nodeRadius(graph, node.id);
+
+              return (
+                <g
+                  key={node.id}
+                  opacity={dimmed ? 0.25 : 1}
+                  onMouseEnter={() => setHoveredId(node.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  onClick={() => node.url && window.open(node.url, '_blank', 'noopener,noreferrer')}
+                  className={node.url ? 'cursor-pointer' : undefined}
+                >
+                  <circle
+                    cx={node.x}
+                    cy={node.y}
+                    r={radius}
+                    fill={node.resolved ? color : '#ffffff'}
+                    stroke={color}
+                    strokeWidth={node.resolved ? 1 : 2}
+                  />
+                  {(node.hop === 0 || graph.nodes.length <= 25 || hoveredId === node.id) && (
+                    <text
+                      x={node.x}
+                      y={node.y + radius + 11}
+                      textAnchor="middle"
+                      className="fill-gray-700 dark:fill-gray-300"
+                      fontSize={node.hop === 0 ? 11 : 9}
+                      fontWeight={node.hop === 0 ? 600 : 400}
+                    >
+                      {node.id}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {hovered && (
+            <div className="absolute top-4 right-6 max-w-[260px] rounded-lg border border-gray-200 dark:border-gray-700 bg-white/95 dark:bg-gray-900/95 px-3 py-2 shadow-md text-xs pointer-events-none">
+              <div className="font-mono font-semibold text-gray-900 dark:text-gray-100">{hovered.id}</div>
+              {hovered.title && <div className="mt-0.5 text-gray-700 dark:text-gray-300">{hovered.title}</div>}
+              {(hovered.assignee || hovered.date) && (
+                <div className="mt-0.5 text-gray-500 dark:text-gray-400">
+                  {[hovered.assignee, hovered.date].filter(Boolean).join(' · ')}
+                </div>
+              )}
+              {!hovered.resolved && (
+                <div className="mt-0.5 text-gray-500 dark:text-gray-400 italic">Not looked up</div>
+              )}
+            </div>
+          )}
+
+          {/* Legend */}
+          <div className="mt-3 flex flex-wrap gap-3 text-[10px] text-gray-600 dark:text-gray-400">
+            {Array.from({ length: Math.min(graph.depth + 1, HOP_COLORS.length) }, (_, hop) => (
+              <span key={hop} className="inline-flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: HOP_COLORS[hop] }} />
+                {hop === 0 ? 'Seed' : `Hop ${hop}`}
+              </span>
+            ))}
+            <span className="inline-flex items-center gap-1">
+              <span className="inline-block w-2.5 h-2.5 rounded-full border-2 border-gray-400" />
+              Not looked up
+            </span>
+            <span>Arrows point from citing to cited patent</span>
+          </div>
+        </div>
+      </div>
+
+      {!hideDownloadButton && (
+        <div className="mt-3 px-2">
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="w-full py-2 px-4 rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700
+                       border border-gray-200 dark:border-gray-700 transition-colors
+                       disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Download className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400" />
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {isDownloading ? 'Downloading...' : 'Download Chart'}
+            </span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const CitationNetworkChart = React.memo(CitationNetworkChartComponent, (prevProps, nextProps) => {
+  return (
+    prevProps.title === nextProps.title &&
+    prevProps.description === nextProps.description &&
+    JSON.stringify(prevProps.graph) === JSON.stringify(nextProps.graph)
+  );
+});
+
+CitationNetworkChart.displayName = 'CitationNetworkChart';
@@ -22,6 +22,7 @@ import {
 import { CitationMap } from "@/lib/citation-utils";
 import { preprocessMarkdownText, cleanBiomedicalText } from "@/lib/markdown-utils";
 import { BiomedicalChart } from "@/components/financial-chart";
+import { CitationNetworkChart } from "@/components/citation-network-chart";
 import { CsvRenderer } from "@/components/csv-renderer";
 
 interface CitationTextRendererProps {
@@ -98,7 +99,11 @@ const InlineChartRenderer = React.memo(({ chartId, alt }: { chartId: string; alt
 
   return (
     <div className="my-4">
-      <BiomedicalChart {...chartData} />
+      {chartData.chartType === "network" ? (
+        <CitationNetworkChart {...chartData} />
+      ) : (
+        <BiomedicalChart {...chartData} />
+      )}
     </div>
   );
 }, (prevProps, nextProps) => prevProps.chartId === nextProps.chartId);
@@ -156,6 +161,7 @@ const GroupedCitationBadge = React.memo(({
                     authors={citation.authors}
                     doi={citation.doi}
                     relevanceScore={citation.relevanceScore}
+                    patentNumber={citation.patentNumber}
                   />
                   {citation.quote && (
                     <InlineCitationQuote>
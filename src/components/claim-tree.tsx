@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { ClaimNode, ParsedClaim, buildClaimTree, parseClaims } from '@/lib/patents/claims';
+
+interface ClaimTreeProps {
+  /** Parsed claims, or raw "N. text" strings as stored on PatentRecord */
+  claims: ParsedClaim[] | string[];
+  className?: string;
+}
+
+function ClaimTreeNode({
+  node,
+  expanded,
+  onToggle,
+}: {
+  node: ClaimNode;
+  expanded: Set<number>;
+  onToggle: (claimNumber: number) => void;
+}) {
+  const { claim, children } = node;
+  const isOpen = expanded.has(claim.number);
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => onToggle(claim.number)}
+        className={`w-full flex items-start gap-2 text-left rounded-md px-2 py-1.5 transition-colors hover:bg-gray-50 dark:hover:bg-gray-800/60 ${
+          claim.independent ? 'bg-blue-50/60 dark:bg-blue-900/10' : ''
+        }`}
+      >
+        <ChevronRight
+          className={`h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+        />
+        <span
+          className={`font-mono text-xs flex-shrink-0 ${
+            claim.independent ? 'font-semibold text-blue-700 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {claim.number}.
+        </span>
+        <span
+          className={`text-sm text-gray-700 dark:text-gray-300 ${isOpen ? 'whitespace-pre-wrap' : 'line-clamp-1'}`}
+        >
+          {claim.text}
+        </span>
+        {claim.independent ? (
+          <span className="ml-auto flex-shrink-0 text-[10px] px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+            Independent
+          </span>
+        ) : (
+          children.length > 0 && (
+            <span className="ml-auto flex-shrink-0 text-[10px] text-gray-400">+{children.length}</span>
+          )
+        )}
+      </button>
+
+      {isOpen && children.length > 0 && (
+        <ul className="ml-4 pl-2 border-l border-gray-200 dark:border-gray-700">
+          {children.map((child) => (
+            <ClaimTreeNode key={child.claim.number} node={child} expanded={expanded} onToggle={onToggle} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Collapsible claim tree: independent claims at the root with their
+ * dependents nested beneath. Claim 1 starts expanded since that is where
+ * claim analysis usually begins.
+ */
+export function ClaimTree({ claims, className = '' }: ClaimTreeProps) {
+  const parsed = useMemo(
+    () =>
+      claims.length > 0 && typeof claims[0] === 'string'
+        ? parseClaims(claims as string[])
+        : (claims as ParsedClaim[]),
+    [claims]
+  );
+  const tree = useMemo(() => buildClaimTree(parsed), [parsed]);
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set(tree[0] ? [tree[0].claim.number] : []));
+
+  const independentCount = parsed.filter((c) => c.independent).length;
+
+  const toggle = (claimNumber: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(claimNumber)) next.delete(claimNumber);
+      else next.add(claimNumber);
+      return next;
+    });
+  };
+
+  if (parsed.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {parsed.length} claims · {independentCount} independent
+        </span>
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => setExpanded(new Set(parsed.map((c) => c.number)))}
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Expand all
+          </button>
+          <button
+            type="button"
+            onClick={() => setExpanded(new Set())}
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Collapse all
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-0.5">
+        {tree.map((node) => (
+          <ClaimTreeNode key={node.claim.number} node={node} expanded={expanded} onToggle={toggle} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, FolderTree, Pin, PinOff, Search, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CpcNode, cpcChildren, cpcPath, cpcTitle, searchCpc } from '@/lib/patents/cpc';
+
+interface CpcBrowserProps {
+  /** Classes pinned as filters for the current session */
+  pinned: string[];
+  disabled?: boolean;
+  onTogglePin: (code: string) => void;
+  /** Start a patent search scoped to the picked class */
+  onSearchClass: (node: CpcNode) => void;
+}
+
+/**
+ * Classification button shown next to the mode toggles. Opens a browser over
+ * the bundled CPC hierarchy where classes can be searched, pinned as session
+ * filters, or used to start a class-scoped search.
+ */
+export function CpcBrowser({ pinned, disabled = false, onTogglePin, onSearchClass }: CpcBrowserProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState<string | undefined>(undefined);
+
+  const nodes = useMemo(
+    () => (query.trim() ? searchCpc(query) : cpcChildren(current)),
+    [query, current]
+  );
+  const path = useMemo(() => (current ? cpcPath(current) : []), [current]);
+
+  const handleSearch = (node: CpcNode) => {
+    setOpen(false);
+    onSearchClass(node);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all whitespace-nowrap ${
+          pinned.length > 0
+            ? 'bg-gradient-to-r from-emerald-500/90 to-teal-600/90 text-white shadow-md shadow-emerald-500/30'
+            : 'bg-gray-200/80 dark:bg-gray-700/80 text-gray-700 dark:text-gray-300 hover:bg-gray-300/80 dark:hover:bg-gray-600/80'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+        title={pinned.length > 0 ? `Pinned classes: ${pinned.join(', ')}` : 'Browse CPC classifications'}
+      >
+        <FolderTree className="h-3.5 w-3.5" />
+        <span className="hidden sm:inline">Classes</span>
+        {pinned.length > 0 && <span>({pinned.length})</span>}
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogTitle>CPC Classifications</DialogTitle>
+
+          {pinned.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 -mt-1">
+              <span className="text-xs text-gray-500 dark:text-gray-400">Pinned for this chat:</span>
+              {pinned.map((code) => (
+                <span
+                  key={code}
+                  className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300"
+                  title={cpcTitle(code)}
+                >
+                  {code}
+                  <button type="button" onClick={() => onTogglePin(code)} title="Unpin">
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="relative">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='Search by code or title, e.g. "H01M 10" or "solid electrolyte"'
+              className="pl-9"
+            />
+          </div>
+
+          {!query.trim() && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              <button type="button" onClick={() => setCurrent(undefined)} className="hover:text-gray-900 dark:hover:text-gray-100">
+                All sections
+              </button>
+              {path.map((node) => (
+                <React.Fragment key={node.code}>
+                  <ChevronRight className="h-3 w-3" />
+                  <button
+                    type="button"
+                    onClick={() => setCurrent(node.code)}
+                    className="font-mono hover:text-gray-900 dark:hover:text-gray-100"
+                  >
+                    {node.code}
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="h-[50vh]">
+            {nodes.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No matching classes.</p>
+            ) : (
+              <div className="space-y-1 pr-3">
+                {nodes.map((node) => {
+                  const hasChildren = cpcChildren(node.code).length > 0;
+                  const isPinned = pinned.includes(node.code);
+                  return (
+                    <div
+                      key={node.code}
+                      className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-900 group"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (!hasChildren) return;
+                          setQuery('');
+                          setCurrent(node.code);
+                        }}
+                        className={`flex-1 min-w-0 flex items-start gap-2 text-left ${hasChildren ? 'cursor-pointer' : 'cursor-default'}`}
+                      >
+                        <span className="font-mono text-xs text-gray-500 dark:text-gray-400 w-24 flex-shrink-0 pt-0.5">
+                          {node.code}
+                        </span>
+                        <span className="text-sm text-gray-900 dark:text-gray-100">{node.title}</span>
+                        {hasChildren && <ChevronRight className="h-3.5 w-3.5 text-gray-400 flex-shrink-0 mt-0.5" />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onTogglePin(node.code)}
+                        className={`p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800 ${
+                          isPinned ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-400 opacity-0 group-hover:opacity-100'
+                        }`}
+                        title={isPinned ? 'Unpin class filter' : 'Pin as filter for this chat'}
+                      >
+                        {isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSearch(node)}
+                        className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-gray-200 dark:hover:bg-gray-800 opacity-0 group-hover:opacity-100"
+                        title="Search patents in this class"
+                      >
+                        <Search className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,6 +4,8 @@ import React, { useState } from 'react';
 import { Download, Copy, CheckCircle2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Image from 'next/image';
+import { ProvenanceSources } from '@/components/provenance-sources';
+import type { ArtifactProvenance } from '@/lib/provenance';
 
 interface CSVPreviewProps {
   title: string;
@@ -13,6 +15,8 @@ interface CSVPreviewProps {
   csvContent: string;
   rowCount: number;
   columnCount: number;
+  /** Where the values came from - shown as a sources popover */
+  provenance?: ArtifactProvenance | null;
 }
 
 function CSVPreviewComponent({
@@ -23,6 +27,7 @@ function CSVPreviewComponent({
   csvContent,
   rowCount,
   columnCount,
+  provenance,
 }: CSVPreviewProps) {
   const [copied, setCopied] = useState(false);
 
@@ -81,6 +86,7 @@ function CSVPreviewComponent({
               <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
                 {columnCount} Column{columnCount !== 1 ? 's' : ''}
               </span>
+              <ProvenanceSources provenance={provenance} />
             </div>
           </div>
 
@@ -162,7 +168,8 @@ export const CSVPreview = React.memo(CSVPreviewComponent, (prevProps, nextProps)
     prevProps.description === nextProps.description &&
     prevProps.csvContent === nextProps.csvContent &&
     prevProps.rowCount === nextProps.rowCount &&
-    prevProps.columnCount === nextProps.columnCount
+    prevProps.columnCount === nextProps.columnCount &&
+    prevProps.provenance?.createdAt === nextProps.provenance?.createdAt
   );
 });
 
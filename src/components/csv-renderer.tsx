@@ -4,13 +4,17 @@ import React, { useState, useEffect, memo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { csvToMarkdownTable, formatCsvForMarkdown, CSVData } from '@/lib/csv-utils';
+import { ProvenanceSources } from '@/components/provenance-sources';
+import type { ArtifactProvenance } from '@/lib/provenance';
 
 // Cache for CSV data to prevent re-fetching during streaming
-const csvDataCache = new Map<string, CSVData>();
+const csvDataCache = new Map<string, CSVData & { provenance?: ArtifactProvenance | null }>();
 
 // CSV Renderer Component - fetches and displays CSV as markdown table
 const CsvRendererComponent = ({ csvId, alt }: { csvId: string; alt?: string }) => {
-  const [csvData, setCsvData] = useState<CSVData | null>(() => csvDataCache.get(csvId) || null);
+  const [csvData, setCsvData] = useState<(CSVData & { provenance?: ArtifactProvenance | null }) | null>(
+    () => csvDataCache.get(csvId) || null
+  );
   const [loading, setLoading] = useState(!csvDataCache.has(csvId));
   const [error, setError] = useState(false);
 
@@ -41,6 +45,7 @@ const CsvRendererComponent = ({ csvId, alt }: { csvId: string; alt?: string }) =
           description: data.description,
           headers: data.headers,
           rows: data.rows,
+          provenance: data.provenance,
         };
 
         // Cache the result
@@ -96,6 +101,11 @@ const CsvRendererComponent = ({ csvId, alt }: { csvId: string; alt?: string }) =
       <ReactMarkdown remarkPlugins={[remarkGfm]}>
         {markdownTable}
       </ReactMarkdown>
+      {csvData.provenance && (
+        <div className="mt-1">
+          <ProvenanceSources provenance={csvData.provenance} />
+        </div>
+      )}
     </div>
   );
 };
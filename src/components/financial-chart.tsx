@@ -12,6 +12,8 @@ import {
 import { Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Image from 'next/image';
+import { ProvenanceSources } from '@/components/provenance-sources';
+import type { ArtifactProvenance } from '@/lib/provenance';
 
 // Professional color palette for biomedical research
 const DEFAULT_COLORS = [
@@ -50,6 +52,8 @@ interface BiomedicalChartProps {
       end: string | number;
     } | null;
   };
+  /** Where the values came from - shown as a sources popover */
+  provenance?: ArtifactProvenance | null;
   hideDownloadButton?: boolean;
 }
 
@@ -61,6 +65,7 @@ function BiomedicalChartComponent({
   dataSeries,
   description,
   metadata,
+  provenance,
   hideDownloadButton = false,
 }: BiomedicalChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
@@ -451,19 +456,24 @@ function BiomedicalChartComponent({
               )}
 
               {/* Metadata Badges - Refined */}
-              {metadata && (
+              {(metadata || provenance) && (
                 <div className="flex flex-wrap gap-1.5 mt-2.5">
-                  <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
-                    {metadata.totalSeries} {metadata.totalSeries === 1 ? 'Series' : 'Series'}
-                  </span>
-                  <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
-                    {metadata.totalDataPoints} Points
-                  </span>
-                  {metadata.dateRange && (
-                    <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
-                      {metadata.dateRange.start} → {metadata.dateRange.end}
-                    </span>
+                  {metadata && (
+                    <>
+                      <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                        {metadata.totalSeries} {metadata.totalSeries === 1 ? 'Series' : 'Series'}
+                      </span>
+                      <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                        {metadata.totalDataPoints} Points
+                      </span>
+                      {metadata.dateRange && (
+                        <span className="inline-flex items-center px-2 py-0.5 text-[10px] font-medium rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                          {metadata.dateRange.start} → {metadata.dateRange.end}
+                        </span>
+                      )}
+                    </>
                   )}
+                  <ProvenanceSources provenance={provenance} />
                 </div>
               )}
             </div>
@@ -521,7 +531,9 @@ export const BiomedicalChart = React.memo(BiomedicalChartComponent, (prevProps,
     prevProps.yAxisLabel === nextProps.yAxisLabel &&
     prevProps.description === nextProps.description &&
     JSON.stringify(prevProps.dataSeries) === JSON.stringify(nextProps.dataSeries) &&
-    JSON.stringify(prevProps.metadata) === JSON.stringify(nextProps.metadata)
+    JSON.stringify(prevProps.metadata) === JSON.stringify(nextProps.metadata) &&
+    prevProps.provenance?.toolCallId === nextProps.provenance?.toolCallId &&
+    prevProps.provenance?.createdAt === nextProps.provenance?.createdAt
   );
 });
 
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, BookmarkCheck, Check, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { createClient } from '@/utils/supabase/client-wrapper';
+import type { PatentCollection, PatentCollectionItem } from '@/lib/patents/collections';
+import type { PatentRecord } from '@/lib/patents/record';
+import { useProjectStore } from '@/lib/stores/use-project-store';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+export function usePatentCollections(enabled = true) {
+  return useQuery({
+    queryKey: ['patent-collections'],
+    queryFn: async () => {
+      const response = await fetch('/api/collections', { headers: await authHeaders() });
+      if (!response.ok) return [];
+      const data = await response.json();
+      return (data.collections || []) as PatentCollection[];
+    },
+    enabled,
+  });
+}
+
+/**
+ * Bookmark a patent from a search result card into a new or existing
+ * collection. Clicks stop here so the card's detail dialog stays closed.
+ */
+export function SaveToCollectionButton({ patent }: { patent: PatentRecord }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const { data: collections = [] } = usePatentCollections(open);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ collectionId, name }: { collectionId?: string; name?: string }) => {
+      let targetId = collectionId;
+      if (!targetId) {
+        const response = await fetch('/api/collections', {
+          method: 'POST',
+          headers: await authHeaders(),
+          body: JSON.stringify({ name, projectId: useProjectStore.getState().activeProjectId }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to create collection');
+        }
+        targetId = (await response.json()).collection.id;
+      }
+      const response = await fetch(`/api/collections/${targetId}/items`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ patent }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save patent');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewName('');
+      queryClient.invalidateQueries({ queryKey: ['patent-collections'] });
+    },
+  });
+
+  const savedIn = new Set(
+    collections
+      .filter((collection) => collection.items.some((item) => item.patentNumber === patent.patentNumber))
+      .map((collection) => collection.id)
+  );
+
+  const createCollection = () => {
+    if (newName.trim()) saveMutation.mutate({ name: newName.trim() });
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          className="inline-flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors flex-shrink-0"
+          title="Save to a collection"
+        >
+          {savedIn.size > 0 ? <BookmarkCheck className="h-3 w-3" /> : <Bookmark className="h-3 w-3" />}
+          Save
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="text-xs">Save {patent.patentNumber} to</DropdownMenuLabel>
+        {collections.map((collection) => (
+          <DropdownMenuItem
+            key={collection.id}
+            onSelect={(e) => {
+              e.preventDefault();
+              if (!savedIn.has(collection.id)) saveMutation.mutate({ collectionId: collection.id });
+            }}
+            className="text-sm"
+          >
+            <span className="flex-1 truncate">{collection.name}</span>
+            {savedIn.has(collection.id) ? (
+              <Check className="h-3.5 w-3.5 text-emerald-600" />
+            ) : (
+              <span className="text-xs text-gray-400">{collection.items.length}</span>
+            )}
+          </DropdownMenuItem>
+        ))}
+        {collections.length > 0 && <DropdownMenuSeparator />}
+        <div className="flex items-center gap-1.5 p-1.5">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              // Keep the menu's typeahead from stealing keystrokes
+              e.stopPropagation();
+              if (e.key === 'Enter') createCollection();
+            }}
+            placeholder="New collection"
+            className="h-7 text-xs"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={createCollection}
+            disabled={!newName.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+          </Button>
+        </div>
+        {saveMutation.isError && (
+          <p className="px-2 pb-1.5 text-xs text-red-600 dark:text-red-400">{(saveMutation.error as Error).message}</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function CollectionItemRow({ item }: { item: PatentCollectionItem }) {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState(item.notes || '');
+  const [tags, setTags] = useState(item.tags.join(', '));
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { notes?: string; tags?: string }) => {
+      const response = await fetch(`/api/collections/${item.collectionId}/items/${item.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update patent');
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['patent-collections'] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await fetch(`/api/collections/${item.collectionId}/items/${item.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['patent-collections'] }),
+  });
+
+  const patent = item.snapshot;
+
+  return (
+    <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-800 space-y-2">
+      <div className="flex items-start gap-2">
+        <Link href={`/patents/${encodeURIComponent(item.patentNumber)}`} className="flex-1 min-w-0 group">
+          <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate group-hover:underline">
+            {item.patentNumber}: {patent.title}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {[patent.assignees?.[0], patent.publicationDate || patent.filingDate].filter(Boolean).join(' · ')}
+          </div>
+        </Link>
+        <button
+          type="button"
+          onClick={() => deleteMutation.mutate()}
+          disabled={deleteMutation.isPending}
+          className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+          title="Remove from collection"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => notes !== (item.notes || '') && updateMutation.mutate({ notes })}
+        placeholder="Notes"
+        className="min-h-[56px] text-xs"
+      />
+      <Input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={() => tags !== item.tags.join(', ') && updateMutation.mutate({ tags })}
+        placeholder="Tags, comma separated"
+        className="h-7 text-xs"
+      />
+    </div>
+  );
+}
+
+interface PatentCollectionDialogProps {
+  collectionId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Collection contents: each saved patent with editable notes and tags.
+ * Tags filter the list; deleting the collection removes its items too.
+ */
+export function PatentCollectionDialog({ collectionId, onClose }: PatentCollectionDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: collections = [], isLoading } = usePatentCollections(!!collectionId);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const collection = collections.find((c) => c.id === collectionId);
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await fetch(`/api/collections/${collectionId}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patent-collections'] });
+      onClose();
+    },
+  });
+
+  const allTags = Array.from(new Set((collection?.items || []).flatMap((item) => item.tags))).sort();
+  const items = (collection?.items || []).filter((item) => !tagFilter || item.tags.includes(tagFilter));
+
+  return (
+    <Dialog
+      open={!!collectionId}
+      onOpenChange={(open) => {
+        if (!open) {
+          setTagFilter(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogTitle className="pr-8">{collection?.name || 'Collection'}</DialogTitle>
+        <div className="flex items-center justify-between gap-3 -mt-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {collection?.description || `${collection?.items.length || 0} saved patents`}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            className="flex-shrink-0"
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+            Delete
+          </Button>
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                className={`text-[11px] px-1.5 py-0.5 rounded transition-colors ${
+                  tagFilter === tag
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[60vh]">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+              Save patents from search results to add them here.
+            </p>
+          ) : (
+            <div className="space-y-2 pr-3">
+              {items.map((item) => (
+                <CollectionItemRow key={item.id} item={item} />
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+        {collection && collection.items.length > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Ask in chat, e.g. &quot;compare everything in my {collection.name}&quot;, to work with these patents.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
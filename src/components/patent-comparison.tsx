@@ -0,0 +1,274 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ComparedPatent, PatentComparison, comparePatents, highlightClaimTerms } from '@/lib/patents/compare';
+import type { PatentRecord } from '@/lib/patents/record';
+
+const TERM_CHIP_LIMIT = 15;
+
+function HighlightedClaim({ text, sharedTerms, uniqueTerms }: { text: string; sharedTerms: string[]; uniqueTerms: string[] }) {
+  const segments = useMemo(() => highlightClaimTerms(text, sharedTerms, uniqueTerms), [text, sharedTerms, uniqueTerms]);
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.highlight ? (
+          <mark
+            key={i}
+            className={`rounded px-0.5 ${
+              segment.highlight === 'shared'
+                ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-900 dark:text-blue-200'
+                : 'bg-amber-100 dark:bg-amber-900/40 text-amber-900 dark:text-amber-200'
+            }`}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function CpcCodes({ patent, shared }: { patent: ComparedPatent; shared: Set<string> }) {
+  if (patent.cpcCodes.length === 0) return <span className="text-gray-400">-</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {patent.cpcCodes.map((code) => (
+        <span
+          key={code}
+          className={`font-mono text-[11px] px-1.5 py-0.5 rounded ${
+            shared.has(code)
+              ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200'
+              : patent.uniqueCpcCodes.includes(code)
+                ? 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {code}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison table. Claim terms and CPC codes every patent has
+ * are blue; those only one patent has are amber.
+ */
+export function PatentComparisonView({ comparison }: { comparison: PatentComparison }) {
+  const { patents, sharedTerms } = comparison;
+  const sharedCpc = useMemo(() => new Set(comparison.sharedCpcCodes), [comparison.sharedCpcCodes]);
+
+  const rows: Array<{ label: string; render: (patent: ComparedPatent) => React.ReactNode }> = [
+    { label: 'Assignees', render: (patent) => patent.assignees.join(', ') || '-' },
+    { label: 'Inventors', render: (patent) => patent.inventors.join(', ') || '-' },
+    {
+      label: 'Dates',
+      render: (patent) => (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+          <dt className="text-gray-400">Priority</dt>
+          <dd className={patent.patentNumber === comparison.earliestPriority ? 'font-semibold text-emerald-700 dark:text-emerald-400' : ''}>
+            {patent.priorityDate || '-'}
+          </dd>
+          <dt className="text-gray-400">Filed</dt>
+          <dd>{patent.filingDate || '-'}</dd>
+          <dt className="text-gray-400">Published</dt>
+          <dd>{patent.publicationDate || '-'}</dd>
+        </dl>
+      ),
+    },
+    { label: 'Abstract', render: (patent) => <p className="text-xs leading-relaxed">{patent.abstract || '-'}</p> },
+    {
+      label: 'Independent claims',
+      render: (patent) =>
+        patent.independentClaims.length > 0 ? (
+          <div className="space-y-2">
+            {patent.independentClaims.map((claim) => (
+              <p key={claim.number} className="text-xs leading-relaxed whitespace-pre-wrap">
+                <span className="font-mono font-semibold text-gray-500 mr-1">{claim.number}.</span>
+                <HighlightedClaim text={claim.text} sharedTerms={sharedTerms} uniqueTerms={patent.uniqueTerms} />
+              </p>
+            ))}
+          </div>
+        ) : (
+          <span className="text-xs text-gray-400">No claims text available</span>
+        ),
+    },
+    {
+      label: 'Unique terms',
+      render: (patent) => (
+        <div className="flex flex-wrap gap-1">
+          {patent.uniqueTerms.slice(0, TERM_CHIP_LIMIT).map((term) => (
+            <span key={term} className="text-[11px] px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200">
+              {term}
+            </span>
+          ))}
+          {patent.uniqueTerms.length === 0 && <span className="text-xs text-gray-400">-</span>}
+        </div>
+      ),
+    },
+    { label: 'CPC codes', render: (patent) => <CpcCodes patent={patent} shared={sharedCpc} /> },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded bg-blue-100 dark:bg-blue-900/40" /> Shared by all
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded bg-amber-100 dark:bg-amber-900/40" /> Unique to one patent
+        </span>
+        <span>
+          Shared CPC subclasses:{' '}
+          <span className="font-mono">{comparison.sharedCpcSubclasses.join(', ') || 'none'}</span>
+        </span>
+      </div>
+
+      {sharedTerms.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {sharedTerms.slice(0, TERM_CHIP_LIMIT * 2).map((term) => (
+            <span key={term} className="text-[11px] px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200">
+              {term}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-gray-800/60">
+              <th className="w-28 p-2" />
+              {patents.map((patent) => (
+                <th key={patent.patentNumber} className="p-2 text-left align-top min-w-[220px]">
+                  <a
+                    href={patent.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {patent.patentNumber}
+                  </a>
+                  <div className="text-xs font-medium text-gray-800 dark:text-gray-200 mt-0.5">{patent.title}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="p-2 align-top text-xs font-medium text-gray-500 dark:text-gray-400">{row.label}</td>
+                {patents.map((patent) => (
+                  <td key={patent.patentNumber} className="p-2 align-top text-xs text-gray-700 dark:text-gray-300">
+                    {row.render(patent)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Compare view opened from a search results carousel. The comparison is
+ * computed in the browser; saving stores it as a CSV in the session, so it
+ * is only offered once the chat has a session.
+ */
+export function PatentComparisonDialog({
+  patents,
+  open,
+  onOpenChange,
+  sessionId,
+}: {
+  patents: PatentRecord[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId?: string;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [savedCsvId, setSavedCsvId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const comparison = useMemo(() => {
+    try {
+      return comparePatents(patents);
+    } catch {
+      return null;
+    }
+  }, [patents]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/patents/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ patentNumbers: patents.map((patent) => patent.patentNumber), sessionId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save comparison');
+      setSavedCsvId(data.csvId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comparison');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setSavedCsvId(null);
+          setError(null);
+        }
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-6xl w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare patents</DialogTitle>
+          <DialogDescription>
+            {patents.map((patent) => patent.patentNumber).join(' vs ')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {comparison ? <PatentComparisonView comparison={comparison} /> : (
+          <div className="text-sm text-gray-500">Select 2-4 different patents to compare.</div>
+        )}
+
+        {comparison && (
+          <div className="flex items-center justify-end gap-3">
+            {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+            {savedCsvId ? (
+              <a
+                href={`/api/csvs/${savedCsvId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-xs text-emerald-700 dark:text-emerald-400 hover:underline"
+              >
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                Saved as table
+              </a>
+            ) : sessionId && (
+              <Button size="sm" variant="outline" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+                Save as CSV
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Eye, Check, RefreshCw, ExternalLink, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { createClient } from '@/utils/supabase/client-wrapper';
+import type { PatentWatch, PatentWatchSnapshot } from '@/lib/patents/watches';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+/**
+ * Save a patentSearch call (query plus its filter arguments) as a watch
+ */
+export function SaveWatchButton({ input }: { input: Record<string, any> }) {
+  const queryClient = useQueryClient();
+  const [saved, setSaved] = useState(false);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { query, maxResults, ...filters } = input;
+      const response = await fetch('/api/watches', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ query, maxResults, filters }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save watch');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setSaved(true);
+      queryClient.invalidateQueries({ queryKey: ['patent-watches'] });
+    },
+  });
+
+  if (!input?.query) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!saved) saveMutation.mutate();
+      }}
+      disabled={saveMutation.isPending || saved}
+      className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:cursor-default w-fit"
+      title="Re-run this search later and see only new patents"
+    >
+      {saveMutation.isPending ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : saved ? (
+        <Check className="h-3 w-3" />
+      ) : (
+        <Eye className="h-3 w-3" />
+      )}
+      {saved ? 'Watching' : 'Watch this search'}
+    </button>
+  );
+}
+
+interface PatentWatchDialogProps {
+  watch: PatentWatch | null;
+  onClose: () => void;
+}
+
+/**
+ * Watch details: re-run the search and browse the patents each run found
+ * that no earlier run had returned. Opening a watch marks its new patents seen.
+ */
+export function PatentWatchDialog({ watch, onClose }: PatentWatchDialogProps) {
+  const queryClient = useQueryClient();
+  const watchId = watch?.id;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['patent-watch', watchId],
+    queryFn: async () => {
+      const response = await fetch(`/api/watches/${watchId}`, { headers: await authHeaders() });
+      return response.json() as Promise<{ watch: PatentWatch; snapshots: PatentWatchSnapshot[] }>;
+    },
+    enabled: !!watchId,
+  });
+
+  useEffect(() => {
+    if (!watchId || !watch?.unseenCount) return;
+    (async () => {
+      await fetch(`/api/watches/${watchId}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ markSeen: true }),
+      });
+      queryClient.invalidateQueries({ queryKey: ['patent-watches'] });
+    })();
+  }, [watchId, watch?.unseenCount, queryClient]);
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/watches/${watchId}/run`, {
+        method: 'POST',
+        headers: await authHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to run watch');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patent-watch', watchId] });
+      queryClient.invalidateQueries({ queryKey: ['patent-watches'] });
+    },
+  });
+
+  const snapshots = data?.snapshots || [];
+  // The oldest snapshot is the baseline - it has no "new" patents to show
+  const runsWithNews = snapshots.filter((s) => s.newPatentNumbers.length > 0);
+
+  return (
+    <Dialog open={!!watch} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogTitle className="pr-8">{watch?.name}</DialogTitle>
+        <div className="flex items-center justify-between gap-3 -mt-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {watch?.query}
+            {watch?.lastRunAt && ` · last run ${new Date(watch.lastRunAt).toLocaleString()}`}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            className="flex-shrink-0"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${runMutation.isPending ? 'animate-spin' : ''}`} />
+            Run now
+          </Button>
+        </div>
+
+        {runMutation.isError && (
+          <p className="text-xs text-red-600 dark:text-red-400">{(runMutation.error as Error).message}</p>
+        )}
+        {runMutation.isSuccess && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {runMutation.data.baseline
+              ? `Baseline saved with ${runMutation.data.resultCount} patents.`
+              : `${runMutation.data.newPatents.length} new of ${runMutation.data.resultCount} patents returned.`}
+          </p>
+        )}
+
+        <ScrollArea className="max-h-[60vh]">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : runsWithNews.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+              No new patents since the watch was created.
+            </p>
+          ) : (
+            <div className="space-y-4 pr-3">
+              {runsWithNews.map((snapshot) => (
+                <div key={snapshot.id}>
+                  <div className="text-[11px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1.5">
+                    {snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleDateString() : 'Run'}
+                    {` · ${snapshot.newPatentNumbers.length} new`}
+                  </div>
+                  <div className="space-y-1.5">
+                    {snapshot.results.map((patent) => (
+                      <a
+                        key={patent.patentNumber || patent.url}
+                        href={patent.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-start gap-2 p-2 rounded-lg border border-gray-200 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                            {patent.patentNumber}: {patent.title}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {[patent.assignees?.[0], patent.publicationDate].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        <ExternalLink className="h-3.5 w-3.5 text-gray-400 flex-shrink-0 mt-0.5" />
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
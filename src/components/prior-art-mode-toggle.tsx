@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { FileSearch, Upload } from 'lucide-react';
+
+// Disclosures arrive as plain text or markdown exports from the drafting tool
+const ACCEPTED_TYPES = '.txt,.md,.markdown,text/plain,text/markdown';
+const MAX_FILE_BYTES = 500 * 1024;
+
+interface PriorArtModeToggleProps {
+  enabled: boolean;
+  disabled?: boolean;
+  onToggle: () => void;
+  /** Called with the text of an uploaded disclosure file */
+  onDisclosureLoaded: (text: string) => void;
+}
+
+/**
+ * Prior-art mode switch shown next to the Valyu/LLM toggle. When enabled the
+ * next message is treated as an invention disclosure, and a disclosure file
+ * can be uploaded into the input instead of pasted.
+ */
+export function PriorArtModeToggle({ enabled, disabled = false, onToggle, onDisclosureLoaded }: PriorArtModeToggleProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_FILE_BYTES) {
+      alert('Disclosure files must be under 500KB. Paste the key sections instead.');
+      return;
+    }
+    onDisclosureLoaded((await file.text()).trim());
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        type="button"
+        onClick={onToggle}
+        disabled={disabled}
+        className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all whitespace-nowrap ${
+          enabled
+            ? 'bg-gradient-to-r from-amber-500/90 to-orange-600/90 text-white shadow-md shadow-amber-500/30'
+            : 'bg-gray-200/80 dark:bg-gray-700/80 text-gray-700 dark:text-gray-300 hover:bg-gray-300/80 dark:hover:bg-gray-600/80'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+        title={enabled ? 'Prior-art mode: your message is treated as an invention disclosure' : 'Switch to prior-art search from an invention disclosure'}
+      >
+        <FileSearch className="h-3.5 w-3.5" />
+        <span className="hidden sm:inline">Prior Art</span>
+      </button>
+
+      {enabled && (
+        <>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className={`p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-200/80 dark:hover:bg-gray-700/80 transition-colors ${
+              disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+            }`}
+            title="Upload disclosure (.txt or .md)"
+          >
+            <Upload className="h-3.5 w-3.5" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            onChange={handleFile}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { createClient } from '@/utils/supabase/client-wrapper';
+import { useProjectStore } from '@/lib/stores/use-project-store';
+import type { Project } from '@/lib/projects';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+/**
+ * Project management on the overview page: rename, add chats that are not in
+ * any project, and delete. Deleting keeps the chats and collections.
+ */
+export function ProjectSettings({ project }: { project: Project }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { activeProjectId, setActiveProject } = useProjectStore();
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description || '');
+
+  const { data: unassigned = [] } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await fetch('/api/chat/sessions', { headers: await authHeaders() });
+      const { sessions } = await response.json();
+      return sessions;
+    },
+    select: (sessions: Array<{ id: string; title: string; project_id: string | null }>) =>
+      sessions.filter((session) => !session.project_id),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ name, description }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save project');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      router.refresh();
+    },
+  });
+
+  const addSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ projectId: project.id }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to add chat');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      router.refresh();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await fetch(`/api/projects/${project.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      });
+    },
+    onSuccess: () => {
+      if (activeProjectId === project.id) setActiveProject(null);
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['patent-collections'] });
+      router.push('/');
+    },
+  });
+
+  const changed = name.trim() !== project.name || description.trim() !== (project.description || '');
+
+  return (
+    <section className="mb-10 border-t border-gray-200 dark:border-gray-800 pt-8">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">Settings</h2>
+
+      <div className="space-y-2 max-w-xl">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Project name" />
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description, e.g. client and matter"
+          className="min-h-[72px]"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={!changed || !name.trim() || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+          Save
+        </Button>
+      </div>
+
+      {unassigned.length > 0 && (
+        <div className="mt-8 max-w-xl">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Add chats without a project</h3>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {unassigned.map((session) => (
+              <li key={session.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{session.title}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => addSessionMutation.mutate(session.id)}
+                  disabled={addSessionMutation.isPending}
+                >
+                  <Plus className="h-3.5 w-3.5 mr-1" />
+                  Add
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-8">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            if (window.confirm(`Delete "${project.name}"? Its chats and collections are kept.`)) deleteMutation.mutate();
+          }}
+          disabled={deleteMutation.isPending}
+          className="text-red-600 dark:text-red-400"
+        >
+          <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+          Delete project
+        </Button>
+      </div>
+    </section>
+  );
+}
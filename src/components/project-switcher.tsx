@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, FolderKanban, LayoutDashboard, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { createClient } from '@/utils/supabase/client-wrapper';
+import { useProjectStore } from '@/lib/stores/use-project-store';
+import type { Project } from '@/lib/projects';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+export function useProjects(enabled = true) {
+  return useQuery({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const response = await fetch('/api/projects', { headers: await authHeaders() });
+      if (!response.ok) return [];
+      const { projects } = await response.json();
+      return (projects || []) as Project[];
+    },
+    enabled,
+  });
+}
+
+/**
+ * Sidebar entry for choosing the active project. The active project filters
+ * chat history and collections, and new chats and collections are created
+ * in it.
+ */
+export function ProjectSwitcher() {
+  const queryClient = useQueryClient();
+  const { activeProjectId, setActiveProject } = useProjectStore();
+  const [newName, setNewName] = useState('');
+  const { data: projects = [], isFetched } = useProjects();
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create project');
+      }
+      return (await response.json()).project as Project;
+    },
+    onSuccess: (project) => {
+      setNewName('');
+      setActiveProject(project.id);
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+
+  const activeProject = projects.find((project) => project.id === activeProjectId);
+  // The stored project was deleted (possibly on another device)
+  useEffect(() => {
+    if (activeProjectId && isFetched && !activeProject) setActiveProject(null);
+  }, [activeProjectId, isFetched, activeProject, setActiveProject]);
+
+  const itemClass =
+    'flex items-center gap-2 p-2.5 rounded-xl hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm cursor-pointer transition-colors border border-transparent hover:border-blue-200/30 dark:hover:border-purple-500/20';
+
+  return (
+    <div className="relative group">
+      <button className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm rounded-xl transition-all duration-200">
+        <FolderKanban className="h-5 w-5 text-gray-600 dark:text-gray-400 transition-colors flex-shrink-0" />
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">
+          {activeProject?.name || 'All chats'}
+        </span>
+      </button>
+
+      {/* Hover Dropdown */}
+      <div className="absolute left-full ml-2 top-0 w-64 h-auto max-h-[500px] bg-purple-200 dark:bg-purple-900/30 bg-clip-padding backdrop-filter backdrop-blur-xl bg-opacity-20 dark:bg-opacity-30 rounded-xl border border-gray-100 dark:border-purple-500/30 shadow-2xl shadow-blue-500/10 dark:shadow-purple-500/20 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50 overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-blue-200/30 dark:border-purple-500/20">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">Projects</h3>
+        </div>
+
+        {/* Projects List */}
+        <ScrollArea className="flex-1 px-2 max-h-[340px]">
+          <div className="space-y-1 py-2">
+            <div onClick={() => setActiveProject(null)} className={itemClass}>
+              <span className="flex-1 text-sm font-medium text-gray-900 dark:text-gray-100">All chats</span>
+              {!activeProjectId && <Check className="h-3.5 w-3.5 text-emerald-600" />}
+            </div>
+            {projects.map((project) => (
+              <div key={project.id} onClick={() => setActiveProject(project.id)} className={`${itemClass} group/project`}>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{project.name}</div>
+                  {project.description && (
+                    <div className="text-xs text-gray-400 dark:text-gray-500 mt-0.5 truncate">{project.description}</div>
+                  )}
+                </div>
+                {project.id === activeProjectId && <Check className="h-3.5 w-3.5 text-emerald-600 flex-shrink-0" />}
+                <Link
+                  href={`/projects/${project.id}`}
+                  onClick={(e) => e.stopPropagation()}
+                  className="opacity-0 group-hover/project:opacity-100 p-1.5 rounded-lg hover:bg-white/60 dark:hover:bg-gray-800/60 transition-all"
+                  title="Project overview"
+                >
+                  <LayoutDashboard className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
+                </Link>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {/* New Project */}
+        <div className="flex items-center gap-1.5 p-2 border-t border-blue-200/30 dark:border-purple-500/20">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && newName.trim()) createMutation.mutate(newName.trim());
+            }}
+            placeholder="New project"
+            className="h-7 text-xs"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => createMutation.mutate(newName.trim())}
+            disabled={!newName.trim() || createMutation.isPending}
+          >
+            {createMutation.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
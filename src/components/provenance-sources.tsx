@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { Calculator, PenLine } from 'lucide-react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { ArtifactProvenance, describeProvenanceMethod } from '@/lib/provenance';
+
+const PATENT_LIST_LIMIT = 20;
+
+/**
+ * "Sources" badge for a chart or table. Hover (or focus) to see which tool
+ * produced the values, whether they were computed or typed by the model,
+ * and the patents and tool calls they came from.
+ */
+export function ProvenanceSources({ provenance }: { provenance?: ArtifactProvenance | null }) {
+  if (!provenance) return null;
+
+  const computed = provenance.method === 'deterministic';
+  const Icon = computed ? Calculator : PenLine;
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <button
+          type="button"
+          className={`inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium rounded-md cursor-help ${
+            computed
+              ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300'
+              : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300'
+          }`}
+        >
+          <Icon className="h-3 w-3" />
+          Sources{provenance.patentNumbers.length > 0 ? ` (${provenance.patentNumbers.length})` : ''}
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 text-xs space-y-2.5" align="start">
+        <div>
+          <div className="font-semibold text-gray-900 dark:text-gray-100">{describeProvenanceMethod(provenance.method)}</div>
+          <div className="text-gray-500 dark:text-gray-400 mt-0.5">
+            {computed
+              ? 'Values were calculated by the tool from retrieved records.'
+              : 'Values were written by the model and are not recomputed from tool output.'}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-[10px] uppercase tracking-wide text-gray-400 mb-0.5">Created by</div>
+          <div className="font-mono text-gray-700 dark:text-gray-300 break-all">
+            {provenance.tool}
+            {provenance.toolCallId && <span className="text-gray-400"> · {provenance.toolCallId}</span>}
+          </div>
+        </div>
+
+        {provenance.sourceToolCallIds.length > 0 && (
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-400 mb-0.5">Retrieved by tool calls</div>
+            <div className="font-mono text-gray-700 dark:text-gray-300 break-all space-y-0.5">
+              {provenance.sourceToolCallIds.map((id) => (
+                <div key={id}>{id}</div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-[10px] uppercase tracking-wide text-gray-400 mb-0.5">Patents</div>
+          {provenance.patentNumbers.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {provenance.patentNumbers.slice(0, PATENT_LIST_LIMIT).map((number) => (
+                <a
+                  key={number}
+                  href={`https://patents.google.com/patent/${number}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:text-blue-600"
+                >
+                  {number}
+                </a>
+              ))}
+              {provenance.patentNumbers.length > PATENT_LIST_LIMIT && (
+                <span className="text-gray-400 py-0.5">+{provenance.patentNumbers.length - PATENT_LIST_LIMIT} more</span>
+              )}
+            </div>
+          ) : (
+            <div className="text-gray-500 dark:text-gray-400">No retrieved patents linked</div>
+          )}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
@@ -19,18 +19,31 @@ import {
   BarChart3,
   Plus,
   Building2,
+  Eye,
+  Bookmark,
+  Search,
+  X,
+  Download,
+  Upload,
 } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { SettingsModal } from '@/components/user/settings-modal';
 import { SubscriptionModal } from '@/components/user/subscription-modal';
 import { useSubscription } from '@/hooks/use-subscription';
 import { EnterpriseContactModal } from '@/components/enterprise/enterprise-contact-modal';
+import { PatentWatchDialog } from '@/components/patent-watches';
+import type { PatentWatch } from '@/lib/patents/watches';
+import { PatentCollectionDialog, usePatentCollections } from '@/components/patent-collections';
+import { ProjectSwitcher } from '@/components/project-switcher';
+import { ChatSearchResults } from '@/components/chat-history-search';
+import { useProjectStore } from '@/lib/stores/use-project-store';
 
 interface SidebarProps {
   currentSessionId?: string;
-  onSessionSelect?: (sessionId: string) => void;
+  onSessionSelect?: (sessionId: string, messageId?: string) => void;
   onNewChat?: () => void;
   hasMessages?: boolean;
   useValyuMode?: boolean;
@@ -43,6 +56,7 @@ interface ChatSession {
   created_at: string;
   updated_at: string;
   last_message_at: string;
+  project_id: string | null;
 }
 
 export function Sidebar({
@@ -68,13 +82,17 @@ export function Sidebar({
     onModeChange(mode);
   }, [onModeChange, useValyuMode]);
   const [showHistory, setShowHistory] = useState(false);
+  const [historyQuery, setHistoryQuery] = useState('');
   const [showSettings, setShowSettings] = useState(false);
   const [showSubscription, setShowSubscription] = useState(false);
   const [showProfileMenu, setShowProfileMenu] = useState(false);
   const [showEnterpriseModal, setShowEnterpriseModal] = useState(false);
+  const [openWatch, setOpenWatch] = useState<PatentWatch | null>(null);
+  const [openCollectionId, setOpenCollectionId] = useState<string | null>(null);
+  const activeProjectId = useProjectStore((state) => state.activeProjectId);
 
   // Fetch chat sessions
-  const { data: sessions = [], isLoading: loadingSessions } = useQuery({
+  const { data: allSessions = [], isLoading: loadingSessions } = useQuery<ChatSession[]>({
     queryKey: ['sessions'],
     queryFn: async () => {
       const supabase = createClient();
@@ -111,8 +129,75 @@ export function Sidebar({
     }
   });
 
-  const handleSessionSelect = useCallback((sessionId: string) => {
-    onSessionSelect?.(sessionId);
+  // Export a session as a portable bundle file
+  const handleExportSession = useCallback(async (sessionId: string) => {
+    const supabase = createClient();
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(`/api/chat/sessions/${sessionId}/export`, {
+      headers: { 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    if (!response.ok) return;
+
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'chat.session.json';
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  // Fetch saved patent watches
+  const { data: watches = [] } = useQuery({
+    queryKey: ['patent-watches'],
+    queryFn: async () => {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch('/api/watches', {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      });
+
+      const { watches } = await response.json();
+      return (watches || []) as PatentWatch[];
+    },
+    enabled: !!user
+  });
+
+  // Delete watch mutation
+  const deleteWatchMutation = useMutation({
+    mutationFn: async (watchId: string) => {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      await fetch(`/api/watches/${watchId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      });
+
+      return watchId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['patent-watches'] });
+    }
+  });
+
+  // Fetch saved patent collections
+  const { data: allCollections = [] } = usePatentCollections(!!user);
+
+  // The active project narrows history and collections to what it owns
+  const sessions = activeProjectId
+    ? allSessions.filter((session) => session.project_id === activeProjectId)
+    : allSessions;
+  const collections = activeProjectId
+    ? allCollections.filter((collection) => collection.projectId === activeProjectId)
+    : allCollections;
+
+  const totalUnseen = watches.reduce((sum, watch) => sum + watch.unseenCount, 0);
+
+  const handleSessionSelect = useCallback((sessionId: string, messageId?: string) => {
+    onSessionSelect?.(sessionId, messageId);
     setShowHistory(false);
   }, [onSessionSelect]);
 
@@ -121,6 +206,44 @@ export function Sidebar({
     setShowHistory(false);
   }, [onNewChat]);
 
+  // Import a bundle exported here or from another instance
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not a session bundle');
+      }
+
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch('/api/chat/sessions/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ bundle, projectId: activeProjectId })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import chat');
+      }
+      return result.sessionId as string;
+    },
+    onSuccess: (sessionId) => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['chat-search'] });
+      handleSessionSelect(sessionId);
+    },
+    onError: (error) => {
+      window.alert(error.message);
+    }
+  });
+
   // Sidebar is always open, no toggle needed
 
   // Listen for upgrade modal trigger from rate limit banner
@@ -251,6 +374,9 @@ export function Sidebar({
               {/* Divider */}
               <div className="w-full h-px bg-gradient-to-r from-transparent via-gray-300 dark:via-gray-600 to-transparent my-1" />
 
+              {/* Project Switcher with Hover Dropdown */}
+              {user && <ProjectSwitcher />}
+
               {/* New Chat */}
               {user && (
                 <button
@@ -297,20 +423,66 @@ export function Sidebar({
                     <div className="p-4 border-b border-blue-200/30 dark:border-purple-500/20">
                       <div className="flex items-center justify-between">
                         <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">Chat History</h3>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={handleNewChat}
-                          className="h-6 w-6 p-0"
-                        >
-                          <Plus className="h-3 w-3" />
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={importMutation.isPending}
+                            className="h-6 w-6 p-0"
+                            title="Import chat"
+                          >
+                            <Upload className="h-3 w-3" />
+                          </Button>
+                          <input
+                            ref={importInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) importMutation.mutate(file);
+                              e.target.value = '';
+                            }}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleNewChat}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="relative mt-3">
+                        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500" />
+                        <Input
+                          value={historyQuery}
+                          onChange={(e) => setHistoryQuery(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Escape') setHistoryQuery('');
+                          }}
+                          placeholder="Search all chats"
+                          className="h-7 pl-7 pr-7 text-xs"
+                        />
+                        {historyQuery && (
+                          <button
+                            onClick={() => setHistoryQuery('')}
+                            className="absolute right-2 top-1/2 -translate-y-1/2"
+                            title="Clear search"
+                          >
+                            <X className="h-3.5 w-3.5 text-gray-400 dark:text-gray-500" />
+                          </button>
+                        )}
                       </div>
                     </div>
 
                     {/* Sessions List */}
                     <ScrollArea className="flex-1 px-2 max-h-[400px]">
-                      {loadingSessions ? (
+                      {historyQuery.trim() ? (
+                        <ChatSearchResults query={historyQuery} onSelect={handleSessionSelect} />
+                      ) : loadingSessions ? (
                         <div className="space-y-2 p-2">
                           {[...Array(5)].map((_, i) => (
                             <div
@@ -322,12 +494,12 @@ export function Sidebar({
                       ) : sessions.length === 0 ? (
                         <div className="flex items-center justify-center h-full p-4">
                           <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
-                            No chat history yet
+                            {activeProjectId ? 'No chats in this project yet' : 'No chat history yet'}
                           </p>
                         </div>
                       ) : (
                         <div className="space-y-1 py-2">
-                          {sessions.map((session: ChatSession) => (
+                          {sessions.map((session) => (
                             <div
                               key={session.id}
                               onClick={() => handleSessionSelect(session.id)}
@@ -344,6 +516,16 @@ export function Sidebar({
                                   {new Date(session.last_message_at || session.created_at).toLocaleDateString()}
                                 </div>
                               </div>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleExportSession(session.id);
+                                }}
+                                className="opacity-0 group-hover:opacity-100 p-1.5 rounded-lg hover:bg-white/60 dark:hover:bg-gray-800/60 transition-all"
+                                title="Export chat"
+                              >
+                                <Download className="h-3.5 w-3.5 text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300" />
+                              </button>
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -363,6 +545,122 @@ export function Sidebar({
                 )}
               </div>
 
+              {/* Patent Watches with Hover Dropdown */}
+              {user && (
+                <div className="relative group">
+                  <button className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm rounded-xl transition-all duration-200">
+                    <Eye className="h-5 w-5 text-gray-600 dark:text-gray-400 transition-colors flex-shrink-0" />
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Watches</span>
+                    {totalUnseen > 0 && (
+                      <span className="ml-auto min-w-[20px] h-5 px-1.5 rounded-full bg-blue-500 text-white text-[11px] font-semibold flex items-center justify-center">
+                        {totalUnseen}
+                      </span>
+                    )}
+                  </button>
+
+                  {/* Hover Dropdown */}
+                  <div className="absolute left-full ml-2 top-0 w-64 h-auto max-h-[500px] bg-purple-200 dark:bg-purple-900/30 bg-clip-padding backdrop-filter backdrop-blur-xl bg-opacity-20 dark:bg-opacity-30 rounded-xl border border-gray-100 dark:border-purple-500/30 shadow-2xl shadow-blue-500/10 dark:shadow-purple-500/20 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50 overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="p-4 border-b border-blue-200/30 dark:border-purple-500/20">
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">Patent Watches</h3>
+                    </div>
+
+                    {/* Watches List */}
+                    <ScrollArea className="flex-1 px-2 max-h-[400px]">
+                      {watches.length === 0 ? (
+                        <div className="flex items-center justify-center h-full p-4">
+                          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                            No watches yet. Use &quot;Watch this search&quot; on a patent search.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-1 py-2">
+                          {watches.map((watch) => (
+                            <div
+                              key={watch.id}
+                              onClick={() => setOpenWatch(watch)}
+                              className="flex items-center gap-3 p-3 rounded-xl hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm group/watch cursor-pointer transition-colors border border-transparent hover:border-blue-200/30 dark:hover:border-purple-500/20"
+                            >
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                                  {watch.name}
+                                </div>
+                                <div className="text-xs text-gray-400 dark:text-gray-500 mt-0.5 truncate">
+                                  {watch.lastRunAt ? `Run ${new Date(watch.lastRunAt).toLocaleDateString()}` : 'Not run yet'}
+                                </div>
+                              </div>
+                              {watch.unseenCount > 0 && (
+                                <span className="min-w-[20px] h-5 px-1.5 rounded-full bg-blue-500 text-white text-[11px] font-semibold flex items-center justify-center flex-shrink-0">
+                                  {watch.unseenCount}
+                                </span>
+                              )}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteWatchMutation.mutate(watch.id);
+                                }}
+                                className="opacity-0 group-hover/watch:opacity-100 p-1.5 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+                                title="Delete watch"
+                              >
+                                <Trash2 className="h-3.5 w-3.5 text-gray-400 dark:text-gray-500 hover:text-red-500 dark:hover:text-red-400" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </ScrollArea>
+                  </div>
+                </div>
+              )}
+
+              {/* Patent Collections with Hover Dropdown */}
+              {user && (
+                <div className="relative group">
+                  <button className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm rounded-xl transition-all duration-200">
+                    <Bookmark className="h-5 w-5 text-gray-600 dark:text-gray-400 transition-colors flex-shrink-0" />
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Collections</span>
+                  </button>
+
+                  {/* Hover Dropdown */}
+                  <div className="absolute left-full ml-2 top-0 w-64 h-auto max-h-[500px] bg-purple-200 dark:bg-purple-900/30 bg-clip-padding backdrop-filter backdrop-blur-xl bg-opacity-20 dark:bg-opacity-30 rounded-xl border border-gray-100 dark:border-purple-500/30 shadow-2xl shadow-blue-500/10 dark:shadow-purple-500/20 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50 overflow-hidden flex flex-col">
+                    {/* Header */}
+                    <div className="p-4 border-b border-blue-200/30 dark:border-purple-500/20">
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">Patent Collections</h3>
+                    </div>
+
+                    {/* Collections List */}
+                    <ScrollArea className="flex-1 px-2 max-h-[400px]">
+                      {collections.length === 0 ? (
+                        <div className="flex items-center justify-center h-full p-4">
+                          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                            No collections yet. Use &quot;Save&quot; on a patent search result.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-1 py-2">
+                          {collections.map((collection) => (
+                            <div
+                              key={collection.id}
+                              onClick={() => setOpenCollectionId(collection.id)}
+                              className="flex items-center gap-3 p-3 rounded-xl hover:bg-white/40 dark:hover:bg-gray-800/40 backdrop-blur-sm cursor-pointer transition-colors border border-transparent hover:border-blue-200/30 dark:hover:border-purple-500/20"
+                            >
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                                  {collection.name}
+                                </div>
+                                <div className="text-xs text-gray-400 dark:text-gray-500 mt-0.5 truncate">
+                                  {collection.items.length} {collection.items.length === 1 ? 'patent' : 'patents'}
+                                </div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </ScrollArea>
+                  </div>
+                </div>
+              )}
+
               {/* Divider */}
               {user && !isDevelopment && <div className="w-full h-px bg-gradient-to-r from-transparent via-gray-300 dark:via-gray-600 to-transparent my-1" />}
 
@@ -516,6 +814,16 @@ export function Sidebar({
         open={showEnterpriseModal}
         onClose={() => setShowEnterpriseModal(false)}
       />
+
+      <PatentWatchDialog
+        watch={openWatch}
+        onClose={() => setOpenWatch(null)}
+      />
+
+      <PatentCollectionDialog
+        collectionId={openCollectionId}
+        onClose={() => setOpenCollectionId(null)}
+      />
     </>
   );
 }
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Building2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createClient } from '@/utils/supabase/client-wrapper';
+
+interface AssigneeAliasRow {
+  id: string;
+  alias: string;
+  canonical: string;
+  parent: string | null;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const supabase = createClient();
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`,
+  };
+}
+
+/**
+ * Manage the user's own assignee aliases, e.g. mapping a small acquisition
+ * onto its acquirer so patent counts and charts treat them as one company
+ */
+export function AssigneeAliasSettings() {
+  const queryClient = useQueryClient();
+  const [alias, setAlias] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [parent, setParent] = useState('');
+
+  const { data: aliases = [] } = useQuery({
+    queryKey: ['assignee-aliases'],
+    queryFn: async () => {
+      const response = await fetch('/api/assignee-aliases', { headers: await authHeaders() });
+      const { aliases } = await response.json();
+      return (aliases || []) as AssigneeAliasRow[];
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/assignee-aliases', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ alias, canonical, parent }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to add alias');
+      }
+    },
+    onSuccess: () => {
+      setAlias('');
+      setCanonical('');
+      setParent('');
+      queryClient.invalidateQueries({ queryKey: ['assignee-aliases'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (aliasId: string) => {
+      await fetch(`/api/assignee-aliases/${aliasId}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assignee-aliases'] });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Building2 className="h-4 w-4 text-gray-500" />
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Assignee Aliases
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Count patents filed under one name as another company. Built-in aliases already cover common spellings and subsidiaries.
+      </p>
+
+      {aliases.length > 0 && (
+        <div className="space-y-1 max-h-32 overflow-y-auto">
+          {aliases.map((a) => (
+            <div
+              key={a.id}
+              className="flex items-center gap-2 px-3 py-1.5 bg-gray-50 dark:bg-gray-900 rounded-lg text-xs"
+            >
+              <span className="flex-1 min-w-0 truncate">
+                {a.alias} → <span className="font-medium">{a.canonical}</span>
+                {a.parent && <span className="text-gray-500"> ({a.parent})</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(a.id)}
+                className="p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20"
+                title="Remove alias"
+              >
+                <Trash2 className="h-3 w-3 text-gray-400 hover:text-red-500" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (alias.trim() && canonical.trim()) addMutation.mutate();
+        }}
+        className="space-y-2"
+      >
+        <div className="grid grid-cols-2 gap-2">
+          <Input value={alias} onChange={(e) => setAlias(e.target.value)} placeholder="Name on patents" />
+          <Input value={canonical} onChange={(e) => setCanonical(e.target.value)} placeholder="Count as" />
+        </div>
+        <div className="flex gap-2">
+          <Input value={parent} onChange={(e) => setParent(e.target.value)} placeholder="Parent company (optional)" />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={addMutation.isPending || !alias.trim() || !canonical.trim()}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { DatabaseZap } from 'lucide-react';
+import { createClient } from '@/utils/supabase/client-wrapper';
+
+interface SearchCacheUsageSummary {
+  total: { hits: number; savedDollars: number };
+  last30Days: { hits: number; savedDollars: number };
+  bySource: Record<string, { hits: number; savedDollars: number }>;
+  recent: Array<{ source: string; query: string; savedDollars: number; createdAt: string }>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  patents: 'Patent searches',
+  patentNumbers: 'Patent lookups',
+  web: 'Web searches',
+};
+
+function formatDollars(amount: number): string {
+  return amount > 0 && amount < 0.01 ? '<$0.01' : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Repeated searches answered from the search cache instead of being billed
+ * again, and what that saved
+ */
+export function SearchCacheUsage() {
+  const { data: usage } = useQuery({
+    queryKey: ['search-cache-usage'],
+    queryFn: async () => {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/api/usage/search-cache', {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to load search cache usage');
+      }
+      return (await response.json()) as SearchCacheUsageSummary;
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <DatabaseZap className="h-4 w-4 text-gray-500" />
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Search Cache
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Repeated searches are answered from the cache and not billed again.
+      </p>
+
+      {usage && usage.total.hits > 0 ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="px-3 py-2 bg-gray-50 dark:bg-gray-900 rounded-lg">
+              <div className="text-lg font-semibold text-emerald-600 dark:text-emerald-400">
+                {formatDollars(usage.last30Days.savedDollars)}
+              </div>
+              <div className="text-xs text-gray-500">saved in the last 30 days ({usage.last30Days.hits} searches)</div>
+            </div>
+            <div className="px-3 py-2 bg-gray-50 dark:bg-gray-900 rounded-lg">
+              <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {formatDollars(usage.total.savedDollars)}
+              </div>
+              <div className="text-xs text-gray-500">saved in total ({usage.total.hits} searches)</div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {Object.entries(usage.bySource).map(([source, summary]) => (
+              <div key={source} className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                <span>{SOURCE_LABELS[source] || source}</span>
+                <span>{summary.hits} cached · {formatDollars(summary.savedDollars)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {usage.recent.map((hit, index) => (
+              <div
+                key={`${hit.createdAt}-${index}`}
+                className="flex items-center gap-2 px-3 py-1.5 bg-gray-50 dark:bg-gray-900 rounded-lg text-xs"
+              >
+                <span className="flex-1 min-w-0 truncate">{hit.query}</span>
+                <span className="text-gray-500 flex-shrink-0">{formatDollars(hit.savedDollars)}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400">No cached searches yet.</p>
+      )}
+    </div>
+  );
+}
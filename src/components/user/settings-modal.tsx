@@ -14,6 +14,8 @@ import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { AlertCircle, CheckCircle, Mail, Monitor } from 'lucide-react';
 import { ThemeSelector } from '@/components/ui/theme-toggle';
+import { AssigneeAliasSettings } from '@/components/user/assignee-alias-settings';
+import { SearchCacheUsage } from '@/components/user/search-cache-usage';
 
 interface SettingsModalProps {
   open: boolean;
@@ -97,6 +99,12 @@ export function SettingsModal({ open, onClose }: SettingsModalProps) {
             <ThemeSelector />
           </div>
 
+          {/* Assignee Aliases */}
+          <AssigneeAliasSettings />
+
+          {/* Search Cache Savings */}
+          <SearchCacheUsage />
+
           {/* Email Update Form */}
           <form onSubmit={handleEmailUpdate} className="space-y-4">
             <div>
@@ -18,6 +18,8 @@ interface VirtualizedContentDialogProps {
   content: string;
   className?: string;
   isJson?: boolean;
+  /** Extra content rendered above the raw text, e.g. a patent claim tree */
+  children?: React.ReactNode;
 }
 
 export function VirtualizedContentDialog({
@@ -27,7 +29,8 @@ export function VirtualizedContentDialog({
   description,
   content,
   className = "",
-  isJson = false
+  isJson = false,
+  children
 }: VirtualizedContentDialogProps) {
   const [copied, setCopied] = useState(false);
 
@@ -65,6 +68,7 @@ export function VirtualizedContentDialog({
           {description && <DialogDescription>{description}</DialogDescription>}
         </DialogHeader>
         <div className="flex-1 overflow-y-auto mt-4">
+          {children}
           {isJson ? (
             <pre className="whitespace-pre-wrap break-words text-sm font-mono bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
               {JSON.stringify(JSON.parse(content), null, 2)}
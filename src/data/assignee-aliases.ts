@@ -0,0 +1,113 @@
+/**
+ * Alternate names and patent-holding subsidiaries for PATENT_COMPANIES,
+ * keyed by the company name used there. Legal suffixes (Inc., LLC, Co., Ltd.,
+ * GmbH...) are stripped during normalization and do not need listing.
+ */
+export const ASSIGNEE_ALIASES: Record<string, { aliases?: string[]; subsidiaries?: string[] }> = {
+  "Tesla": { aliases: ["Tesla Motors"] },
+  "Apple": { aliases: ["Apple Computer"] },
+  "Samsung": {
+    aliases: ["Samsung Electronics"],
+    subsidiaries: ["Samsung SDI", "Samsung Display", "Samsung Electro-Mechanics", "Samsung Biologics", "Harman International"],
+  },
+  "LG Electronics": {},
+  "Sony": {
+    aliases: ["Sony Group", "Sony Kabushiki Kaisha"],
+    subsidiaries: ["Sony Interactive Entertainment", "Sony Semiconductor Solutions"],
+  },
+  "Intel": { subsidiaries: ["Mobileye"] },
+  "IBM": { aliases: ["International Business Machines"] },
+  "Microsoft": { aliases: ["Microsoft Technology Licensing"], subsidiaries: ["LinkedIn", "GitHub", "Nuance Communications"] },
+  "Alphabet": { subsidiaries: ["Google", "Waymo", "DeepMind", "Verily Life Sciences", "X Development", "Calico Life Sciences"] },
+  "Meta Platforms": { aliases: ["Facebook", "Meta Platforms Technologies"], subsidiaries: ["Oculus", "WhatsApp", "Instagram"] },
+  "Amazon": { aliases: ["Amazon Technologies", "Amazon.com"], subsidiaries: ["Amazon Web Services", "Zoox"] },
+  "Nvidia": {},
+  "Qualcomm": {},
+  "Broadcom": { aliases: ["Avago Technologies"], subsidiaries: ["VMware"] },
+  "TSMC": { aliases: ["Taiwan Semiconductor Manufacturing"] },
+  "ASML": { aliases: ["ASML Netherlands", "ASML Holding"] },
+  "Arm": { aliases: ["ARM Limited"] },
+  "Micron": { aliases: ["Micron Technology"] },
+  "AMD": { aliases: ["Advanced Micro Devices"], subsidiaries: ["ATI Technologies", "Xilinx"] },
+  "Cisco": { aliases: ["Cisco Technology", "Cisco Systems"] },
+  "Ericsson": { aliases: ["Telefonaktiebolaget LM Ericsson", "Telefonaktiebolaget L M Ericsson"] },
+  "Nokia": { aliases: ["Nokia Technologies", "Nokia Solutions and Networks"] },
+  "Huawei": { aliases: ["Huawei Technologies"], subsidiaries: ["HiSilicon"] },
+  "ZTE": {},
+  "Lenovo": { subsidiaries: ["Motorola Mobility"] },
+  "Dell Technologies": { aliases: ["Dell", "Dell Products"], subsidiaries: ["EMC IP Holding"] },
+  "HP": { aliases: ["HP Inc", "Hewlett-Packard", "Hewlett-Packard Development", "HP Development"] },
+  "Siemens": { aliases: ["Siemens Aktiengesellschaft"], subsidiaries: ["Siemens Healthcare", "Siemens Healthineers", "Siemens Energy", "Siemens Mobility"] },
+  "Philips": { aliases: ["Koninklijke Philips", "Philips Electronics"] },
+  "Bosch": { aliases: ["Robert Bosch"] },
+  "General Electric": { aliases: ["GE"], subsidiaries: ["GE Aviation", "GE Healthcare", "GE Vernova"] },
+  "Honeywell": { aliases: ["Honeywell International"] },
+  "Caterpillar": {},
+  "Boeing": { aliases: ["The Boeing Company"] },
+  "Airbus": { aliases: ["Airbus Operations", "Airbus SAS"], subsidiaries: ["Airbus Helicopters", "Airbus Defence and Space"] },
+  "Lockheed Martin": {},
+  "Northrop Grumman": { aliases: ["Northrop Grumman Systems"] },
+  "Raytheon Technologies": { aliases: ["RTX", "United Technologies"], subsidiaries: ["Raytheon", "Pratt & Whitney", "Collins Aerospace", "Hamilton Sundstrand"] },
+  "SpaceX": { aliases: ["Space Exploration Technologies"] },
+  "Blue Origin": {},
+  "Virgin Galactic": {},
+  "Toyota": { aliases: ["Toyota Jidosha", "Toyota Motor"], subsidiaries: ["Denso", "Toyota Research Institute"] },
+  "Honda": { aliases: ["Honda Motor", "Honda Giken Kogyo"] },
+  "Ford": { aliases: ["Ford Global Technologies", "Ford Motor"] },
+  "General Motors": { aliases: ["GM Global Technology Operations", "GM"], subsidiaries: ["Cruise"] },
+  "BMW": { aliases: ["Bayerische Motoren Werke"] },
+  "Mercedes-Benz": { aliases: ["Mercedes-Benz Group", "Daimler"] },
+  "Volkswagen": { subsidiaries: ["Audi", "Porsche", "Dr Ing hc F Porsche"] },
+  "Hyundai": { aliases: ["Hyundai Motor"], subsidiaries: ["Hyundai Mobis"] },
+  "Kia": { aliases: ["Kia Motors"] },
+  "BYD": {},
+  "Rivian": { aliases: ["Rivian IP Holdings", "Rivian Automotive"] },
+  "Lucid Motors": { aliases: ["Atieva"] },
+  "Panasonic": { aliases: ["Panasonic Intellectual Property Management", "Matsushita Electric Industrial"] },
+  "Sharp": {},
+  "Hitachi": { subsidiaries: ["Hitachi Energy", "Hitachi Astemo"] },
+  "Fujitsu": {},
+  "NEC": {},
+  "Mitsubishi Electric": {},
+  "ABB": { aliases: ["ABB Schweiz"] },
+  "Schneider Electric": {},
+  "Johnson & Johnson": { subsidiaries: ["Janssen", "Ethicon", "DePuy Synthes"] },
+  "Pfizer": { subsidiaries: ["Wyeth", "Seagen"] },
+  "Moderna": { aliases: ["ModernaTX"] },
+  "AstraZeneca": { subsidiaries: ["MedImmune", "Alexion Pharmaceuticals"] },
+  "Novartis": { subsidiaries: ["Sandoz"] },
+  "Roche": { aliases: ["Hoffmann-La Roche", "F Hoffmann-La Roche"], subsidiaries: ["Genentech", "Roche Diagnostics", "Roche Molecular Systems"] },
+  "Merck": { aliases: ["Merck Sharp & Dohme"] },
+  "GSK": { aliases: ["GlaxoSmithKline"] },
+  "Sanofi": { aliases: ["Sanofi-Aventis"], subsidiaries: ["Genzyme"] },
+  "Bayer": { aliases: ["Bayer Aktiengesellschaft"], subsidiaries: ["Monsanto Technology", "Bayer HealthCare"] },
+  "Eli Lilly": { aliases: ["Eli Lilly and Company"] },
+  "Amgen": {},
+  "Biogen": { aliases: ["Biogen MA"] },
+  "Regeneron": { aliases: ["Regeneron Pharmaceuticals"] },
+  "Illumina": {},
+  "Thermo Fisher Scientific": { subsidiaries: ["Life Technologies"] },
+  "3M": { aliases: ["3M Innovative Properties", "Minnesota Mining and Manufacturing"] },
+  "Dow": { aliases: ["Dow Global Technologies", "The Dow Chemical"] },
+  "DuPont": { aliases: ["E I du Pont de Nemours", "DuPont de Nemours"] },
+  "BASF": {},
+  "ExxonMobil": { aliases: ["Exxon Mobil", "ExxonMobil Research and Engineering", "ExxonMobil Chemical Patents"] },
+  "Chevron": { aliases: ["Chevron USA"] },
+  "BP": { aliases: ["BP Corporation North America"] },
+  "Shell": { aliases: ["Shell Oil", "Shell Internationale Research Maatschappij", "Royal Dutch Shell"] },
+  "TotalEnergies": { aliases: ["Total SA", "TotalEnergies OneTech"] },
+  "Enel": {},
+  "Siemens Gamesa": { aliases: ["Siemens Gamesa Renewable Energy"] },
+  "Vestas": { aliases: ["Vestas Wind Systems"] },
+  "First Solar": {},
+  "Enphase Energy": {},
+  "Plug Power": {},
+  "Bloom Energy": {},
+  "Palantir": { aliases: ["Palantir Technologies"] },
+  "Snowflake": {},
+  "Databricks": {},
+  "UiPath": {},
+  "ServiceNow": {},
+  "Atlassian": { aliases: ["Atlassian Pty"] },
+  "Shopify": {},
+};
@@ -0,0 +1,537 @@
+/**
+ * Bundled CPC classification titles, keyed by code. Covers every section,
+ * the classes and subclasses that show up in technology searches, and the
+ * main groups and subgroups of the most searched areas (batteries,
+ * semiconductors, computing, telecoms, vehicles, pharma, energy).
+ *
+ * The hierarchy is implied by the codes: section "H" > class "H01" >
+ * subclass "H01M" > main group "H01M 10/00" > subgroup "H01M 10/0562".
+ * Titles are shortened from the official CPC scheme.
+ */
+export const CPC_TITLES: Record<string, string> = {
+  // ==========================================================================
+  // A - HUMAN NECESSITIES
+  // ==========================================================================
+  "A": "Human necessities",
+  "A01": "Agriculture; forestry; animal husbandry; hunting; fishing",
+  "A01B": "Soil working in agriculture or forestry",
+  "A01G": "Horticulture; cultivation of vegetables, flowers, rice, fruit, vines",
+  "A01H": "New plants or processes for obtaining them; plant reproduction",
+  "A01K": "Animal husbandry; fishing; new breeds of animals",
+  "A01N": "Biocides, pest repellants or attractants, plant growth regulators",
+  "A21": "Baking; edible doughs",
+  "A23": "Foods or foodstuffs; their treatment",
+  "A23L": "Foods, foodstuffs or non-alcoholic beverages",
+  "A24": "Tobacco; cigars; cigarettes; smokers' requisites",
+  "A24F": "Smokers' requisites; electronic cigarettes",
+  "A41": "Wearing apparel",
+  "A43": "Footwear",
+  "A45": "Hand or travelling articles",
+  "A47": "Furniture; domestic articles or appliances",
+  "A47L": "Domestic washing or cleaning; suction cleaners",
+  "A61": "Medical or veterinary science; hygiene",
+  "A61B": "Diagnosis; surgery; identification",
+  "A61B 5/00": "Measuring for diagnostic purposes",
+  "A61B 5/0205": "Simultaneous evaluation of cardiovascular and respiratory conditions",
+  "A61B 5/024": "Measuring pulse rate or heart rate",
+  "A61B 5/145": "Measuring characteristics of blood in vivo, e.g. glucose",
+  "A61B 5/24": "Detecting bioelectric or biomagnetic signals of the body",
+  "A61B 5/369": "Electroencephalography [EEG]",
+  "A61B 6/00": "Apparatus for radiation diagnosis, e.g. X-ray",
+  "A61B 8/00": "Diagnosis using ultrasonic, sonic or infrasonic waves",
+  "A61B 34/00": "Computer-aided surgery; manipulators or robots for surgery",
+  "A61B 34/30": "Surgical robots",
+  "A61F": "Filters implantable into blood vessels; prostheses; orthopaedic devices",
+  "A61F 2/00": "Filters implantable into blood vessels; prostheses",
+  "A61G": "Transport or accommodation for patients; operating tables",
+  "A61H": "Physical therapy apparatus",
+  "A61J": "Containers for medical or pharmaceutical purposes",
+  "A61K": "Preparations for medical, dental or toiletry purposes",
+  "A61K 9/00": "Medicinal preparations characterised by special physical form",
+  "A61K 9/127": "Liposomes",
+  "A61K 9/51": "Nanocapsules; nanoparticles",
+  "A61K 31/00": "Medicinal preparations containing organic active ingredients",
+  "A61K 35/00": "Medicinal preparations containing materials of undetermined constitution",
+  "A61K 38/00": "Medicinal preparations containing peptides",
+  "A61K 39/00": "Medicinal preparations containing antigens or antibodies",
+  "A61K 39/395": "Antibodies; immunoglobulins",
+  "A61K 48/00": "Medicinal preparations containing genetic material; gene therapy",
+  "A61L": "Sterilisation or disinfection; materials for medical devices",
+  "A61M": "Devices for introducing media into, or onto, the body",
+  "A61M 5/00": "Devices for bringing media into the body in a subcutaneous, intravascular or intramuscular way",
+  "A61N": "Electrotherapy; magnetotherapy; radiation therapy; ultrasound therapy",
+  "A61N 1/00": "Electrotherapy; circuits therefor",
+  "A61N 1/36": "Applying electric currents by contact electrodes, e.g. neurostimulation",
+  "A61N 1/372": "Arrangements in connection with the implantation of stimulators",
+  "A61P": "Specific therapeutic activity of chemical compounds or medicinal preparations",
+  "A61P 35/00": "Antineoplastic agents",
+  "A61Q": "Specific use of cosmetics or similar toiletry preparations",
+  "A62": "Life-saving; fire-fighting",
+  "A63": "Sports; games; amusements",
+  "A63F": "Card, board or roulette games; video games",
+  "A63F 13/00": "Video games",
+
+  // ==========================================================================
+  // B - PERFORMING OPERATIONS; TRANSPORTING
+  // ==========================================================================
+  "B": "Performing operations; transporting",
+  "B01": "Physical or chemical processes or apparatus in general",
+  "B01D": "Separation",
+  "B01D 53/00": "Separation of gases or vapours; recovering vapours",
+  "B01D 53/62": "Carbon oxides",
+  "B01J": "Chemical or physical processes, e.g. catalysis or colloid chemistry",
+  "B01L": "Chemical or physical laboratory apparatus for general use",
+  "B05": "Spraying or atomising in general; applying liquids to surfaces",
+  "B08": "Cleaning",
+  "B22": "Casting; powder metallurgy",
+  "B22F": "Working metallic powder; manufacture of articles from metallic powder",
+  "B23": "Machine tools; metal-working not otherwise provided for",
+  "B23K": "Soldering; welding; cutting by applying heat locally",
+  "B25": "Hand tools; portable power-driven tools; manipulators",
+  "B25J": "Manipulators; chambers provided with manipulation devices",
+  "B25J 9/00": "Programme-controlled manipulators",
+  "B25J 9/16": "Programme controls for manipulators",
+  "B25J 11/00": "Manipulators not otherwise provided for",
+  "B29": "Working of plastics",
+  "B29C": "Shaping or joining of plastics",
+  "B32": "Layered products",
+  "B32B": "Layered products, i.e. products built up of strata",
+  "B33": "Additive manufacturing technology",
+  "B33Y": "Additive manufacturing, e.g. 3-D printing",
+  "B33Y 10/00": "Processes of additive manufacturing",
+  "B33Y 80/00": "Products made by additive manufacturing",
+  "B41": "Printing; typewriters; stamps",
+  "B41J": "Typewriters; selective printing mechanisms, e.g. ink-jet printers",
+  "B60": "Vehicles in general",
+  "B60K": "Arrangement or mounting of propulsion units or transmissions in vehicles",
+  "B60L": "Propulsion of electrically-propelled vehicles",
+  "B60L 50/00": "Electric propulsion with power supplied within the vehicle",
+  "B60L 53/00": "Methods of charging batteries, specially adapted for electric vehicles",
+  "B60L 53/10": "Electric vehicle charging stations",
+  "B60L 58/00": "Monitoring or controlling batteries or fuel cells in electric vehicles",
+  "B60R": "Vehicles, vehicle fittings, or vehicle parts, not otherwise provided for",
+  "B60W": "Conjoint control of vehicle sub-units; road vehicle drive control systems",
+  "B60W 30/00": "Purposes of road vehicle drive control systems",
+  "B60W 60/00": "Drive control systems specially adapted for autonomous road vehicles",
+  "B61": "Railways",
+  "B62": "Land vehicles for travelling otherwise than on rails",
+  "B62D": "Motor vehicles; trailers",
+  "B63": "Ships or other waterborne vessels",
+  "B64": "Aircraft; aviation; cosmonautics",
+  "B64C": "Aeroplanes; helicopters",
+  "B64D": "Equipment for fitting in or to aircraft",
+  "B64G": "Cosmonautics; vehicles or equipment therefor",
+  "B64U": "Unmanned aerial vehicles [UAV]",
+  "B65": "Conveying; packing; storing; handling thin or filamentary material",
+  "B65D": "Containers for storage or transport of articles or materials",
+  "B65G": "Transport or storage devices, e.g. conveyors",
+  "B81": "Microstructural technology",
+  "B81B": "Microstructural devices or systems, e.g. micromechanical devices",
+  "B82": "Nanotechnology",
+  "B82Y": "Specific uses or applications of nanostructures",
+
+  // ==========================================================================
+  // C - CHEMISTRY; METALLURGY
+  // ==========================================================================
+  "C": "Chemistry; metallurgy",
+  "C01": "Inorganic chemistry",
+  "C01B": "Non-metallic elements; compounds thereof",
+  "C01B 3/00": "Hydrogen; gaseous mixtures containing hydrogen",
+  "C01B 32/00": "Carbon; compounds thereof",
+  "C01B 32/182": "Graphene",
+  "C01G": "Compounds containing metals not covered by C01D or C01F",
+  "C02": "Treatment of water, waste water, sewage, or sludge",
+  "C02F": "Treatment of water, waste water, sewage, or sludge",
+  "C03": "Glass; mineral or slag wool",
+  "C04": "Cements; concrete; artificial stone; ceramics; refractories",
+  "C04B": "Lime; magnesia; slag; cements; ceramics",
+  "C07": "Organic chemistry",
+  "C07C": "Acyclic or carbocyclic compounds",
+  "C07D": "Heterocyclic compounds",
+  "C07K": "Peptides",
+  "C07K 14/00": "Peptides having more than 20 amino acids",
+  "C07K 16/00": "Immunoglobulins, e.g. monoclonal or polyclonal antibodies",
+  "C07K 16/28": "Antibodies against receptors, cell surface antigens or cell surface determinants",
+  "C08": "Organic macromolecular compounds",
+  "C08F": "Macromolecular compounds obtained by reactions only involving carbon-to-carbon unsaturated bonds",
+  "C08G": "Macromolecular compounds obtained otherwise than by reactions only involving carbon-to-carbon unsaturated bonds",
+  "C08K": "Use of inorganic or non-macromolecular organic substances as compounding ingredients",
+  "C08L": "Compositions of macromolecular compounds",
+  "C09": "Dyes; paints; polishes; natural resins; adhesives",
+  "C09D": "Coating compositions; inks",
+  "C09J": "Adhesives",
+  "C09K": "Materials for miscellaneous applications",
+  "C09K 11/00": "Luminescent, e.g. electroluminescent, chemiluminescent materials",
+  "C10": "Petroleum, gas or coke industries; fuels; lubricants; peat",
+  "C10G": "Cracking hydrocarbon oils; refining of hydrocarbon oils",
+  "C10L": "Fuels not otherwise provided for",
+  "C12": "Biochemistry; beer; spirits; wine; vinegar; microbiology; enzymology; mutation or genetic engineering",
+  "C12M": "Apparatus for enzymology or microbiology",
+  "C12N": "Microorganisms or enzymes; mutation or genetic engineering",
+  "C12N 5/00": "Undifferentiated human, animal or plant cells; tissues; culture media",
+  "C12N 5/0783": "T cells; NK cells",
+  "C12N 9/00": "Enzymes; proenzymes",
+  "C12N 9/22": "Ribonucleases; CRISPR-associated nucleases",
+  "C12N 15/00": "Mutation or genetic engineering; DNA or RNA concerning genetic engineering",
+  "C12N 15/10": "Processes for the isolation, preparation or purification of DNA or RNA",
+  "C12N 15/11": "DNA or RNA fragments; modified forms thereof",
+  "C12N 15/113": "Non-coding nucleic acids modulating gene expression, e.g. antisense, siRNA",
+  "C12N 15/86": "Viral vectors",
+  "C12N 15/90": "Stable introduction of foreign DNA into chromosome, e.g. gene editing",
+  "C12P": "Fermentation or enzyme-using processes to synthesise a desired chemical compound",
+  "C12Q": "Measuring or testing processes involving enzymes, nucleic acids or microorganisms",
+  "C12Q 1/68": "Processes involving nucleic acids",
+  "C12Q 1/6869": "Methods for sequencing",
+  "C12Q 1/6883": "Hybridisation probes for diseases caused by alterations of genetic material",
+  "C21": "Metallurgy of iron",
+  "C22": "Metallurgy; ferrous or non-ferrous alloys",
+  "C22C": "Alloys",
+  "C23": "Coating metallic material; chemical surface treatment",
+  "C23C": "Coating metallic material; surface treatment by vacuum evaporation, sputtering, CVD",
+  "C25": "Electrolytic or electrophoretic processes",
+  "C25B": "Electrolytic or electrophoretic processes for the production of compounds or non-metals",
+  "C25B 1/04": "Hydrogen or oxygen by electrolysis of water",
+  "C30": "Crystal growth",
+
+  // ==========================================================================
+  // D - TEXTILES; PAPER
+  // ==========================================================================
+  "D": "Textiles; paper",
+  "D01": "Natural or man-made threads or fibres; spinning",
+  "D01F": "Chemical features in the manufacture of artificial filaments",
+  "D03": "Weaving",
+  "D04": "Braiding; lace-making; knitting; non-woven fabrics",
+  "D04H": "Making textile fabrics, e.g. non-woven fabrics",
+  "D06": "Treatment of textiles; laundering; flexible materials",
+  "D06F": "Laundering, drying, ironing, pressing or folding textile articles",
+  "D21": "Paper-making; production of cellulose",
+  "D21H": "Pulp compositions; paper",
+
+  // ==========================================================================
+  // E - FIXED CONSTRUCTIONS
+  // ==========================================================================
+  "E": "Fixed constructions",
+  "E01": "Construction of roads, railways, or bridges",
+  "E02": "Hydraulic engineering; foundations; soil shifting",
+  "E04": "Building",
+  "E04B": "General building constructions; walls; roofs; floors",
+  "E04H": "Buildings or like structures for particular purposes",
+  "E05": "Locks; keys; window or door fittings; safes",
+  "E06": "Doors, windows, shutters, or roller blinds; ladders",
+  "E21": "Earth drilling; mining",
+  "E21B": "Earth drilling, e.g. deep drilling; obtaining oil, gas, water from wells",
+  "E21B 43/00": "Methods or apparatus for obtaining oil, gas, water from wells",
+  "E21B 43/26": "Fracturing",
+
+  // ==========================================================================
+  // F - MECHANICAL ENGINEERING; LIGHTING; HEATING; WEAPONS; BLASTING
+  // ==========================================================================
+  "F": "Mechanical engineering; lighting; heating; weapons; blasting",
+  "F01": "Machines or engines in general; engine plants in general; steam engines",
+  "F01N": "Gas-flow silencers or exhaust apparatus for internal combustion engines",
+  "F02": "Combustion engines; hot-gas or combustion-product engine plants",
+  "F02C": "Gas-turbine plants; jet-propulsion plants",
+  "F02D": "Controlling combustion engines",
+  "F02M": "Supplying combustion engines with combustible mixtures",
+  "F03": "Machines or engines for liquids; wind, spring, weight and miscellaneous motors",
+  "F03D": "Wind motors",
+  "F03D 1/00": "Wind motors with rotation axis substantially parallel to the air flow",
+  "F03D 7/00": "Controlling wind motors",
+  "F04": "Positive-displacement machines for liquids; pumps",
+  "F16": "Engineering elements and units; thermal insulation",
+  "F16H": "Gearing",
+  "F17": "Storing or distributing gases or liquids",
+  "F17C": "Vessels for containing or storing compressed, liquefied or solidified gases",
+  "F21": "Lighting",
+  "F21V": "Functional features or details of lighting devices",
+  "F24": "Heating; ranges; ventilating",
+  "F24F": "Air-conditioning; air-humidification; ventilation",
+  "F24S": "Solar heat collectors; solar heat systems",
+  "F25": "Refrigeration or cooling; heat pump systems",
+  "F25B": "Refrigeration machines, plants or systems; heat pump systems",
+  "F28": "Heat exchange in general",
+  "F28D": "Heat-exchange apparatus",
+  "F41": "Weapons",
+  "F42": "Ammunition; blasting",
+
+  // ==========================================================================
+  // G - PHYSICS
+  // ==========================================================================
+  "G": "Physics",
+  "G01": "Measuring; testing",
+  "G01B": "Measuring length, thickness or similar linear dimensions; measuring angles or areas",
+  "G01C": "Measuring distances, levels or bearings; surveying; navigation",
+  "G01C 21/00": "Navigation; navigational instruments",
+  "G01C 21/34": "Route searching; route guidance",
+  "G01D": "Measuring not specially adapted for a specific variable",
+  "G01L": "Measuring force, stress, torque, work, mechanical power or pressure",
+  "G01M": "Testing static or dynamic balance of machines or structures",
+  "G01N": "Investigating or analysing materials by determining their chemical or physical properties",
+  "G01N 21/00": "Investigating or analysing materials by the use of optical means",
+  "G01N 33/00": "Investigating or analysing materials by specific methods",
+  "G01N 33/53": "Immunoassay; biospecific binding assay",
+  "G01N 33/574": "Immunoassay for cancer",
+  "G01R": "Measuring electric variables; measuring magnetic variables",
+  "G01R 31/36": "Testing or monitoring of electrochemical batteries, e.g. state of charge",
+  "G01S": "Radio direction-finding; radio navigation; radar; lidar; sonar",
+  "G01S 7/00": "Details of radar, sonar or lidar systems",
+  "G01S 13/00": "Systems using the reflection or reradiation of radio waves, e.g. radar",
+  "G01S 13/931": "Radar specially adapted for anti-collision purposes of land vehicles",
+  "G01S 17/00": "Systems using the reflection of electromagnetic waves other than radio waves, e.g. lidar",
+  "G01S 17/89": "Lidar specially adapted for mapping or imaging",
+  "G01S 17/931": "Lidar specially adapted for anti-collision purposes of land vehicles",
+  "G01S 19/00": "Satellite radio beacon positioning systems, e.g. GPS",
+  "G02": "Optics",
+  "G02B": "Optical elements, systems or apparatus",
+  "G02B 6/00": "Light guides; structural details of optical fibres",
+  "G02B 27/00": "Optical systems or apparatus not provided for elsewhere",
+  "G02B 27/01": "Head-up displays",
+  "G02B 27/017": "Head mounted displays",
+  "G02F": "Optical devices or arrangements for the control of light, e.g. liquid crystal",
+  "G03": "Photography; cinematography; electrography; holography",
+  "G03F": "Photomechanical production of textured or patterned surfaces, e.g. photolithography",
+  "G03F 7/00": "Photomechanical production of textured surfaces; materials therefor",
+  "G03F 7/20": "Exposure; apparatus therefor",
+  "G05": "Controlling; regulating",
+  "G05B": "Control or regulating systems in general",
+  "G05B 13/00": "Adaptive control systems",
+  "G05B 19/00": "Programme-control systems",
+  "G05B 23/00": "Testing or monitoring of control systems",
+  "G05D": "Systems for controlling or regulating non-electric variables",
+  "G05D 1/00": "Control of position, course, altitude or attitude of land, water, air or space vehicles",
+  "G06": "Computing; calculating or counting",
+  "G06F": "Electric digital data processing",
+  "G06F 1/00": "Details not covered by groups G06F 3/00 - G06F 13/00",
+  "G06F 3/00": "Input and output arrangements",
+  "G06F 3/01": "Input arrangements for interaction between user and computer",
+  "G06F 3/041": "Digitisers, e.g. touch screens or touch pads",
+  "G06F 3/06": "Digital input from, or digital output to, record carriers, e.g. storage",
+  "G06F 8/00": "Arrangements for software engineering",
+  "G06F 9/00": "Arrangements for program control",
+  "G06F 9/50": "Allocation of resources, e.g. of the central processing unit",
+  "G06F 11/00": "Error detection; error correction; monitoring",
+  "G06F 12/00": "Accessing, addressing or allocating within memory systems",
+  "G06F 16/00": "Information retrieval; database structures therefor",
+  "G06F 16/33": "Querying of unstructured textual data",
+  "G06F 21/00": "Security arrangements for protecting computers against unauthorised activity",
+  "G06F 21/60": "Protecting data",
+  "G06F 30/00": "Computer-aided design [CAD]",
+  "G06F 40/00": "Handling natural language data",
+  "G06F 40/30": "Semantic analysis",
+  "G06K": "Graphical data reading; presentation of data; record carriers",
+  "G06N": "Computing arrangements based on specific computational models",
+  "G06N 3/00": "Computing arrangements based on biological models",
+  "G06N 3/02": "Neural networks",
+  "G06N 3/04": "Neural network architecture, e.g. interconnection topology",
+  "G06N 3/045": "Combinations of networks",
+  "G06N 3/0455": "Auto-encoder networks; encoder-decoder networks",
+  "G06N 3/063": "Physical realisation of neural networks using electronic means",
+  "G06N 3/08": "Neural network learning methods",
+  "G06N 3/092": "Reinforcement learning",
+  "G06N 5/00": "Computing arrangements using knowledge-based models",
+  "G06N 7/00": "Computing arrangements based on specific mathematical models",
+  "G06N 10/00": "Quantum computing",
+  "G06N 10/20": "Models of quantum computing, e.g. quantum circuits",
+  "G06N 10/40": "Physical realisations or architectures of quantum processors",
+  "G06N 10/70": "Quantum error correction, detection or prevention",
+  "G06N 20/00": "Machine learning",
+  "G06N 20/20": "Ensemble learning",
+  "G06Q": "Information and communication technology specially adapted for administrative, commercial, financial or supervisory purposes",
+  "G06Q 10/00": "Administration; management",
+  "G06Q 20/00": "Payment architectures, schemes or protocols",
+  "G06Q 20/38": "Payment protocols; details thereof",
+  "G06Q 30/00": "Commerce",
+  "G06Q 40/00": "Finance; insurance; tax strategies",
+  "G06Q 50/00": "ICT specially adapted for implementation of business processes of specific business sectors",
+  "G06T": "Image data processing or generation, in general",
+  "G06T 7/00": "Image analysis",
+  "G06T 19/00": "Manipulating 3D models or images for computer graphics, e.g. augmented reality",
+  "G06V": "Image or video recognition or understanding",
+  "G06V 10/00": "Arrangements for image or video recognition or understanding",
+  "G06V 10/82": "Image recognition using neural networks",
+  "G06V 20/00": "Scenes; scene-specific elements",
+  "G06V 20/56": "Context of the image exterior to a vehicle by using sensors mounted on the vehicle",
+  "G06V 40/00": "Recognition of biometric, human-related or animal-related patterns",
+  "G06V 40/16": "Human faces, e.g. facial parts, sketches or expressions",
+  "G07": "Checking-devices",
+  "G08": "Signalling",
+  "G08G": "Traffic control systems",
+  "G09": "Education; cryptography; display; advertising; seals",
+  "G09G": "Arrangements or circuits for control of indicating devices using static means",
+  "G10": "Musical instruments; acoustics",
+  "G10L": "Speech analysis or synthesis; speech recognition; speech or audio coding",
+  "G10L 15/00": "Speech recognition",
+  "G10L 15/22": "Procedures used during a speech recognition process, e.g. man-machine dialogue",
+  "G11": "Information storage",
+  "G11C": "Static stores",
+  "G11C 11/00": "Digital stores characterised by the use of particular electric or magnetic storage elements",
+  "G11C 16/00": "Erasable programmable read-only memories, e.g. flash",
+  "G16": "Information and communication technology specially adapted for specific application fields",
+  "G16B": "Bioinformatics",
+  "G16C": "Computational chemistry; chemoinformatics; computational materials science",
+  "G16H": "Healthcare informatics",
+  "G16H 10/00": "ICT specially adapted for the handling or processing of patient-related medical or healthcare data",
+  "G16H 20/00": "ICT specially adapted for therapies or health-improving plans",
+  "G16H 30/00": "ICT specially adapted for the handling or processing of medical images",
+  "G16H 40/00": "ICT specially adapted for the management or operation of medical equipment or facilities",
+  "G16H 50/00": "ICT specially adapted for medical diagnosis, medical simulation or medical data mining",
+  "G16H 50/20": "Computer-aided diagnosis, e.g. based on medical expert systems",
+  "G21": "Nuclear physics; nuclear engineering",
+  "G21B": "Fusion reactors",
+  "G21C": "Nuclear reactors",
+
+  // ==========================================================================
+  // H - ELECTRICITY
+  // ==========================================================================
+  "H": "Electricity",
+  "H01": "Electric elements",
+  "H01B": "Cables; conductors; insulators",
+  "H01F": "Magnets; inductances; transformers",
+  "H01G": "Capacitors; capacitors, rectifiers, detectors, switching devices of the electrolytic type",
+  "H01G 11/00": "Hybrid capacitors; supercapacitors",
+  "H01J": "Electric discharge tubes or discharge lamps",
+  "H01L": "Semiconductor devices not covered by class H10",
+  "H01L 21/00": "Processes or apparatus for the manufacture or treatment of semiconductor devices",
+  "H01L 21/67": "Apparatus for processing wafers during manufacture",
+  "H01L 23/00": "Details of semiconductor or other solid state devices",
+  "H01L 23/367": "Cooling facilitated by shape of device",
+  "H01L 23/48": "Arrangements for conducting electric current to or from the solid state body",
+  "H01L 23/538": "Interconnection structures between a plurality of semiconductor chips",
+  "H01L 25/00": "Assemblies consisting of a plurality of semiconductor devices",
+  "H01L 25/065": "Stacked chip assemblies",
+  "H01L 29/00": "Semiconductor devices adapted for rectifying, amplifying, oscillating or switching",
+  "H01L 29/66": "Types of semiconductor device, e.g. transistors",
+  "H01L 29/775": "Field effect transistors with one-dimensional charge carrier gas channel, e.g. nanowire FETs",
+  "H01L 29/78": "Field effect transistors with field effect produced by an insulated gate",
+  "H01M": "Processes or means for the direct conversion of chemical energy into electrical energy, e.g. batteries",
+  "H01M 4/00": "Electrodes",
+  "H01M 4/02": "Electrodes composed of or comprising active material",
+  "H01M 4/13": "Electrodes for accumulators with non-aqueous electrolyte, e.g. lithium-ion",
+  "H01M 4/131": "Electrodes based on mixed oxides or hydroxides",
+  "H01M 4/133": "Electrodes based on carbonaceous material, e.g. graphite",
+  "H01M 4/134": "Electrodes based on metals, Si or alloys",
+  "H01M 4/36": "Selection of substances as active materials",
+  "H01M 4/38": "Selection of substances as active materials: elements or alloys",
+  "H01M 4/505": "Active materials: inorganic oxides of manganese",
+  "H01M 4/525": "Active materials: inorganic oxides of nickel, cobalt or iron",
+  "H01M 4/58": "Active materials: phosphates, e.g. LiFePO4",
+  "H01M 4/62": "Selection of inactive substances as ingredients for active masses, e.g. binders, fillers",
+  "H01M 8/00": "Fuel cells; manufacture thereof",
+  "H01M 8/04": "Auxiliary arrangements for fuel cells, e.g. for control of pressure or for circulation of fluids",
+  "H01M 8/10": "Fuel cells with solid electrolytes",
+  "H01M 8/1004": "Fuel cells with solid electrolytes characterised by membrane-electrode assemblies",
+  "H01M 8/12": "Fuel cells with solid electrolytes operating at high temperature, e.g. SOFC",
+  "H01M 10/00": "Secondary cells; manufacture thereof",
+  "H01M 10/04": "Construction or manufacture of secondary cells",
+  "H01M 10/052": "Li-accumulators",
+  "H01M 10/0525": "Rocking-chair batteries, i.e. lithium-ion batteries",
+  "H01M 10/056": "Accumulators characterised by the materials used as electrolytes",
+  "H01M 10/0562": "Solid electrolytes",
+  "H01M 10/0565": "Polymeric electrolytes, e.g. gel electrolytes",
+  "H01M 10/0567": "Liquid electrolytes with additives",
+  "H01M 10/0568": "Liquid electrolytes: solutes",
+  "H01M 10/0569": "Liquid electrolytes: solvents",
+  "H01M 10/42": "Methods or arrangements for servicing or maintenance of secondary cells",
+  "H01M 10/44": "Methods for charging or discharging",
+  "H01M 10/48": "Accumulators combined with arrangements for measuring, testing or indicating condition",
+  "H01M 10/613": "Cooling or keeping cold",
+  "H01M 10/625": "Vehicles",
+  "H01M 10/63": "Control systems for heating or cooling of cells",
+  "H01M 10/6556": "Solid parts with flow channel passages or pipes for heat exchange",
+  "H01M 12/00": "Hybrid cells; manufacture thereof",
+  "H01M 50/00": "Constructional details or processes of manufacture of the non-active parts of cells",
+  "H01M 50/20": "Mountings; secondary casings or frames; racks, modules or packs",
+  "H01M 50/40": "Separators; membranes; diaphragms; spacing elements inside cells",
+  "H01M 50/409": "Separators characterised by the material",
+  "H01Q": "Antennas, i.e. radio aerials",
+  "H01Q 1/00": "Details of, or arrangements associated with, antennas",
+  "H01Q 21/00": "Antenna arrays or systems",
+  "H01S": "Devices using the process of light amplification by stimulated emission; lasers",
+  "H02": "Generation; conversion or distribution of electric power",
+  "H02J": "Circuit arrangements or systems for supplying or distributing electric power; systems for storing electric energy",
+  "H02J 3/00": "Circuit arrangements for AC mains or AC distribution networks",
+  "H02J 3/32": "Arrangements for balancing of the load in a network by storage of energy using batteries",
+  "H02J 3/38": "Arrangements for parallelly feeding a single network by two or more generators",
+  "H02J 7/00": "Circuit arrangements for charging or depolarising batteries or for supplying loads from batteries",
+  "H02J 7/0047": "Circuit arrangements for charging batteries with monitoring or indicating devices",
+  "H02J 50/00": "Circuit arrangements or systems for wireless supply or distribution of electric power",
+  "H02J 50/10": "Wireless power using inductive coupling",
+  "H02K": "Dynamo-electric machines",
+  "H02M": "Apparatus for conversion between AC and AC, AC and DC, or DC and DC",
+  "H02M 3/00": "Conversion of DC power input into DC power output",
+  "H02M 7/00": "Conversion of AC power input into DC power output; conversion of DC into AC",
+  "H02S": "Generation of electric power by conversion of infrared radiation, visible light or ultraviolet light, e.g. using photovoltaic modules",
+  "H03": "Electronic circuitry",
+  "H03F": "Amplifiers",
+  "H03K": "Pulse technique",
+  "H03M": "Coding; decoding; code conversion in general",
+  "H04": "Electric communication technique",
+  "H04B": "Transmission",
+  "H04B 1/00": "Details of transmission systems not covered by a single one of groups H04B 3/00 - H04B 13/00",
+  "H04B 7/00": "Radio transmission systems",
+  "H04B 7/06": "Diversity systems using two or more spaced independent antennas at the transmitting station, e.g. MIMO",
+  "H04B 10/00": "Transmission systems employing electromagnetic waves other than radio-waves, e.g. optical",
+  "H04L": "Transmission of digital information, e.g. telegraphic communication",
+  "H04L 5/00": "Arrangements affording multiple use of the transmission path",
+  "H04L 9/00": "Arrangements for secret or secure communications; network security protocols",
+  "H04L 9/06": "Cryptographic mechanisms using a block cipher or a stream cipher",
+  "H04L 9/08": "Key distribution or management",
+  "H04L 9/32": "Means for verifying the identity or authority of a user",
+  "H04L 9/40": "Network security protocols",
+  "H04L 9/50": "Cryptographic mechanisms using blockchains or distributed ledgers",
+  "H04L 41/00": "Arrangements for maintenance, administration or management of data switching networks",
+  "H04L 63/00": "Network architectures or network communication protocols for network security",
+  "H04L 67/00": "Network arrangements or protocols for supporting network services or applications",
+  "H04L 67/10": "Protocols in which an application is distributed across nodes in the network",
+  "H04M": "Telephonic communication",
+  "H04N": "Pictorial communication, e.g. television",
+  "H04N 19/00": "Methods or arrangements for coding, decoding, compressing or decompressing digital video signals",
+  "H04N 23/00": "Cameras or camera modules comprising electronic image sensors",
+  "H04N 25/00": "Circuitry of solid-state image sensors [SSIS]",
+  "H04R": "Loudspeakers, microphones, gramophone pick-ups or like acoustic electromechanical transducers",
+  "H04W": "Wireless communication networks",
+  "H04W 4/00": "Services specially adapted for wireless communication networks",
+  "H04W 12/00": "Security arrangements; authentication; protecting privacy or anonymity",
+  "H04W 24/00": "Supervisory, monitoring or testing arrangements",
+  "H04W 28/00": "Network traffic management; network resource management",
+  "H04W 36/00": "Hand-off or reselection arrangements",
+  "H04W 52/00": "Power management, e.g. TPC [Transmission Power Control]",
+  "H04W 72/00": "Local resource management",
+  "H04W 72/04": "Wireless resource allocation",
+  "H04W 74/00": "Wireless channel access",
+  "H04W 76/00": "Connection management",
+  "H05": "Electric techniques not otherwise provided for",
+  "H05B": "Electric heating; electric light sources not otherwise provided for",
+  "H05K": "Printed circuits; casings or constructional details of electric apparatus",
+  "H05K 7/20": "Modifications to facilitate cooling, ventilating, or heating",
+  "H10": "Semiconductor devices; electric solid-state devices not otherwise provided for",
+  "H10B": "Electronic memory devices",
+  "H10B 41/00": "Electrically erasable-and-programmable ROM [EEPROM] devices comprising floating gates",
+  "H10B 43/00": "EEPROM devices comprising charge-trapping gate insulators",
+  "H10K": "Organic electric solid-state devices",
+  "H10K 59/00": "Integrated devices comprising organic light-emitting components, e.g. OLED displays",
+  "H10N": "Electric solid-state devices not otherwise provided for",
+
+  // ==========================================================================
+  // Y - GENERAL TAGGING OF NEW TECHNOLOGICAL DEVELOPMENTS
+  // ==========================================================================
+  "Y": "General tagging of new technological developments",
+  "Y02": "Technologies or applications for mitigation or adaptation against climate change",
+  "Y02E": "Reduction of greenhouse gas emissions related to energy generation, transmission or distribution",
+  "Y02E 10/00": "Energy generation through renewable energy sources",
+  "Y02E 10/50": "Photovoltaic [PV] energy",
+  "Y02E 10/70": "Wind energy",
+  "Y02E 60/00": "Enabling technologies with a potential contribution to greenhouse gas emissions mitigation",
+  "Y02E 60/10": "Energy storage using batteries",
+  "Y02E 60/50": "Fuel cells",
+  "Y02P": "Climate change mitigation technologies in the production or processing of goods",
+  "Y02T": "Climate change mitigation technologies related to transportation",
+  "Y02T 10/70": "Energy storage systems for electromobility, e.g. batteries",
+  "Y02T 90/10": "Technologies related to electric vehicle charging",
+  "Y02W": "Climate change mitigation technologies related to wastewater treatment or waste management",
+  "Y04": "Information or communication technologies having an impact on other technology areas",
+  "Y04S": "Systems integrating technologies related to power network operation, e.g. smart grids",
+  "Y10": "Technical subjects covered by former USPC",
+  "Y10S": "Technical subjects covered by former USPC cross-reference art collections",
+  "Y10T": "Technical subjects covered by former US classification",
+};
@@ -0,0 +1,126 @@
+/**
+ * Chat Search
+ * Full-text search over chat history. Each saved message gets a plain-text
+ * search_text (its text parts plus the numbers and titles of patents its tool
+ * calls returned) that SQLite FTS5 (dev) or Postgres full-text search indexes.
+ * Snippets mark matches with control characters rather than HTML so the
+ * client can highlight them without rendering markup from the database.
+ */
+
+import { patentNumberKey } from '@/lib/patents/record';
+import { collectSessionPatents } from '@/lib/patents/session-patents';
+import { toIsoString } from '@/lib/db-rows';
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export const DEFAULT_SEARCH_LIMIT = 30;
+const MAX_SEARCH_TEXT_LENGTH = 20000;
+const MAX_QUERY_TERMS = 8;
+
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  /** Null when the session title matched rather than a message */
+  messageId: string | null;
+  role: string | null;
+  /** Matching excerpt with HIGHLIGHT_START/HIGHLIGHT_END around each match */
+  snippet: string;
+  createdAt: string | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+/** Digits of a patent number without country code and kind code, e.g. "11234567" */
+function corePatentNumber(patentNumber: string): string {
+  return patentNumberKey(patentNumber).replace(/^[A-Z]{2}/, '');
+}
+
+/**
+ * Searchable text of a message: text parts, then one line per patent its tool
+ * calls returned. Reasoning and raw tool JSON are left out.
+ */
+export function messageSearchText(parts: unknown): string {
+  if (!Array.isArray(parts)) return typeof parts === 'string' ? parts.slice(0, MAX_SEARCH_TEXT_LENGTH) : '';
+
+  const texts = parts
+    .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+    .map((part: any) => part.text as string);
+
+  const patents = collectSessionPatents([{ parts }]).flatMap((output) => output.records);
+  const seen = new Set<string>();
+  for (const patent of patents) {
+    if (seen.has(patent.patentNumber)) continue;
+    seen.add(patent.patentNumber);
+    texts.push(`${patent.patentNumber} ${corePatentNumber(patent.patentNumber)} ${patent.title}`);
+  }
+
+  return texts.join('\n').slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** Words of a search box query; punctuation and query operators are dropped */
+export function searchTerms(query: string): string[] {
+  return (query.match(/[A-Za-z0-9À-ɏ]+/g) || []).slice(0, MAX_QUERY_TERMS);
+}
+
+/** FTS5 MATCH expression: every term as a quoted prefix, all required */
+export function toFtsQuery(query: string): string | null {
+  const terms = searchTerms(query);
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(' ') : null;
+}
+
+/** Postgres to_tsquery expression: every term as a prefix, all required */
+export function toTsQuery(query: string): string | null {
+  const terms = searchTerms(query);
+  return terms.length > 0 ? terms.map((term) => `${term.toLowerCase()}:*`).join(' & ') : null;
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+// SQLite rows are camelCase with millisecond timestamps, Supabase rows are snake_case
+export function toChatSearchResult(row: any): ChatSearchResult {
+  return {
+    sessionId: row.session_id ?? row.sessionId,
+    sessionTitle: row.session_title ?? row.sessionTitle ?? '',
+    messageId: row.message_id ?? row.messageId ?? null,
+    role: row.role ?? null,
+    snippet: row.snippet || '',
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+// ============================================================================
+// SNIPPETS
+// ============================================================================
+
+/** Snippet split into plain and matched runs for rendering */
+export function splitHighlights(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlight: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlight: false });
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    const stop = end === -1 ? rest.length : end;
+    segments.push({ text: rest.slice(start + 1, stop), highlight: true });
+    rest = rest.slice(stop + 1);
+  }
+  return segments.filter((segment) => segment.text.length > 0);
+}
@@ -1,5 +1,7 @@
 // Citation extraction and management utilities
 
+import { isPatentRecord, PatentRecord } from './patents/record';
+
 export interface Citation {
   number: string;
   title: string;
@@ -11,7 +13,81 @@ export interface Citation {
   authors?: string[];
   doi?: string;
   relevanceScore?: number;
-  toolType?: 'clinical' | 'drug' | 'literature' | 'web';
+  toolType?: CitationToolType;
+  patentNumber?: string;
+}
+
+export type CitationToolType = 'clinical' | 'drug' | 'literature' | 'web' | 'patent';
+
+// Tools whose results are numbered as citations
+export const SEARCH_TOOL_NAMES = [
+  'patentSearch',
+  'patentAnalysis',
+  'patentFamily',
+  'priorArtSearch',
+  'clinicalTrialsSearch',
+  'drugInformationSearch',
+  'biomedicalLiteratureSearch',
+  'webSearch',
+];
+
+// Resolve the tool name from a live ("tool-webSearch") or saved ("tool-result") part
+export function getSearchToolName(part: any): string | undefined {
+  if (!part?.type) return undefined;
+  const toolName = part.type === 'tool-result' ? part.toolName : part.type.replace(/^tool-/, '');
+  return SEARCH_TOOL_NAMES.includes(toolName) ? toolName : undefined;
+}
+
+// Build a citation from a PatentRecord
+function citationFromPatent(record: PatentRecord, number: number): Citation {
+  return {
+    number: number.toString(),
+    title: record.patentNumber ? `${record.patentNumber}: ${record.title}` : record.title,
+    url: record.url,
+    description: record.abstract,
+    source: record.assignees.join(', ') || record.source,
+    date: record.publicationDate || record.filingDate,
+    authors: record.inventors.length > 0 ? record.inventors : undefined,
+    relevanceScore: record.relevanceScore,
+    toolType: 'patent',
+    patentNumber: record.patentNumber || undefined,
+  };
+}
+
+// Build a citation from a single search result item
+export function citationFromResult(item: any, number: number, toolName?: string): Citation {
+  if (isPatentRecord(item)) {
+    return citationFromPatent(item, number);
+  }
+
+  let description = item.content || item.summary || item.description;
+  if (description && typeof description === 'object') {
+    description = JSON.stringify(description);
+  }
+
+  const citation: Citation = {
+    number: number.toString(),
+    title: item.title || `Source ${number}`,
+    url: item.url || '',
+    description,
+    source: item.source,
+    date: item.date,
+    relevanceScore: item.relevanceScore || item.relevance_score,
+    toolType: getToolType(toolName),
+  };
+
+  // Add academic-specific fields
+  if (item.authors) {
+    citation.authors = Array.isArray(item.authors) ? item.authors : [item.authors];
+  }
+  if (item.doi) {
+    citation.doi = item.doi;
+  }
+  if (item.citation) {
+    citation.quote = item.citation;
+  }
+
+  return citation;
 }
 
 export interface CitationMap {
@@ -34,30 +110,8 @@ export function extractCitationsFromToolResults(toolResults: any[]): CitationMap
       // Handle search results with multiple items
       if (output.results && Array.isArray(output.results)) {
         output.results.forEach((item: any) => {
-          const citation: Citation = {
-            number: citationNumber.toString(),
-            title: item.title || `Source ${citationNumber}`,
-            url: item.url || '',
-            description: item.content || item.summary || item.description,
-            source: item.source,
-            date: item.date,
-            relevanceScore: item.relevanceScore || item.relevance_score,
-            toolType: getToolType(result.toolName),
-          };
-
-          // Add academic-specific fields
-          if (item.authors) {
-            citation.authors = Array.isArray(item.authors) ? item.authors : [item.authors];
-          }
-          if (item.doi) {
-            citation.doi = item.doi;
-          }
-          if (item.citation) {
-            citation.quote = item.citation;
-          }
-
           const key = `[${citationNumber}]`;
-          citations[key] = [citation];
+          citations[key] = [citationFromResult(item, citationNumber, result.toolName)];
           citationNumber++;
         });
       }
@@ -69,9 +123,10 @@ export function extractCitationsFromToolResults(toolResults: any[]): CitationMap
 }
 
 // Get tool type from tool name
-function getToolType(toolName?: string): 'clinical' | 'drug' | 'literature' | 'web' | undefined {
+export function getToolType(toolName?: string): CitationToolType | undefined {
   if (!toolName) return undefined;
 
+  if (toolName.toLowerCase().includes('patent')) return 'patent';
   if (toolName.toLowerCase().includes('clinical')) return 'clinical';
   if (toolName.toLowerCase().includes('drug')) return 'drug';
   if (toolName.toLowerCase().includes('literature') || toolName.toLowerCase().includes('biomedical')) return 'literature';
@@ -0,0 +1,23 @@
+/**
+ * Row mapping helpers shared by the modules that read db.ts rows.
+ * SQLite rows are camelCase with JSON strings and Date timestamps, Supabase
+ * rows are snake_case with jsonb and ISO strings.
+ */
+
+/** A JSON column as a value, whether it came back as a string or as jsonb */
+export function parseJson<T>(value: any, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/** A timestamp column as an ISO string, or null when missing or invalid */
+export function toIsoString(value: any): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
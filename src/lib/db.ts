@@ -4,10 +4,13 @@
  */
 
 import { createClient as createSupabaseClient } from "@/utils/supabase/server";
+import { createClient as createServiceClient } from "@supabase/supabase-js";
 import { getLocalDb, DEV_USER_ID } from "./local-db/client";
 import { getDevUser, isDevelopmentMode } from "./local-db/local-auth";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, gt, lt, inArray, sql } from "drizzle-orm";
 import * as schema from "./local-db/schema";
+import type { ArtifactProvenance } from "./provenance";
+import { HIGHLIGHT_END, HIGHLIGHT_START, messageSearchText, toFtsQuery, toTsQuery } from "./chat-search";
 
 // ============================================================================
 // AUTH FUNCTIONS
@@ -157,6 +160,7 @@ export async function createChatSession(session: {
   id: string;
   user_id: string;
   title: string;
+  project_id?: string | null;
 }) {
   if (isDevelopmentMode()) {
     const db = getLocalDb();
@@ -164,6 +168,7 @@ export async function createChatSession(session: {
       id: session.id,
       userId: session.user_id,
       title: session.title,
+      projectId: session.project_id || null,
     });
     return { error: null };
   }
@@ -176,7 +181,7 @@ export async function createChatSession(session: {
 export async function updateChatSession(
   sessionId: string,
   userId: string,
-  updates: { title?: string; last_message_at?: Date }
+  updates: { title?: string; last_message_at?: Date; project_id?: string | null }
 ) {
   if (isDevelopmentMode()) {
     const db = getLocalDb();
@@ -184,6 +189,7 @@ export async function updateChatSession(
       updatedAt: new Date(),
     };
     if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.project_id !== undefined) updateData.projectId = updates.project_id;
     if (updates.last_message_at !== undefined)
       updateData.lastMessageAt = updates.last_message_at;
 
@@ -261,6 +267,7 @@ export async function saveChatMessages(
     role: string;
     content: any;
     processing_time_ms?: number;
+    metadata?: Record<string, any> | null;
   }>
 ) {
   console.log('[DB] saveChatMessages called - sessionId:', sessionId, 'messageCount:', messages.length);
@@ -282,6 +289,8 @@ export async function saveChatMessages(
           role: msg.role,
           content: JSON.stringify(msg.content),
           processingTimeMs: msg.processing_time_ms,
+          metadata: msg.metadata ? JSON.stringify(msg.metadata) : null,
+          searchText: messageSearchText(msg.content),
         }))
       );
     }
@@ -308,6 +317,8 @@ export async function saveChatMessages(
       role: msg.role,
       content: msg.content,
       processing_time_ms: msg.processing_time_ms,
+      metadata: msg.metadata ?? null,
+      search_text: messageSearchText(msg.content),
     }));
     console.log('[DB] First message to insert:', JSON.stringify(messagesToInsert[0]));
 
@@ -324,6 +335,42 @@ export async function saveChatMessages(
   return { error: null };
 }
 
+// PostgREST caps each response at 1000 rows by default
+const MESSAGES_PAGE_SIZE = 1000;
+
+/**
+ * Messages of several sessions at once, oldest first. Callers pass session IDs
+ * they already checked belong to the user.
+ */
+export async function getChatMessagesForSessions(sessionIds: string[]) {
+  if (sessionIds.length === 0) return { data: [], error: null };
+
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const messages = await db.query.chatMessages.findMany({
+      where: inArray(schema.chatMessages.sessionId, sessionIds),
+      orderBy: [schema.chatMessages.createdAt],
+    });
+    return { data: messages, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const messages: any[] = [];
+  for (let from = 0; ; from += MESSAGES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("chat_messages")
+      .select("*")
+      .in("session_id", sessionIds)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + MESSAGES_PAGE_SIZE - 1);
+    if (error) return { data: null, error };
+    messages.push(...(data || []));
+    if (!data || data.length < MESSAGES_PAGE_SIZE) break;
+  }
+  return { data: messages, error: null };
+}
+
 export async function deleteChatMessages(sessionId: string) {
   if (isDevelopmentMode()) {
     const db = getLocalDb();
@@ -341,6 +388,103 @@ export async function deleteChatMessages(sessionId: string) {
   return { error };
 }
 
+// ============================================================================
+// CHAT SEARCH FUNCTIONS
+// ============================================================================
+
+const SEARCH_BACKFILL_BATCH = 500;
+
+/**
+ * Fills search_text for the user's messages saved before chat search
+ * existed. Each call handles one batch; returns how many were filled.
+ */
+export async function backfillChatSearchText(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const rows = db.all<{ id: string; content: string }>(sql`
+      SELECT m.id, m.content FROM chat_messages m
+      JOIN chat_sessions s ON s.id = m.session_id
+      WHERE s.user_id = ${userId} AND m.search_text IS NULL
+      LIMIT ${SEARCH_BACKFILL_BATCH}
+    `);
+    for (const row of rows) {
+      let parts: any = [];
+      try {
+        parts = JSON.parse(row.content);
+      } catch {}
+      await db
+        .update(schema.chatMessages)
+        .set({ searchText: messageSearchText(parts) })
+        .where(eq(schema.chatMessages.id, row.id));
+    }
+    return { data: rows.length, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data: rows, error } = await supabase
+    .from("chat_messages")
+    .select("id, content, chat_sessions!inner(user_id)")
+    .eq("chat_sessions.user_id", userId)
+    .is("search_text", null)
+    .limit(SEARCH_BACKFILL_BATCH);
+  if (error) return { data: 0, error };
+
+  for (const row of rows || []) {
+    const { error: updateError } = await supabase
+      .from("chat_messages")
+      .update({ search_text: messageSearchText(row.content) })
+      .eq("id", row.id);
+    if (updateError) return { data: 0, error: updateError };
+  }
+  return { data: (rows || []).length, error: null };
+}
+
+/**
+ * Session titles and messages of the user matching the query. Title matches
+ * come first, then messages, each best first; snippets mark matches with
+ * HIGHLIGHT_START/HIGHLIGHT_END.
+ */
+export async function searchChatHistory(userId: string, query: string, limit: number) {
+  if (isDevelopmentMode()) {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return { data: [], error: null };
+
+    const db = getLocalDb();
+    const titles = db.all(sql`
+      SELECT s.id AS sessionId, s.title AS sessionTitle, NULL AS messageId, NULL AS role,
+        highlight(chat_sessions_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS snippet,
+        s.updated_at * 1000 AS createdAt
+      FROM chat_sessions_fts
+      JOIN chat_sessions s ON s.rowid = chat_sessions_fts.rowid
+      WHERE chat_sessions_fts MATCH ${ftsQuery} AND s.user_id = ${userId}
+      ORDER BY bm25(chat_sessions_fts)
+      LIMIT ${limit}
+    `);
+    const messages = db.all(sql`
+      SELECT m.session_id AS sessionId, s.title AS sessionTitle, m.id AS messageId, m.role,
+        snippet(chat_messages_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16) AS snippet,
+        m.created_at * 1000 AS createdAt
+      FROM chat_messages_fts
+      JOIN chat_messages m ON m.rowid = chat_messages_fts.rowid
+      JOIN chat_sessions s ON s.id = m.session_id
+      WHERE chat_messages_fts MATCH ${ftsQuery} AND s.user_id = ${userId}
+      ORDER BY bm25(chat_messages_fts)
+      LIMIT ${limit}
+    `);
+    return { data: [...titles, ...messages], error: null };
+  }
+
+  const tsQuery = toTsQuery(query);
+  if (!tsQuery) return { data: [], error: null };
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase.rpc("search_chat_history", {
+    search_query: tsQuery,
+    result_limit: limit,
+  });
+  return { data, error };
+}
+
 // ============================================================================
 // CHART FUNCTIONS
 // ============================================================================
@@ -369,6 +513,7 @@ export async function createChart(chart: {
   anonymous_id?: string;
   session_id: string;
   chart_data: any;
+  provenance?: ArtifactProvenance | null;
 }) {
   if (isDevelopmentMode()) {
     const db = getLocalDb();
@@ -378,6 +523,7 @@ export async function createChart(chart: {
       anonymousId: chart.anonymous_id || null,
       sessionId: chart.session_id,
       chartData: JSON.stringify(chart.chart_data),
+      provenance: chart.provenance ? JSON.stringify(chart.provenance) : null,
     });
     return { error: null };
   }
@@ -387,6 +533,31 @@ export async function createChart(chart: {
   return { error };
 }
 
+/**
+ * Charts saved in any of the given sessions, newest first. Callers pass
+ * session IDs they already checked belong to the user.
+ */
+export async function getChartsForSessions(sessionIds: string[]) {
+  if (sessionIds.length === 0) return { data: [], error: null };
+
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const charts = await db.query.charts.findMany({
+      where: inArray(schema.charts.sessionId, sessionIds),
+      orderBy: [desc(schema.charts.createdAt)],
+    });
+    return { data: charts, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("charts")
+    .select("*")
+    .in("session_id", sessionIds)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
+
 // ============================================================================
 // CSV FUNCTIONS
 // ============================================================================
@@ -418,6 +589,7 @@ export async function createCSV(csv: {
   description?: string;
   headers: string[];
   rows: any[][];
+  provenance?: ArtifactProvenance | null;
 }) {
   if (isDevelopmentMode()) {
     const db = getLocalDb();
@@ -430,6 +602,7 @@ export async function createCSV(csv: {
       description: csv.description || null,
       headers: JSON.stringify(csv.headers),
       rows: JSON.stringify(csv.rows),
+      provenance: csv.provenance ? JSON.stringify(csv.provenance) : null,
     });
     return { error: null };
   }
@@ -438,3 +611,751 @@ export async function createCSV(csv: {
   const { error } = await supabase.from("csvs").insert(csv);
   return { error };
 }
+
+/**
+ * CSVs saved in any of the given sessions, newest first. Callers pass
+ * session IDs they already checked belong to the user.
+ */
+export async function getCSVsForSessions(sessionIds: string[]) {
+  if (sessionIds.length === 0) return { data: [], error: null };
+
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const csvs = await db.query.csvs.findMany({
+      where: inArray(schema.csvs.sessionId, sessionIds),
+      orderBy: [desc(schema.csvs.createdAt)],
+    });
+    return { data: csvs, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("csvs")
+    .select("*")
+    .in("session_id", sessionIds)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
+
+// ============================================================================
+// PROJECT FUNCTIONS
+// ============================================================================
+
+export async function getProjects(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const projects = await db.query.projects.findMany({
+      where: eq(schema.projects.userId, userId),
+      orderBy: [desc(schema.projects.updatedAt)],
+    });
+    return { data: projects, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+  return { data, error };
+}
+
+export async function getProject(projectId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const project = await db.query.projects.findFirst({
+      where: and(
+        eq(schema.projects.id, projectId),
+        eq(schema.projects.userId, userId)
+      ),
+    });
+    return { data: project || null, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .single();
+  return { data, error };
+}
+
+export async function createProject(project: {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.projects).values({
+      id: project.id,
+      userId: project.user_id,
+      name: project.name,
+      description: project.description || null,
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("projects").insert(project);
+  return { error };
+}
+
+export async function updateProject(
+  projectId: string,
+  userId: string,
+  updates: { name?: string; description?: string | null }
+) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const updateData: any = {
+      updatedAt: new Date(),
+    };
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.description !== undefined) updateData.description = updates.description;
+
+    await db
+      .update(schema.projects)
+      .set(updateData)
+      .where(
+        and(
+          eq(schema.projects.id, projectId),
+          eq(schema.projects.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("projects")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", projectId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+/**
+ * Delete a project. Its sessions and collections are kept and become
+ * unassigned (project_id is set null by the foreign key).
+ */
+export async function deleteProject(projectId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db
+      .delete(schema.projects)
+      .where(
+        and(
+          eq(schema.projects.id, projectId),
+          eq(schema.projects.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("projects")
+    .delete()
+    .eq("id", projectId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+// ============================================================================
+// PATENT WATCH FUNCTIONS
+// ============================================================================
+
+export async function getPatentWatches(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const watches = await db.query.patentWatches.findMany({
+      where: eq(schema.patentWatches.userId, userId),
+      orderBy: [desc(schema.patentWatches.createdAt)],
+    });
+    return { data: watches, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_watches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
+
+export async function getPatentWatch(watchId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const watch = await db.query.patentWatches.findFirst({
+      where: and(
+        eq(schema.patentWatches.id, watchId),
+        eq(schema.patentWatches.userId, userId)
+      ),
+    });
+    return { data: watch || null, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_watches")
+    .select("*")
+    .eq("id", watchId)
+    .eq("user_id", userId)
+    .single();
+  return { data, error };
+}
+
+export async function createPatentWatch(watch: {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters?: any;
+  max_results?: number;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.patentWatches).values({
+      id: watch.id,
+      userId: watch.user_id,
+      name: watch.name,
+      query: watch.query,
+      filters: watch.filters ? JSON.stringify(watch.filters) : null,
+      maxResults: watch.max_results ?? 15,
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("patent_watches").insert(watch);
+  return { error };
+}
+
+export async function updatePatentWatch(
+  watchId: string,
+  userId: string,
+  updates: { name?: string; unseen_count?: number; last_run_at?: Date }
+) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const updateData: any = {
+      updatedAt: new Date(),
+    };
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.unseen_count !== undefined) updateData.unseenCount = updates.unseen_count;
+    if (updates.last_run_at !== undefined) updateData.lastRunAt = updates.last_run_at;
+
+    await db
+      .update(schema.patentWatches)
+      .set(updateData)
+      .where(
+        and(
+          eq(schema.patentWatches.id, watchId),
+          eq(schema.patentWatches.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_watches")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", watchId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+export async function deletePatentWatch(watchId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db
+      .delete(schema.patentWatches)
+      .where(
+        and(
+          eq(schema.patentWatches.id, watchId),
+          eq(schema.patentWatches.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_watches")
+    .delete()
+    .eq("id", watchId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+export async function getPatentWatchSnapshots(watchId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const snapshots = await db.query.patentWatchSnapshots.findMany({
+      where: eq(schema.patentWatchSnapshots.watchId, watchId),
+      orderBy: [desc(schema.patentWatchSnapshots.createdAt)],
+    });
+    return { data: snapshots, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_watch_snapshots")
+    .select("*")
+    .eq("watch_id", watchId)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
+
+export async function createPatentWatchSnapshot(snapshot: {
+  id: string;
+  watch_id: string;
+  patent_numbers: string[];
+  new_patent_numbers: string[];
+  results: any[];
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.patentWatchSnapshots).values({
+      id: snapshot.id,
+      watchId: snapshot.watch_id,
+      patentNumbers: JSON.stringify(snapshot.patent_numbers),
+      newPatentNumbers: JSON.stringify(snapshot.new_patent_numbers),
+      results: JSON.stringify(snapshot.results),
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("patent_watch_snapshots").insert(snapshot);
+  return { error };
+}
+
+// ============================================================================
+// PATENT COLLECTION FUNCTIONS
+// ============================================================================
+
+export async function getPatentCollections(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const collections = await db.query.patentCollections.findMany({
+      where: eq(schema.patentCollections.userId, userId),
+      orderBy: [desc(schema.patentCollections.updatedAt)],
+    });
+    return { data: collections, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_collections")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+  return { data, error };
+}
+
+export async function getPatentCollection(collectionId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const collection = await db.query.patentCollections.findFirst({
+      where: and(
+        eq(schema.patentCollections.id, collectionId),
+        eq(schema.patentCollections.userId, userId)
+      ),
+    });
+    return { data: collection || null, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_collections")
+    .select("*")
+    .eq("id", collectionId)
+    .eq("user_id", userId)
+    .single();
+  return { data, error };
+}
+
+export async function createPatentCollection(collection: {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  project_id?: string | null;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.patentCollections).values({
+      id: collection.id,
+      userId: collection.user_id,
+      name: collection.name,
+      description: collection.description || null,
+      projectId: collection.project_id || null,
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("patent_collections").insert(collection);
+  return { error };
+}
+
+export async function updatePatentCollection(
+  collectionId: string,
+  userId: string,
+  updates: { name?: string; description?: string | null; project_id?: string | null }
+) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const updateData: any = {
+      updatedAt: new Date(),
+    };
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.project_id !== undefined) updateData.projectId = updates.project_id;
+
+    await db
+      .update(schema.patentCollections)
+      .set(updateData)
+      .where(
+        and(
+          eq(schema.patentCollections.id, collectionId),
+          eq(schema.patentCollections.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_collections")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", collectionId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+export async function deletePatentCollection(collectionId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db
+      .delete(schema.patentCollections)
+      .where(
+        and(
+          eq(schema.patentCollections.id, collectionId),
+          eq(schema.patentCollections.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_collections")
+    .delete()
+    .eq("id", collectionId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+/**
+ * Items of several collections, oldest first. Callers pass collection IDs
+ * they already checked belong to the user.
+ */
+export async function getPatentCollectionItems(collectionIds: string[]) {
+  if (collectionIds.length === 0) return { data: [], error: null };
+
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const items = await db.query.patentCollectionItems.findMany({
+      where: inArray(schema.patentCollectionItems.collectionId, collectionIds),
+      orderBy: [schema.patentCollectionItems.createdAt],
+    });
+    return { data: items, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("patent_collection_items")
+    .select("*")
+    .in("collection_id", collectionIds)
+    .order("created_at", { ascending: true });
+  return { data, error };
+}
+
+export async function createPatentCollectionItem(item: {
+  id: string;
+  collection_id: string;
+  patent_number: string;
+  snapshot: any;
+  notes?: string | null;
+  tags: string[];
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.patentCollectionItems).values({
+      id: item.id,
+      collectionId: item.collection_id,
+      patentNumber: item.patent_number,
+      snapshot: JSON.stringify(item.snapshot),
+      notes: item.notes || null,
+      tags: JSON.stringify(item.tags),
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("patent_collection_items").insert(item);
+  return { error };
+}
+
+export async function updatePatentCollectionItem(
+  itemId: string,
+  collectionId: string,
+  updates: { notes?: string | null; tags?: string[]; snapshot?: any }
+) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const updateData: any = {
+      updatedAt: new Date(),
+    };
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+    if (updates.tags !== undefined) updateData.tags = JSON.stringify(updates.tags);
+    if (updates.snapshot !== undefined) updateData.snapshot = JSON.stringify(updates.snapshot);
+
+    await db
+      .update(schema.patentCollectionItems)
+      .set(updateData)
+      .where(
+        and(
+          eq(schema.patentCollectionItems.id, itemId),
+          eq(schema.patentCollectionItems.collectionId, collectionId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_collection_items")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", itemId)
+    .eq("collection_id", collectionId);
+  return { error };
+}
+
+export async function deletePatentCollectionItem(itemId: string, collectionId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db
+      .delete(schema.patentCollectionItems)
+      .where(
+        and(
+          eq(schema.patentCollectionItems.id, itemId),
+          eq(schema.patentCollectionItems.collectionId, collectionId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("patent_collection_items")
+    .delete()
+    .eq("id", itemId)
+    .eq("collection_id", collectionId);
+  return { error };
+}
+
+// ============================================================================
+// ASSIGNEE ALIAS FUNCTIONS
+// ============================================================================
+
+export async function getAssigneeAliases(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const aliases = await db.query.assigneeAliases.findMany({
+      where: eq(schema.assigneeAliases.userId, userId),
+      orderBy: [desc(schema.assigneeAliases.createdAt)],
+    });
+    return { data: aliases, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("assignee_aliases")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
+
+export async function createAssigneeAlias(alias: {
+  id: string;
+  user_id: string;
+  alias: string;
+  canonical: string;
+  parent?: string | null;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.assigneeAliases).values({
+      id: alias.id,
+      userId: alias.user_id,
+      alias: alias.alias,
+      canonical: alias.canonical,
+      parent: alias.parent || null,
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("assignee_aliases").insert(alias);
+  return { error };
+}
+
+export async function deleteAssigneeAlias(aliasId: string, userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db
+      .delete(schema.assigneeAliases)
+      .where(
+        and(
+          eq(schema.assigneeAliases.id, aliasId),
+          eq(schema.assigneeAliases.userId, userId)
+        )
+      );
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase
+    .from("assignee_aliases")
+    .delete()
+    .eq("id", aliasId)
+    .eq("user_id", userId);
+  return { error };
+}
+
+// ============================================================================
+// SEARCH CACHE FUNCTIONS
+// ============================================================================
+
+// The cache is shared by all users, so in production only the service role
+// reads and writes it (the table has RLS enabled and no policies)
+function createServiceSupabaseClient() {
+  return createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export async function getSearchCacheEntry(key: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const entry = await db.query.searchCache.findFirst({
+      where: and(
+        eq(schema.searchCache.key, key),
+        gt(schema.searchCache.expiresAt, new Date())
+      ),
+    });
+    return { data: entry || null, error: null };
+  }
+
+  const supabase = createServiceSupabaseClient();
+  const { data, error } = await supabase
+    .from("search_cache")
+    .select("*")
+    .eq("key", key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  return { data, error };
+}
+
+export async function saveSearchCacheEntry(entry: {
+  key: string;
+  source: string;
+  query: string;
+  response: any;
+  cost_dollars: number;
+  expires_at: Date;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    // Expired entries are only ever replaced or dropped here
+    await db.delete(schema.searchCache).where(lt(schema.searchCache.expiresAt, new Date()));
+    const values = {
+      source: entry.source,
+      query: entry.query,
+      response: JSON.stringify(entry.response),
+      costDollars: entry.cost_dollars,
+      createdAt: new Date(),
+      expiresAt: entry.expires_at,
+    };
+    await db
+      .insert(schema.searchCache)
+      .values({ key: entry.key, ...values })
+      .onConflictDoUpdate({ target: schema.searchCache.key, set: values });
+    return { error: null };
+  }
+
+  const supabase = createServiceSupabaseClient();
+  await supabase.from("search_cache").delete().lt("expires_at", new Date().toISOString());
+  const { error } = await supabase.from("search_cache").upsert({
+    ...entry,
+    created_at: new Date().toISOString(),
+    expires_at: entry.expires_at.toISOString(),
+  });
+  return { error };
+}
+
+export async function createSearchCacheHit(hit: {
+  id: string;
+  user_id: string;
+  session_id?: string | null;
+  source: string;
+  query: string;
+  saved_dollars: number;
+}) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    await db.insert(schema.searchCacheHits).values({
+      id: hit.id,
+      userId: hit.user_id,
+      sessionId: hit.session_id || null,
+      source: hit.source,
+      query: hit.query,
+      savedDollars: hit.saved_dollars,
+    });
+    return { error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { error } = await supabase.from("search_cache_hits").insert(hit);
+  return { error };
+}
+
+export async function getSearchCacheHits(userId: string) {
+  if (isDevelopmentMode()) {
+    const db = getLocalDb();
+    const hits = await db.query.searchCacheHits.findMany({
+      where: eq(schema.searchCacheHits.userId, userId),
+      orderBy: [desc(schema.searchCacheHits.createdAt)],
+    });
+    return { data: hits, error: null };
+  }
+
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase
+    .from("search_cache_hits")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  return { data, error };
+}
@@ -54,22 +54,142 @@ function initializeDatabase(sqlite: Database.Database) {
       tier TEXT NOT NULL DEFAULT 'unlimited'
     );
 
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
     CREATE TABLE IF NOT EXISTS chat_sessions (
       id TEXT PRIMARY KEY,
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
       title TEXT NOT NULL,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
       last_message_at INTEGER
     );
 
+    CREATE TABLE IF NOT EXISTS patent_watches (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      query TEXT NOT NULL,
+      filters TEXT,
+      max_results INTEGER NOT NULL DEFAULT 15,
+      unseen_count INTEGER NOT NULL DEFAULT 0,
+      last_run_at INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS patent_watch_snapshots (
+      id TEXT PRIMARY KEY,
+      watch_id TEXT NOT NULL REFERENCES patent_watches(id) ON DELETE CASCADE,
+      patent_numbers TEXT NOT NULL,
+      new_patent_numbers TEXT NOT NULL,
+      results TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS patent_collections (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS patent_collection_items (
+      id TEXT PRIMARY KEY,
+      collection_id TEXT NOT NULL REFERENCES patent_collections(id) ON DELETE CASCADE,
+      patent_number TEXT NOT NULL,
+      snapshot TEXT NOT NULL,
+      notes TEXT,
+      tags TEXT NOT NULL DEFAULT '[]',
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      UNIQUE(collection_id, patent_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS assignee_aliases (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      alias TEXT NOT NULL,
+      canonical TEXT NOT NULL,
+      parent TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    CREATE TABLE IF NOT EXISTS patent_corpus (
+      patent_number TEXT PRIMARY KEY,
+      application_number TEXT,
+      title TEXT NOT NULL,
+      abstract TEXT NOT NULL DEFAULT '',
+      claims TEXT NOT NULL DEFAULT '',
+      publication_date TEXT,
+      filing_date TEXT,
+      data TEXT NOT NULL,
+      imported_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    -- External-content FTS index over the corpus, kept in sync by triggers
+    CREATE VIRTUAL TABLE IF NOT EXISTS patent_corpus_fts USING fts5(
+      title, abstract, claims,
+      content='patent_corpus', content_rowid='rowid', tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS patent_corpus_ai AFTER INSERT ON patent_corpus BEGIN
+      INSERT INTO patent_corpus_fts(rowid, title, abstract, claims)
+      VALUES (new.rowid, new.title, new.abstract, new.claims);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS patent_corpus_ad AFTER DELETE ON patent_corpus BEGIN
+      INSERT INTO patent_corpus_fts(patent_corpus_fts, rowid, title, abstract, claims)
+      VALUES ('delete', old.rowid, old.title, old.abstract, old.claims);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS patent_corpus_au AFTER UPDATE ON patent_corpus BEGIN
+      INSERT INTO patent_corpus_fts(patent_corpus_fts, rowid, title, abstract, claims)
+      VALUES ('delete', old.rowid, old.title, old.abstract, old.claims);
+      INSERT INTO patent_corpus_fts(rowid, title, abstract, claims)
+      VALUES (new.rowid, new.title, new.abstract, new.claims);
+    END;
+
+    CREATE TABLE IF NOT EXISTS search_cache (
+      key TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      query TEXT NOT NULL,
+      response TEXT NOT NULL,
+      cost_dollars REAL NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      expires_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS search_cache_hits (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      session_id TEXT,
+      source TEXT NOT NULL,
+      query TEXT NOT NULL,
+      saved_dollars REAL NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
     CREATE TABLE IF NOT EXISTS chat_messages (
       id TEXT PRIMARY KEY,
       session_id TEXT NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
       role TEXT NOT NULL,
       content TEXT NOT NULL,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      processing_time_ms INTEGER
+      processing_time_ms INTEGER,
+      metadata TEXT,
+      search_text TEXT
     );
 
     CREATE TABLE IF NOT EXISTS charts (
@@ -78,6 +198,7 @@ function initializeDatabase(sqlite: Database.Database) {
       anonymous_id TEXT,
       session_id TEXT NOT NULL,
       chart_data TEXT NOT NULL,
+      provenance TEXT,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch())
     );
@@ -91,16 +212,36 @@ function initializeDatabase(sqlite: Database.Database) {
       description TEXT,
       headers TEXT NOT NULL,
       rows TEXT NOT NULL,
+      provenance TEXT,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch())
     );
 
+    CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
     CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_id ON chat_sessions(user_id);
     CREATE INDEX IF NOT EXISTS idx_chat_messages_session_id ON chat_messages(session_id);
     CREATE INDEX IF NOT EXISTS idx_charts_session_id ON charts(session_id);
     CREATE INDEX IF NOT EXISTS idx_csvs_session_id ON csvs(session_id);
+    CREATE INDEX IF NOT EXISTS idx_patent_watches_user_id ON patent_watches(user_id);
+    CREATE INDEX IF NOT EXISTS idx_patent_watch_snapshots_watch_id ON patent_watch_snapshots(watch_id);
+    CREATE INDEX IF NOT EXISTS idx_patent_collections_user_id ON patent_collections(user_id);
+    CREATE INDEX IF NOT EXISTS idx_patent_collection_items_collection_id ON patent_collection_items(collection_id);
+    CREATE INDEX IF NOT EXISTS idx_assignee_aliases_user_id ON assignee_aliases(user_id);
+    CREATE INDEX IF NOT EXISTS idx_patent_corpus_publication_date ON patent_corpus(publication_date);
+    CREATE INDEX IF NOT EXISTS idx_search_cache_expires_at ON search_cache(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_search_cache_hits_user_id ON search_cache_hits(user_id);
   `);
 
+  // Columns added after the initial schema - existing dev databases need them too
+  addColumnIfMissing(sqlite, "chat_messages", "metadata", "TEXT");
+  addColumnIfMissing(sqlite, "charts", "provenance", "TEXT");
+  addColumnIfMissing(sqlite, "csvs", "provenance", "TEXT");
+  addColumnIfMissing(sqlite, "chat_sessions", "project_id", "TEXT REFERENCES projects(id) ON DELETE SET NULL");
+  addColumnIfMissing(sqlite, "patent_collections", "project_id", "TEXT REFERENCES projects(id) ON DELETE SET NULL");
+  addColumnIfMissing(sqlite, "chat_messages", "search_text", "TEXT");
+
+  initializeChatSearch(sqlite);
+
   // Insert dev user if it doesn't exist
   const existingUser = sqlite
     .prepare("SELECT id FROM users WHERE id = ?")
@@ -125,6 +266,69 @@ function initializeDatabase(sqlite: Database.Database) {
   }
 }
 
+function addColumnIfMissing(
+  sqlite: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * FTS5 indexes over message search text and session titles. They are
+ * external-content tables kept in sync by triggers; one created for an
+ * existing database is rebuilt from the rows already there.
+ */
+function initializeChatSearch(sqlite: Database.Database) {
+  const existing = sqlite
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('chat_messages_fts', 'chat_sessions_fts')")
+    .all() as Array<{ name: string }>;
+
+  sqlite.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+      search_text, content='chat_messages', content_rowid='rowid', tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS chat_messages_ai AFTER INSERT ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(rowid, search_text) VALUES (new.rowid, new.search_text);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chat_messages_ad AFTER DELETE ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(chat_messages_fts, rowid, search_text) VALUES ('delete', old.rowid, old.search_text);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chat_messages_au AFTER UPDATE OF search_text ON chat_messages BEGIN
+      INSERT INTO chat_messages_fts(chat_messages_fts, rowid, search_text) VALUES ('delete', old.rowid, old.search_text);
+      INSERT INTO chat_messages_fts(rowid, search_text) VALUES (new.rowid, new.search_text);
+    END;
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS chat_sessions_fts USING fts5(
+      title, content='chat_sessions', content_rowid='rowid', tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS chat_sessions_ai AFTER INSERT ON chat_sessions BEGIN
+      INSERT INTO chat_sessions_fts(rowid, title) VALUES (new.rowid, new.title);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chat_sessions_ad AFTER DELETE ON chat_sessions BEGIN
+      INSERT INTO chat_sessions_fts(chat_sessions_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+    END;
+    CREATE TRIGGER IF NOT EXISTS chat_sessions_au AFTER UPDATE OF title ON chat_sessions BEGIN
+      INSERT INTO chat_sessions_fts(chat_sessions_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+      INSERT INTO chat_sessions_fts(rowid, title) VALUES (new.rowid, new.title);
+    END;
+  `);
+
+  const names = existing.map((row) => row.name);
+  if (!names.includes("chat_messages_fts")) {
+    sqlite.exec("INSERT INTO chat_messages_fts(chat_messages_fts) VALUES ('rebuild')");
+  }
+  if (!names.includes("chat_sessions_fts")) {
+    sqlite.exec("INSERT INTO chat_sessions_fts(chat_sessions_fts) VALUES ('rebuild')");
+  }
+}
+
 // Close database connection (for cleanup)
 export function closeLocalDb() {
   if (db) {
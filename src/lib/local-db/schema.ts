@@ -26,12 +26,29 @@ export const userRateLimits = sqliteTable("user_rate_limits", {
   tier: text("tier").notNull().default("unlimited"),
 });
 
+// Projects table - mirrors Supabase projects table
+export const projects = sqliteTable("projects", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 // Chat sessions table - mirrors Supabase chat_sessions table
 export const chatSessions = sqliteTable("chat_sessions", {
   id: text("id").primaryKey(),
   userId: text("user_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
+  projectId: text("project_id").references(() => projects.id, { onDelete: "set null" }),
   title: text("title").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
@@ -42,6 +59,40 @@ export const chatSessions = sqliteTable("chat_sessions", {
   lastMessageAt: integer("last_message_at", { mode: "timestamp" }),
 });
 
+// Patent watches table - mirrors Supabase patent_watches table
+export const patentWatches = sqliteTable("patent_watches", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  filters: text("filters"), // JSON string of PatentSearchFilters
+  maxResults: integer("max_results").notNull().default(15),
+  unseenCount: integer("unseen_count").notNull().default(0),
+  lastRunAt: integer("last_run_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Patent watch snapshots table - mirrors Supabase patent_watch_snapshots table
+export const patentWatchSnapshots = sqliteTable("patent_watch_snapshots", {
+  id: text("id").primaryKey(),
+  watchId: text("watch_id")
+    .notNull()
+    .references(() => patentWatches.id, { onDelete: "cascade" }),
+  patentNumbers: text("patent_numbers").notNull(), // JSON array of every patent number in the run
+  newPatentNumbers: text("new_patent_numbers").notNull(), // JSON array of numbers not seen in earlier runs
+  results: text("results").notNull(), // JSON array of PatentRecords for the new patents
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 // Chat messages table - mirrors Supabase chat_messages table
 export const chatMessages = sqliteTable("chat_messages", {
   id: text("id").primaryKey(),
@@ -54,6 +105,8 @@ export const chatMessages = sqliteTable("chat_messages", {
     .notNull()
     .default(sql`(unixepoch())`),
   processingTimeMs: integer("processing_time_ms"),
+  metadata: text("metadata"), // JSON string of message metadata (e.g. patent number verification)
+  searchText: text("search_text"), // Plain text indexed by chat_messages_fts (text parts plus patent numbers and titles)
 });
 
 // Charts table - mirrors Supabase charts table
@@ -63,6 +116,7 @@ export const charts = sqliteTable("charts", {
   anonymousId: text("anonymous_id"),
   sessionId: text("session_id").notNull(),
   chartData: text("chart_data").notNull(), // JSON string of chart config
+  provenance: text("provenance"), // JSON ArtifactProvenance (see lib/provenance.ts)
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -81,6 +135,7 @@ export const csvs = sqliteTable("csvs", {
   description: text("description"),
   headers: text("headers").notNull(), // JSON array of strings
   rows: text("rows").notNull(), // JSON array of arrays
+  provenance: text("provenance"), // JSON ArtifactProvenance (see lib/provenance.ts)
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -89,8 +144,102 @@ export const csvs = sqliteTable("csvs", {
     .default(sql`(unixepoch())`),
 });
 
+// Patent collections - named lists of saved patents with notes and tags
+export const patentCollections = sqliteTable("patent_collections", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  projectId: text("project_id").references(() => projects.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const patentCollectionItems = sqliteTable("patent_collection_items", {
+  id: text("id").primaryKey(),
+  collectionId: text("collection_id")
+    .notNull()
+    .references(() => patentCollections.id, { onDelete: "cascade" }),
+  patentNumber: text("patent_number").notNull(),
+  snapshot: text("snapshot").notNull(), // JSON PatentRecord as it was when saved
+  notes: text("notes"),
+  tags: text("tags").notNull().default("[]"), // JSON array of tag strings
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Assignee aliases table - per-user additions to the built-in assignee alias table
+export const assigneeAliases = sqliteTable("assignee_aliases", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  alias: text("alias").notNull(),
+  canonical: text("canonical").notNull(),
+  parent: text("parent"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Local patent corpus - USPTO bulk data imported for offline search.
+// Full-text search runs over the patent_corpus_fts FTS5 table created in client.ts.
+export const patentCorpus = sqliteTable("patent_corpus", {
+  patentNumber: text("patent_number").primaryKey(),
+  applicationNumber: text("application_number"),
+  title: text("title").notNull(),
+  abstract: text("abstract").notNull().default(""),
+  claims: text("claims").notNull().default(""), // Claims joined by newlines
+  publicationDate: text("publication_date"), // YYYY-MM-DD
+  filingDate: text("filing_date"), // YYYY-MM-DD
+  data: text("data").notNull(), // JSON of the source record, normalized like a Valyu result
+  importedAt: integer("imported_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Search cache - provider responses keyed on normalized query, options and source
+export const searchCache = sqliteTable("search_cache", {
+  key: text("key").primaryKey(),
+  source: text("source").notNull(),
+  query: text("query").notNull(),
+  response: text("response").notNull(), // JSON of the provider's SearchResponse
+  costDollars: real("cost_dollars").notNull().default(0),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+// Search cache hits - one row per search served from the cache, for savings reporting
+export const searchCacheHits = sqliteTable("search_cache_hits", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  sessionId: text("session_id"),
+  source: text("source").notNull(),
+  query: text("query").notNull(),
+  savedDollars: real("saved_dollars").notNull().default(0),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = typeof projects.$inferInsert;
 export type ChatSession = typeof chatSessions.$inferSelect;
 export type InsertChatSession = typeof chatSessions.$inferInsert;
 export type ChatMessage = typeof chatMessages.$inferSelect;
@@ -99,3 +248,19 @@ export type Chart = typeof charts.$inferSelect;
 export type InsertChart = typeof charts.$inferInsert;
 export type CSV = typeof csvs.$inferSelect;
 export type InsertCSV = typeof csvs.$inferInsert;
+export type PatentWatch = typeof patentWatches.$inferSelect;
+export type InsertPatentWatch = typeof patentWatches.$inferInsert;
+export type PatentWatchSnapshot = typeof patentWatchSnapshots.$inferSelect;
+export type InsertPatentWatchSnapshot = typeof patentWatchSnapshots.$inferInsert;
+export type PatentCollection = typeof patentCollections.$inferSelect;
+export type InsertPatentCollection = typeof patentCollections.$inferInsert;
+export type PatentCollectionItem = typeof patentCollectionItems.$inferSelect;
+export type InsertPatentCollectionItem = typeof patentCollectionItems.$inferInsert;
+export type AssigneeAlias = typeof assigneeAliases.$inferSelect;
+export type InsertAssigneeAlias = typeof assigneeAliases.$inferInsert;
+export type PatentCorpusEntry = typeof patentCorpus.$inferSelect;
+export type InsertPatentCorpusEntry = typeof patentCorpus.$inferInsert;
+export type SearchCacheEntry = typeof searchCache.$inferSelect;
+export type InsertSearchCacheEntry = typeof searchCache.$inferInsert;
+export type SearchCacheHit = typeof searchCacheHits.$inferSelect;
+export type InsertSearchCacheHit = typeof searchCacheHits.$inferInsert;
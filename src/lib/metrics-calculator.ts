@@ -109,7 +109,7 @@ export function calculateMessageMetrics(messageParts: any[]): MessageMetrics {
       }
 
       // CSV/spreadsheet creation
-      if (toolName === 'createCSV' || toolName === 'generateSpreadsheet') {
+      if (toolName === 'createCSV' || toolName === 'claimChart' || toolName === 'generateSpreadsheet') {
         const rows = result?.rows?.length ||
                     result?.data?.length ||
                     (Array.isArray(result) ? result.length : 10);
@@ -0,0 +1,197 @@
+/**
+ * Patent Aggregation
+ * Exact counts over retrieved patent records - by year, assignee, CPC class or
+ * inventor country - behind the aggregatePatents tool. The output includes a
+ * createChart-compatible dataSeries so trend charts are computed from data
+ * the session actually retrieved instead of numbers typed by the model.
+ */
+
+import { PatentRecord } from './record';
+import { groupPatentFamilies } from './family';
+import { countAssignees } from './assignees';
+import { cpcTitle, normalizeCpcCode } from './cpc';
+
+export type PatentGroupBy = 'year' | 'assignee' | 'cpc' | 'inventorCountry';
+export type PatentDateField = 'filing' | 'priority' | 'publication';
+export type CpcGroupLevel = 'class' | 'subclass' | 'group';
+
+export interface AggregateOptions {
+  groupBy: PatentGroupBy;
+  /** Split each group into one series per value of a second dimension */
+  seriesBy?: PatentGroupBy;
+  /** Date that decides a patent's year. Default: filing */
+  dateField?: PatentDateField;
+  /** Default: subclass (e.g. "H01M") */
+  cpcLevel?: CpcGroupLevel;
+  /** Count each family once (its representative) rather than every document. Default: true */
+  countFamilies?: boolean;
+  /** Roll subsidiaries up to their parent assignee. Default: true */
+  rollUpAssignees?: boolean;
+  yearFrom?: number;
+  yearTo?: number;
+  /** Most frequent groups (and series) kept; years are never cut. Default: 15 groups, 5 series */
+  limit?: number;
+  seriesLimit?: number;
+}
+
+export interface AggregateGroup {
+  key: string;
+  /** CPC class title when grouping by CPC */
+  label?: string;
+  count: number;
+  patentNumbers: string[];
+}
+
+export interface AggregateSeries {
+  name: string;
+  data: Array<{ x: string; y: number }>;
+}
+
+export interface PatentAggregation {
+  groupBy: PatentGroupBy;
+  seriesBy?: PatentGroupBy;
+  dateField: PatentDateField;
+  countedUnit: 'families' | 'documents';
+  /** Patents (or families) counted after the year window */
+  totalPatents: number;
+  /** Counted patents with no value for groupBy (no date, no assignee, ...) */
+  missingCount: number;
+  groups: AggregateGroup[];
+  dataSeries: AggregateSeries[];
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+function patentDate(record: PatentRecord, dateField: PatentDateField): string | undefined {
+  if (dateField === 'priority') return record.priorityDate || record.filingDate;
+  if (dateField === 'publication') return record.publicationDate;
+  return record.filingDate;
+}
+
+function cpcGroupKey(code: string, level: CpcGroupLevel): string {
+  const normalized = normalizeCpcCode(code);
+  if (normalized.length < 3) return '';
+  if (level === 'class') return normalized.slice(0, 3);
+  if (level === 'subclass' || normalized.length < 5) return normalized.slice(0, 4);
+  return `${normalized.split('/')[0]}/00`;
+}
+
+/**
+ * The values a record counts towards. A record can sit in several groups
+ * (co-assigned, multiple classes) but counts once in each.
+ */
+function groupKeys(record: PatentRecord, groupBy: PatentGroupBy, options: AggregateOptions): string[] {
+  switch (groupBy) {
+    case 'year': {
+      const year = patentDate(record, options.dateField || 'filing')?.slice(0, 4);
+      return year ? [year] : [];
+    }
+    case 'assignee':
+      return Array.from(new Set(options.rollUpAssignees === false ? record.assignees : record.parentAssignees || record.assignees));
+    case 'cpc':
+      return Array.from(
+        new Set([...record.cpcCodes, ...record.ipcCodes].map((code) => cpcGroupKey(code, options.cpcLevel || 'subclass')).filter(Boolean))
+      );
+    case 'inventorCountry':
+      return record.inventorCountries || [];
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Records to count: one representative per family unless countFamilies is
+ * false, limited to the year window on the chosen date
+ */
+function countedRecords(records: PatentRecord[], options: AggregateOptions): PatentRecord[] {
+  const units = options.countFamilies === false ? records : groupPatentFamilies(records).map((family) => family.representative);
+  if (!options.yearFrom && !options.yearTo) return units;
+
+  return units.filter((record) => {
+    const year = Number(patentDate(record, options.dateField || 'filing')?.slice(0, 4));
+    if (!year) return false;
+    return (!options.yearFrom || year >= options.yearFrom) && (!options.yearTo || year <= options.yearTo);
+  });
+}
+
+function rankGroups(records: PatentRecord[], groupBy: PatentGroupBy, options: AggregateOptions): AggregateGroup[] {
+  const members = new Map<string, string[]>();
+  for (const record of records) {
+    for (const key of groupKeys(record, groupBy, options)) {
+      members.set(key, [...(members.get(key) || []), record.patentNumber]);
+    }
+  }
+
+  if (groupBy === 'year') {
+    const years = Array.from(members.keys()).map(Number).sort((a, b) => a - b);
+    if (years.length === 0) return [];
+    // Fill empty years so trend lines don't skip them
+    const first = options.yearFrom ?? years[0];
+    const last = options.yearTo ?? years[years.length - 1];
+    return Array.from({ length: last - first + 1 }, (_, i) => {
+      const key = String(first + i);
+      const numbers = members.get(key) || [];
+      return { key, count: numbers.length, patentNumbers: numbers };
+    });
+  }
+
+  // Assignee ranking is the same one patentSearch reports as assigneeCounts
+  const ranked =
+    groupBy === 'assignee'
+      ? countAssignees(records, { rollUp: options.rollUpAssignees !== false }).map(({ assignee }) => assignee)
+      : Array.from(members.keys()).sort((a, b) => members.get(b)!.length - members.get(a)!.length || a.localeCompare(b));
+
+  return ranked.map((key) => ({
+    key,
+    label: groupBy === 'cpc' ? cpcTitle(key) : undefined,
+    count: members.get(key)!.length,
+    patentNumbers: members.get(key)!,
+  }));
+}
+
+/**
+ * Count records by one dimension, optionally split by a second into chart
+ * series. Counts are exact over the records given.
+ */
+export function aggregatePatents(records: PatentRecord[], options: AggregateOptions): PatentAggregation {
+  const { groupBy, seriesBy } = options;
+  const counted = countedRecords(records, options);
+  const limit = groupBy === 'year' ? undefined : options.limit || 15;
+  const groups = rankGroups(counted, groupBy, options).slice(0, limit);
+  const missingCount = counted.filter((record) => groupKeys(record, groupBy, options).length === 0).length;
+  const unitName = options.countFamilies === false ? 'Patents' : 'Patent families';
+
+  let dataSeries: AggregateSeries[];
+  if (seriesBy && seriesBy !== groupBy) {
+    const seriesKeys = rankGroups(counted, seriesBy, { ...options, yearFrom: undefined, yearTo: undefined })
+      .filter((series) => series.count > 0)
+      .slice(0, options.seriesLimit || 5);
+    dataSeries = seriesKeys.map((series) => {
+      const inSeries = new Set(series.patentNumbers);
+      return {
+        name: series.key,
+        data: groups.map((group) => ({
+          x: group.key,
+          y: group.patentNumbers.filter((number) => inSeries.has(number)).length,
+        })),
+      };
+    });
+  } else {
+    dataSeries = [{ name: unitName, data: groups.map((group) => ({ x: group.key, y: group.count })) }];
+  }
+
+  return {
+    groupBy,
+    seriesBy: seriesBy && seriesBy !== groupBy ? seriesBy : undefined,
+    dateField: options.dateField || 'filing',
+    countedUnit: options.countFamilies === false ? 'documents' : 'families',
+    totalPatents: counted.length,
+    missingCount,
+    groups,
+    dataSeries,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Assignee Normalization
+ * Maps the many spellings of an assignee ("GOOGLE INC.", "Google LLC") onto
+ * one canonical name, and rolls subsidiaries up to their parent ("Google" ->
+ * "Alphabet") so assignee counts and charts treat them as one player.
+ *
+ * The built-in table is seeded from PATENT_COMPANIES; users can add their own
+ * aliases, which take precedence over the built-in entries.
+ */
+
+import { PATENT_COMPANIES } from '@/data/patent-suggestion-data';
+import { ASSIGNEE_ALIASES } from '@/data/assignee-aliases';
+import type { PatentRecord } from './record';
+
+export interface AssigneeEntity {
+  canonical: string;
+  /** Ultimate owner when the entity is a subsidiary */
+  parent?: string;
+}
+
+/** A user-defined alias, stored per user */
+export interface AssigneeAlias {
+  alias: string;
+  canonical: string;
+  parent?: string | null;
+}
+
+export interface NormalizedAssignee {
+  raw: string;
+  name: string;
+  parent?: string;
+}
+
+export interface AssigneeCount {
+  assignee: string;
+  count: number;
+}
+
+type AliasTable = Map<string, AssigneeEntity>;
+
+// Corporate-form words dropped from the end of a name, compared after dots are removed
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'kg', 'sa', 'sas', 'se', 'plc', 'kk', 'nv', 'bv', 'ab', 'oy', 'spa', 'srl', 'pty',
+  'holding', 'holdings', 'group', 'kabushiki', 'kaisha', 'aktiengesellschaft',
+]);
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Split a name into words, keeping case. Parenthesised locations are dropped
+ * and dotted abbreviations are closed up ("S.A." -> "SA").
+ */
+function nameTokens(name: string): string[] {
+  const tokens = name
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\./g, '')
+    .replace(/&/g, ' & ')
+    .split(/[\s,;:'"\/\\-]+/)
+    .filter(Boolean);
+
+  // Strip a leading "The" and trailing legal forms ("Co Ltd", "GmbH & Co KG")
+  if (tokens.length > 1 && tokens[0].toLowerCase() === 'the') tokens.shift();
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1].toLowerCase();
+    if (!LEGAL_SUFFIXES.has(last) && last !== '&' && last !== 'and') break;
+    tokens.pop();
+  }
+  return tokens;
+}
+
+/**
+ * Comparison key for an assignee name, e.g. "GOOGLE INC." -> "google"
+ */
+export function assigneeKey(name: string): string {
+  return nameTokens(name)
+    .map((token) => (token === '&' ? 'and' : token.toLowerCase()))
+    .join(' ');
+}
+
+/**
+ * Display form for names not in the table: legal forms removed and all-caps
+ * words title-cased, keeping short acronyms ("ACME WIDGETS GMBH" -> "Acme Widgets")
+ */
+function displayName(raw: string): string {
+  const tokens = nameTokens(raw);
+  const shouting = raw === raw.toUpperCase();
+  return tokens
+    .map((token) =>
+      shouting && token.length > 3 ? token.charAt(0) + token.slice(1).toLowerCase() : token
+    )
+    .join(' ');
+}
+
+// ============================================================================
+// ALIAS TABLE
+// ============================================================================
+
+function addEntry(table: AliasTable, name: string, entity: AssigneeEntity) {
+  const key = assigneeKey(name);
+  if (key) table.set(key, entity);
+}
+
+let defaultTable: AliasTable | null = null;
+
+function builtInTable(): AliasTable {
+  if (defaultTable) return defaultTable;
+
+  const table: AliasTable = new Map();
+  for (const company of PATENT_COMPANIES) {
+    const entry = ASSIGNEE_ALIASES[company] || {};
+    const entity: AssigneeEntity = { canonical: company };
+    addEntry(table, company, entity);
+    entry.aliases?.forEach((alias) => addEntry(table, alias, entity));
+    entry.subsidiaries?.forEach((subsidiary) =>
+      addEntry(table, subsidiary, { canonical: subsidiary, parent: company })
+    );
+  }
+
+  defaultTable = table;
+  return table;
+}
+
+/**
+ * Built-in table with the user's aliases layered on top
+ */
+export function buildAliasTable(userAliases: AssigneeAlias[] = []): AliasTable {
+  if (userAliases.length === 0) return builtInTable();
+
+  const table: AliasTable = new Map(builtInTable());
+  for (const alias of userAliases) {
+    // Resolve the target through the table so "alias -> Google" still rolls up to Alphabet
+    const target = table.get(assigneeKey(alias.canonical));
+    const entity: AssigneeEntity = {
+      canonical: target?.canonical || alias.canonical.trim(),
+      parent: alias.parent?.trim() || target?.parent,
+    };
+    addEntry(table, alias.alias, entity);
+    if (!target) addEntry(table, alias.canonical, entity);
+  }
+  return table;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+export function normalizeAssignee(raw: string, table: AliasTable = builtInTable()): NormalizedAssignee {
+  // Exact keys only: prefix matching would fold "Apple Hospitality REIT" into
+  // Apple, so longer names must be listed as aliases ("Ford Global Technologies")
+  const entity = table.get(assigneeKey(raw));
+  if (entity) {
+    return { raw, name: entity.canonical, parent: entity.parent };
+  }
+  return { raw, name: displayName(raw) || raw.trim() };
+}
+
+/**
+ * Canonical and rolled-up assignee lists for one record, deduplicated in order
+ */
+export function normalizeAssignees(
+  rawAssignees: string[],
+  table: AliasTable = builtInTable()
+): { assignees: string[]; parentAssignees: string[] } {
+  const normalized = rawAssignees.map((raw) => normalizeAssignee(raw, table));
+  return {
+    assignees: Array.from(new Set(normalized.map((a) => a.name))),
+    parentAssignees: Array.from(new Set(normalized.map((a) => a.parent || a.name))),
+  };
+}
+
+/**
+ * Re-normalize records with a user's aliases. Records keep their raw names,
+ * so this can run on anything that came out of normalizePatentResult.
+ */
+export function applyAssigneeAliases(records: PatentRecord[], userAliases: AssigneeAlias[]): PatentRecord[] {
+  if (userAliases.length === 0) return records;
+  const table = buildAliasTable(userAliases);
+  return records.map((record) => ({
+    ...record,
+    ...normalizeAssignees(record.rawAssignees || record.assignees, table),
+  }));
+}
+
+// ============================================================================
+// COUNTS
+// ============================================================================
+
+/**
+ * Patents per assignee, counting each record once per assignee. With rollUp
+ * (the default) subsidiaries count towards their parent. Ties are broken by
+ * name so the same records always give the same ranking.
+ */
+export function countAssignees(
+  records: PatentRecord[],
+  { rollUp = true, limit }: { rollUp?: boolean; limit?: number } = {}
+): AssigneeCount[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    const names = rollUp ? record.parentAssignees || record.assignees : record.assignees;
+    for (const name of new Set(names)) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+
+  const ranked = Array.from(counts, ([assignee, count]) => ({ assignee, count })).sort(
+    (a, b) => b.count - a.count || a.assignee.localeCompare(b.assignee)
+  );
+  return limit ? ranked.slice(0, limit) : ranked;
+}
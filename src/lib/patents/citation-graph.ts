@@ -0,0 +1,277 @@
+/**
+ * Patent Citation Graph
+ * Expands backward (cited) and forward (citing) citations from a seed patent
+ * into a node/edge graph, plus a deterministic force-directed layout shared by
+ * the in-app renderer and the PDF export.
+ */
+
+import { PatentRecord, normalizePatentNumber } from './record';
+
+export type CitationDirection = 'backward' | 'forward' | 'both';
+
+export interface CitationGraphNode {
+  id: string;
+  title?: string;
+  assignee?: string;
+  date?: string;
+  url?: string;
+  /** Distance from the seed in hops (seed = 0) */
+  hop: number;
+  /** False when the number was only seen as a reference and never looked up */
+  resolved: boolean;
+}
+
+export interface CitationGraphEdge {
+  /** Citing patent */
+  source: string;
+  /** Cited patent */
+  target: string;
+}
+
+export interface CitationGraph {
+  seed: string;
+  depth: number;
+  direction: CitationDirection;
+  nodes: CitationGraphNode[];
+  edges: CitationGraphEdge[];
+  /** True when expansion stopped at maxNodes */
+  truncated: boolean;
+}
+
+export interface PositionedNode extends CitationGraphNode {
+  x: number;
+  y: number;
+}
+
+// ============================================================================
+// SESSION CACHE
+// ============================================================================
+
+const MAX_CACHED_SESSIONS = 50;
+const sessionCache = new Map<string, Map<string, PatentRecord | null>>();
+
+/**
+ * Per-session lookup cache so repeated graph expansions in one conversation
+ * don't pay for the same patent twice. Oldest sessions are evicted first.
+ */
+export function getSessionLookupCache(sessionId: string | undefined): Map<string, PatentRecord | null> {
+  const key = sessionId || 'anonymous';
+  let cache = sessionCache.get(key);
+  if (!cache) {
+    if (sessionCache.size >= MAX_CACHED_SESSIONS) {
+      const oldest = sessionCache.keys().next().value;
+      if (oldest !== undefined) sessionCache.delete(oldest);
+    }
+    cache = new Map();
+    sessionCache.set(key, cache);
+  }
+  return cache;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Breadth-first expansion from the seed. `lookup` resolves a patent number to
+ * a record (or null if it cannot be found) and is only called once per number.
+ */
+export async function expandCitationGraph({
+  seed,
+  depth,
+  direction,
+  maxNodes,
+  lookup,
+  cache = new Map(),
+}: {
+  seed: string;
+  depth: number;
+  direction: CitationDirection;
+  maxNodes: number;
+  lookup: (patentNumber: string) => Promise<PatentRecord | null>;
+  cache?: Map<string, PatentRecord | null>;
+}): Promise<CitationGraph> {
+  const seedId = normalizePatentNumber(seed);
+  const nodes = new Map<string, CitationGraphNode>();
+  const edges = new Map<string, CitationGraphEdge>();
+  let truncated = false;
+
+  const resolve = async (id: string) => {
+    if (!cache.has(id)) cache.set(id, await lookup(id));
+    return cache.get(id) || null;
+  };
+
+  const addNode = (id: string, hop: number) => {
+    if (nodes.has(id)) return true;
+    if (nodes.size >= maxNodes) {
+      truncated = true;
+      return false;
+    }
+    nodes.set(id, { id, hop, resolved: false });
+    return true;
+  };
+
+  const addEdge = (source: string, target: string) => {
+    edges.set(`${source}->${target}`, { source, target });
+  };
+
+  addNode(seedId, 0);
+  let frontier = [seedId];
+
+  for (let hop = 0; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+
+    for (const id of frontier) {
+      const record = await resolve(id);
+      const node = nodes.get(id)!;
+      if (!record) continue;
+
+      Object.assign(node, {
+        title: record.title,
+        assignee: record.assignees[0],
+        date: record.publicationDate || record.filingDate,
+        url: record.url,
+        resolved: true,
+      });
+
+      // The last hop only resolves metadata for nodes already in the graph
+      if (hop === depth) continue;
+
+      if (direction !== 'forward') {
+        for (const cited of record.citedPatents) {
+          const isNew = !nodes.has(cited);
+          if (!addNode(cited, hop + 1)) continue;
+          addEdge(id, cited);
+          if (isNew) next.push(cited);
+        }
+      }
+      if (direction !== 'backward') {
+        for (const citing of record.citedBy) {
+          const isNew = !nodes.has(citing);
+          if (!addNode(citing, hop + 1)) continue;
+          addEdge(citing, id);
+          if (isNew) next.push(citing);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return {
+    seed: seedId,
+    depth,
+    direction,
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+    truncated,
+  };
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Deterministic force-directed layout (repulsion + edge springs + centering).
+ * Nodes start on rings by hop distance so the same graph always produces the
+ * same picture in the browser and in the PDF.
+ */
+export function layoutCitationGraph(
+  graph: Pick<CitationGraph, 'nodes' | 'edges' | 'seed'>,
+  width: number,
+  height: number,
+  iterations = 300
+): PositionedNode[] {
+  const cx = width / 2;
+  const cy = height / 2;
+  const ringStep = Math.min(width, height) / 6;
+
+  const byHop = new Map<number, CitationGraphNode[]>();
+  graph.nodes.forEach((node) => {
+    byHop.set(node.hop, [...(byHop.get(node.hop) || []), node]);
+  });
+
+  const positioned: PositionedNode[] = graph.nodes.map((node) => {
+    const ring = byHop.get(node.hop)!;
+    const angle = (2 * Math.PI * ring.indexOf(node)) / ring.length + node.hop * 0.5;
+    const radius = node.hop * ringStep;
+    return { ...node, x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+  });
+
+  const index = new Map(positioned.map((node, i) => [node.id, i]));
+  const links = graph.edges
+    .map((edge) => [index.get(edge.source), index.get(edge.target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined);
+
+  const area = width * height;
+  const k = Math.sqrt(area / Math.max(positioned.length, 1)) * 0.4;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const temperature = (1 - iter / iterations) * (width / 10);
+    const dx = new Array(positioned.length).fill(0);
+    const dy = new Array(positioned.length).fill(0);
+
+    // Repulsion between every pair
+    for (let i = 0; i < positioned.length; i++) {
+      for (let j = i + 1; j < positioned.length; j++) {
+        let ddx = positioned[i].x - positioned[j].x;
+        let ddy = positioned[i].y - positioned[j].y;
+        let dist = Math.sqrt(ddx * ddx + ddy * ddy);
+        if (dist < 0.01) {
+          // Nudge overlapping nodes apart deterministically
+          ddx = (i - j) * 0.1;
+          ddy = (j - i) * 0.1;
+          dist = 0.14;
+        }
+        const force = (k * k) / dist;
+        dx[i] += (ddx / dist) * force;
+        dy[i] += (ddy / dist) * force;
+        dx[j] -= (ddx / dist) * force;
+        dy[j] -= (ddy / dist) * force;
+      }
+    }
+
+    // Attraction along edges
+    for (const [a, b] of links) {
+      const ddx = positioned[a].x - positioned[b].x;
+      const ddy = positioned[a].y - positioned[b].y;
+      const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.01);
+      const force = (dist * dist) / k;
+      dx[a] -= (ddx / dist) * force;
+      dy[a] -= (ddy / dist) * force;
+      dx[b] += (ddx / dist) * force;
+      dy[b] += (ddy / dist) * force;
+    }
+
+    positioned.forEach((node, i) => {
+      // Keep the seed pinned at the centre
+      if (node.id === graph.seed) {
+        node.x = cx;
+        node.y = cy;
+        return;
+      }
+      // Weak gravity keeps disconnected nodes on screen
+      dx[i] += (cx - node.x) * 0.05;
+      dy[i] += (cy - node.y) * 0.05;
+
+      const dist = Math.max(Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]), 0.01);
+      const step = Math.min(dist, temperature);
+      node.x = Math.min(width - 20, Math.max(20, node.x + (dx[i] / dist) * step));
+      node.y = Math.min(height - 20, Math.max(20, node.y + (dy[i] / dist) * step));
+    });
+  }
+
+  return positioned;
+}
+
+/**
+ * Node radius scaled by how connected the node is
+ */
+export function nodeRadius(graph: Pick<CitationGraph, 'edges' | 'seed'>, id: string): number {
+  if (id === graph.seed) return 14;
+  const degree = graph.edges.filter((e) => e.source === id || e.target === id).length;
+  return Math.min(6 + degree * 1.5, 12);
+}
+
+export const HOP_COLORS = ['#dc2626', '#1e40af', '#0891b2', '#6366f1', '#64748b'];
@@ -0,0 +1,222 @@
+/**
+ * Claim Chart Builder
+ * Maps each element of an independent claim to supporting passages in a
+ * target document (a product description or prior-art reference). The model
+ * only picks passages by number and explains the mapping; passage text and
+ * citations in the chart always come from the target itself.
+ */
+
+import { generateObject, LanguageModel } from 'ai';
+import { z } from 'zod';
+import { ClaimElement } from './claims';
+
+export interface TargetPassage {
+  /** Citation label, e.g. "P3" */
+  id: string;
+  text: string;
+}
+
+export const ELEMENT_STATUSES = ['Met', 'Partially met', 'Not found'] as const;
+
+export type ElementStatus = (typeof ELEMENT_STATUSES)[number];
+
+export interface ElementMapping {
+  elementId: string;
+  status: ElementStatus;
+  explanation: string;
+  passageIds: string[];
+}
+
+const elementMappingSchema = z.object({
+  mappings: z.array(
+    z.object({
+      elementId: z.string().describe('Element label exactly as given, e.g. "1[a]"'),
+      status: z.enum(ELEMENT_STATUSES),
+      explanation: z.string().describe('One or two sentences on how the cited passages disclose the element, or what is missing'),
+      passageIds: z.array(z.string()).describe('Labels of the supporting passages, e.g. ["P3", "P7"]. Empty when not found.'),
+    })
+  ),
+});
+
+const PASSAGE_LENGTH = 700;
+// Passages sent to the model per mapping call; longer targets are mapped in chunks
+const PASSAGES_PER_MAPPING = 80;
+// Upper bound on the passages charted at all (10 mapping calls); the chart says when it is hit
+export const MAX_TARGET_PASSAGES = 800;
+
+// ============================================================================
+// TARGET PASSAGES
+// ============================================================================
+
+/**
+ * Break the target into numbered passages the model can cite. Paragraphs are
+ * kept whole where possible and long ones are split on sentence boundaries.
+ * Returns every passage; callers cap at MAX_TARGET_PASSAGES.
+ */
+export function splitTargetPassages(text: string): TargetPassage[] {
+  const passages: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/).map((p) => p.replace(/\s+/g, ' ').trim())) {
+    if (paragraph.length < 20) continue;
+    if (paragraph.length <= PASSAGE_LENGTH) {
+      passages.push(paragraph);
+      continue;
+    }
+
+    let current = '';
+    for (const sentence of (paragraph.match(/[^.!?]+[.!?]*/g) || [paragraph]).map((s) => s.trim())) {
+      if (current && current.length + sentence.length > PASSAGE_LENGTH) {
+        passages.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) passages.push(current);
+  }
+
+  return passages.map((passage, i) => ({ id: `P${i + 1}`, text: passage }));
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Ask the model to map every claim element to target passages. Targets with
+ * more passages than fit one call are mapped chunk by chunk and the results
+ * merged, so an element supported only by later text is still found. Elements
+ * the model skips come back as "Not found" and passage IDs it invents are
+ * dropped.
+ */
+export async function mapClaimElements({
+  model,
+  patentNumber,
+  elements,
+  passages,
+  targetName,
+}: {
+  model: LanguageModel;
+  patentNumber: string;
+  elements: ClaimElement[];
+  passages: TargetPassage[];
+  targetName: string;
+}): Promise<ElementMapping[]> {
+  const chunkMappings: ElementMapping[][] = [];
+  for (let start = 0; start < passages.length; start += PASSAGES_PER_MAPPING) {
+    chunkMappings.push(
+      await mapPassageChunk({ model, patentNumber, elements, passages: passages.slice(start, start + PASSAGES_PER_MAPPING), targetName })
+    );
+  }
+  if (chunkMappings.length === 1) return chunkMappings[0];
+
+  // Best status across chunks, with the citations and reasoning of every chunk that found support
+  const rank: Record<ElementStatus, number> = { 'Met': 2, 'Partially met': 1, 'Not found': 0 };
+  return elements.map((element, index) => {
+    const found = chunkMappings.map((mappings) => mappings[index]).filter((m) => m.status !== 'Not found');
+    if (found.length === 0) {
+      return { elementId: element.id, status: 'Not found', explanation: 'Nothing in the target discloses this element.', passageIds: [] };
+    }
+    return {
+      elementId: element.id,
+      status: found.reduce((best, m) => (rank[m.status] > rank[best] ? m.status : best), found[0].status),
+      explanation: found.map((m) => m.explanation).join(' '),
+      passageIds: found.flatMap((m) => m.passageIds),
+    };
+  });
+}
+
+/**
+ * One mapping call over a slice of the target's passages, returning a
+ * mapping per element in element order
+ */
+async function mapPassageChunk({
+  model,
+  patentNumber,
+  elements,
+  passages,
+  targetName,
+}: {
+  model: LanguageModel;
+  patentNumber: string;
+  elements: ClaimElement[];
+  passages: TargetPassage[];
+  targetName: string;
+}): Promise<ElementMapping[]> {
+  const { object } = await generateObject({
+    model,
+    schema: elementMappingSchema,
+    temperature: 0,
+    prompt: `You are preparing a patent claim chart for ${patentNumber} against "${targetName}".
+
+For EVERY claim element below, decide whether the target discloses it and cite the passages that support your answer.
+- "Met": the passages disclose the element as claimed
+- "Partially met": some of the element is disclosed but a limitation is missing or only implied
+- "Not found": nothing in the target discloses the element
+Only cite passage labels from the list. Do not quote text that is not in a cited passage.
+
+CLAIM ELEMENTS:
+${elements.map((e) => `${e.id}: ${e.text}`).join('\n')}
+
+TARGET PASSAGES:
+${passages.map((p) => `[${p.id}] ${p.text}`).join('\n\n')}`,
+  });
+
+  const known = new Set(passages.map((p) => p.id));
+  const byElement = new Map(object.mappings.map((m) => [m.elementId.trim(), m]));
+
+  return elements.map((element) => {
+    const mapping = byElement.get(element.id);
+    if (!mapping) {
+      return { elementId: element.id, status: 'Not found', explanation: 'Not addressed in the mapping.', passageIds: [] };
+    }
+    const passageIds = mapping.passageIds.map((id) => id.replace(/[\[\]\s]/g, '').toUpperCase()).filter((id) => known.has(id));
+    return {
+      elementId: element.id,
+      // A "Met" with no valid citation is not supported by the target
+      status: passageIds.length === 0 && mapping.status !== 'Not found' ? 'Not found' : mapping.status,
+      explanation: mapping.explanation,
+      passageIds,
+    };
+  });
+}
+
+// ============================================================================
+// CSV ROWS
+// ============================================================================
+
+export const CLAIM_CHART_HEADERS = ['Element', 'Claim Language', 'Status', 'Evidence', 'Citations', 'Analysis'];
+
+/**
+ * One CSV row per claim element, with the cited passage text quoted verbatim
+ */
+export function toClaimChartRows(
+  elements: ClaimElement[],
+  mappings: ElementMapping[],
+  passages: TargetPassage[],
+  sourceLabel: string
+): string[][] {
+  const passageText = new Map(passages.map((p) => [p.id, p.text]));
+  const mappingOf = new Map(mappings.map((m) => [m.elementId, m]));
+
+  return elements.map((element) => {
+    const mapping = mappingOf.get(element.id);
+    const cited = mapping?.passageIds || [];
+    return [
+      element.id,
+      element.text,
+      mapping?.status || 'Not found',
+      cited.map((id) => `[${id}] "${passageText.get(id)}"`).join(' '),
+      cited.length > 0 ? cited.map((id) => `${sourceLabel} ${id}`).join('; ') : '',
+      mapping?.explanation || '',
+    ];
+  });
+}
+
+/**
+ * Count elements per status for the tool summary
+ */
+export function summarizeClaimChart(mappings: ElementMapping[]): Record<ElementStatus, number> {
+  const counts = Object.fromEntries(ELEMENT_STATUSES.map((s) => [s, 0])) as Record<ElementStatus, number>;
+  mappings.forEach((m) => counts[m.status]++);
+  return counts;
+}
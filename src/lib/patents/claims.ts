@@ -0,0 +1,229 @@
+/**
+ * Patent Claims Parser
+ * Splits a claims blob into numbered claims, detects which earlier claims each
+ * one depends on ("The method of claim 3, wherein...") and builds the claim
+ * tree analysts read from: independent claims at the root, dependents beneath.
+ */
+
+export interface ParsedClaim {
+  number: number;
+  /** Claim text without the leading "N." */
+  text: string;
+  /** Earlier claims this one refers back to (empty for independent claims) */
+  dependsOn: number[];
+  independent: boolean;
+}
+
+/** One limitation of a claim, labelled the way claim charts cite them: "1[pre]", "1[a]", ... */
+export interface ClaimElement {
+  id: string;
+  text: string;
+}
+
+export interface ClaimNode {
+  claim: ParsedClaim;
+  children: ClaimNode[];
+}
+
+// ============================================================================
+// SPLITTING
+// ============================================================================
+
+/** A claim number at the start of a line, e.g. "12. A" or "3) The" */
+const LINE_CLAIM_START = /(?:^|\n)[ \t]*(\d{1,3})\s*[.)]\s+(?=["'(\[A-Za-z])/g;
+/** A claim number anywhere after whitespace, for claims run together on one line */
+const INLINE_CLAIM_START = /(?:^|\s)(\d{1,3})\s*[.)]\s+(?=["'(\[A-Za-z])/g;
+/** Words that put a number inside a claim body rather than starting a claim */
+const BODY_REFERENCE = /\b(?:fig|figs|figure|claim|claims|step|no|item|element|para|paragraph)\.?\s*$/i;
+
+/**
+ * Find the claims section of a full patent document ("What is claimed is:",
+ * "I claim:", or a "Claims" heading). Returns '' when there isn't one.
+ */
+export function extractClaimsSection(fullText: string): string {
+  if (!fullText) return '';
+  const heading = fullText.match(
+    /(?:^|\n)[ \t]*(?:#+[ \t]*)?(?:what is claimed is|what is claimed|we claim|i claim|claims)[ \t]*:?[ \t]*\n/i
+  );
+  if (!heading || heading.index === undefined) return '';
+
+  const section = fullText.slice(heading.index + heading[0].length);
+  // Claims are usually followed by the abstract or another heading
+  const end = section.search(/\n[ \t]*(?:#+[ \t]*)?(?:abstract(?: of the disclosure)?|description)[ \t]*:?[ \t]*\n/i);
+  return (end === -1 ? section : section.slice(0, end)).trim();
+}
+
+/**
+ * Split numbered claims out of a single string. Numbers are only accepted in
+ * sequence (1, 2, 3...) and line-start numbering wins over inline numbering,
+ * so "claim 1. The" or "FIG. 2. A" inside a claim body doesn't start a new claim.
+ */
+function splitNumberedClaims(text: string): Array<{ number: number; text: string }> {
+  const byLine = collectClaimStarts(text, LINE_CLAIM_START);
+  const starts = byLine.length > 1 ? byLine : collectClaimStarts(text, INLINE_CLAIM_START);
+
+  return starts.map((start, i) => ({
+    number: start.number,
+    text: text.slice(start.bodyStart, i + 1 < starts.length ? starts[i + 1].index : undefined).trim(),
+  }));
+}
+
+function collectClaimStarts(
+  text: string,
+  pattern: RegExp
+): Array<{ number: number; index: number; bodyStart: number }> {
+  const starts: Array<{ number: number; index: number; bodyStart: number }> = [];
+  let expected = 1;
+
+  for (const match of text.matchAll(pattern)) {
+    const number = Number(match[1]);
+    if (number !== expected) continue;
+    if (BODY_REFERENCE.test(text.slice(Math.max(0, match.index! - 12), match.index! + 1))) continue;
+    const index = match.index! + match[0].indexOf(match[1]);
+    starts.push({ number, index, bodyStart: match.index! + match[0].length });
+    expected++;
+  }
+
+  return starts;
+}
+
+// ============================================================================
+// DEPENDENCY DETECTION
+// ============================================================================
+
+/**
+ * Claim references such as "claim 3", "claims 1 or 2", "any one of claims 1 to 4"
+ * or "claims 1-3, 5 and 7"
+ */
+const CLAIM_REFERENCE =
+  /\bclaims?\s+(\d{1,3}(?:\s*(?:,|or|and|to|through|-|–|—)\s*(?:claims?\s+)?\d{1,3})*)/gi;
+
+function expandReference(reference: string): number[] {
+  const numbers: number[] = [];
+  const parts = reference.split(/\s*(?:,|\bor\b|\band\b)\s*/i);
+
+  for (const part of parts) {
+    const range = part.match(/(\d{1,3})\s*(?:to|through|-|–|—)\s*(?:claims?\s+)?(\d{1,3})/i);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      for (let n = Math.min(from, to); n <= Math.max(from, to) && numbers.length < 200; n++) numbers.push(n);
+      continue;
+    }
+    const single = part.match(/\d{1,3}/);
+    if (single) numbers.push(Number(single[0]));
+  }
+
+  return numbers;
+}
+
+/**
+ * Earlier claims referenced by a claim. References to the claim itself or to
+ * later claims are ignored - they are never valid dependencies.
+ */
+export function detectDependencies(text: string, claimNumber: number): number[] {
+  const found = new Set<number>();
+  for (const match of text.matchAll(CLAIM_REFERENCE)) {
+    for (const n of expandReference(match[1])) {
+      if (n >= 1 && n < claimNumber) found.add(n);
+    }
+  }
+  return Array.from(found).sort((a, b) => a - b);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse claims from a claims blob or a list of claim strings. List entries
+ * without their own number are numbered by position.
+ */
+export function parseClaims(input: string | string[] | undefined | null): ParsedClaim[] {
+  if (!input) return [];
+
+  let raw: Array<{ number: number; text: string }>;
+  if (Array.isArray(input)) {
+    raw = input
+      .map((entry) => String(entry).trim())
+      .filter(Boolean)
+      .map((entry, i) => {
+        const numbered = entry.match(/^(\d{1,3})\s*[.)]\s+([\s\S]*)$/);
+        return numbered ? { number: Number(numbered[1]), text: numbered[2].trim() } : { number: i + 1, text: entry };
+      });
+  } else {
+    raw = splitNumberedClaims(input);
+    // A single unnumbered claim is still a claim
+    if (raw.length === 0 && input.trim()) raw = [{ number: 1, text: input.trim() }];
+  }
+
+  return raw.map(({ number, text }) => {
+    const dependsOn = detectDependencies(text, number);
+    return { number, text, dependsOn, independent: dependsOn.length === 0 };
+  });
+}
+
+/**
+ * Render a parsed claim back to the "N. text" form stored on PatentRecord
+ */
+export function formatClaim(claim: ParsedClaim): string {
+  return `${claim.number}. ${claim.text}`;
+}
+
+/**
+ * Build the claim tree. Dependent claims hang under the first claim they
+ * reference; claims whose parent is missing are promoted to the root so
+ * nothing is dropped.
+ */
+export function buildClaimTree(claims: ParsedClaim[]): ClaimNode[] {
+  const nodes = new Map<number, ClaimNode>();
+  claims.forEach((claim) => nodes.set(claim.number, { claim, children: [] }));
+
+  const roots: ClaimNode[] = [];
+  claims.forEach((claim) => {
+    const node = nodes.get(claim.number)!;
+    const parent = claim.dependsOn.map((n) => nodes.get(n)).find(Boolean);
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  return roots;
+}
+
+/**
+ * Numbers of the independent claims, in order
+ */
+export function independentClaimNumbers(claims: ParsedClaim[]): number[] {
+  return claims.filter((c) => c.independent).map((c) => c.number);
+}
+
+// ============================================================================
+// CLAIM ELEMENTS
+// ============================================================================
+
+/** Transitional phrase ending the preamble, e.g. "A method comprising:" */
+const TRANSITION =
+  /^([\s\S]*?\b(?:comprising|consisting essentially of|consisting of|including|characterized in that|the improvement comprising)\b\s*:?)\s*([\s\S]+)$/i;
+
+function elementLabel(index: number): string {
+  return index < 26 ? String.fromCharCode(97 + index) : String(index + 1);
+}
+
+/**
+ * Split a claim into its preamble and body limitations. Limitations are
+ * separated by semicolons or line breaks, which is how nearly all US claims
+ * are drafted; a claim with no transition phrase is a single element.
+ */
+export function splitClaimElements(claim: ParsedClaim): ClaimElement[] {
+  const match = claim.text.match(TRANSITION);
+  if (!match) return [{ id: `${claim.number}[pre]`, text: claim.text }];
+
+  const limitations = match[2]
+    .split(/;|\n+/)
+    .map((part) => part.trim().replace(/^(?:and|or)\b\s*/i, '').replace(/[,;]?\s+(?:and|or)$/i, '').replace(/[,;.]$/, '').trim())
+    .filter((part) => part.length > 0);
+
+  return [
+    { id: `${claim.number}[pre]`, text: match[1].trim() },
+    ...limitations.map((text, i) => ({ id: `${claim.number}[${elementLabel(i)}]`, text })),
+  ];
+}
@@ -0,0 +1,138 @@
+/**
+ * Patent Collections
+ * Named shortlists of patents the user saved from search results. Each item
+ * keeps a snapshot of the normalized record as it was saved, plus the user's
+ * notes and tags, so a collection can be reopened, compared or handed to the
+ * chat without searching again.
+ */
+
+import * as db from '@/lib/db';
+import { parseJson, toIsoString } from '@/lib/db-rows';
+import { PatentRecord, patentNumberKey } from './record';
+
+export interface PatentCollectionItem {
+  id: string;
+  collectionId: string;
+  patentNumber: string;
+  snapshot: PatentRecord;
+  notes: string | null;
+  tags: string[];
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface PatentCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  projectId: string | null;
+  items: PatentCollectionItem[];
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+export function toPatentCollectionItem(row: any): PatentCollectionItem {
+  return {
+    id: row.id,
+    collectionId: row.collection_id ?? row.collectionId,
+    patentNumber: row.patent_number ?? row.patentNumber,
+    snapshot: parseJson(row.snapshot, {} as PatentRecord),
+    notes: row.notes || null,
+    tags: normalizeTags(parseJson(row.tags, [])),
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+    updatedAt: toIsoString(row.updated_at ?? row.updatedAt),
+  };
+}
+
+export function toPatentCollection(row: any, items: PatentCollectionItem[] = []): PatentCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || null,
+    projectId: row.project_id ?? row.projectId ?? null,
+    items,
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+    updatedAt: toIsoString(row.updated_at ?? row.updatedAt),
+  };
+}
+
+// ============================================================================
+// TAGS & NAMES
+// ============================================================================
+
+/**
+ * Trimmed, lowercased, de-duplicated tags. Accepts an array or a
+ * comma-separated string as typed in the UI.
+ */
+export function normalizeTags(value: unknown): string[] {
+  const raw = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  const tags = raw
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Collection the user referred to by name. An exact match (ignoring case and
+ * punctuation) wins; otherwise a single collection whose name contains the
+ * text, or is contained in it, is returned.
+ */
+export function findCollectionByName<T extends { name: string }>(collections: T[], name: string): T | undefined {
+  const key = nameKey(name);
+  if (!key) return undefined;
+
+  const exact = collections.find((collection) => nameKey(collection.name) === key);
+  if (exact) return exact;
+
+  const partial = collections.filter((collection) => {
+    const candidate = nameKey(collection.name);
+    return candidate.includes(key) || key.includes(candidate);
+  });
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/** Item holding the patent, matched regardless of kind code formatting */
+export function findCollectionItem(collection: PatentCollection, patentNumber: string): PatentCollectionItem | undefined {
+  const key = patentNumberKey(patentNumber);
+  return collection.items.find((item) => patentNumberKey(item.patentNumber) === key);
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * The user's collections with their items, most recently updated first
+ */
+export async function loadPatentCollections(userId: string): Promise<PatentCollection[]> {
+  const { data: rows, error } = await db.getPatentCollections(userId);
+  if (error) throw error;
+
+  const { data: itemRows, error: itemsError } = await db.getPatentCollectionItems((rows || []).map((row: any) => row.id));
+  if (itemsError) throw itemsError;
+
+  const items = (itemRows || []).map(toPatentCollectionItem);
+  return (rows || []).map((row: any) => toPatentCollection(row, items.filter((item) => item.collectionId === row.id)));
+}
+
+export async function loadPatentCollection(collectionId: string, userId: string): Promise<PatentCollection | null> {
+  const { data: row } = await db.getPatentCollection(collectionId, userId);
+  if (!row) return null;
+
+  const { data: itemRows, error } = await db.getPatentCollectionItems([row.id]);
+  if (error) throw error;
+
+  return toPatentCollection(row, (itemRows || []).map(toPatentCollectionItem));
+}
@@ -0,0 +1,248 @@
+/**
+ * Patent Comparison
+ * Side-by-side comparison of 2-4 patents behind the comparePatents tool and the
+ * carousel's compare view: metadata, independent claims with the terms they
+ * share or hold alone, CPC overlap and dates. Everything here is computed
+ * from the records, so the saved table is reproducible.
+ */
+
+import { PatentRecord } from './record';
+import { ParsedClaim, parseClaims } from './claims';
+import { normalizeCpcCode } from './cpc';
+
+export const MIN_COMPARED_PATENTS = 2;
+export const MAX_COMPARED_PATENTS = 4;
+
+export interface ComparedPatent {
+  patentNumber: string;
+  title: string;
+  url: string;
+  assignees: string[];
+  inventors: string[];
+  filingDate?: string;
+  priorityDate?: string;
+  publicationDate?: string;
+  abstract: string;
+  cpcCodes: string[];
+  /** CPC codes no other compared patent has */
+  uniqueCpcCodes: string[];
+  independentClaims: ParsedClaim[];
+  /** Independent-claim terms no other compared patent uses, most frequent first */
+  uniqueTerms: string[];
+}
+
+export interface PatentComparison {
+  patents: ComparedPatent[];
+  /** Independent-claim terms every compared patent uses, most frequent first */
+  sharedTerms: string[];
+  /** CPC codes every compared patent has */
+  sharedCpcCodes: string[];
+  /** Subclasses (e.g. "H01M") every compared patent has */
+  sharedCpcSubclasses: string[];
+  /** Patent with the earliest priority (or filing) date */
+  earliestPriority?: string;
+}
+
+export type TermHighlight = 'shared' | 'unique';
+
+export interface HighlightedSegment {
+  text: string;
+  highlight?: TermHighlight;
+}
+
+const CSV_TERM_LIMIT = 20;
+
+// ============================================================================
+// CLAIM TERMS
+// ============================================================================
+
+/** Words that carry no technical meaning in a claim */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'these', 'those', 'which', 'when', 'where',
+  'each', 'any', 'all', 'are', 'is', 'was', 'been', 'being', 'has', 'have', 'having', 'not', 'but', 'than', 'then',
+  'such', 'its', 'their', 'other', 'one', 'two', 'more', 'least', 'about', 'via', 'upon', 'within', 'between',
+  'wherein', 'whereby', 'said', 'comprising', 'comprises', 'comprise', 'consisting', 'including', 'includes',
+  'include', 'claim', 'claims', 'according', 'first', 'second', 'third', 'plurality', 'configured', 'based',
+  'method', 'system', 'apparatus', 'device', 'step', 'steps', 'further', 'thereof', 'therein', 'thereto',
+]);
+
+/** Lowercased, with a plural "s"/"ies" dropped so "electrodes" matches "electrode" */
+function termKey(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length > 4 && lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss')) return lower.slice(0, -1);
+  return lower;
+}
+
+function isTerm(key: string): boolean {
+  return key.length >= 3 && !/^\d/.test(key) && !STOP_WORDS.has(key);
+}
+
+const WORD_PATTERN = /[A-Za-z][A-Za-z0-9-]*/g;
+
+/** Term frequencies over the text of the given claims */
+function countTerms(claims: ParsedClaim[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const claim of claims) {
+    for (const match of claim.text.matchAll(WORD_PATTERN)) {
+      const key = termKey(match[0]);
+      if (isTerm(key)) counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function byFrequency(terms: string[], frequency: (term: string) => number): string[] {
+  return [...terms].sort((a, b) => frequency(b) - frequency(a) || a.localeCompare(b));
+}
+
+/**
+ * Split claim text into segments, marking words whose term is shared by every
+ * compared patent or unique to this one
+ */
+export function highlightClaimTerms(
+  text: string,
+  sharedTerms: Iterable<string>,
+  uniqueTerms: Iterable<string>
+): HighlightedSegment[] {
+  const shared = new Set(sharedTerms);
+  const unique = new Set(uniqueTerms);
+  const segments: HighlightedSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const key = termKey(match[0]);
+    const highlight: TermHighlight | undefined = shared.has(key) ? 'shared' : unique.has(key) ? 'unique' : undefined;
+    if (!highlight) continue;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[0], highlight });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function cpcCodesOf(record: PatentRecord): string[] {
+  return Array.from(new Set([...record.cpcCodes, ...record.ipcCodes].map(normalizeCpcCode).filter(Boolean)));
+}
+
+function inAll(sets: Set<string>[], value: string): boolean {
+  return sets.every((set) => set.has(value));
+}
+
+function inOthers(sets: Set<string>[], index: number, value: string): boolean {
+  return sets.some((set, i) => i !== index && set.has(value));
+}
+
+/**
+ * Compare 2-4 patent records. Throws when given fewer or more, or the same
+ * patent twice.
+ */
+export function comparePatents(records: PatentRecord[]): PatentComparison {
+  if (records.length < MIN_COMPARED_PATENTS || records.length > MAX_COMPARED_PATENTS) {
+    throw new Error(`Compare between ${MIN_COMPARED_PATENTS} and ${MAX_COMPARED_PATENTS} patents (got ${records.length})`);
+  }
+  if (new Set(records.map((record) => record.patentNumber)).size !== records.length) {
+    throw new Error('Each patent can only be compared once');
+  }
+
+  const independentClaims = records.map((record) => parseClaims(record.claims).filter((claim) => claim.independent));
+  const termCounts = independentClaims.map(countTerms);
+  const termSets = termCounts.map((counts) => new Set(counts.keys()));
+  const totalFrequency = (term: string) => termCounts.reduce((sum, counts) => sum + (counts.get(term) || 0), 0);
+
+  // Patents without claims text would empty the shared set, so they sit out
+  const withClaims = termSets.filter((set) => set.size > 0);
+  const sharedTerms = withClaims.length >= MIN_COMPARED_PATENTS
+    ? byFrequency(Array.from(withClaims[0]).filter((term) => inAll(withClaims, term)), totalFrequency)
+    : [];
+
+  const cpcCodes = records.map(cpcCodesOf);
+  const cpcSets = cpcCodes.map((codes) => new Set(codes));
+  const subclassSets = cpcCodes.map((codes) => new Set(codes.map((code) => code.slice(0, 4))));
+
+  const dated = records
+    .map((record) => ({ patentNumber: record.patentNumber, date: record.priorityDate || record.filingDate }))
+    .filter((entry): entry is { patentNumber: string; date: string } => !!entry.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    patents: records.map((record, i) => ({
+      patentNumber: record.patentNumber,
+      title: record.title,
+      url: record.url,
+      assignees: record.assignees,
+      inventors: record.inventors,
+      filingDate: record.filingDate,
+      priorityDate: record.priorityDate,
+      publicationDate: record.publicationDate,
+      abstract: record.abstract,
+      cpcCodes: cpcCodes[i],
+      uniqueCpcCodes: cpcCodes[i].filter((code) => !inOthers(cpcSets, i, code)),
+      independentClaims: independentClaims[i],
+      uniqueTerms: byFrequency(
+        Array.from(termSets[i]).filter((term) => !inOthers(termSets, i, term)),
+        (term) => termCounts[i].get(term) || 0
+      ),
+    })),
+    sharedTerms,
+    sharedCpcCodes: cpcCodes[0].filter((code) => inAll(cpcSets, code)),
+    sharedCpcSubclasses: Array.from(subclassSets[0]).filter((subclass) => inAll(subclassSets, subclass)).sort(),
+    earliestPriority: dated[0]?.patentNumber,
+  };
+}
+
+// ============================================================================
+// TABLE
+// ============================================================================
+
+function joinOrDash(values: string[], separator = '; '): string {
+  return values.length > 0 ? values.join(separator) : '-';
+}
+
+/**
+ * The comparison as a CSV table: one row per field, one column per patent
+ */
+export function comparisonTable(comparison: PatentComparison): {
+  title: string;
+  description: string;
+  headers: string[];
+  rows: string[][];
+} {
+  const { patents } = comparison;
+  const row = (field: string, value: (patent: ComparedPatent) => string) => [field, ...patents.map(value)];
+
+  const shared = comparison.sharedTerms.slice(0, CSV_TERM_LIMIT).join(', ');
+  const description = [
+    `Side-by-side comparison of ${patents.map((patent) => patent.patentNumber).join(', ')}.`,
+    comparison.sharedCpcCodes.length > 0
+      ? `Shared CPC codes: ${comparison.sharedCpcCodes.join(', ')}.`
+      : `Shared CPC subclasses: ${joinOrDash(comparison.sharedCpcSubclasses, ', ')}.`,
+    `Claim terms shared by all: ${shared || 'none'}.`,
+  ].join(' ');
+
+  return {
+    title: `Patent Comparison - ${patents.map((patent) => patent.patentNumber).join(' vs ')}`,
+    description,
+    headers: ['Field', ...patents.map((patent) => patent.patentNumber)],
+    rows: [
+      row('Title', (patent) => patent.title),
+      row('Assignees', (patent) => joinOrDash(patent.assignees)),
+      row('Inventors', (patent) => joinOrDash(patent.inventors)),
+      row('Priority date', (patent) => patent.priorityDate || '-'),
+      row('Filing date', (patent) => patent.filingDate || '-'),
+      row('Publication date', (patent) => patent.publicationDate || '-'),
+      row('Abstract', (patent) => patent.abstract || '-'),
+      row('Independent claims', (patent) =>
+        joinOrDash(patent.independentClaims.map((claim) => `${claim.number}. ${claim.text}`), '\n\n')
+      ),
+      row('Unique claim terms', (patent) => joinOrDash(patent.uniqueTerms.slice(0, CSV_TERM_LIMIT), ', ')),
+      row('CPC codes', (patent) => joinOrDash(patent.cpcCodes, ', ')),
+      row('Unique CPC codes', (patent) => joinOrDash(patent.uniqueCpcCodes, ', ')),
+    ],
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * CPC Classification
+ * Lookup, navigation and search over the bundled CPC titles, plus the
+ * annotation that turns "H01M 10/0562" into "Solid electrolytes" on results.
+ *
+ * Codes are accepted in any common spelling ("H01M10/0562",
+ * "H01M 10/0562 (2013.01)") and normalized to "H01M 10/0562".
+ */
+
+import { CPC_TITLES } from '@/data/cpc-hierarchy';
+
+export type CpcLevel = 'section' | 'class' | 'subclass' | 'group' | 'subgroup';
+
+export interface CpcNode {
+  code: string;
+  title: string;
+  level: CpcLevel;
+  /** Nearest ancestor present in the bundled table */
+  parent: string | null;
+}
+
+const CPC_PATTERN = /^([A-HY])(\d{2})?([A-Z])?(?:(\d{1,4})\/(\d{2,6}))?$/;
+
+// ============================================================================
+// CODES
+// ============================================================================
+
+/**
+ * Canonical spelling of a CPC or IPC code, or '' when it is not one
+ */
+export function normalizeCpcCode(code: string): string {
+  const compact = String(code || '')
+    .toUpperCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/\s+/g, '');
+  const match = compact.match(CPC_PATTERN);
+  if (!match) return '';
+
+  const [, section, classDigits, subclass, group, subgroup] = match;
+  if (!classDigits) return section;
+  if (!subclass) return `${section}${classDigits}`;
+  const base = `${section}${classDigits}${subclass}`;
+  if (!group) return base;
+  return `${base} ${Number(group)}/${subgroup}`;
+}
+
+export function cpcLevel(code: string): CpcLevel | null {
+  const normalized = normalizeCpcCode(code);
+  if (!normalized) return null;
+  if (normalized.length === 1) return 'section';
+  if (normalized.length === 3) return 'class';
+  if (normalized.length === 4) return 'subclass';
+  return normalized.endsWith('/00') ? 'group' : 'subgroup';
+}
+
+/**
+ * Next level up by code structure alone. Subgroups step through shorter
+ * subgroup numbers first ("10/0562" -> "10/056" -> "10/05"), which follows
+ * the CPC dot hierarchy closely enough for navigation.
+ */
+function structuralParent(code: string): string | null {
+  const level = cpcLevel(code);
+  if (!level || level === 'section') return null;
+  if (level === 'class') return code.slice(0, 1);
+  if (level === 'subclass') return code.slice(0, 3);
+  if (level === 'group') return code.slice(0, 4);
+
+  const [base, subgroup] = code.split('/');
+  return subgroup.length > 2 ? `${base}/${subgroup.slice(0, -1)}` : `${base}/00`;
+}
+
+/**
+ * Nearest ancestor that has a bundled title
+ */
+export function cpcParent(code: string): string | null {
+  let parent = structuralParent(normalizeCpcCode(code));
+  while (parent && !CPC_TITLES[parent]) {
+    parent = structuralParent(parent);
+  }
+  return parent;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+export function getCpcNode(code: string): CpcNode | null {
+  const normalized = normalizeCpcCode(code);
+  const title = CPC_TITLES[normalized];
+  if (!title) return null;
+  return { code: normalized, title, level: cpcLevel(normalized)!, parent: cpcParent(normalized) };
+}
+
+/**
+ * Title of the code, or of its nearest titled ancestor for codes deeper than
+ * the bundled table goes
+ */
+export function cpcTitle(code: string): string | undefined {
+  let current: string | null = normalizeCpcCode(code);
+  while (current) {
+    if (CPC_TITLES[current]) return CPC_TITLES[current];
+    current = structuralParent(current);
+  }
+  return undefined;
+}
+
+/**
+ * Breadcrumb from the section down to the code
+ */
+export function cpcPath(code: string): CpcNode[] {
+  const path: CpcNode[] = [];
+  let node = getCpcNode(code) || (cpcParent(code) ? getCpcNode(cpcParent(code)!) : null);
+  while (node) {
+    path.unshift(node);
+    node = node.parent ? getCpcNode(node.parent) : null;
+  }
+  return path;
+}
+
+/**
+ * Schedule order for normalized codes: subclass letters as text, main groups
+ * numerically ("10/00" before "100/00"), and subgroups by their first two
+ * digits numerically with any further digits as a decimal fraction, so
+ * "10/2" comes before "10/10" and "10/0562" sits between "10/056" and "10/06".
+ */
+export function compareCpcCodes(a: string, b: string): number {
+  const [baseA, groupsA = ''] = a.split(' ');
+  const [baseB, groupsB = ''] = b.split(' ');
+  if (baseA !== baseB || !groupsA || !groupsB) return baseA.localeCompare(baseB) || groupsA.localeCompare(groupsB);
+
+  const [groupA, subgroupA = ''] = groupsA.split('/');
+  const [groupB, subgroupB = ''] = groupsB.split('/');
+  return (
+    Number(groupA) - Number(groupB) ||
+    Number(subgroupA.slice(0, 2)) - Number(subgroupB.slice(0, 2)) ||
+    subgroupA.slice(2).localeCompare(subgroupB.slice(2))
+  );
+}
+
+let childIndex: Map<string, string[]> | null = null;
+
+/**
+ * Children of a code in the bundled hierarchy; sections when no code is given
+ */
+export function cpcChildren(code?: string): CpcNode[] {
+  if (!childIndex) {
+    childIndex = new Map();
+    for (const key of Object.keys(CPC_TITLES).sort(compareCpcCodes)) {
+      const parent = cpcParent(key) || '';
+      childIndex.set(parent, [...(childIndex.get(parent) || []), key]);
+    }
+  }
+  return (childIndex.get(code ? normalizeCpcCode(code) : '') || []).map((child) => getCpcNode(child)!);
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+const LEVEL_ORDER: CpcLevel[] = ['section', 'class', 'subclass', 'group', 'subgroup'];
+
+/**
+ * Find classes by code prefix ("H01M 10") or by title words ("solid
+ * electrolyte"). Code matches come first, then broader classes.
+ */
+export function searchCpc(query: string, limit = 30): CpcNode[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const codeQuery = trimmed.toUpperCase().replace(/\s+/g, '');
+  const words = trimmed.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches: Array<{ node: CpcNode; byCode: boolean }> = [];
+  for (const [code, title] of Object.entries(CPC_TITLES)) {
+    const byCode = code.replace(/\s+/g, '').startsWith(codeQuery);
+    const lowerTitle = title.toLowerCase();
+    if (byCode || words.every((word) => lowerTitle.includes(word))) {
+      matches.push({ node: getCpcNode(code)!, byCode });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        Number(b.byCode) - Number(a.byCode) ||
+        LEVEL_ORDER.indexOf(a.node.level) - LEVEL_ORDER.indexOf(b.node.level) ||
+        compareCpcCodes(a.node.code, b.node.code)
+    )
+    .slice(0, limit)
+    .map((match) => match.node);
+}
+
+// ============================================================================
+// ANNOTATION
+// ============================================================================
+
+/**
+ * Human-readable titles for a record's classification codes, keyed by the
+ * code as the source spelled it. Codes with no known title are left out.
+ */
+export function annotateCpcCodes(codes: string[]): Record<string, string> {
+  const titles: Record<string, string> = {};
+  for (const code of codes) {
+    const title = cpcTitle(code);
+    if (title) titles[code] = title;
+  }
+  return titles;
+}
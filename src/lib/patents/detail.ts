@@ -0,0 +1,178 @@
+/**
+ * Patent Detail
+ * Everything the /patents/[number] page shows for one patent: the record as
+ * last retrieved in the user's chats (or looked up when no chat has it),
+ * drawings, family members and the sessions that cited it.
+ */
+
+import * as db from '@/lib/db';
+import { parseJson } from '@/lib/db-rows';
+import { PolarEventTracker } from '@/lib/polar-events';
+import { SearchProvider, createSearchProvider } from '@/lib/search/provider';
+import { PatentRecord, findPatentNumbers, patentNumberKey } from './record';
+import { groupPatentFamilies } from './family';
+import { lookupPatent } from './lookup';
+import { collectSessionPatents } from './session-patents';
+
+export interface PatentCitingSession {
+  sessionId: string;
+  title: string;
+  /** Messages in the session that mention or returned the patent */
+  mentions: number;
+  lastCitedAt?: string;
+}
+
+export interface PatentDetail {
+  /** Number as requested */
+  patentNumber: string;
+  record: PatentRecord | null;
+  /** 'session' when the record came from a chat tool result, 'lookup' when fetched for this page */
+  recordSource: 'session' | 'lookup' | null;
+  /** Drawing URLs from every retrieval of this patent */
+  drawings: string[];
+  /** Other members of the patent's family known from chats or the lookup */
+  familyMembers: PatentRecord[];
+  citingSessions: PatentCitingSession[];
+}
+
+// ============================================================================
+// SESSION SCAN
+// ============================================================================
+
+function toIsoDate(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : typeof value === 'number' ? new Date(value * 1000) : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Scan the user's chats for the patent: the sessions mentioning it, every
+ * record retrieved for it and every other patent record (family candidates)
+ */
+async function scanSessions(userId: string, key: string) {
+  const citing = new Map<string, PatentCitingSession>();
+  const matches: PatentRecord[] = [];
+  const others: PatentRecord[] = [];
+
+  const { data: sessions } = await db.getChatSessions(userId);
+  const titles = new Map<string, string>((sessions || []).map((session: any) => [session.id, session.title]));
+  const { data: messages } = await db.getChatMessagesForSessions(Array.from(titles.keys()));
+
+  for (const message of (messages || []) as any[]) {
+    const sessionId: string = message.session_id || message.sessionId;
+    const parts = parseJson<any[]>(message.content, []);
+    const records = collectSessionPatents([{ parts }]).flatMap((output) => output.records);
+
+    const found = records.filter((record) => patentNumberKey(record.patentNumber) === key);
+    matches.push(...found);
+    others.push(...records.filter((record) => patentNumberKey(record.patentNumber) !== key));
+
+    const mentioned =
+      found.length > 0 || findPatentNumbers(JSON.stringify(parts)).some((number) => patentNumberKey(number) === key);
+    if (!mentioned) continue;
+
+    const entry = citing.get(sessionId) || { sessionId, title: titles.get(sessionId) || 'Untitled chat', mentions: 0 };
+    entry.mentions++;
+    entry.lastCitedAt = toIsoDate(message.created_at || message.createdAt) || entry.lastCitedAt;
+    citing.set(sessionId, entry);
+  }
+
+  return {
+    citingSessions: Array.from(citing.values()).sort((a, b) => (b.lastCitedAt || '').localeCompare(a.lastCitedAt || '')),
+    matches,
+    others,
+  };
+}
+
+// ============================================================================
+// DETAIL
+// ============================================================================
+
+/**
+ * Family members of a record among candidate records, excluding the record's
+ * own publications
+ */
+function familyMembersOf(record: PatentRecord, candidates: PatentRecord[]): PatentRecord[] {
+  const key = patentNumberKey(record.patentNumber);
+  const unique = new Map<string, PatentRecord>();
+  for (const candidate of candidates) {
+    const candidateKey = patentNumberKey(candidate.patentNumber);
+    if (candidateKey !== key && !unique.has(candidateKey)) unique.set(candidateKey, candidate);
+  }
+
+  const family = groupPatentFamilies([record, ...Array.from(unique.values())]).find((group) => group.members.includes(record));
+  return (family?.members || []).filter((member) => member !== record);
+}
+
+/**
+ * Bill a page lookup like the search tools bill theirs. A page view has no
+ * chat session, so usage is attributed to "patent:<number>".
+ */
+async function trackPatentLookupUsage(
+  userId: string,
+  provider: SearchProvider,
+  patentNumber: string,
+  resultCount: number,
+  costDollars: number
+) {
+  if (!provider.billable || process.env.NEXT_PUBLIC_APP_MODE === 'development') return;
+
+  try {
+    const { data: profile } = await db.getUserProfile(userId);
+    const userTier = (profile as any)?.subscription_tier || (profile as any)?.subscriptionTier || 'free';
+    if (userTier !== 'pay_per_use') return;
+
+    const polarTracker = new PolarEventTracker();
+    await polarTracker.trackValyuAPIUsage(userId, `patent:${patentNumberKey(patentNumber)}`, 'patentDetail', costDollars, {
+      query: patentNumber,
+      resultCount,
+      success: true,
+    });
+  } catch (error) {
+    console.error('[PatentDetail] Failed to track usage:', error);
+  }
+}
+
+/**
+ * Load the detail page data for a patent number. Records already retrieved in
+ * the user's chats are preferred (latest retrieval wins); otherwise the patent
+ * is looked up through the search provider and billed to the user.
+ */
+export async function getPatentDetail(userId: string, patentNumber: string): Promise<PatentDetail> {
+  const key = patentNumberKey(patentNumber);
+  const { citingSessions, matches, others } = await scanSessions(userId, key);
+
+  let record: PatentRecord | null = matches[matches.length - 1] || null;
+  let recordSource: PatentDetail['recordSource'] = record ? 'session' : null;
+  let candidates = others;
+
+  if (!record) {
+    const provider = createSearchProvider({ userId });
+    if (provider) {
+      const lookup = await lookupPatent(provider, patentNumber, 10);
+      await trackPatentLookupUsage(
+        userId,
+        provider,
+        patentNumber,
+        lookup.related.length + (lookup.record ? 1 : 0),
+        lookup.costDollars
+      );
+      record = lookup.record;
+      recordSource = record ? 'lookup' : null;
+      candidates = [...lookup.related, ...others];
+    }
+  }
+
+  const drawings = Array.from(
+    new Set([...matches, ...(record ? [record] : [])].map((match) => match.imageUrl).filter((url): url is string => !!url))
+  );
+
+  return {
+    patentNumber,
+    record,
+    recordSource,
+    drawings,
+    familyMembers: record ? familyMembersOf(record, candidates) : [],
+    citingSessions,
+  };
+}
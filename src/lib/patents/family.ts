@@ -0,0 +1,132 @@
+/**
+ * Patent Family Grouping
+ * Clusters PatentRecords that describe the same invention - application
+ * publications, grants, continuations and divisionals - by shared family IDs,
+ * priority claims or application lineage.
+ */
+
+import { PatentRecord } from './record';
+
+export interface PatentFamily {
+  familyId: string;
+  /** Member shown on behalf of the family (a grant when there is one) */
+  representative: PatentRecord;
+  members: PatentRecord[];
+  earliestPriorityDate?: string;
+}
+
+/** Compact family summary for tool payloads */
+export interface PatentFamilySummary {
+  familyId: string;
+  representative: string;
+  members: string[];
+  earliestPriorityDate?: string;
+}
+
+/**
+ * Application numbers are written "US16123456", "16/123,456" or "16123456"
+ * depending on the source - compare on digits only
+ */
+function lineageKey(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function lineageKeys(record: PatentRecord): string[] {
+  const keys = [
+    record.applicationNumber,
+    ...record.priorityClaims,
+    ...record.relatedApplications,
+  ]
+    .filter((v): v is string => !!v)
+    .map(lineageKey)
+    .filter((k) => k.length >= 6);
+  if (record.familyId) keys.push(`FAM:${record.familyId}`);
+  return keys;
+}
+
+function isGrant(record: PatentRecord): boolean {
+  return !!record.kindCode && record.kindCode.startsWith('B');
+}
+
+function pickRepresentative(members: PatentRecord[]): PatentRecord {
+  return [...members].sort((a, b) => {
+    if (isGrant(a) !== isGrant(b)) return isGrant(a) ? -1 : 1;
+    return b.relevanceScore - a.relevanceScore;
+  })[0];
+}
+
+/**
+ * Group records into families with union-find over shared lineage keys.
+ * Families keep the order of their best-ranked member; singletons are
+ * families of one.
+ */
+export function groupPatentFamilies(records: PatentRecord[]): PatentFamily[] {
+  const parent = records.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  const owner = new Map<string, number>();
+  records.forEach((record, i) => {
+    for (const key of lineageKeys(record)) {
+      const existing = owner.get(key);
+      if (existing === undefined) owner.set(key, i);
+      else union(existing, i);
+    }
+  });
+
+  const groups = new Map<number, PatentRecord[]>();
+  records.forEach((record, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), record]);
+  });
+
+  return Array.from(groups.values()).map((members) => {
+    const representative = pickRepresentative(members);
+    const priorityDates = members
+      .map((m) => m.priorityDate || m.filingDate)
+      .filter((d): d is string => !!d)
+      .sort();
+
+    return {
+      familyId:
+        members.find((m) => m.familyId)?.familyId ||
+        representative.patentNumber ||
+        representative.applicationNumber ||
+        representative.url,
+      representative,
+      members,
+      earliestPriorityDate: priorityDates[0],
+    };
+  });
+}
+
+/**
+ * Stamp each record with its family ID so consumers can group without
+ * re-running the clustering
+ */
+export function assignFamilyIds(records: PatentRecord[]): {
+  records: PatentRecord[];
+  families: PatentFamilySummary[];
+} {
+  const families = groupPatentFamilies(records);
+  const familyOf = new Map<PatentRecord, string>();
+  families.forEach((family) => family.members.forEach((m) => familyOf.set(m, family.familyId)));
+
+  return {
+    records: records.map((record) => ({ ...record, familyId: familyOf.get(record) })),
+    families: families.map(summarizeFamily),
+  };
+}
+
+export function summarizeFamily(family: PatentFamily): PatentFamilySummary {
+  return {
+    familyId: family.familyId,
+    representative: family.representative.patentNumber,
+    members: family.members.map((m) => m.patentNumber).filter(Boolean),
+    earliestPriorityDate: family.earliestPriorityDate,
+  };
+}
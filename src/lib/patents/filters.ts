@@ -0,0 +1,196 @@
+/**
+ * Patent Search Filters
+ * Typed filter inputs for patent tools: date ranges, assignees, inventors,
+ * CPC/IPC class prefixes and kind codes.
+ *
+ * Valyu only understands a publication date window natively, so the rest of
+ * the filters are applied to the returned results before they reach the model.
+ */
+
+import { z } from 'zod';
+import type { PatentRecord } from './record';
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, 'Use YYYY, YYYY-MM or YYYY-MM-DD');
+
+export const KIND_CODES = ['A1', 'A2', 'A9', 'B1', 'B2', 'E1', 'P2', 'P3', 'S1'] as const;
+
+export const patentFiltersSchema = z.object({
+  filingDateFrom: isoDate.optional().describe('Earliest filing date (YYYY, YYYY-MM or YYYY-MM-DD)'),
+  filingDateTo: isoDate.optional().describe('Latest filing date (YYYY, YYYY-MM or YYYY-MM-DD)'),
+  publicationDateFrom: isoDate.optional().describe('Earliest publication/grant date (YYYY, YYYY-MM or YYYY-MM-DD)'),
+  publicationDateTo: isoDate.optional().describe('Latest publication/grant date (YYYY, YYYY-MM or YYYY-MM-DD)'),
+  assignees: z.array(z.string().min(1)).optional().describe('Assignee names to keep (case-insensitive partial match, e.g. ["Tesla", "Panasonic"])'),
+  inventors: z.array(z.string().min(1)).optional().describe('Inventor names to keep (case-insensitive partial match)'),
+  cpcClasses: z.array(z.string().min(1)).optional().describe('CPC/IPC class prefixes to keep (e.g. ["H01M", "H01M 10/0562"])'),
+  kindCodes: z.array(z.enum(KIND_CODES)).optional().describe('USPTO kind codes to keep: A1/A2/A9 (applications), B1/B2 (grants), E1 (reissue), P2/P3 (plant), S1 (design)'),
+});
+
+export type PatentSearchFilters = z.infer<typeof patentFiltersSchema>;
+
+export interface PatentFilterSummary {
+  applied: PatentSearchFilters;
+  /** Filters passed through to the search call */
+  native: Array<keyof PatentSearchFilters>;
+  /** Filters applied to the returned results */
+  postFiltered: Array<keyof PatentSearchFilters>;
+  /** Results dropped by post-filtering */
+  removedCount: number;
+}
+
+/**
+ * Drop empty values so the echoed filters only show what was actually used
+ */
+export function compactFilters(filters: Partial<PatentSearchFilters> | undefined): PatentSearchFilters {
+  const compacted: Record<string, unknown> = {};
+  if (!filters) return compacted as PatentSearchFilters;
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    compacted[key] = value;
+  }
+  return compacted as PatentSearchFilters;
+}
+
+export function hasFilters(filters: PatentSearchFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/**
+ * Expand a partial date into the first or last day it covers
+ * e.g. "2020" -> "2020-01-01" (start) or "2020-12-31" (end)
+ */
+function expandDate(value: string, edge: 'start' | 'end'): string {
+  const [year, month, day] = value.split('-');
+  if (day) return value;
+  if (month) {
+    if (edge === 'start') return `${year}-${month}-01`;
+    const lastDay = new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate();
+    return `${year}-${month}-${String(lastDay).padStart(2, '0')}`;
+  }
+  return edge === 'start' ? `${year}-01-01` : `${year}-12-31`;
+}
+
+/**
+ * Build the Valyu search options the filters can be expressed as.
+ * A patent is always published after it is filed, so a filing lower bound
+ * is also a safe publication lower bound.
+ */
+export function buildSearchDateWindow(filters: PatentSearchFilters): {
+  options: { startDate?: string; endDate?: string };
+  native: Array<keyof PatentSearchFilters>;
+} {
+  const native: Array<keyof PatentSearchFilters> = [];
+  const lowerBounds: string[] = [];
+
+  if (filters.publicationDateFrom) {
+    lowerBounds.push(expandDate(filters.publicationDateFrom, 'start'));
+    native.push('publicationDateFrom');
+  }
+  if (filters.filingDateFrom) {
+    lowerBounds.push(expandDate(filters.filingDateFrom, 'start'));
+  }
+
+  const options: { startDate?: string; endDate?: string } = {};
+  if (lowerBounds.length > 0) {
+    options.startDate = lowerBounds.sort()[lowerBounds.length - 1];
+  }
+  if (filters.publicationDateTo) {
+    options.endDate = expandDate(filters.publicationDateTo, 'end');
+    native.push('publicationDateTo');
+  }
+
+  return { options, native };
+}
+
+function normalizeClass(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+// ============================================================================
+// POST-FILTERING
+// ============================================================================
+
+function matchesAny(values: string[], needles: string[]): boolean {
+  const haystack = values.map((v) => v.toLowerCase());
+  return needles.some((needle) => haystack.some((v) => v.includes(needle.toLowerCase())));
+}
+
+function inRange(date: string | undefined, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  // Unknown dates cannot be shown to satisfy an explicit range
+  if (!date) return false;
+  if (from && date < expandDate(from, 'start')) return false;
+  if (to && date > expandDate(to, 'end')) return false;
+  return true;
+}
+
+/**
+ * Keep only records that satisfy every filter. Filters Valyu already
+ * applied are skipped.
+ */
+export function applyPatentFilters(
+  results: PatentRecord[],
+  filters: PatentSearchFilters,
+  skip: Array<keyof PatentSearchFilters> = []
+): { results: PatentRecord[]; postFiltered: Array<keyof PatentSearchFilters> } {
+  const active = (Object.keys(filters) as Array<keyof PatentSearchFilters>).filter(
+    (key) => !skip.includes(key)
+  );
+
+  if (active.length === 0) {
+    return { results, postFiltered: [] };
+  }
+
+  const filtered = results.filter((record) => {
+    if (!inRange(record.filingDate, filters.filingDateFrom, filters.filingDateTo)) return false;
+    if (
+      !inRange(
+        record.publicationDate,
+        skip.includes('publicationDateFrom') ? undefined : filters.publicationDateFrom,
+        skip.includes('publicationDateTo') ? undefined : filters.publicationDateTo
+      )
+    ) {
+      return false;
+    }
+    // Match raw spellings as well as canonical and parent names, so "Alphabet" keeps Google's patents
+    const assigneeNames = [...record.assignees, ...(record.parentAssignees || []), ...(record.rawAssignees || [])];
+    if (filters.assignees?.length && !matchesAny(assigneeNames, filters.assignees)) return false;
+    if (filters.inventors?.length && !matchesAny(record.inventors, filters.inventors)) return false;
+    if (filters.cpcClasses?.length) {
+      const classes = [...record.cpcCodes, ...record.ipcCodes].map(normalizeClass);
+      // A main group ("H01M 10/00") covers all of its subgroups
+      const prefixes = filters.cpcClasses.map(normalizeClass).map((prefix) => prefix.replace(/\/00$/, '/'));
+      if (!prefixes.some((prefix) => classes.some((code) => code.startsWith(prefix)))) return false;
+    }
+    if (filters.kindCodes?.length) {
+      if (!record.kindCode || !filters.kindCodes.includes(record.kindCode as any)) return false;
+    }
+    return true;
+  });
+
+  return { results: filtered, postFiltered: active };
+}
+
+/**
+ * Human-readable one-liner for UI chips and report headers
+ */
+export function describeFilters(filters: PatentSearchFilters): string[] {
+  const parts: string[] = [];
+  const range = (label: string, from?: string, to?: string) => {
+    if (from && to) parts.push(`${label} ${from} – ${to}`);
+    else if (from) parts.push(`${label} after ${from}`);
+    else if (to) parts.push(`${label} before ${to}`);
+  };
+
+  range('Filed', filters.filingDateFrom, filters.filingDateTo);
+  range('Published', filters.publicationDateFrom, filters.publicationDateTo);
+  if (filters.assignees?.length) parts.push(`Assignee: ${filters.assignees.join(', ')}`);
+  if (filters.inventors?.length) parts.push(`Inventor: ${filters.inventors.join(', ')}`);
+  if (filters.cpcClasses?.length) parts.push(`CPC: ${filters.cpcClasses.join(', ')}`);
+  if (filters.kindCodes?.length) parts.push(`Kind: ${filters.kindCodes.join(', ')}`);
+
+  return parts;
+}
@@ -0,0 +1,152 @@
+/**
+ * Local Patent Corpus
+ * Offline patent search over USPTO bulk data imported into the local SQLite
+ * database (see scripts/import-uspto.ts). Enabled with
+ * PATENT_SEARCH_BACKEND=local, for offline development and on-prem
+ * deployments where queries cannot leave the network.
+ *
+ * Search results are the stored records in Valyu's raw result shape, so
+ * callers normalize, filter and render them exactly as they do Valyu results.
+ */
+
+import { sql } from 'drizzle-orm';
+import { getLocalDb } from '@/lib/local-db/client';
+import * as schema from '@/lib/local-db/schema';
+import { normalizePatentNumber, normalizePatentResult } from './record';
+
+export function isLocalCorpusEnabled(): boolean {
+  return process.env.PATENT_SEARCH_BACKEND === 'local';
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'to', 'with', 'patent', 'patents', 'using', 'based', 'method', 'system',
+]);
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface CorpusImportResult {
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * Insert or replace raw patent records (Valyu-style field names, as produced
+ * by uspto-bulk.ts) in one transaction. Records without a patent number or
+ * title are skipped.
+ */
+export function importPatentRecords(items: Record<string, any>[]): CorpusImportResult {
+  const db = getLocalDb();
+  let imported = 0;
+  let skipped = 0;
+
+  db.transaction((tx) => {
+    for (const item of items) {
+      const record = normalizePatentResult(item);
+      if (!record.patentNumber || !item.title) {
+        skipped++;
+        continue;
+      }
+
+      const values = {
+        applicationNumber: record.applicationNumber || null,
+        title: record.title,
+        abstract: record.abstract,
+        claims: record.claims.join('\n'),
+        publicationDate: record.publicationDate || null,
+        filingDate: record.filingDate || null,
+        data: JSON.stringify(item),
+      };
+      tx.insert(schema.patentCorpus)
+        .values({ patentNumber: record.patentNumber, ...values })
+        .onConflictDoUpdate({ target: schema.patentCorpus.patentNumber, set: values })
+        .run();
+      imported++;
+    }
+  });
+
+  return { imported, skipped };
+}
+
+export function getLocalCorpusSize(): number {
+  const row = getLocalDb().get<{ count: number }>(sql`SELECT COUNT(*) AS count FROM patent_corpus`);
+  return row?.count || 0;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * FTS5 expression for a natural-language query: every meaningful term,
+ * quoted and OR-ed so BM25 ranks documents matching more terms higher
+ */
+function toFtsQuery(query: string): string {
+  const terms = (query.toLowerCase().match(/[a-z0-9]+/g) || []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term)
+  );
+  return Array.from(new Set(terms)).map((term) => `"${term}"`).join(' OR ');
+}
+
+/**
+ * Patent numbers written in the query, kind code dropped so "US11234567"
+ * finds US11234567B2
+ */
+function patentNumbersInQuery(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map(normalizePatentNumber)
+    .filter((token) => /^(US)?(\d{7,11}|RE\d{5,6}|D\d{6,7})([A-Z]\d?)?$/.test(token))
+    .map((token) => (token.startsWith('US') ? token : `US${token}`).replace(/([0-9])[A-Z]\d?$/, '$1'));
+}
+
+function toSearchResult(row: { data: string }, relevanceScore: number): Record<string, any> {
+  return { ...JSON.parse(row.data), relevance_score: relevanceScore };
+}
+
+/**
+ * Raw results for a query, best first. Patent numbers in the query match
+ * directly; everything else goes through the FTS index over title, abstract
+ * and claims (title weighted highest). Dates bound the publication date.
+ */
+export function searchLocalCorpus(
+  query: string,
+  { maxResults = 10, startDate, endDate }: { maxResults?: number; startDate?: string; endDate?: string } = {}
+): Record<string, any>[] {
+  const db = getLocalDb();
+  const dateClause = sql`${startDate ? sql`AND c.publication_date >= ${startDate}` : sql``} ${endDate ? sql`AND c.publication_date <= ${endDate}` : sql``}`;
+
+  const results: Record<string, any>[] = [];
+  const seen = new Set<string>();
+  const add = (row: { patentNumber: string; data: string }, relevanceScore: number) => {
+    if (seen.has(row.patentNumber)) return;
+    seen.add(row.patentNumber);
+    results.push(toSearchResult(row, relevanceScore));
+  };
+
+  for (const number of patentNumbersInQuery(query)) {
+    db.all<{ patentNumber: string; data: string }>(sql`
+      SELECT c.patent_number AS patentNumber, c.data FROM patent_corpus c
+      WHERE c.patent_number LIKE ${`${number}%`} ${dateClause}
+    `).forEach((row) => add(row, 1));
+  }
+
+  const ftsQuery = toFtsQuery(query);
+  if (ftsQuery && results.length < maxResults) {
+    const rows = db.all<{ patentNumber: string; data: string; score: number }>(sql`
+      SELECT c.patent_number AS patentNumber, c.data, bm25(patent_corpus_fts, 10.0, 5.0, 1.0) AS score
+      FROM patent_corpus_fts
+      JOIN patent_corpus c ON c.rowid = patent_corpus_fts.rowid
+      WHERE patent_corpus_fts MATCH ${ftsQuery} ${dateClause}
+      ORDER BY score
+      LIMIT ${maxResults}
+    `);
+    // BM25 scores are negative with the best match lowest; scale to 0-1 against the best
+    const best = rows[0]?.score || -1;
+    rows.forEach((row) => add(row, Math.round((row.score / best) * 100) / 100));
+  }
+
+  return results.slice(0, maxResults);
+}
@@ -0,0 +1,41 @@
+/**
+ * Patent Lookup
+ * Resolves a specific patent or application number to its own PatentRecord via
+ * the search provider. Keyword search can return similar patents for a number query, so only
+ * an exact number match counts as found.
+ */
+
+import type { SearchProvider } from '@/lib/search/provider';
+import { PatentRecord, normalizePatentResults, patentNumberKey } from './record';
+
+export interface PatentLookupResult {
+  record: PatentRecord | null;
+  /** Other records the lookup search returned (useful context, never the answer) */
+  related: PatentRecord[];
+  costDollars: number;
+}
+
+export function matchesPatentNumber(record: PatentRecord, number: string): boolean {
+  const key = patentNumberKey(number);
+  return (
+    patentNumberKey(record.patentNumber) === key ||
+    (!!record.applicationNumber && patentNumberKey(record.applicationNumber) === key)
+  );
+}
+
+export async function lookupPatent(
+  provider: SearchProvider,
+  number: string,
+  maxResults = 3
+): Promise<PatentLookupResult> {
+  const response = await provider.search({ query: number, source: 'patentNumbers', maxResults });
+
+  const records = normalizePatentResults(response.results);
+  const record = records.find((r) => matchesPatentNumber(r, number)) || null;
+
+  return {
+    record,
+    related: records.filter((r) => r !== record),
+    costDollars: response.costDollars,
+  };
+}
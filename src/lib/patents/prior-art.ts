@@ -0,0 +1,304 @@
+/**
+ * Prior-Art Search
+ * Turns an invention disclosure into key technical features, searches for each
+ * feature, and ranks the merged references by how many features they cover.
+ * The model decomposes the disclosure and judges coverage; searching, merging
+ * and ranking are deterministic.
+ */
+
+import { generateObject, LanguageModel } from 'ai';
+import { z } from 'zod';
+import { PatentRecord, dedupePatentRecords } from './record';
+
+export interface DisclosureFeature {
+  /** Short label used in the matrix, e.g. "F1" */
+  id: string;
+  name: string;
+  description: string;
+  queries: string[];
+}
+
+export interface PriorArtCandidate {
+  /** Patent number or URL */
+  key: string;
+  kind: 'patent' | 'web';
+  title: string;
+  url: string;
+  summary: string;
+  relevanceScore: number;
+  /** Features whose searches returned this reference */
+  foundBy: string[];
+  patent?: PatentRecord;
+  web?: any;
+}
+
+export const COVERAGE_STATUSES = ['Disclosed', 'Partial', 'Not disclosed'] as const;
+
+export type CoverageStatus = (typeof COVERAGE_STATUSES)[number];
+
+export interface RankedCandidate extends PriorArtCandidate {
+  /** Reference label used in the matrix, e.g. "R1" */
+  label: string;
+  coverage: Record<string, CoverageStatus>;
+  /** Disclosed = 1, Partial = 0.5 */
+  coverageScore: number;
+}
+
+const MAX_FEATURES = 8;
+
+const featuresSchema = z.object({
+  features: z
+    .array(
+      z.object({
+        name: z.string().describe('Short name of the technical feature (max 8 words)'),
+        description: z.string().describe('One sentence describing the feature as claimed in the disclosure'),
+        queries: z.array(z.string()).describe('Two search queries a patent examiner would use to find this feature'),
+      })
+    )
+    .describe('Key technical features that together define the invention, most distinctive first'),
+});
+
+const coverageSchema = z.object({
+  assessments: z.array(
+    z.object({
+      reference: z.string().describe('Reference label exactly as given, e.g. "R1"'),
+      feature: z.string().describe('Feature label exactly as given, e.g. "F1"'),
+      status: z.enum(COVERAGE_STATUSES),
+    })
+  ),
+});
+
+// ============================================================================
+// DECOMPOSITION
+// ============================================================================
+
+/**
+ * Split a disclosure into its key technical features, each with search queries
+ */
+export async function decomposeDisclosure({
+  model,
+  disclosure,
+  focus,
+  maxFeatures = 6,
+}: {
+  model: LanguageModel;
+  disclosure: string;
+  focus?: string;
+  maxFeatures?: number;
+}): Promise<DisclosureFeature[]> {
+  const { object } = await generateObject({
+    model,
+    schema: featuresSchema,
+    temperature: 0,
+    prompt: `You are a patent search professional preparing a prior-art search.
+Break the invention disclosure below into at most ${Math.min(maxFeatures, MAX_FEATURES)} key technical features.
+Each feature should be a distinct technical element a reference could disclose on its own. Skip business benefits and boilerplate.
+For each feature write two short keyword-style search queries (different wording, no boolean operators).
+${focus ? `\nFocus the search on: ${focus}\n` : ''}
+INVENTION DISCLOSURE:
+${disclosure.slice(0, 20000)}`,
+  });
+
+  return object.features.slice(0, Math.min(maxFeatures, MAX_FEATURES)).map((feature, i) => ({
+    id: `F${i + 1}`,
+    name: feature.name.trim(),
+    description: feature.description.trim(),
+    queries: feature.queries.map((q) => q.trim()).filter(Boolean).slice(0, 2),
+  }));
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Merge per-feature hits into one candidate list. Patent records are deduped
+ * by number; web results by URL. A reference found by several features keeps
+ * its best relevance score and remembers every feature that found it.
+ */
+export function mergeCandidates(
+  hits: Array<{ featureId: string; patents: PatentRecord[]; web: any[] }>
+): PriorArtCandidate[] {
+  const byKey = new Map<string, PriorArtCandidate>();
+
+  const add = (candidate: PriorArtCandidate, featureId: string) => {
+    const existing = byKey.get(candidate.key);
+    if (!existing) {
+      byKey.set(candidate.key, { ...candidate, foundBy: [featureId] });
+      return;
+    }
+    if (!existing.foundBy.includes(featureId)) existing.foundBy.push(featureId);
+    existing.relevanceScore = Math.max(existing.relevanceScore, candidate.relevanceScore);
+  };
+
+  const allPatents = dedupePatentRecords(hits.flatMap((h) => h.patents));
+  const canonical = new Map(allPatents.map((p) => [p.patentNumber || p.url, p]));
+
+  for (const hit of hits) {
+    for (const record of hit.patents) {
+      const key = record.patentNumber || record.url;
+      const patent = canonical.get(key);
+      if (!patent) continue; // dropped as a duplicate of another number
+      add(
+        {
+          key,
+          kind: 'patent',
+          title: patent.patentNumber ? `${patent.patentNumber}: ${patent.title}` : patent.title,
+          url: patent.url,
+          summary: patent.abstract,
+          relevanceScore: record.relevanceScore,
+          foundBy: [],
+          patent,
+        },
+        hit.featureId
+      );
+    }
+    for (const result of hit.web) {
+      if (!result?.url) continue;
+      const content = typeof result.content === 'string' ? result.content : '';
+      add(
+        {
+          key: result.url,
+          kind: 'web',
+          title: result.title || result.url,
+          url: result.url,
+          summary: result.description || content.slice(0, 600),
+          relevanceScore: Number(result.relevance_score ?? result.relevanceScore ?? 0),
+          foundBy: [],
+          web: result,
+        },
+        hit.featureId
+      );
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+/**
+ * Shortlist for coverage assessment: references found by the most features
+ * first, then by relevance
+ */
+export function shortlistCandidates(candidates: PriorArtCandidate[], limit: number): PriorArtCandidate[] {
+  return [...candidates]
+    .sort((a, b) => b.foundBy.length - a.foundBy.length || b.relevanceScore - a.relevanceScore)
+    .slice(0, limit);
+}
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+function candidateEvidence(candidate: PriorArtCandidate): string {
+  const claim = candidate.patent?.claims[0];
+  const text = [candidate.summary, claim && `Claim ${claim}`].filter(Boolean).join('\n');
+  return text.slice(0, 1500);
+}
+
+/**
+ * Judge every reference against every feature, then rank by coverage.
+ * Pairs the model leaves out fall back to "Not disclosed".
+ */
+export async function assessCoverage({
+  model,
+  features,
+  candidates,
+}: {
+  model: LanguageModel;
+  features: DisclosureFeature[];
+  candidates: PriorArtCandidate[];
+}): Promise<RankedCandidate[]> {
+  const labelled = candidates.map((candidate, i) => ({ ...candidate, label: `R${i + 1}` }));
+
+  const { object } = await generateObject({
+    model,
+    schema: coverageSchema,
+    temperature: 0,
+    prompt: `You are a patent examiner. For EVERY reference and EVERY feature, decide whether the reference discloses the feature.
+- "Disclosed": the reference text clearly describes the feature
+- "Partial": the reference describes something similar but a key aspect is missing
+- "Not disclosed": nothing in the reference text describes the feature
+Judge only from the text given.
+
+FEATURES:
+${features.map((f) => `${f.id}: ${f.name} - ${f.description}`).join('\n')}
+
+REFERENCES:
+${labelled.map((c) => `${c.label}: ${c.title}\n${candidateEvidence(c)}`).join('\n\n')}`,
+  });
+
+  const statusOf = new Map(object.assessments.map((a) => [`${a.reference.trim()}|${a.feature.trim()}`, a.status]));
+
+  return rankByCoverage(
+    labelled.map((candidate) => {
+      const coverage = Object.fromEntries(
+        features.map((f) => [f.id, statusOf.get(`${candidate.label}|${f.id}`) || 'Not disclosed'])
+      ) as Record<string, CoverageStatus>;
+      return { ...candidate, coverage, coverageScore: coverageScore(coverage) };
+    })
+  );
+}
+
+function coverageScore(coverage: Record<string, CoverageStatus>): number {
+  return Object.values(coverage).reduce(
+    (sum, status) => sum + (status === 'Disclosed' ? 1 : status === 'Partial' ? 0.5 : 0),
+    0
+  );
+}
+
+/**
+ * Order by coverage score, then relevance, and relabel R1..Rn in rank order
+ */
+export function rankByCoverage(candidates: RankedCandidate[]): RankedCandidate[] {
+  return [...candidates]
+    .sort((a, b) => b.coverageScore - a.coverageScore || b.relevanceScore - a.relevanceScore)
+    .map((candidate, i) => ({ ...candidate, label: `R${i + 1}` }));
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+const STATUS_MARK: Record<CoverageStatus, string> = {
+  Disclosed: '●',
+  Partial: '◐',
+  'Not disclosed': '○',
+};
+
+/**
+ * Feature-by-reference matrix: one row per feature, one column per reference,
+ * plus a closing row with each reference's coverage score
+ */
+export function toCoverageMatrix(
+  features: DisclosureFeature[],
+  ranked: RankedCandidate[]
+): { headers: string[]; rows: string[][] } {
+  const headers = [
+    'Feature',
+    ...ranked.map((c) => `${c.label} ${c.patent?.patentNumber || hostname(c.url)}`),
+  ];
+  const rows = features.map((feature) => [
+    `${feature.id} ${feature.name}`,
+    ...ranked.map((c) => `${STATUS_MARK[c.coverage[feature.id]]} ${c.coverage[feature.id]}`),
+  ]);
+  rows.push([
+    'Coverage',
+    ...ranked.map((c) => `${c.coverageScore}/${features.length}`),
+  ]);
+  return { headers, rows };
+}
+
+/**
+ * Features no reference fully discloses - the candidates for novelty
+ */
+export function uncoveredFeatures(features: DisclosureFeature[], ranked: RankedCandidate[]): DisclosureFeature[] {
+  return features.filter((f) => !ranked.some((c) => c.coverage[f.id] === 'Disclosed'));
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
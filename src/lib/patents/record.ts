@@ -0,0 +1,309 @@
+/**
+ * Patent Record Normalization
+ * Maps raw Valyu search results into a single PatentRecord shape so the UI,
+ * citations and reports never have to guess at field names.
+ *
+ * Valyu puts patent bibliographic data either on the result itself or under
+ * result.metadata depending on the source, so every field is read from both.
+ */
+
+import { extractClaimsSection, formatClaim, parseClaims } from './claims';
+import { normalizeAssignees } from './assignees';
+import { annotateCpcCodes } from './cpc';
+
+export interface PatentRecord {
+  /** Publication/grant number, normalized (e.g. "US11234567B2") */
+  patentNumber: string;
+  applicationNumber?: string;
+  kindCode?: string;
+  title: string;
+  abstract: string;
+  /** Numbered claims in "N. text" form - parse with parseClaims for dependencies */
+  claims: string[];
+  /** Canonical assignee names (see assignees.ts) */
+  assignees: string[];
+  /** Assignee names exactly as the source returned them */
+  rawAssignees: string[];
+  /** Canonical names with subsidiaries rolled up to their parent */
+  parentAssignees: string[];
+  inventors: string[];
+  /** Two-letter countries of residence of the inventors, deduplicated */
+  inventorCountries: string[];
+  filingDate?: string;
+  priorityDate?: string;
+  publicationDate?: string;
+  cpcCodes: string[];
+  ipcCodes: string[];
+  /** Class titles for cpcCodes and ipcCodes, e.g. { "H01M 10/0562": "Solid electrolytes" } */
+  cpcTitles: Record<string, string>;
+  /** Backward citations: patents this one cites */
+  citedPatents: string[];
+  /** Forward citations: later patents citing this one (when the source provides them) */
+  citedBy: string[];
+  /** Application numbers this one claims priority from */
+  priorityClaims: string[];
+  /** Parent applications (continuation, continuation-in-part, divisional) */
+  relatedApplications: string[];
+  /** Family identifier - from the source when provided, otherwise assigned by groupPatentFamilies */
+  familyId?: string;
+  url: string;
+  /** Relevance from the search provider */
+  relevanceScore: number;
+  /** Embedding similarity to the query when results were reranked (see rerank.ts) */
+  rerankScore?: number;
+  source: string;
+  imageUrl?: string;
+  /** Full document text as returned by the search provider */
+  fullText?: string;
+}
+
+// The one pattern for patent numbers in text - normalization, verification
+// and provenance all find numbers with it.
+// "US 11,234,567 B2", "US2020/0123456 A1", "US2020-0123456", "EP-3456789-A1", "WO 2021/123456"
+const PATENT_NUMBER_PATTERN = /\b(US|EP|WO|CN|JP|KR|DE|GB|FR|CA|AU)[\s-]?(\d{1,3}(?:,\d{3}){2,3}|\d{4}[\/-]?\d{3,8}|\d{5,11})(?:[\s-]?([A-Z]\d?))?\b/;
+// "U.S. Patent No. 11,234,567", "Pat. No. 11234567"
+const US_PATENT_NO_PATTERN = /\b(?:U\.?S\.?\s+)?Pat(?:ent)?\.?\s+No\.?\s*((?:\d{1,3}(?:,\d{3}){2})|(?:\d{7,8}))\b/gi;
+
+// ============================================================================
+// FIELD ACCESSORS
+// ============================================================================
+
+function pick(result: any, keys: string[]): any {
+  for (const key of keys) {
+    const value = result?.[key] ?? result?.metadata?.[key];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function toList(value: any): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (typeof item === 'string' ? item : item?.name || item?.code || item?.number || item?.text || ''))
+      .map((item: string) => item.trim())
+      .filter(Boolean);
+  }
+  if (typeof value === 'string') return value.split(/[;|]/).map((s) => s.trim()).filter(Boolean);
+  return [];
+}
+
+function toText(value: any): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Normalize a date to YYYY-MM-DD, accepting "20200115", "2020-01-15T..." etc.
+ */
+export function toIsoDate(value: any): string | undefined {
+  if (!value) return undefined;
+  const match = String(value).match(/\d{4}-?\d{2}-?\d{2}/);
+  if (!match) return undefined;
+  const digits = match[0].replace(/-/g, '');
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+/**
+ * Normalize a patent or application number for display and comparison
+ * e.g. "US 11,234,567 B2" -> "US11234567B2"
+ */
+export function normalizePatentNumber(value: string | undefined | null): string {
+  if (!value) return '';
+  return String(value).replace(/[\s,\-\/]/g, '').toUpperCase();
+}
+
+/**
+ * Reduce a number to country + digits so "US11234567", "US 11,234,567 B2"
+ * and "US-11234567-B2" all compare equal. Kind codes are ignored.
+ */
+export function patentNumberKey(value: string): string {
+  const compact = normalizePatentNumber(value);
+  const match = compact.match(/^([A-Z]{2})(\d+)/);
+  if (!match) return compact;
+  // US grants are sometimes written with a leading zero ("US011234567")
+  return `${match[1]}${match[2].replace(/^0+/, '')}`;
+}
+
+/**
+ * Every patent number written in free text, normalized and deduplicated by
+ * patentNumberKey (the first spelling of each number wins)
+ */
+export function findPatentNumbers(text: string): string[] {
+  if (!text) return [];
+  const found = new Map<string, string>();
+  const add = (number: string) => {
+    const key = patentNumberKey(number);
+    if (!found.has(key)) found.set(key, number);
+  };
+
+  const pattern = new RegExp(PATENT_NUMBER_PATTERN.source, 'g');
+  (text.match(pattern) || []).forEach((match) => add(normalizePatentNumber(match)));
+  for (const match of text.matchAll(US_PATENT_NO_PATTERN)) {
+    add(`US${normalizePatentNumber(match[1])}`);
+  }
+
+  return Array.from(found.values());
+}
+
+function findPatentNumber(result: any): string {
+  const explicit = pick(result, ['publication_number', 'patent_number', 'document_number', 'grant_number']);
+  if (explicit) return normalizePatentNumber(explicit);
+
+  for (const text of [result?.title, result?.url, result?.id]) {
+    const match = typeof text === 'string' ? text.match(PATENT_NUMBER_PATTERN) : null;
+    if (match) return normalizePatentNumber(match[0]);
+  }
+  return '';
+}
+
+/**
+ * Split claims into individual numbered claims, falling back to the claims
+ * section of the full text when the source has no claims field
+ */
+function toClaims(value: any, fullText: string): string[] {
+  const input = Array.isArray(value) ? toList(value) : value ? String(value) : extractClaimsSection(fullText);
+  return parseClaims(input).map(formatClaim);
+}
+
+function toPatentNumbers(value: any, exclude: string): string[] {
+  const numbers = toList(value).map(normalizePatentNumber).filter((n) => n && n !== exclude);
+  return Array.from(new Set(numbers));
+}
+
+/**
+ * Pull cited patent numbers out of a "References Cited" section when the
+ * source does not provide them as structured metadata
+ */
+function citedFromText(content: string, exclude: string): string[] {
+  const section = content.match(/(?:references cited|patent citations|cited patents)([\s\S]{0,8000})/i)?.[1];
+  if (!section) return [];
+  const pattern = new RegExp(PATENT_NUMBER_PATTERN.source, 'g');
+  return toPatentNumbers(section.match(pattern) || [], exclude);
+}
+
+/**
+ * Pull parent/priority application numbers out of the "Cross-reference to
+ * related applications" paragraph, e.g. "a continuation of U.S. application
+ * Ser. No. 16/123,456" or "the benefit of Provisional Application No. 62/123,456"
+ */
+function lineageFromText(content: string): { related: string[]; priority: string[] } {
+  const head = content.slice(0, 6000);
+  const collect = (pattern: RegExp) =>
+    Array.from(new Set(Array.from(head.matchAll(pattern), (m) => `US${m[1].replace(/[\/,]/g, '')}`)));
+
+  return {
+    related: collect(/(?:continuation|division|divisional)(?:-in-part)?(?:\s+application)?\s+of\s+(?:U\.S\.\s+)?(?:patent\s+)?(?:application\s+)?(?:Ser(?:ial)?\.?\s+)?No\.?\s*(\d{2}\/\d{3},\d{3})/gi),
+    priority: collect(/(?:priority|benefit)\s+(?:to|of|from)[\s\S]{0,120}?(?:Application|App\.)\s+(?:Ser(?:ial)?\.?\s+)?No\.?\s*(\d{2}\/\d{3},\d{3})/gi),
+  };
+}
+
+/**
+ * Inventor countries from an explicit list, or from the country on each
+ * inventor when inventors come as objects
+ */
+function toInventorCountries(result: any): string[] {
+  const explicit = toList(pick(result, ['inventor_countries', 'inventor_country']));
+  const inventors = pick(result, ['inventors', 'inventor']);
+  const fromInventors = Array.isArray(inventors)
+    ? inventors.map((inventor: any) => (typeof inventor === 'object' ? inventor?.country || inventor?.inventor_country : ''))
+    : [];
+  const countries = [...explicit, ...fromInventors]
+    .filter((country): country is string => typeof country === 'string' && !!country.trim())
+    .map((country) => country.trim().toUpperCase());
+  return Array.from(new Set(countries));
+}
+
+function firstParagraph(content: string): string {
+  const paragraph = content.split(/\n\s*\n/).find((p) => p.trim() && !p.trim().startsWith('#'));
+  const text = (paragraph || content).trim();
+  return text.length > 600 ? text.substring(0, 600) + '...' : text;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Map a single raw search result into a PatentRecord
+ */
+export function normalizePatentResult(result: any): PatentRecord {
+  const patentNumber = findPatentNumber(result);
+  const fullText = toText(result?.content);
+  const imageUrl = result?.image_url || result?.imageUrl;
+  const cited = pick(result, ['cited_patents', 'backward_citations', 'patent_citations', 'references_cited']);
+  const priority = pick(result, ['priority_claims', 'priority_applications', 'priority_numbers']);
+  const related = pick(result, ['related_applications', 'parent_applications', 'continuity_data', 'continuation_of', 'division_of']);
+  const lineage = lineageFromText(fullText);
+  const rawAssignees = toList(pick(result, ['assignees', 'assignee', 'applicants']));
+  const cpcCodes = toList(pick(result, ['cpc_codes', 'cpc', 'cpc_classifications']));
+  const ipcCodes = toList(pick(result, ['ipc_codes', 'ipc', 'ipc_classifications']));
+
+  return {
+    patentNumber,
+    applicationNumber: normalizePatentNumber(pick(result, ['application_number', 'application_id', 'appl_id'])) || undefined,
+    kindCode: (pick(result, ['kind_code', 'kind']) || patentNumber.match(/\d([A-Z]\d?)$/)?.[1])?.toUpperCase(),
+    title: toText(result?.title) || patentNumber || 'Untitled patent',
+    abstract: toText(pick(result, ['abstract', 'description'])) || firstParagraph(fullText),
+    claims: toClaims(pick(result, ['claims']), fullText),
+    ...normalizeAssignees(rawAssignees),
+    rawAssignees,
+    inventors: toList(pick(result, ['inventors', 'inventor'])),
+    inventorCountries: toInventorCountries(result),
+    filingDate: toIsoDate(pick(result, ['filing_date', 'application_date', 'filed'])),
+    priorityDate: toIsoDate(pick(result, ['priority_date', 'earliest_priority_date'])),
+    publicationDate: toIsoDate(pick(result, ['publication_date', 'grant_date', 'issue_date', 'date'])),
+    cpcCodes,
+    ipcCodes,
+    cpcTitles: annotateCpcCodes([...cpcCodes, ...ipcCodes]),
+    citedPatents: cited ? toPatentNumbers(cited, patentNumber) : citedFromText(fullText, patentNumber),
+    citedBy: toPatentNumbers(pick(result, ['cited_by', 'forward_citations', 'citing_patents']), patentNumber),
+    priorityClaims: priority ? toPatentNumbers(priority, '') : lineage.priority,
+    relatedApplications: related ? toPatentNumbers(related, '') : lineage.related,
+    familyId: pick(result, ['family_id', 'docdb_family_id', 'simple_family_id'])?.toString(),
+    url: result?.url || '',
+    relevanceScore: Number(result?.relevance_score ?? result?.relevanceScore ?? 0),
+    source: result?.source || 'USPTO',
+    imageUrl: typeof imageUrl === 'string' ? imageUrl : undefined,
+    fullText: fullText || undefined,
+  };
+}
+
+/**
+ * Drop records that share a publication number with a higher-ranked record.
+ * Input order (relevance) is preserved. Publications of the same application
+ * (an A1 and its B2 grant) are all kept - clustering them is
+ * groupPatentFamilies' job.
+ */
+export function dedupePatentRecords(records: PatentRecord[]): PatentRecord[] {
+  const seen = new Set<string>();
+  const unique: PatentRecord[] = [];
+
+  for (const record of records) {
+    // Records without a number can only be told apart by URL
+    const key = record.patentNumber || (record.url && `URL:${record.url}`);
+    if (key) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    unique.push(record);
+  }
+
+  return unique;
+}
+
+/**
+ * Normalize and dedupe a raw result list in one pass
+ */
+export function normalizePatentResults(results: any[] | undefined | null): PatentRecord[] {
+  return dedupePatentRecords((results || []).map(normalizePatentResult));
+}
+
+/**
+ * Best-effort check for whether a tool result item is already a PatentRecord
+ */
+export function isPatentRecord(item: any): item is PatentRecord {
+  return !!item && typeof item === 'object' && 'patentNumber' in item && Array.isArray(item.claims);
+}
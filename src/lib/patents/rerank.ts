@@ -0,0 +1,104 @@
+/**
+ * Embedding Reranker
+ * Optional second pass over patent search results: the query and each
+ * result's title, abstract and claims are embedded with a local Ollama
+ * embedding model and results are reordered by cosine similarity to the query.
+ *
+ * Enabled by setting PATENT_RERANK_MODEL (e.g. "nomic-embed-text"). The
+ * provider's relevanceScore is kept; the similarity is added as rerankScore.
+ * If Ollama is unreachable the original order is returned unchanged.
+ */
+
+import { PatentRecord } from './record';
+
+const EMBED_TIMEOUT_MS = 20000;
+/** Characters of each result sent to the embedding model */
+const DOCUMENT_LENGTH = 2000;
+
+export function getRerankModel(): string | null {
+  return process.env.PATENT_RERANK_MODEL || null;
+}
+
+// ============================================================================
+// EMBEDDINGS
+// ============================================================================
+
+/**
+ * Embed texts in one batch through Ollama's /api/embed endpoint
+ */
+export async function embedTexts(texts: string[], model: string): Promise<number[][]> {
+  const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), EMBED_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${ollamaBaseUrl}/api/embed`, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input: texts }),
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const embeddings: number[][] = data?.embeddings || [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${embeddings.length} embeddings for ${texts.length} inputs`);
+    }
+    return embeddings;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The text a result is judged on: title, abstract, then claims in order
+ */
+function rerankDocument(record: PatentRecord): string {
+  return [record.title, record.abstract, ...record.claims].filter(Boolean).join('\n').slice(0, DOCUMENT_LENGTH);
+}
+
+// ============================================================================
+// RERANKING
+// ============================================================================
+
+/**
+ * Reorder records by embedding similarity to the query, best first, with
+ * rerankScore set on each. Without a configured model, or when embedding
+ * fails, records come back as they were.
+ */
+export async function rerankPatents(
+  query: string,
+  records: PatentRecord[],
+  model: string | null = getRerankModel()
+): Promise<PatentRecord[]> {
+  if (!model || records.length === 0) return records;
+
+  try {
+    const [queryEmbedding, ...documentEmbeddings] = await embedTexts([query, ...records.map(rerankDocument)], model);
+
+    return records
+      .map((record, index) => ({
+        ...record,
+        rerankScore: Math.round(cosineSimilarity(queryEmbedding, documentEmbeddings[index]) * 1000) / 1000,
+      }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  } catch (error) {
+    console.error('[Rerank] Embedding rerank failed, keeping provider order:', error);
+    return records;
+  }
+}
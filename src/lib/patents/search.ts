@@ -0,0 +1,85 @@
+/**
+ * Patent Search
+ * The USPTO search pipeline behind the patentSearch tool: provider search
+ * with native date windows, normalization, post-filtering, optional embedding
+ * rerank and family grouping.
+ * Anything that needs "the same results patentSearch would return" (e.g.
+ * saved watches) goes through here.
+ */
+
+import {
+  PatentSearchFilters,
+  PatentFilterSummary,
+  compactFilters,
+  hasFilters,
+  buildSearchDateWindow,
+  applyPatentFilters,
+} from './filters';
+import { PatentRecord, normalizePatentResults } from './record';
+import { PatentFamilySummary, assignFamilyIds } from './family';
+import { AssigneeAlias, applyAssigneeAliases } from './assignees';
+import { rerankPatents } from './rerank';
+import type { SearchProvider } from '@/lib/search/provider';
+
+export interface PatentSearchResult {
+  results: PatentRecord[];
+  families: PatentFamilySummary[];
+  filters?: PatentFilterSummary;
+  /** Raw result count before normalization and filtering */
+  rawCount: number;
+  costDollars: number;
+  /** Served from the search cache (see lib/search/cached-provider.ts) */
+  cached: boolean;
+}
+
+export async function searchPatents(
+  provider: SearchProvider,
+  {
+    query,
+    maxResults = 15,
+    filters: filterInput = {},
+    assigneeAliases = [],
+  }: {
+    query: string;
+    maxResults?: number;
+    filters?: Partial<PatentSearchFilters>;
+    /** The user's own aliases, applied before assignee filters */
+    assigneeAliases?: AssigneeAlias[];
+  }
+): Promise<PatentSearchResult> {
+  const filters = compactFilters(filterInput);
+  const dateWindow = buildSearchDateWindow(filters);
+  // Over-fetch when results will be post-filtered so the caller still gets a useful count back
+  const needsPostFilter = Object.keys(filters).some(
+    (key) => !dateWindow.native.includes(key as keyof PatentSearchFilters)
+  );
+
+  const response = await provider.search({
+    query,
+    source: 'patents',
+    maxResults: needsPostFilter ? Math.min(maxResults * 2, 40) : maxResults,
+    ...dateWindow.options,
+  });
+
+  const rawResults = response.results;
+  const records = applyAssigneeAliases(normalizePatentResults(rawResults), assigneeAliases);
+  const filtered = applyPatentFilters(records, filters, dateWindow.native);
+  const ranked = await rerankPatents(query, filtered.results);
+  const { records: results, families } = assignFamilyIds(ranked.slice(0, maxResults));
+
+  return {
+    results,
+    families,
+    filters: hasFilters(filters)
+      ? {
+          applied: filters,
+          native: dateWindow.native,
+          postFiltered: filtered.postFiltered,
+          removedCount: records.length - filtered.results.length,
+        }
+      : undefined,
+    rawCount: rawResults.length,
+    costDollars: response.costDollars,
+    cached: !!response.cached,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Session Patents
+ * Every patent record retrieved in a chat session: those in earlier tool
+ * results in the message history plus those returned by tools during the
+ * current request. Tools that count or compare "the patents we found" read
+ * from here instead of trusting numbers the model repeats back.
+ */
+
+import { PatentRecord, isPatentRecord } from './record';
+
+export interface SessionPatentStore {
+  /** Add records returned by a tool call */
+  add(records: PatentRecord[], toolCallId?: string): void;
+  /** Records in the order they were first retrieved */
+  all(): PatentRecord[];
+  get(patentNumber: string): PatentRecord | undefined;
+  /** Tool calls that retrieved any of these patents, in retrieval order */
+  toolCallIdsFor(patentNumbers: string[]): string[];
+}
+
+/** Kind code dropped, so "US11234567" matches a retrieved US11234567B2 */
+function baseNumber(patentNumber: string): string {
+  return patentNumber.replace(/([0-9])[A-Z]\d?$/, '$1');
+}
+
+/**
+ * Patent records inside one tool output. Search tools return JSON strings
+ * with a results array; some tools return objects.
+ */
+function recordsInOutput(output: unknown): PatentRecord[] {
+  let parsed: any = output;
+  if (typeof output === 'string') {
+    if (!output.trimStart().startsWith('{')) return [];
+    try {
+      parsed = JSON.parse(output);
+    } catch {
+      return [];
+    }
+  }
+  const results = Array.isArray(parsed?.results) ? parsed.results : [];
+  return results.filter((item: any) => isPatentRecord(item) && !!item.patentNumber);
+}
+
+/**
+ * Patent records from the tool parts of UI messages with the tool call that
+ * returned them, oldest first
+ */
+export function collectSessionPatents(
+  messages: Array<{ parts?: any[] }>
+): Array<{ toolCallId?: string; records: PatentRecord[] }> {
+  const outputs: Array<{ toolCallId?: string; records: PatentRecord[] }> = [];
+  for (const message of messages) {
+    for (const part of message.parts || []) {
+      if (typeof part?.type !== 'string' || !part.type.startsWith('tool-')) continue;
+      if (part.state !== 'output-available') continue;
+      const records = recordsInOutput(part.output);
+      if (records.length > 0) outputs.push({ toolCallId: part.toolCallId, records });
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Store for one chat request, seeded from the message history. Later
+ * retrievals of the same patent number replace the earlier record, so
+ * assignee aliases and family IDs reflect the latest search.
+ */
+export function createSessionPatentStore(messages: Array<{ parts?: any[] }> = []): SessionPatentStore {
+  const records = new Map<string, PatentRecord>();
+  const retrievedBy = new Map<string, string[]>();
+
+  const store: SessionPatentStore = {
+    add(items, toolCallId) {
+      for (const record of items) {
+        if (!record.patentNumber) continue;
+        records.set(record.patentNumber, record);
+        if (toolCallId) {
+          const key = baseNumber(record.patentNumber);
+          const calls = retrievedBy.get(key) || [];
+          if (!calls.includes(toolCallId)) retrievedBy.set(key, [...calls, toolCallId]);
+        }
+      }
+    },
+    all: () => Array.from(records.values()),
+    get: (patentNumber) => records.get(patentNumber),
+    toolCallIdsFor: (patentNumbers) =>
+      Array.from(new Set(patentNumbers.flatMap((number) => retrievedBy.get(baseNumber(number)) || []))),
+  };
+
+  collectSessionPatents(messages).forEach(({ toolCallId, records }) => store.add(records, toolCallId));
+  return store;
+}
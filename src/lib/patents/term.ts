@@ -0,0 +1,211 @@
+/**
+ * Patent Term Calculator
+ * Deterministic US patent expiry and maintenance fee schedule behind the
+ * patentTerm tool, so "when does this expire?" is computed rather than guessed.
+ *
+ * Rules applied:
+ * - Utility/plant: 20 years from the earliest US non-provisional filing date
+ *   the patent claims benefit of (35 U.S.C. 154(a)(2)). Provisional and
+ *   foreign priority dates do not start the term.
+ * - Filed before 1995-06-08: the greater of 17 years from grant and 20 years
+ *   from filing.
+ * - Design: 15 years from grant if filed on or after 2015-05-13, otherwise 14.
+ * - PTA extends the nominal expiry, a terminal disclaimer caps the PTA-adjusted
+ *   expiry, and PTE is added on top of the disclaimed term.
+ * - Maintenance fees (utility only) are due 3.5, 7.5 and 11.5 years after
+ *   grant, payable from 6 months before and with surcharge for 6 months after.
+ */
+
+export type PatentTermType = 'utility' | 'plant' | 'design';
+
+export interface PatentTermInput {
+  patentType?: PatentTermType;
+  /** Filing date of the application that issued (YYYY-MM-DD) */
+  filingDate: string;
+  /** Earliest US non-provisional application claimed under 35 U.S.C. 120/121/365(c) */
+  priorityDate?: string;
+  grantDate?: string;
+  /** Patent term adjustment (35 U.S.C. 154(b)) in days */
+  ptaDays?: number;
+  /** Patent term extension (35 U.S.C. 156) in days */
+  pteDays?: number;
+  /** Expiry of the patent named in a terminal disclaimer, if any */
+  terminalDisclaimerDate?: string;
+  /** Date statuses are judged against, default today */
+  asOf?: string;
+}
+
+export type MaintenanceStatus = 'upcoming' | 'open' | 'surcharge' | 'closed' | 'not-due';
+
+export interface MaintenanceWindow {
+  /** "3.5 year", "7.5 year", "11.5 year" */
+  stage: string;
+  windowOpens: string;
+  dueDate: string;
+  /** Last day to pay with the late surcharge */
+  surchargeEnds: string;
+  /** not-due: the patent expires before this fee falls due */
+  status: MaintenanceStatus;
+}
+
+export interface PatentTermResult {
+  patentType: PatentTermType;
+  /** Date the 20-year (or design) term is measured from */
+  termStart: string;
+  termBasis: string;
+  nominalExpiry: string;
+  adjustedExpiry: string;
+  /** What moved the expiry from nominal to adjusted, in order */
+  adjustments: string[];
+  expired: boolean;
+  daysRemaining: number;
+  maintenanceWindows: MaintenanceWindow[];
+  asOf: string;
+}
+
+const URAA_EFFECTIVE_DATE = '1995-06-08';
+const DESIGN_15_YEAR_DATE = '2015-05-13';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+function parseDate(value: string, field: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+  if (!date || isNaN(date.getTime()) || date.getUTCDate() !== +match![3]) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD form (got "${value}")`);
+  }
+  return date;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add whole months, clamping to the end of shorter months (Feb 29 + 1 year = Feb 28)
+ */
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/** Decimal year for plotting, e.g. 2031-07-01 -> 2031.5 */
+export function toDecimalYear(value: string): number {
+  const date = parseDate(value, 'date');
+  const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const end = Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+  return Math.round((date.getUTCFullYear() + (date.getTime() - start) / (end - start)) * 100) / 100;
+}
+
+// ============================================================================
+// TERM
+// ============================================================================
+
+function maintenanceWindows(grant: Date, expiry: Date, asOf: Date): MaintenanceWindow[] {
+  return [42, 90, 138].map((months) => {
+    const due = addMonths(grant, months);
+    const opens = addMonths(grant, months - 6);
+    const surchargeEnds = addMonths(grant, months + 6);
+
+    let status: MaintenanceStatus;
+    if (due >= expiry) status = 'not-due';
+    else if (asOf < opens) status = 'upcoming';
+    else if (asOf <= due) status = 'open';
+    else if (asOf <= surchargeEnds) status = 'surcharge';
+    else status = 'closed';
+
+    return {
+      stage: `${months / 12} year`,
+      windowOpens: formatDate(opens),
+      dueDate: formatDate(due),
+      surchargeEnds: formatDate(surchargeEnds),
+      status,
+    };
+  });
+}
+
+/**
+ * Expiry and maintenance schedule for a US patent. Throws on malformed dates
+ * or when a rule needs a date that was not given (e.g. design patents need a
+ * grant date).
+ */
+export function calculatePatentTerm(input: PatentTermInput): PatentTermResult {
+  const patentType = input.patentType || 'utility';
+  const filing = parseDate(input.filingDate, 'filingDate');
+  const priority = input.priorityDate ? parseDate(input.priorityDate, 'priorityDate') : null;
+  const grant = input.grantDate ? parseDate(input.grantDate, 'grantDate') : null;
+  const asOf = input.asOf ? parseDate(input.asOf, 'asOf') : parseDate(new Date().toISOString(), 'asOf');
+  const adjustments: string[] = [];
+
+  let termStart: Date;
+  let termBasis: string;
+  let nominal: Date;
+
+  if (patentType === 'design') {
+    if (!grant) throw new Error('Design patent term runs from the grant date - grantDate is required');
+    const years = formatDate(filing) >= DESIGN_15_YEAR_DATE ? 15 : 14;
+    termStart = grant;
+    termBasis = `${years} years from grant (design patent)`;
+    nominal = addMonths(grant, years * 12);
+  } else {
+    termStart = priority && priority < filing ? priority : filing;
+    termBasis = priority && priority < filing
+      ? '20 years from the earliest US non-provisional application claimed'
+      : '20 years from filing';
+    nominal = addMonths(termStart, 240);
+
+    if (formatDate(filing) < URAA_EFFECTIVE_DATE && grant) {
+      const seventeenFromGrant = addMonths(grant, 204);
+      if (seventeenFromGrant > nominal) {
+        termStart = grant;
+        termBasis = '17 years from grant (filed before 1995-06-08, longer than 20 years from filing)';
+        nominal = seventeenFromGrant;
+      }
+    }
+  }
+
+  let expiry = nominal;
+  if (input.ptaDays && input.ptaDays > 0) {
+    expiry = addDays(expiry, input.ptaDays);
+    adjustments.push(`+${input.ptaDays} days patent term adjustment`);
+  }
+  if (input.terminalDisclaimerDate) {
+    const disclaimed = parseDate(input.terminalDisclaimerDate, 'terminalDisclaimerDate');
+    if (disclaimed < expiry) {
+      adjustments.push(`Terminal disclaimer cuts ${daysBetween(disclaimed, expiry)} days (expires with the disclaimed patent on ${formatDate(disclaimed)})`);
+      expiry = disclaimed;
+    } else {
+      adjustments.push('Terminal disclaimer has no effect (disclaimed patent expires later)');
+    }
+  }
+  if (input.pteDays && input.pteDays > 0) {
+    expiry = addDays(expiry, input.pteDays);
+    adjustments.push(`+${input.pteDays} days patent term extension`);
+  }
+
+  return {
+    patentType,
+    termStart: formatDate(termStart),
+    termBasis,
+    nominalExpiry: formatDate(nominal),
+    adjustedExpiry: formatDate(expiry),
+    adjustments,
+    expired: expiry <= asOf,
+    daysRemaining: Math.max(0, daysBetween(asOf, expiry)),
+    maintenanceWindows: patentType === 'utility' && grant ? maintenanceWindows(grant, expiry, asOf) : [],
+    asOf: formatDate(asOf),
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * USPTO Bulk Data Parsing
+ * Turns USPTO bulk grant/application full-text files into raw result objects
+ * that normalizePatentResult understands, so imported patents flow through
+ * the same normalization as Valyu results.
+ *
+ * XML follows the ICE DTDs used by the weekly "ipg"/"ipa" files, where each
+ * file is many XML documents concatenated. JSON may be an array, an object
+ * with a results/patents array, or JSON Lines.
+ */
+
+// ============================================================================
+// XML HELPERS
+// ============================================================================
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .replace(/ ([,.;:])/g, '$1')
+    .trim();
+}
+
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (m) => m[1]);
+}
+
+function element(xml: string | undefined, tag: string): string | undefined {
+  return xml ? elements(xml, tag)[0] : undefined;
+}
+
+function text(xml: string | undefined, tag: string): string {
+  const inner = element(xml, tag);
+  return inner ? stripTags(inner) : '';
+}
+
+/**
+ * "US" + "11234567" + "B2" from a <document-id> block. US patent numbers
+ * lose the zero padding of the XML ("09876543" -> "9876543", "RE049123" ->
+ * "RE49123") so they match lookups and the numbers citations use;
+ * application numbers (withKind = false) keep their series code digits.
+ */
+function documentNumber(documentId: string | undefined, withKind = true): string {
+  if (!documentId) return '';
+  let number = text(documentId, 'doc-number').replace(/[\s,\/-]/g, '');
+  if (!number) return '';
+  const country = text(documentId, 'country') || 'US';
+  if (withKind && country === 'US') number = number.replace(/^([A-Z]*)0+(?=\d)/, '$1');
+  return `${country}${number}${withKind ? text(documentId, 'kind') : ''}`;
+}
+
+function personName(party: string): string {
+  const org = text(party, 'orgname');
+  if (org) return org;
+  return [text(party, 'first-name'), text(party, 'last-name')].filter(Boolean).join(' ');
+}
+
+/**
+ * "H01M 10/0562" from a classification-cpc or classification-ipcr block
+ */
+function classificationCode(block: string): string {
+  const [section, cls, subclass, group, subgroup] = ['section', 'class', 'subclass', 'main-group', 'subgroup'].map(
+    (tag) => text(block, tag)
+  );
+  if (!section || !cls || !subclass) return '';
+  return group ? `${section}${cls}${subclass} ${group}/${subgroup || '00'}` : `${section}${cls}${subclass}`;
+}
+
+/**
+ * Description paragraphs and headings as plain text separated by blank lines
+ */
+function descriptionText(description: string | undefined): string {
+  if (!description) return '';
+  return decodeEntities(
+    description
+      .replace(/<\/(p|heading)>/g, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+/**
+ * Parse one us-patent-grant or us-patent-application XML document. Returns
+ * null for anything else (e.g. the DOCTYPE-only fragments between documents
+ * or plant/reissue formats missing a publication number).
+ */
+export function parseUsptoXmlDocument(xml: string): Record<string, any> | null {
+  const root = element(xml, 'us-patent-grant') ?? element(xml, 'us-patent-application');
+  if (!root) return null;
+
+  const biblio = element(root, 'us-bibliographic-data-grant') ?? element(root, 'us-bibliographic-data-application') ?? root;
+  const publication = element(element(biblio, 'publication-reference'), 'document-id');
+  const application = element(element(biblio, 'application-reference'), 'document-id');
+  const publicationNumber = documentNumber(publication);
+  if (!publicationNumber) return null;
+
+  const inventorBlocks = elements(element(biblio, 'inventors') || '', 'inventor');
+  // Older application files list inventors only as applicants
+  const applicantInventors = [...elements(biblio, 'us-applicant'), ...elements(biblio, 'applicant')].filter((block) =>
+    /applicant-inventor/.test(block)
+  );
+  const inventors = inventorBlocks.length > 0 ? inventorBlocks : applicantInventors;
+
+  const priorityClaims = elements(element(biblio, 'priority-claims') || '', 'priority-claim');
+  const provisionals = elements(element(biblio, 'us-related-documents') || '', 'us-provisional-application');
+  const priorityDates = [...priorityClaims, ...provisionals].map((block) => text(block, 'date')).filter(Boolean).sort();
+
+  const citations = [
+    ...elements(element(biblio, 'us-references-cited') || '', 'us-citation'),
+    ...elements(element(biblio, 'references-cited') || '', 'citation'),
+  ];
+
+  return {
+    publication_number: publicationNumber,
+    kind_code: text(publication, 'kind') || undefined,
+    application_number: documentNumber(application, false) || undefined,
+    title: text(biblio, 'invention-title'),
+    abstract: text(root, 'abstract'),
+    claims: elements(element(root, 'claims') || '', 'claim').map(stripTags),
+    assignees: elements(element(biblio, 'assignees') || '', 'assignee').map(personName).filter(Boolean),
+    inventors: inventors.map(personName).filter(Boolean),
+    inventor_countries: Array.from(new Set(inventors.map((block) => text(element(block, 'address'), 'country')).filter(Boolean))),
+    filing_date: text(application, 'date') || undefined,
+    publication_date: text(publication, 'date') || undefined,
+    priority_date: priorityDates[0],
+    cpc_codes: elements(element(biblio, 'classifications-cpc') || '', 'classification-cpc').map(classificationCode).filter(Boolean),
+    ipc_codes: elements(element(biblio, 'classifications-ipcr') || '', 'classification-ipcr').map(classificationCode).filter(Boolean),
+    cited_patents: citations
+      .map((block) => documentNumber(element(element(block, 'patcit'), 'document-id')))
+      .filter(Boolean),
+    priority_claims: [...priorityClaims, ...provisionals]
+      .map((block) => documentNumber(element(block, 'document-id') || block, false))
+      .filter(Boolean),
+    related_applications: elements(element(biblio, 'us-related-documents') || '', 'parent-doc')
+      .map((block) => documentNumber(element(block, 'document-id'), false))
+      .filter(Boolean),
+    content: descriptionText(element(root, 'description')),
+    url: `https://patents.google.com/patent/${publicationNumber}`,
+    source: 'USPTO',
+  };
+}
+
+/**
+ * Incrementally split a concatenated bulk XML file into documents. Feed it
+ * lines in order; it returns a finished document whenever a new one starts.
+ * Call flush() at the end of the file for the last document.
+ */
+export function createUsptoXmlSplitter() {
+  let buffer: string[] = [];
+
+  const take = (): string | null => {
+    const doc = buffer.join('\n');
+    buffer = [];
+    return doc.trim() ? doc : null;
+  };
+
+  return {
+    push(line: string): string | null {
+      const finished = line.startsWith('<?xml') && buffer.length > 0 ? take() : null;
+      buffer.push(line);
+      return finished;
+    },
+    flush: take,
+  };
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Map common USPTO JSON field names (PatentsView, Open Data Portal) onto the
+ * names normalizePatentResult reads. Fields it already understands pass
+ * through unchanged.
+ */
+export function fromUsptoJson(item: Record<string, any>): Record<string, any> {
+  const patentId = item.patent_number ?? item.publication_number ?? item.patent_id ?? item.patentNumber ?? item.publicationNumber;
+  return {
+    ...item,
+    publication_number: patentId && /^\d/.test(String(patentId)) ? `US${patentId}` : patentId,
+    title: item.title ?? item.patent_title ?? item.inventionTitle,
+    abstract: item.abstract ?? item.patent_abstract ?? item.abstractText,
+    publication_date: item.publication_date ?? item.patent_date ?? item.grantDate ?? item.publicationDate,
+    filing_date: item.filing_date ?? item.application_date ?? item.filingDate,
+    source: item.source || 'USPTO',
+  };
+}
+
+/**
+ * Records from a whole JSON file: an array, { results | patents: [...] },
+ * or one JSON object per line
+ */
+export function parseUsptoJson(content: string): Record<string, any>[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  let items: any[];
+  try {
+    const parsed = JSON.parse(trimmed);
+    items = Array.isArray(parsed) ? parsed : parsed?.results || parsed?.patents || [parsed];
+  } catch {
+    items = trimmed
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+
+  return items.filter((item) => item && typeof item === 'object').map(fromUsptoJson);
+}
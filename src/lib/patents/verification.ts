@@ -0,0 +1,104 @@
+/**
+ * Patent Number Verification
+ * Checks patent/publication numbers cited in assistant text against the
+ * patents search and lookup tools actually returned in a session. Anything
+ * else - including numbers the model passed into a tool call or the user
+ * typed - is treated as unverified and flagged in the UI.
+ */
+
+import { findPatentNumbers, isPatentRecord, patentNumberKey } from './record';
+
+export interface PatentVerification {
+  /** Every distinct number found in the text, normalized */
+  checked: string[];
+  /** Numbers that no search or lookup tool in the session returned */
+  unverified: string[];
+  checkedAt: string;
+}
+
+// Tools whose output lists PatentRecords fetched from the search provider
+const PATENT_RESULT_TOOLS = ['patentSearch', 'patentAnalysis', 'patentFamily', 'priorArtSearch', 'collectionPatents'];
+// Lookup tools that return the looked-up record's number (not the one passed in)
+const PATENT_LOOKUP_TOOLS = ['patentClaims', 'claimChart'];
+
+function parseOutput(part: any): any {
+  const raw = part?.output ?? part?.result;
+  if (!raw || typeof raw !== 'string') return raw || null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Error strings ("❌ ...") returned nothing
+    return null;
+  }
+}
+
+/**
+ * Collect the keys of every patent number a session has legitimately seen:
+ * the patentNumber of each PatentRecord returned by a search tool, the
+ * resolved nodes of citation graphs and the records behind claim lookups.
+ * Tool inputs, error messages and user text never count.
+ */
+export function collectKnownPatentNumbers(messages: any[]): Set<string> {
+  const known = new Set<string>();
+  const add = (number: unknown) => {
+    if (typeof number === 'string' && number) known.add(patentNumberKey(number));
+  };
+
+  for (const message of messages || []) {
+    if (message?.role !== 'assistant') continue;
+    const parts = message.parts || (Array.isArray(message.content) ? message.content : []);
+
+    for (const part of parts) {
+      if (!part?.type?.startsWith('tool-')) continue;
+      const toolName = part.type === 'tool-result' ? part.toolName : part.type.replace(/^tool-/, '');
+
+      const output = parseOutput(part);
+      if (!output || typeof output !== 'object') continue;
+
+      if (PATENT_RESULT_TOOLS.includes(toolName) && Array.isArray(output.results)) {
+        output.results.filter(isPatentRecord).forEach((record: any) => add(record.patentNumber));
+      } else if (toolName === 'patentCitationGraph' && Array.isArray(output.graph?.nodes)) {
+        output.graph.nodes.filter((node: any) => node?.resolved).forEach((node: any) => add(node.id));
+      } else if (PATENT_LOOKUP_TOOLS.includes(toolName)) {
+        add(output.patentNumber);
+      }
+    }
+  }
+
+  return known;
+}
+
+/**
+ * Verify the numbers cited in a piece of assistant text
+ */
+export function verifyPatentNumbers(text: string, known: Set<string>): PatentVerification {
+  const checked = findPatentNumbers(text);
+  return {
+    checked,
+    unverified: checked.filter((n) => !known.has(patentNumberKey(n))),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Verify every assistant message in a conversation, returned by index.
+ * Each message is checked against everything the session had seen up to
+ * and including that message.
+ */
+export function verifyConversation(messages: any[]): Array<PatentVerification | undefined> {
+  const known = new Set<string>();
+
+  return messages.map((message) => {
+    collectKnownPatentNumbers([message]).forEach((key) => known.add(key));
+    if (message?.role !== 'assistant') return undefined;
+
+    const parts = message.parts || (Array.isArray(message.content) ? message.content : []);
+    const text = parts
+      .filter((p: any) => p?.type === 'text' && p.text)
+      .map((p: any) => p.text)
+      .join('\n');
+    if (!text) return undefined;
+
+    return verifyPatentNumbers(text, known);
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Patent Watches
+ * A watch is a saved patentSearch query plus filters. Each run stores a
+ * snapshot of the patent numbers returned, and only patents missing from
+ * every earlier snapshot are reported as new.
+ */
+
+import { randomUUID } from 'crypto';
+import * as db from '@/lib/db';
+import { parseJson, toIsoString } from '@/lib/db-rows';
+import { PolarEventTracker } from '@/lib/polar-events';
+import { createSearchProvider } from '@/lib/search/provider';
+import { PatentSearchFilters, compactFilters } from './filters';
+import { PatentRecord, patentNumberKey } from './record';
+import { searchPatents } from './search';
+import { AssigneeAlias } from './assignees';
+
+export interface PatentWatch {
+  id: string;
+  name: string;
+  query: string;
+  filters: PatentSearchFilters;
+  maxResults: number;
+  unseenCount: number;
+  lastRunAt: string | null;
+  createdAt: string | null;
+}
+
+export interface PatentWatchSnapshot {
+  id: string;
+  patentNumbers: string[];
+  newPatentNumbers: string[];
+  results: PatentRecord[];
+  createdAt: string | null;
+}
+
+export interface PatentWatchRun {
+  snapshotId: string;
+  resultCount: number;
+  newPatents: PatentRecord[];
+  /** First run of a watch - everything is the baseline, nothing is "new" */
+  baseline: boolean;
+  costDollars: number;
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+export function toPatentWatch(row: any): PatentWatch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters: compactFilters(parseJson(row.filters, {})),
+    maxResults: row.max_results ?? row.maxResults ?? 15,
+    unseenCount: row.unseen_count ?? row.unseenCount ?? 0,
+    lastRunAt: toIsoString(row.last_run_at ?? row.lastRunAt),
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+export function toPatentWatchSnapshot(row: any): PatentWatchSnapshot {
+  return {
+    id: row.id,
+    patentNumbers: parseJson(row.patent_numbers ?? row.patentNumbers, []),
+    newPatentNumbers: parseJson(row.new_patent_numbers ?? row.newPatentNumbers, []),
+    results: parseJson(row.results, []),
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Records whose publication number appears in no earlier snapshot. Kind
+ * codes are ignored. Application numbers are deliberately not compared, so
+ * the grant of an application seen earlier (new publication number, same
+ * application number) still counts as new.
+ */
+export function findUnseenPatents(results: PatentRecord[], snapshots: PatentWatchSnapshot[]): PatentRecord[] {
+  const seen = new Set(snapshots.flatMap((s) => s.patentNumbers).map(patentNumberKey));
+  return results.filter((record) => record.patentNumber && !seen.has(patentNumberKey(record.patentNumber)));
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * Re-run a watch through the patentSearch pipeline, store the snapshot and
+ * bump the watch's unseen count by the number of new patents. The search
+ * cache is bypassed - a cached answer would never contain anything new.
+ */
+export async function runPatentWatch(watch: PatentWatch, userId: string): Promise<PatentWatchRun> {
+  const provider = createSearchProvider({ cache: false });
+  if (!provider) {
+    throw new Error('Valyu API key not configured.');
+  }
+
+  const { data: aliasRows } = await db.getAssigneeAliases(userId);
+  const { results, costDollars } = await searchPatents(provider, {
+    query: watch.query,
+    maxResults: watch.maxResults,
+    filters: watch.filters,
+    assigneeAliases: (aliasRows || []) as AssigneeAlias[],
+  });
+
+  const { data: snapshotRows } = await db.getPatentWatchSnapshots(watch.id);
+  const snapshots = (snapshotRows || []).map(toPatentWatchSnapshot);
+  const baseline = snapshots.length === 0;
+  const newPatents = baseline ? [] : findUnseenPatents(results, snapshots);
+
+  const snapshotId = randomUUID();
+  const { error } = await db.createPatentWatchSnapshot({
+    id: snapshotId,
+    watch_id: watch.id,
+    patent_numbers: results.map((r) => r.patentNumber).filter(Boolean),
+    new_patent_numbers: newPatents.map((r) => r.patentNumber),
+    // Full text is large and can be fetched again - keep the snapshot light
+    results: newPatents.map((record) => ({ ...record, fullText: undefined })),
+  });
+  if (error) {
+    throw new Error(`Failed to save watch snapshot: ${(error as any).message || error}`);
+  }
+
+  await db.updatePatentWatch(watch.id, userId, {
+    unseen_count: watch.unseenCount + newPatents.length,
+    last_run_at: new Date(),
+  });
+
+  return { snapshotId, resultCount: results.length, newPatents, baseline, costDollars };
+}
+
+/**
+ * Bill a watch run like the patentSearch tool call it replays. Watches have
+ * no chat session, so usage is attributed to "watch:<id>".
+ */
+export async function trackPatentWatchUsage(watch: PatentWatch, userId: string, run: PatentWatchRun) {
+  if (process.env.NEXT_PUBLIC_APP_MODE === 'development') return;
+
+  try {
+    const { data: profile } = await db.getUserProfile(userId);
+    const userTier = (profile as any)?.subscription_tier || (profile as any)?.subscriptionTier || 'free';
+    if (userTier !== 'pay_per_use') return;
+
+    const polarTracker = new PolarEventTracker();
+    await polarTracker.trackValyuAPIUsage(userId, `watch:${watch.id}`, 'patentSearch', run.costDollars, {
+      query: watch.query,
+      resultCount: run.resultCount,
+      watchId: watch.id,
+      success: true,
+    });
+  } catch (error) {
+    console.error('[PatentWatch] Failed to track usage:', error);
+  }
+}
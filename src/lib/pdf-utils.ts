@@ -10,6 +10,7 @@
  */
 
 import { Citation, CitationMap } from './citation-utils';
+import { ArtifactProvenance, formatProvenanceFootnote } from './provenance';
 
 /**
  * Format processing time in milliseconds to human-readable format
@@ -623,6 +624,15 @@ export function getFullPdfCss(): string {
       box-shadow: 0 4px 12px rgba(0,0,0,0.1);
     }
 
+    .figure-provenance {
+      margin: 8px 0 24px;
+      font-size: 9pt;
+      font-style: italic;
+      color: #6b7280;
+      text-align: left;
+      word-break: break-word;
+    }
+
     .chart-placeholder {
       margin: 24px 0;
       padding: 32px;
@@ -707,10 +717,21 @@ export function buildPdfHtmlTemplate(options: {
   citations: Citation[];
   logoDataUrl: string;
   chartImages?: Map<string, string>;
+  /** Format of the base64 chart images: rasterized PNG (PDF) or SVG (HTML export) */
+  chartImageType?: 'png' | 'svg+xml';
   csvMarkdown?: Map<string, string>;
+  /** Chart and CSV provenance by artifact ID, printed as a footnote under each figure */
+  provenance?: Map<string, ArtifactProvenance>;
   processingTimeMs?: number;
 }): string {
-  const { title, content, citations, logoDataUrl, chartImages = new Map(), csvMarkdown = new Map(), processingTimeMs } = options;
+  const { title, content, citations, logoDataUrl, chartImages = new Map(), chartImageType = 'png', csvMarkdown = new Map(), provenance = new Map(), processingTimeMs } = options;
+
+  const provenanceFootnote = (artifactId: string): string => {
+    const artifactProvenance = provenance.get(artifactId);
+    return artifactProvenance
+      ? `<div class="figure-provenance">${escapeHtml(formatProvenanceFootnote(artifactProvenance))}</div>`
+      : '';
+  };
 
   // Replace chart placeholders with base64 images or placeholders
   let processedContent = content;
@@ -718,7 +739,11 @@ export function buildPdfHtmlTemplate(options: {
   // First, replace CSV placeholders with markdown tables
   for (const [csvId, markdownTable] of csvMarkdown.entries()) {
     const placeholder = `__CSV_${csvId}__`;
-    processedContent = processedContent.replace(new RegExp(placeholder, 'g'), markdownTable);
+    const footnote = provenanceFootnote(csvId);
+    processedContent = processedContent.replace(
+      new RegExp(placeholder, 'g'),
+      footnote ? `${markdownTable}\n\n${footnote}\n` : markdownTable
+    );
   }
 
   // Then replace any chart placeholders that have images
@@ -727,7 +752,8 @@ export function buildPdfHtmlTemplate(options: {
     if (base64Image) {
       const imgTag = `
         <div class="chart-container">
-          <img src="data:image/png;base64,${base64Image}" alt="Chart" />
+          <img src="data:image/${chartImageType};base64,${base64Image}" alt="Chart" />
+          ${provenanceFootnote(chartId)}
         </div>
       `;
       processedContent = processedContent.replace(new RegExp(placeholder, 'g'), imgTag);
@@ -744,6 +770,7 @@ export function buildPdfHtmlTemplate(options: {
           <span style="font-size: 11pt; color: #6b7280;">View this chart in the web version of this report</span>
         </div>
       </div>
+      ${provenanceFootnote(chartId)}
     `;
   });
 
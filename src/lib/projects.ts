@@ -0,0 +1,134 @@
+/**
+ * Projects
+ * A project (workspace) groups the chat sessions and patent collections of
+ * one matter. Charts and CSVs belong to a project through the session they
+ * were saved in, so the overview gathers them across every session.
+ */
+
+import * as db from '@/lib/db';
+import { parseJson, toIsoString } from '@/lib/db-rows';
+import { ArtifactProvenance, parseProvenance } from '@/lib/provenance';
+import { PatentCollection, loadPatentCollections } from '@/lib/patents/collections';
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ProjectSession {
+  id: string;
+  title: string;
+  lastMessageAt: string | null;
+  createdAt: string | null;
+}
+
+export interface ProjectArtifact {
+  id: string;
+  kind: 'chart' | 'csv';
+  title: string;
+  /** Chart type, or "rows x columns" for a CSV */
+  detail: string;
+  sessionId: string;
+  sessionTitle: string;
+  provenance: ArtifactProvenance | null;
+  createdAt: string | null;
+}
+
+export interface ProjectOverview {
+  project: Project;
+  sessions: ProjectSession[];
+  /** Charts and CSVs from every session of the project, newest first */
+  artifacts: ProjectArtifact[];
+  collections: PatentCollection[];
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+export function toProject(row: any): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || null,
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+    updatedAt: toIsoString(row.updated_at ?? row.updatedAt),
+  };
+}
+
+/** Project a session or collection row is assigned to, if any */
+export function projectIdOf(row: any): string | null {
+  return row?.project_id ?? row?.projectId ?? null;
+}
+
+// ============================================================================
+// OVERVIEW
+// ============================================================================
+
+/**
+ * Everything a project owns. Returns null when the project does not exist
+ * or belongs to another user.
+ */
+export async function getProjectOverview(userId: string, projectId: string): Promise<ProjectOverview | null> {
+  const { data: row } = await db.getProject(projectId, userId);
+  if (!row) return null;
+
+  const { data: sessionRows } = await db.getChatSessions(userId);
+  const sessions: ProjectSession[] = ((sessionRows || []) as any[])
+    .filter((session) => projectIdOf(session) === projectId)
+    .map((session) => ({
+      id: session.id,
+      title: session.title,
+      lastMessageAt: toIsoString(session.last_message_at ?? session.lastMessageAt),
+      createdAt: toIsoString(session.created_at ?? session.createdAt),
+    }));
+  const titles = new Map(sessions.map((session) => [session.id, session.title]));
+  const sessionIds = sessions.map((session) => session.id);
+
+  const [{ data: chartRows }, { data: csvRows }, allCollections] = await Promise.all([
+    db.getChartsForSessions(sessionIds),
+    db.getCSVsForSessions(sessionIds),
+    loadPatentCollections(userId),
+  ]);
+
+  const charts: ProjectArtifact[] = ((chartRows || []) as any[]).map((chart) => {
+    const data = parseJson<any>(chart.chart_data ?? chart.chartData, {});
+    const sessionId: string = chart.session_id ?? chart.sessionId;
+    return {
+      id: chart.id,
+      kind: 'chart',
+      title: data.title || 'Untitled chart',
+      detail: data.chartType ? `${data.chartType} chart` : 'chart',
+      sessionId,
+      sessionTitle: titles.get(sessionId) || 'Untitled chat',
+      provenance: parseProvenance(chart.provenance),
+      createdAt: toIsoString(chart.created_at ?? chart.createdAt),
+    };
+  });
+
+  const csvs: ProjectArtifact[] = ((csvRows || []) as any[]).map((csv) => {
+    const headers = parseJson<string[]>(csv.headers, []);
+    const rows = parseJson<any[][]>(csv.rows, []);
+    const sessionId: string = csv.session_id ?? csv.sessionId;
+    return {
+      id: csv.id,
+      kind: 'csv',
+      title: csv.title,
+      detail: `${rows.length} rows x ${headers.length} columns`,
+      sessionId,
+      sessionTitle: titles.get(sessionId) || 'Untitled chat',
+      provenance: parseProvenance(csv.provenance),
+      createdAt: toIsoString(csv.created_at ?? csv.createdAt),
+    };
+  });
+
+  return {
+    project: toProject(row),
+    sessions,
+    artifacts: [...charts, ...csvs].sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || '')),
+    collections: allCollections.filter((collection) => collection.projectId === projectId),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Artifact Provenance
+ * Where the values in a saved chart or CSV came from: the tool call that
+ * saved it, the earlier tool calls that retrieved its patents, and whether
+ * the values were computed by a deterministic tool or typed by the model.
+ * Stored alongside charts and CSVs and shown in the sources popover and PDF.
+ */
+
+export type ProvenanceMethod = 'deterministic' | 'model';
+
+export interface ArtifactProvenance {
+  /** deterministic: computed by the tool from retrieved data. model: typed or judged by the model */
+  method: ProvenanceMethod;
+  /** Tool that saved the artifact */
+  tool: string;
+  toolCallId?: string;
+  /** Earlier tool calls that retrieved the patents the values came from */
+  sourceToolCallIds: string[];
+  patentNumbers: string[];
+  createdAt: string;
+}
+
+const FOOTNOTE_PATENT_LIMIT = 8;
+
+export function createProvenance({
+  method,
+  tool,
+  toolCallId,
+  patentNumbers = [],
+  sourceToolCallIds = [],
+}: {
+  method: ProvenanceMethod;
+  tool: string;
+  toolCallId?: string;
+  patentNumbers?: string[];
+  sourceToolCallIds?: string[];
+}): ArtifactProvenance {
+  return {
+    method,
+    tool,
+    toolCallId,
+    sourceToolCallIds: Array.from(new Set(sourceToolCallIds.filter((id) => id && id !== toolCallId))),
+    patentNumbers: Array.from(new Set(patentNumbers.filter(Boolean))),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Provenance read back from the database - a JSON string in SQLite, jsonb
+ * in Supabase, or missing for artifacts saved before provenance existed
+ */
+export function parseProvenance(value: unknown): ArtifactProvenance | null {
+  if (!value) return null;
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return parsed && typeof parsed === 'object' && 'method' in parsed ? (parsed as ArtifactProvenance) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeProvenanceMethod(method: ProvenanceMethod): string {
+  return method === 'deterministic' ? 'Computed from retrieved data' : 'Values entered by the model';
+}
+
+/**
+ * One-line footnote for exports, e.g. "Source: computed from retrieved data
+ * by aggregatePatents (call_abc) from US11234567B2, US10987654B1."
+ */
+export function formatProvenanceFootnote(provenance: ArtifactProvenance): string {
+  const parts = [`Source: ${describeProvenanceMethod(provenance.method).toLowerCase()} by ${provenance.tool}`];
+  if (provenance.toolCallId) parts[0] += ` (${provenance.toolCallId})`;
+
+  const { patentNumbers } = provenance;
+  if (patentNumbers.length > 0) {
+    const shown = patentNumbers.slice(0, FOOTNOTE_PATENT_LIMIT).join(', ');
+    const more = patentNumbers.length > FOOTNOTE_PATENT_LIMIT ? ` and ${patentNumbers.length - FOOTNOTE_PATENT_LIMIT} more` : '';
+    parts.push(`${patentNumbers.length === 1 ? 'Patent' : 'Patents'}: ${shown}${more}`);
+  }
+  if (provenance.sourceToolCallIds.length > 0) {
+    parts.push(`Retrieved by: ${provenance.sourceToolCallIds.join(', ')}`);
+  }
+  if (provenance.method === 'model' && patentNumbers.length === 0) {
+    parts.push('Not linked to retrieved patents');
+  }
+  return `${parts.join('. ')}.`;
+}
@@ -0,0 +1,466 @@
+/**
+ * Report Charts
+ * Saved charts drawn as standalone SVG (no browser needed) and rasterized to
+ * PNG with Puppeteer for formats that need bitmaps (PDF, DOCX).
+ */
+
+import puppeteer, { Browser } from 'puppeteer';
+import { CitationGraph, HOP_COLORS, layoutCitationGraph, nodeRadius } from '@/lib/patents/citation-graph';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Dynamic import for chromium in production
+let chromium: any = null;
+const isProduction = process.env.NODE_ENV === 'production';
+
+if (isProduction) {
+  try {
+    chromium = require('@sparticuz/chromium');
+  } catch (e) {
+    console.warn('[Report] @sparticuz/chromium not available, using local puppeteer');
+  }
+}
+
+const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+const CHART_TITLE_HEIGHT = 44;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Headless browser for rendering: @sparticuz/chromium in production
+ * (serverless), local Chrome/Chromium otherwise
+ */
+export async function launchReportBrowser(): Promise<Browser> {
+  if (isProduction && chromium) {
+    console.log('[Report] Using @sparticuz/chromium for production');
+    return puppeteer.launch({
+      args: chromium.args,
+      defaultViewport: chromium.defaultViewport,
+      executablePath: await chromium.executablePath(),
+      headless: chromium.headless,
+    });
+  }
+
+  console.log('[Report] Using local Puppeteer');
+  return puppeteer.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-web-security',
+      '--disable-features=IsolateOrigins,site-per-process',
+    ],
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+  });
+}
+
+/**
+ * Chart as a standalone, scalable SVG document with its title on a white
+ * background, or an empty string for chart data the generator cannot draw
+ */
+export function chartSvg(chartData: any): string {
+  let svg: string;
+  try {
+    svg = generateSVGChart(chartData, CHART_COLORS).trim();
+  } catch (error) {
+    console.warn('[Report] Failed to draw chart SVG:', error);
+    return '';
+  }
+
+  const size = svg.match(/^<svg width="(\d+)" height="(\d+)"/);
+  if (!size) return svg;
+  const width = Number(size[1]);
+  const titleHeight = chartData?.title ? CHART_TITLE_HEIGHT : 0;
+  const height = Number(size[2]) + titleHeight;
+  const body = svg.replace(/^<svg[^>]*>/, '').replace(/<\/svg>$/, '');
+  const title = chartData?.title
+    ? `<text x="${width / 2}" y="30" text-anchor="middle" font-family="-apple-system, 'Segoe UI', sans-serif" font-size="18" font-weight="600" fill="#111827">${escapeXml(String(chartData.title))}</text>`
+    : '';
+
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" font-family="-apple-system, 'Segoe UI', sans-serif">
+  <rect width="${width}" height="${height}" fill="#ffffff"/>
+  ${title}
+  <g transform="translate(0 ${titleHeight})">${body}</g>
+</svg>
+`;
+}
+
+/**
+ * Render a chart as a high-resolution PNG image using Puppeteer
+ * by navigating to a standalone HTML page with the chart. Returns base64,
+ * or an empty string when rendering fails.
+ */
+export async function renderChartAsImage(
+  browser: Browser,
+  chartId: string,
+  parsedChartData: any
+): Promise<string> {
+  console.log('[Report] Rendering chart:', chartId);
+
+  // Create a standalone HTML page with Recharts loaded from CDN
+  const chartHtml = createRechartsHtml(parsedChartData);
+
+  console.log('[Report] Chart HTML created, length:', chartHtml.length);
+
+  const page = await browser.newPage();
+
+  // Disable web security to allow CDN scripts
+  await page.setBypassCSP(true);
+
+  // Listen to console messages from the page
+  page.on('console', msg => {
+    const type = msg.type();
+    const text = msg.text();
+    if (type === 'error') {
+      console.error('[Report - Browser Console Error]:', text);
+    } else if (type === 'warn') {
+      console.warn('[Report - Browser Console Warning]:', text);
+    } else {
+      console.log('[Report - Browser Console]:', text);
+    }
+  });
+
+  // Listen to page errors
+  page.on('pageerror', (error) => {
+    console.error('[Report - Page Error]:', error instanceof Error ? error.message : String(error));
+  });
+
+  try {
+    // Set viewport for proper chart rendering
+    await page.setViewport({
+      width: 1200,
+      height: 800,
+      deviceScaleFactor: 1.5,
+    });
+
+    console.log('[Report] Setting page content...');
+
+    // Set HTML content with longer timeout
+    await page.setContent(chartHtml, {
+      waitUntil: 'networkidle0',
+      timeout: 30000
+    });
+
+    console.log('[Report] Page content set, waiting for render...');
+
+    // Wait for chart to render
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    console.log('[Report] Finding chart wrapper element...');
+
+    // Find the chart wrapper element and screenshot it
+    const element = await page.$('.chart-wrapper');
+
+    if (!element) {
+      console.error('[Report] Chart wrapper element not found in page');
+      throw new Error('Chart wrapper not found');
+    }
+
+    console.log('[Report] Taking screenshot...');
+
+    // Take screenshot of just the chart wrapper
+    const screenshot = await element.screenshot({
+      type: 'png',
+      omitBackground: false,
+    });
+
+    const base64 = Buffer.from(screenshot).toString('base64');
+    console.log('[Report] Chart rendered successfully:', chartId, 'Size:', base64.length);
+    return base64;
+  } catch (error) {
+    console.error('[Report] Failed to render chart:', chartId);
+    console.error('[Report] Error details:', error);
+    return '';
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Create HTML with pure SVG chart - no external dependencies, no CORS issues
+ * This approach is based on the atlas app's proven PDF chart rendering
+ */
+function createRechartsHtml(chartData: any): string {
+  const logoPath = path.join(process.cwd(), 'public', 'valyu.svg');
+  const logoSvg = fs.readFileSync(logoPath, 'utf-8');
+
+  const { chartType, title, description, dataSeries } = chartData;
+  const colors = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+  // Generate SVG chart
+  const svgChart = generateSVGChart(chartData, colors);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+          background: white;
+          padding: 0;
+          margin: 0;
+        }
+        .chart-wrapper {
+          background: white;
+          border-radius: 8px;
+          padding: 24px;
+          width: 1100px;
+          box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+        }
+        .chart-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          margin-bottom: 20px;
+          padding-bottom: 12px;
+          border-bottom: 1px solid #e5e7eb;
+        }
+        .chart-title {
+          font-size: 18px;
+          font-weight: 600;
+          color: #111827;
+          margin-bottom: 4px;
+        }
+        .chart-description {
+          font-size: 12px;
+          color: #6b7280;
+          max-width: 700px;
+        }
+        .logo {
+          max-width: 60px !important;
+          width: 60px !important;
+          height: auto !important;
+          opacity: 0.8;
+        }
+        .logo svg {
+          max-width: 60px !important;
+          width: 60px !important;
+          height: auto !important;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="chart-wrapper">
+        <div class="chart-header">
+          <div>
+            <div class="chart-title">${title || 'Chart'}</div>
+            ${description ? `<div class="chart-description">${description}</div>` : ''}
+          </div>
+          <div class="logo">${logoSvg}</div>
+        </div>
+        <div class="chart-content">
+          ${svgChart}
+        </div>
+      </div>
+    </body>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Generate SVG chart - no external dependencies, renders inline
+ * Based on atlas app approach for reliable PDF chart rendering
+ */
+function generateSVGChart(chartData: any, colors: string[]): string {
+  const { chartType, dataSeries, xAxisLabel, yAxisLabel } = chartData;
+
+  if (chartType === 'network' && chartData.graph) {
+    return generateNetworkSVG(chartData.graph);
+  }
+
+  const width = 1100;
+  const height = 480;
+  const padding = { top: 40, right: 60, bottom: 60, left: 80 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  // Collect all data points and find min/max
+  const allValues: number[] = [];
+  const xLabels: string[] = [];
+  dataSeries?.forEach((series: any) => {
+    series.data?.forEach((point: any) => {
+      allValues.push(point.y);
+      if (!xLabels.includes(String(point.x))) {
+        xLabels.push(String(point.x));
+      }
+    });
+  });
+
+  const maxY = Math.max(...allValues);
+  const minY = Math.min(...allValues, 0);
+  const yRange = maxY - minY;
+  const yScale = chartHeight / yRange;
+
+  // Generate chart based on type
+  let chartElements = '';
+
+  if (chartType === 'bar') {
+    const barWidth = chartWidth / (xLabels.length * dataSeries.length + xLabels.length);
+    const groupWidth = barWidth * dataSeries.length;
+
+    xLabels.forEach((xLabel, xIndex) => {
+      dataSeries.forEach((series: any, seriesIndex: number) => {
+        const point = series.data.find((p: any) => String(p.x) === xLabel);
+        if (point) {
+          const barHeight = (point.y - minY) * yScale;
+          const x = padding.left + xIndex * (groupWidth + barWidth) + seriesIndex * barWidth;
+          const y = padding.top + chartHeight - barHeight;
+
+          chartElements += `
+            <rect x="${x}" y="${y}" width="${barWidth * 0.9}" height="${barHeight}"
+                  fill="${colors[seriesIndex % colors.length]}" rx="6" ry="6"/>
+          `;
+        }
+      });
+    });
+  } else if (chartType === 'line' || chartType === 'area') {
+    dataSeries?.forEach((series: any, seriesIndex: number) => {
+      const points: string[] = [];
+      xLabels.forEach((xLabel, xIndex) => {
+        const point = series.data.find((p: any) => String(p.x) === xLabel);
+        if (point) {
+          const x = padding.left + (xIndex / (xLabels.length - 1)) * chartWidth;
+          const y = padding.top + chartHeight - (point.y - minY) * yScale;
+          points.push(`${x},${y}`);
+        }
+      });
+
+      const pathData = `M ${points.join(' L ')}`;
+
+      if (chartType === 'area') {
+        const areaPath = `${pathData} L ${padding.left + chartWidth},${padding.top + chartHeight} L ${padding.left},${padding.top + chartHeight} Z`;
+        chartElements += `
+          <path d="${areaPath}" fill="${colors[seriesIndex % colors.length]}" opacity="0.3"/>
+        `;
+      }
+
+      chartElements += `
+        <path d="${pathData}" fill="none" stroke="${colors[seriesIndex % colors.length]}"
+              stroke-width="3" stroke-linecap="round" stroke-linejoin="round"/>
+      `;
+
+      // Add dots
+      points.forEach(point => {
+        const [x, y] = point.split(',');
+        chartElements += `
+          <circle cx="${x}" cy="${y}" r="5" fill="white" stroke="${colors[seriesIndex % colors.length]}" stroke-width="2"/>
+        `;
+      });
+    });
+  }
+
+  // Grid lines
+  let gridLines = '';
+  for (let i = 0; i <= 5; i++) {
+    const y = padding.top + (chartHeight / 5) * i;
+    gridLines += `<line x1="${padding.left}" y1="${y}" x2="${padding.left + chartWidth}" y2="${y}" stroke="#e5e7eb" stroke-dasharray="3,3"/>`;
+  }
+
+  // Axes
+  const axes = `
+    <line x1="${padding.left}" y1="${padding.top}" x2="${padding.left}" y2="${padding.top + chartHeight}" stroke="#333" stroke-width="2"/>
+    <line x1="${padding.left}" y1="${padding.top + chartHeight}" x2="${padding.left + chartWidth}" y2="${padding.top + chartHeight}" stroke="#333" stroke-width="2"/>
+  `;
+
+  // Y-axis labels
+  let yLabels = '';
+  for (let i = 0; i <= 5; i++) {
+    const value = minY + (yRange / 5) * (5 - i);
+    const y = padding.top + (chartHeight / 5) * i;
+    yLabels += `<text x="${padding.left - 15}" y="${y + 5}" text-anchor="end" fill="#6b7280" font-size="11">${value.toFixed(0)}</text>`;
+  }
+
+  // X-axis labels
+  let xLabelsHtml = '';
+  xLabels.forEach((label, index) => {
+    const x = padding.left + (index / (xLabels.length - 1)) * chartWidth;
+    xLabelsHtml += `<text x="${x}" y="${padding.top + chartHeight + 30}" text-anchor="middle" fill="#6b7280" font-size="11">${escapeXml(label)}</text>`;
+  });
+
+  // Legend - centered at bottom
+  const legendItemWidth = 200;
+  const totalLegendWidth = dataSeries.length * legendItemWidth;
+  const legendStartX = (width - totalLegendWidth) / 2;
+
+  let legend = '';
+  dataSeries?.forEach((series: any, index: number) => {
+    const x = legendStartX + index * legendItemWidth;
+    const y = height - 20;
+    legend += `
+      <rect x="${x}" y="${y - 12}" width="15" height="15" fill="${colors[index % colors.length]}" rx="3"/>
+      <text x="${x + 22}" y="${y}" fill="#6b7280" font-size="13" font-weight="500">${escapeXml(String(series.name ?? ''))}</text>
+    `;
+  });
+
+  return `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      ${gridLines}
+      ${axes}
+      ${chartElements}
+      ${yLabels}
+      ${xLabelsHtml}
+      ${legend}
+    </svg>
+  `;
+}
+
+/**
+ * Generate citation network SVG using the same layout as CitationNetworkChart
+ */
+function generateNetworkSVG(graph: CitationGraph): string {
+  const width = 1100;
+  const height = 560;
+  const nodes = layoutCitationGraph(graph, width, height);
+  const positions = new Map(nodes.map((n) => [n.id, n]));
+  const showAllLabels = nodes.length <= 25;
+
+  const edges = graph.edges
+    .map((edge) => {
+      const source = positions.get(edge.source);
+      const target = positions.get(edge.target);
+      if (!source || !target) return '';
+      const r = nodeRadius(graph, target.id) + 2;
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const len = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      return `<line x1="${source.x}" y1="${source.y}" x2="${target.x - (dx / len) * r}" y2="${target.y - (dy / len) * r}"
+                    stroke="#94a3b8" stroke-width="1.2" stroke-opacity="0.7" marker-end="url(#arrow)"/>`;
+    })
+    .join('');
+
+  const circles = nodes
+    .map((node) => {
+      const color = HOP_COLORS[Math.min(node.hop, HOP_COLORS.length - 1)];
+      const radius = nodeRadius(graph, node.id);
+      const label = node.hop === 0 || showAllLabels
+        ? `<text x="${node.x}" y="${node.y + radius + 12}" text-anchor="middle" font-size="${node.hop === 0 ? 12 : 10}"
+                 font-weight="${node.hop === 0 ? 600 : 400}" fill="#374151">${escapeXml(node.id)}</text>`
+        : '';
+      return `<circle cx="${node.x}" cy="${node.y}" r="${radius}" fill="${node.resolved ? color : '#ffffff'}"
+                      stroke="${color}" stroke-width="${node.resolved ? 1 : 2}"/>${label}`;
+    })
+    .join('');
+
+  return `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8"/>
+        </marker>
+      </defs>
+      ${edges}
+      ${circles}
+    </svg>
+  `;
+}
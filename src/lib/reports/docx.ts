@@ -0,0 +1,478 @@
+/**
+ * Word Reports
+ * The report as an editable .docx (WordprocessingML): markdown blocks become
+ * styled paragraphs and real tables, charts are embedded PNGs with captions,
+ * and citation markers link to a numbered references list.
+ */
+
+import { Citation } from '@/lib/citation-utils';
+import { formatProvenanceFootnote } from '@/lib/provenance';
+import { createZip, ZipEntry } from './zip';
+import { SessionReport } from './session-report';
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 with 2cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+
+// Drawing sizes are in EMU
+const EMU_PER_INCH = 914400;
+const CHART_WIDTH_EMU = 6 * EMU_PER_INCH;
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const NS_DRAWING = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_PICTURE = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+const NS_WORD_DRAWING = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+
+const PLACEHOLDER_PATTERN = /__(CHART|CSV)_([A-Za-z0-9-]+)__/g;
+
+interface RunStyle {
+  rStyle?: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+/** Relationships, media and counters collected while writing document.xml */
+interface DocxContext {
+  report: SessionReport;
+  chartImages: Map<string, string>;
+  citationNumbers: Set<string>;
+  relationships: string[];
+  media: ZipEntry[];
+  drawingCount: number;
+  figureCount: number;
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Drops HTML tags except line breaks, which inlineRuns turns into w:br */
+function stripHtml(text: string): string {
+  return text.replace(/<(?!br\b)\/?[a-z][^>]*>/gi, '');
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  // Property order is fixed by the schema
+  const props = [
+    style.rStyle ? `<w:rStyle w:val="${style.rStyle}"/>` : '',
+    style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.code ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : '',
+  ].join('');
+  const content = text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function addRelationship(ctx: DocxContext, type: string, target: string, external = false): string {
+  const id = `rId${ctx.relationships.length + 2}`; // rId1 is the styles part
+  ctx.relationships.push(
+    `<Relationship Id="${id}" Type="${NS_RELATIONSHIPS}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+  );
+  return id;
+}
+
+function hyperlink(ctx: DocxContext, url: string, label: string, style: RunStyle): string {
+  if (!/^(https?:|mailto:)/i.test(url)) return run(label, style);
+  const id = addRelationship(ctx, 'hyperlink', url, true);
+  return `<w:hyperlink r:id="${id}" w:history="1">${run(label, { ...style, rStyle: 'Hyperlink' })}</w:hyperlink>`;
+}
+
+// Groups: 1 image alt, 2 image url, 3 bold marker, 4 bold text, 5 code,
+// 6 link label, 7 link url, 8 citation numbers, 9 italic text
+const INLINE_PATTERN = /!\[([^\]]*)\]\(([^)\s]+)\)|(\*\*|__)(.+?)\3|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\[(\d+(?:\s*,\s*\d+)*)\]|\*([^*\s][^*]*?)\*/g;
+
+/** Runs for a line of inline markdown: emphasis, code, links and citation markers */
+function inlineRuns(markdown: string, ctx: DocxContext, style: RunStyle = {}): string {
+  const text = markdown.replace(/<br\s*\/?>/gi, '\n');
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let xml = '';
+  let lastIndex = 0;
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) xml += run(text.slice(lastIndex, match.index), style);
+    lastIndex = pattern.lastIndex;
+
+    if (match[2] !== undefined) {
+      xml += hyperlink(ctx, match[2], match[1] || match[2], style);
+    } else if (match[4] !== undefined) {
+      xml += inlineRuns(match[4], ctx, { ...style, bold: true });
+    } else if (match[5] !== undefined) {
+      xml += run(match[5], { ...style, code: true });
+    } else if (match[7] !== undefined) {
+      xml += hyperlink(ctx, match[7], match[6], style);
+    } else if (match[8] !== undefined) {
+      xml += match[8]
+        .split(',')
+        .map((n) => n.trim())
+        .map((n) =>
+          ctx.citationNumbers.has(n)
+            ? `<w:hyperlink w:anchor="ref_${n}" w:history="1">${run(`[${n}]`, { ...style, rStyle: 'Hyperlink' })}</w:hyperlink>`
+            : run(`[${n}]`, style)
+        )
+        .join('');
+    } else if (match[9] !== undefined) {
+      xml += inlineRuns(match[9], ctx, { ...style, italic: true });
+    }
+  }
+
+  if (lastIndex < text.length) xml += run(text.slice(lastIndex), style);
+  return xml;
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+function paragraph(content: string, { style, properties = '' }: { style?: string; properties?: string } = {}): string {
+  const pPr = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${properties}`;
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+/** Table cells split on unescaped pipes */
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .replace(/\\\|/g, '\u0000')
+    .split('|')
+    .map((cell) => cell.replace(/\u0000/g, '|').trim());
+}
+
+function table(header: string[], rows: string[][], cell: (text: string, isHeader: boolean) => string): string {
+  const columns = rows.reduce((max, cells) => Math.max(max, cells.length), Math.max(header.length, 1));
+  const columnWidth = Math.floor(TEXT_WIDTH / columns);
+  const padded = (cells: string[]) => Array.from({ length: columns }, (_, i) => cells[i] ?? '');
+
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${padded(cells)
+      .map(
+        (text) =>
+          `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${
+            isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''
+          }</w:tcPr>${paragraph(cell(text, isHeader), { style: 'TableText' })}</w:tc>`
+      )
+      .join('')}</w:tr>`;
+
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/><w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr><w:tblGrid>${Array.from(
+    { length: columns },
+    () => `<w:gridCol w:w="${columnWidth}"/>`
+  ).join('')}</w:tblGrid>${row(header, true)}${rows.map((cells) => row(cells, false)).join('')}</w:tbl>`;
+}
+
+function provenanceParagraph(ctx: DocxContext, artifactId: string): string {
+  const artifactProvenance = ctx.report.provenance.get(artifactId);
+  return artifactProvenance
+    ? paragraph(run(formatProvenanceFootnote(artifactProvenance)), { style: 'Provenance' })
+    : '';
+}
+
+/** Pixel size from the PNG header, or null if the data is not a PNG */
+function pngSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function chartBlock(ctx: DocxContext, chartId: string): string {
+  const chartData = ctx.report.charts.get(chartId);
+  const base64 = ctx.chartImages.get(chartId);
+  const image = base64 ? Buffer.from(base64, 'base64') : null;
+  const size = image ? pngSize(image) : null;
+
+  if (!image || !size || size.width === 0) {
+    return (
+      paragraph(run('Interactive chart available in the web version of this report.', { italic: true }), { style: 'Caption' }) +
+      provenanceParagraph(ctx, chartId)
+    );
+  }
+
+  ctx.drawingCount++;
+  ctx.figureCount++;
+  const name = `chart${ctx.drawingCount}.png`;
+  ctx.media.push({ path: `word/media/${name}`, data: image });
+  const relId = addRelationship(ctx, 'image', `media/${name}`);
+  const cx = CHART_WIDTH_EMU;
+  const cy = Math.round((CHART_WIDTH_EMU * size.height) / size.width);
+  const id = ctx.drawingCount;
+
+  const drawing = `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Chart ${id}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="${NS_DRAWING}" noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic xmlns:a="${NS_DRAWING}"><a:graphicData uri="${NS_PICTURE}"><pic:pic xmlns:pic="${NS_PICTURE}"><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+
+  const title = chartData?.title ? `: ${String(chartData.title)}` : '';
+  return (
+    paragraph(drawing, { properties: '<w:keepNext/><w:jc w:val="center"/>' }) +
+    paragraph(run(`Figure ${ctx.figureCount}${title}`), { style: 'Caption' }) +
+    provenanceParagraph(ctx, chartId)
+  );
+}
+
+function csvBlock(ctx: DocxContext, csvId: string): string {
+  const csv = ctx.report.csvs.get(csvId);
+  if (!csv) return paragraph(run('Table not available.', { italic: true }));
+
+  return (
+    (csv.title ? paragraph(run(csv.title, { bold: true }), { properties: '<w:keepNext/>' }) : '') +
+    (csv.description ? paragraph(run(csv.description), { properties: '<w:keepNext/>' }) : '') +
+    table(
+      csv.headers.map(String),
+      csv.rows.map((row) => row.map((value) => (value === null || value === undefined ? '' : String(value)))),
+      (text, isHeader) => run(text, { bold: isHeader })
+    ) +
+    provenanceParagraph(ctx, csvId)
+  );
+}
+
+/**
+ * Body XML for the report markdown: headings, paragraphs, lists, quotes,
+ * code blocks, rules and tables, with chart and CSV placeholders on their
+ * own lines expanded
+ */
+function markdownBlocks(markdown: string, ctx: DocxContext): string {
+  const lines = stripHtml(markdown).replace(PLACEHOLDER_PATTERN, '\n\n$&\n\n').split('\n');
+  const blocks: string[] = [];
+  let pending: { style?: string; prefix?: string; indent?: number; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const text = pending.lines.join(' ').trim();
+    const indent = pending.indent !== undefined
+      ? `<w:ind w:left="${360 * (pending.indent + 2)}" w:hanging="360"/>`
+      : '';
+    const prefix = pending.prefix ? `${run(pending.prefix)}<w:r><w:tab/></w:r>` : '';
+    if (text || prefix) blocks.push(paragraph(prefix + inlineRuns(text, ctx), { style: pending.style, properties: indent }));
+    pending = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) code.push(lines[i]);
+      code.forEach((codeLine) => blocks.push(paragraph(run(codeLine, { code: true }), { style: 'Code' })));
+      continue;
+    }
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    const placeholder = trimmed.match(/^__(CHART|CSV)_([A-Za-z0-9-]+)__$/);
+    if (placeholder) {
+      flush();
+      blocks.push(placeholder[1] === 'CHART' ? chartBlock(ctx, placeholder[2]) : csvBlock(ctx, placeholder[2]));
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flush();
+      blocks.push(paragraph(inlineRuns(heading[2], ctx), { style: `Heading${heading[1].length}` }));
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      flush();
+      blocks.push(paragraph('', { style: 'HorizontalRule' }));
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && /^\s*\|?\s*:?-{3,}/.test(lines[i + 1])) {
+      flush();
+      const header = tableCells(trimmed);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) rows.push(tableCells(lines[i]));
+      i--;
+      blocks.push(table(header, rows, (text, isHeader) => inlineRuns(text, ctx, { bold: isHeader })));
+      continue;
+    }
+
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flush();
+      const ordered = /^\d/.test(listItem[2]);
+      pending = {
+        style: 'ListParagraph',
+        prefix: ordered ? listItem[2].replace(')', '.') : '•',
+        indent: Math.min(Math.floor(listItem[1].replace(/\t/g, '  ').length / 2), 4),
+        lines: [listItem[3]],
+      };
+      continue;
+    }
+
+    const quote = trimmed.match(/^>\s?(.*)$/);
+    if (quote) {
+      if (pending?.style !== 'Quote') flush();
+      if (!pending) pending = { style: 'Quote', lines: [] };
+      pending.lines.push(quote[1]);
+      continue;
+    }
+
+    // Lazy continuation of the paragraph, list item or quote above
+    if (!pending) pending = { lines: [] };
+    pending.lines.push(trimmed);
+  }
+  flush();
+
+  return blocks.join('');
+}
+
+function referencesBlocks(citations: Citation[], ctx: DocxContext): string {
+  if (citations.length === 0) return '';
+
+  return (
+    paragraph(run('References'), { style: 'Heading1' }) +
+    citations
+      .map((citation, index) => {
+        const bookmark = `<w:bookmarkStart w:id="${index}" w:name="ref_${citation.number}"/><w:bookmarkEnd w:id="${index}"/>`;
+        const title = citation.url
+          ? hyperlink(ctx, citation.url, citation.title || citation.url, { bold: true })
+          : run(citation.title, { bold: true });
+        const details = [
+          citation.source,
+          citation.authors && citation.authors.length > 0 ? citation.authors.join(', ') : undefined,
+          citation.date,
+          citation.doi ? `DOI: ${citation.doi}` : undefined,
+        ].filter(Boolean);
+        return paragraph(
+          `${bookmark}${run(`[${citation.number}]`)}<w:r><w:tab/></w:r>${title}${
+            details.length > 0 ? run(`\n${details.join(' · ')}`, { rStyle: 'ReferenceDetails' }) : ''
+          }`,
+          { style: 'Reference' }
+        );
+      })
+      .join('')
+  );
+}
+
+// ============================================================================
+// PACKAGE PARTS
+// ============================================================================
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS_MAIN}" xmlns:r="${NS_RELATIONSHIPS}" xmlns:wp="${NS_WORD_DRAWING}"><w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+function paragraphStyle(id: string, name: string, pPr: string, rPr: string, basedOn = 'Normal'): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="${basedOn}"/><w:next w:val="Normal"/><w:qFormat/>${
+    pPr ? `<w:pPr>${pPr}</w:pPr>` : ''
+  }${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+}
+
+function stylesXml(): string {
+  const headingSizes = [32, 28, 26, 24, 22, 22];
+  const headings = headingSizes
+    .map((size, index) =>
+      paragraphStyle(
+        `Heading${index + 1}`,
+        `heading ${index + 1}`,
+        `<w:keepNext/><w:spacing w:before="${index === 0 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/>`,
+        `<w:b/><w:color w:val="111827"/><w:sz w:val="${size}"/>`
+      )
+    )
+    .join('');
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS_MAIN}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="1F2937"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+    + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`
+    + paragraphStyle('Title', 'Title', '<w:spacing w:after="80"/>', '<w:b/><w:color w:val="111827"/><w:sz w:val="44"/>')
+    + paragraphStyle('Subtitle', 'Subtitle', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="8" w:color="E5E7EB"/></w:pBdr><w:spacing w:after="360"/>', '<w:color w:val="6B7280"/><w:sz w:val="20"/>')
+    + headings
+    + paragraphStyle('ListParagraph', 'List Paragraph', '<w:spacing w:after="80"/>', '')
+    + paragraphStyle('Quote', 'Quote', '<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/>', '<w:i/><w:color w:val="4B5563"/>')
+    + paragraphStyle('Code', 'Code', '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/>')
+    + paragraphStyle('HorizontalRule', 'Horizontal Rule', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="E5E7EB"/></w:pBdr>', '')
+    + paragraphStyle('TableText', 'Table Text', '<w:spacing w:after="0" w:line="240" w:lineRule="auto"/>', '<w:sz w:val="18"/>')
+    + paragraphStyle('Caption', 'caption', '<w:spacing w:after="80"/><w:jc w:val="center"/>', '<w:i/><w:color w:val="4B5563"/><w:sz w:val="18"/>')
+    + paragraphStyle('Provenance', 'Provenance', '<w:spacing w:before="60" w:after="240"/>', '<w:i/><w:color w:val="6B7280"/><w:sz w:val="16"/>')
+    + paragraphStyle('Reference', 'Reference', '<w:spacing w:after="120"/><w:ind w:left="567" w:hanging="567"/>', '<w:sz w:val="20"/>')
+    + `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>`
+    + `<w:style w:type="character" w:styleId="ReferenceDetails"><w:name w:val="Reference Details"/><w:rPr><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style>`
+    + `<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>`
+    + `</w:styles>`;
+}
+
+function contentTypesXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+}
+
+function packageRelsXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS_PACKAGE_RELATIONSHIPS}"><Relationship Id="rId1" Type="${NS_RELATIONSHIPS}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+}
+
+function documentRelsXml(relationships: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS_PACKAGE_RELATIONSHIPS}"><Relationship Id="rId1" Type="${NS_RELATIONSHIPS}/styles" Target="styles.xml"/>${relationships.join('')}</Relationships>`;
+}
+
+function corePropertiesXml(title: string, created: Date): string {
+  const timestamp = created.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>Valyu</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified></cp:coreProperties>`;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * The report as a .docx file. chartImages holds base64 PNGs by chart ID
+ * (from renderChartAsImage); charts without one get a note instead.
+ */
+export function buildReportDocx(report: SessionReport, chartImages: Map<string, string> = new Map()): Buffer {
+  const ctx: DocxContext = {
+    report,
+    chartImages,
+    citationNumbers: new Set(report.citations.map((citation) => citation.number)),
+    relationships: [],
+    media: [],
+    drawingCount: 0,
+    figureCount: 0,
+  };
+
+  const created = new Date();
+  const date = created.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const body =
+    paragraph(run(report.title), { style: 'Title' }) +
+    paragraph(run(date), { style: 'Subtitle' }) +
+    markdownBlocks(report.markdown, ctx) +
+    referencesBlocks(report.citations, ctx);
+
+  return createZip([
+    { path: '[Content_Types].xml', data: contentTypesXml() },
+    { path: '_rels/.rels', data: packageRelsXml() },
+    { path: 'word/document.xml', data: documentXml(body) },
+    { path: 'word/styles.xml', data: stylesXml() },
+    { path: 'word/_rels/document.xml.rels', data: documentRelsXml(ctx.relationships) },
+    { path: 'docProps/core.xml', data: corePropertiesXml(report.title, created) },
+    ...ctx.media,
+  ]);
+}
@@ -0,0 +1,29 @@
+/**
+ * HTML Reports
+ * The PDF template as a standalone HTML file. Charts are embedded as SVG
+ * data URLs, so no browser is needed and they stay sharp at any zoom.
+ */
+
+import { buildPdfHtmlTemplate } from '@/lib/pdf-utils';
+import { chartSvg } from './charts';
+import { loadReportLogoDataUrl, SessionReport } from './session-report';
+
+export function buildReportHtml(report: SessionReport): string {
+  const chartImages = new Map<string, string>();
+  report.charts.forEach((chartData, chartId) => {
+    const svg = chartData ? chartSvg(chartData) : '';
+    if (svg) chartImages.set(chartId, Buffer.from(svg, 'utf8').toString('base64'));
+  });
+
+  return buildPdfHtmlTemplate({
+    title: report.title,
+    content: report.content,
+    citations: report.citations,
+    logoDataUrl: loadReportLogoDataUrl(),
+    chartImages,
+    chartImageType: 'svg+xml',
+    csvMarkdown: report.csvMarkdown,
+    provenance: report.provenance,
+    processingTimeMs: report.processingTimeMs,
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Markdown Reports
+ * Clean Markdown with the charts as SVG files in a charts/ folder next to it,
+ * CSVs as markdown tables and a numbered references list.
+ */
+
+import { Citation } from '@/lib/citation-utils';
+import { formatProvenanceFootnote } from '@/lib/provenance';
+import { chartSvg } from './charts';
+import { chartPlaceholder, csvPlaceholder, SessionReport } from './session-report';
+import { ZipEntry } from './zip';
+
+export const MARKDOWN_CHARTS_DIR = 'charts';
+
+function referenceLine(citation: Citation): string {
+  const title = citation.url ? `[${citation.title}](${citation.url})` : citation.title;
+  const details = [
+    citation.source,
+    citation.authors && citation.authors.length > 0 ? citation.authors.join(', ') : undefined,
+    citation.date,
+    citation.doi ? `DOI: ${citation.doi}` : undefined,
+  ].filter(Boolean);
+  return `${citation.number}. ${title}${details.length > 0 ? ` — ${details.join(', ')}` : ''}`;
+}
+
+/**
+ * The report as Markdown plus the chart files it links to, with paths
+ * relative to the Markdown file
+ */
+export function buildReportMarkdown(report: SessionReport): { markdown: string; assets: ZipEntry[] } {
+  const assets: ZipEntry[] = [];
+  const chartPaths = new Map<string, string>();
+
+  report.chartIds.forEach((chartId) => {
+    if (chartPaths.has(chartId)) return;
+    const chartData = report.charts.get(chartId);
+    const svg = chartData ? chartSvg(chartData) : '';
+    if (!svg) return;
+    const assetPath = `${MARKDOWN_CHARTS_DIR}/chart-${chartPaths.size + 1}.svg`;
+    chartPaths.set(chartId, assetPath);
+    assets.push({ path: assetPath, data: svg });
+  });
+
+  const footnote = (artifactId: string): string => {
+    const artifactProvenance = report.provenance.get(artifactId);
+    return artifactProvenance ? `\n\n*${formatProvenanceFootnote(artifactProvenance)}*` : '';
+  };
+
+  let body = report.markdown;
+
+  report.csvIds.forEach((csvId) => {
+    const table = report.csvMarkdown.get(csvId);
+    const replacement = table
+      ? `\n\n${table}${footnote(csvId)}\n\n`
+      : '\n\n*Table not available.*\n\n';
+    body = body.split(csvPlaceholder(csvId)).join(replacement);
+  });
+
+  report.chartIds.forEach((chartId) => {
+    const assetPath = chartPaths.get(chartId);
+    const title = String(report.charts.get(chartId)?.title || 'Chart').replace(/[\[\]]/g, '');
+    const replacement = assetPath
+      ? `\n\n![${title}](${assetPath})${footnote(chartId)}\n\n`
+      : '\n\n*Interactive chart available in the web version of this report.*\n\n';
+    body = body.split(chartPlaceholder(chartId)).join(replacement);
+  });
+
+  const sections = [`# ${report.title}`, body.replace(/\n{3,}/g, '\n\n').trim()];
+  if (report.citations.length > 0) {
+    sections.push(`## References\n\n${report.citations.map(referenceLine).join('\n')}`);
+  }
+
+  return { markdown: `${sections.join('\n\n')}\n`, assets };
+}
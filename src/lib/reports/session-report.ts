@@ -0,0 +1,233 @@
+/**
+ * Session Reports
+ * The content every report export shares: the assistant messages of a chat
+ * session as one markdown document, the numbered citations from its search
+ * tool results, and the charts and CSVs it embeds. Embeds are replaced by
+ * __CHART_<id>__ and __CSV_<id>__ placeholders that each format fills in its
+ * own way (PNG or SVG for charts, real or markdown tables for CSVs).
+ */
+
+import * as db from '@/lib/db';
+import { parseJson } from '@/lib/db-rows';
+import { cleanBiomedicalText, preprocessMarkdownText } from '@/lib/markdown-utils';
+import { Citation, citationFromResult, getSearchToolName } from '@/lib/citation-utils';
+import { csvToMarkdownTable, formatCsvForMarkdown, CSVData } from '@/lib/csv-utils';
+import { ArtifactProvenance, parseProvenance } from '@/lib/provenance';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SessionReport {
+  title: string;
+  /** Markdown preprocessed for HTML rendering (math, stray $), with placeholders */
+  content: string;
+  /** Markdown as the assistant wrote it, with placeholders */
+  markdown: string;
+  citations: Citation[];
+  /** Embedded chart IDs in order of appearance */
+  chartIds: string[];
+  csvIds: string[];
+  /** Parsed chart_data by chart ID */
+  charts: Map<string, any>;
+  csvs: Map<string, CSVData>;
+  /** Escaped markdown table by CSV ID */
+  csvMarkdown: Map<string, string>;
+  /** Chart and CSV provenance by artifact ID (artifacts saved before provenance existed have none) */
+  provenance: Map<string, ArtifactProvenance>;
+  processingTimeMs: number;
+}
+
+export interface SessionReportError {
+  message: string;
+  status: number;
+}
+
+export function chartPlaceholder(chartId: string): string {
+  return `__CHART_${chartId}__`;
+}
+
+export function csvPlaceholder(csvId: string): string {
+  return `__CSV_${csvId}__`;
+}
+
+/** Report file name stem from the session title */
+export function sanitizeFileName(title: string): string {
+  return title
+    .replace(/[^a-z0-9]/gi, '_')
+    .toLowerCase()
+    .substring(0, 50);
+}
+
+/**
+ * Markdown text of the assistant messages, their citations and total
+ * processing time
+ */
+function collectAssistantContent(messages: any[]) {
+  let markdownContent = '';
+  const citations: Citation[] = [];
+  let citationNumber = 1;
+  let processingTimeMs = 0;
+
+  for (const message of messages.filter((m: any) => m.role === 'assistant')) {
+    // Handle content field - in local DB it's a JSON string, in Supabase it might be an array
+    let content = message.content;
+    if (typeof content === 'string') {
+      try {
+        content = JSON.parse(content);
+      } catch (e) {
+        console.warn('[Report] Failed to parse message content:', e);
+        continue;
+      }
+    }
+    if (!content || !Array.isArray(content)) continue;
+
+    // Handle both field name formats: processing_time_ms (Supabase) and processingTimeMs (local DB)
+    const processingTime = message.processing_time_ms || message.processingTimeMs;
+    if (processingTime) {
+      processingTimeMs += processingTime;
+    }
+
+    for (const part of content) {
+      if (part.type === 'text' && part.text) {
+        markdownContent += part.text + '\n\n';
+      }
+      // Extract citations from tool results (live "tool-<name>" parts and legacy "tool-result" parts)
+      else if (getSearchToolName(part) && (part.output || part.result)) {
+        try {
+          const raw = part.output || part.result;
+          const result = typeof raw === 'string' ? JSON.parse(raw) : raw;
+          if (result.results && Array.isArray(result.results)) {
+            for (const item of result.results) {
+              citations.push(citationFromResult(item, citationNumber, getSearchToolName(part)));
+              citationNumber++;
+            }
+          }
+        } catch (error) {
+          // Ignore parsing errors
+        }
+      }
+    }
+  }
+
+  return { markdownContent, citations, processingTimeMs };
+}
+
+/**
+ * The user's session assembled for export, or an error with the HTTP status
+ * to answer with
+ */
+export async function buildSessionReport(
+  sessionId: string,
+  userId: string
+): Promise<{ data: SessionReport | null; error: SessionReportError | null }> {
+  const { data: sessionData, error: sessionError } = await db.getChatSession(sessionId, userId);
+  if (sessionError || !sessionData) {
+    return { data: null, error: { message: 'Session not found', status: 404 } };
+  }
+
+  const { data: messages, error: messagesError } = await db.getChatMessages(sessionId);
+  if (messagesError) {
+    console.error('[Report] Error fetching messages:', messagesError);
+    return { data: null, error: { message: 'Failed to fetch messages', status: 500 } };
+  }
+  if (!messages || messages.length === 0) {
+    return { data: null, error: { message: 'No messages found in session', status: 404 } };
+  }
+
+  const { markdownContent, citations, processingTimeMs } = collectAssistantContent(messages);
+
+  // Extract chart IDs and CSV IDs from markdown
+  const chartPattern = /!\[.*?\]\(\/api\/charts\/([^\/]+)\/image\)/g;
+  const chartIds: string[] = [];
+  let match;
+  while ((match = chartPattern.exec(markdownContent)) !== null) {
+    chartIds.push(match[1]);
+  }
+
+  const csvPattern = /!\[.*?\]\((csv:([a-f0-9-]+)|\/api\/csvs\/([a-f0-9-]+))\)/g;
+  const csvIds: string[] = [];
+  while ((match = csvPattern.exec(markdownContent)) !== null) {
+    const csvId = match[2] || match[3]; // Get ID from either csv:uuid or /api/csvs/uuid format
+    if (csvId) csvIds.push(csvId);
+  }
+
+  // Replace chart and CSV markdown with placeholders
+  const withPlaceholders = (text: string): string => {
+    let result = text;
+    chartIds.forEach((chartId) => {
+      // Escape special regex characters in the URL and match any text in the alt text
+      const chartMarkdown = `!\\[.*?\\]\\(\\/api\\/charts\\/${chartId}\\/image\\)`;
+      result = result.replace(new RegExp(chartMarkdown, 'g'), chartPlaceholder(chartId));
+    });
+    csvIds.forEach((csvId) => {
+      const csvMarkdownPattern = `!\\[.*?\\]\\((csv:${csvId}|\\/api\\/csvs\\/${csvId})\\)`;
+      result = result.replace(new RegExp(csvMarkdownPattern, 'g'), csvPlaceholder(csvId));
+    });
+    return result;
+  };
+
+  const cleanedMarkdown = cleanBiomedicalText(markdownContent);
+
+  // Fetch chart data, CSV data and provenance
+  const charts = new Map<string, any>();
+  const csvs = new Map<string, CSVData>();
+  const csvMarkdown = new Map<string, string>();
+  const provenance = new Map<string, ArtifactProvenance>();
+
+  await Promise.all([
+    ...Array.from(new Set(chartIds)).map(async (chartId) => {
+      const { data } = await db.getChart(chartId);
+      if (!data) return;
+      charts.set(chartId, parseJson((data as any).chart_data ?? (data as any).chartData, null));
+      const chartProvenance = parseProvenance(data.provenance);
+      if (chartProvenance) provenance.set(chartId, chartProvenance);
+    }),
+    ...Array.from(new Set(csvIds)).map(async (csvId) => {
+      const { data } = await db.getCSV(csvId);
+      if (!data) return;
+      const csvData: CSVData = {
+        title: data.title || 'Table',
+        description: data.description || undefined,
+        headers: parseJson(data.headers, []),
+        rows: parseJson(data.rows, []),
+      };
+      csvs.set(csvId, csvData);
+      // Format and convert to markdown table (same as chat interface)
+      csvMarkdown.set(csvId, csvToMarkdownTable(formatCsvForMarkdown(csvData)));
+      const csvProvenance = parseProvenance(data.provenance);
+      if (csvProvenance) provenance.set(csvId, csvProvenance);
+    }),
+  ]);
+
+  return {
+    data: {
+      title: sessionData.title || 'Patent Research Report',
+      content: withPlaceholders(preprocessMarkdownText(cleanedMarkdown)),
+      markdown: withPlaceholders(cleanedMarkdown),
+      citations,
+      chartIds,
+      csvIds,
+      charts,
+      csvs,
+      csvMarkdown,
+      provenance,
+      processingTimeMs,
+    },
+    error: null,
+  };
+}
+
+/** Letterhead logo as a data URL, or an empty string if it is missing */
+export function loadReportLogoDataUrl(): string {
+  try {
+    const logoPath = path.join(process.cwd(), 'public', 'valyu.svg');
+    if (!fs.existsSync(logoPath)) {
+      console.warn('[Report] Logo file not found, continuing without logo');
+      return '';
+    }
+    const logoBase64 = Buffer.from(fs.readFileSync(logoPath, 'utf-8')).toString('base64');
+    return `data:image/svg+xml;base64,${logoBase64}`;
+  } catch (error) {
+    console.warn('[Report] Failed to load logo:', error);
+    return '';
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Search Cache
+ * Wraps a provider so repeated searches - the same query re-issued across
+ * follow-ups and sessions - are answered from the database instead of being
+ * searched and billed again.
+ *
+ * Entries are keyed on the provider, source, normalized query and options,
+ * and expire after SEARCH_CACHE_TTL_SECONDS (default one day, 0 disables the
+ * cache). Hits cost nothing, come back marked cached, and are recorded
+ * against the user with the dollars they saved.
+ *
+ * Only successful searches with results are stored: a failed call throws
+ * before anything is written, and an empty answer is searched again next
+ * time rather than served to every user for the whole TTL.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import * as db from '@/lib/db';
+import type { SearchProvider, SearchRequest, SearchResponse } from './provider';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export function searchCacheTtlSeconds(): number {
+  const configured = Number(process.env.SEARCH_CACHE_TTL_SECONDS);
+  return process.env.SEARCH_CACHE_TTL_SECONDS !== undefined && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_TTL_SECONDS;
+}
+
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function searchCacheKey(providerLabel: string, request: SearchRequest): string {
+  const key = {
+    provider: providerLabel,
+    source: request.source,
+    query: normalizeSearchQuery(request.query),
+    maxResults: request.maxResults,
+    startDate: request.startDate || null,
+    endDate: request.endDate || null,
+  };
+  return createHash('sha256').update(JSON.stringify(key)).digest('hex');
+}
+
+export function withSearchCache(
+  provider: SearchProvider,
+  {
+    ttlSeconds = searchCacheTtlSeconds(),
+    userId,
+    sessionId,
+  }: {
+    ttlSeconds?: number;
+    /** Who hits are credited to in the savings report */
+    userId?: string;
+    sessionId?: string;
+  } = {}
+): SearchProvider {
+  if (ttlSeconds <= 0) return provider;
+
+  return {
+    ...provider,
+
+    async search(request: SearchRequest): Promise<SearchResponse> {
+      const key = searchCacheKey(provider.label, request);
+
+      try {
+        const { data: entry } = await db.getSearchCacheEntry(key);
+        if (entry) {
+          const cached = typeof entry.response === 'string' ? JSON.parse(entry.response) : entry.response;
+          const savedDollars = Number((entry as any).costDollars ?? (entry as any).cost_dollars ?? 0);
+
+          if (userId) {
+            await db.createSearchCacheHit({
+              id: randomUUID(),
+              user_id: userId,
+              session_id: sessionId || null,
+              source: request.source,
+              query: request.query,
+              saved_dollars: savedDollars,
+            });
+          }
+
+          return { ...cached, costDollars: 0, cached: true, savedDollars };
+        }
+      } catch (error) {
+        console.error('[SearchCache] Failed to read cache:', error);
+      }
+
+      const response = await provider.search(request);
+      if (response.results.length === 0) return response;
+
+      try {
+        await db.saveSearchCacheEntry({
+          key,
+          source: request.source,
+          query: request.query,
+          response,
+          cost_dollars: response.costDollars,
+          expires_at: new Date(Date.now() + ttlSeconds * 1000),
+        });
+      } catch (error) {
+        console.error('[SearchCache] Failed to write cache:', error);
+      }
+
+      return response;
+    },
+  };
+}
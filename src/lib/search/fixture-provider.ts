@@ -0,0 +1,69 @@
+/**
+ * Fixture Search Provider
+ * Replays search and contents responses recorded as JSON files, so the whole
+ * chat flow runs in tests and offline demos without network access.
+ *
+ * Each call maps to one file named after its source, a slug of the query and
+ * a hash of the full request. Record a set by running against Valyu with
+ * SEARCH_FIXTURES_MODE=record; replaying a call that was never recorded fails
+ * with the file name it looked for.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { ContentsResponse, SearchProvider, SearchRequest, SearchResponse } from './provider';
+
+interface Fixture<Request, Response> {
+  request: Request;
+  response: Response;
+}
+
+function fixtureFile(dir: string, kind: string, request: object, label: string): string {
+  const hash = createHash('sha1').update(JSON.stringify({ kind, ...request })).digest('hex').slice(0, 10);
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return path.join(dir, `${kind}-${slug || 'query'}-${hash}.json`);
+}
+
+export function createFixtureSearchProvider({
+  dir,
+  recordFrom,
+}: {
+  dir: string;
+  /** Provider to call and record from when a fixture is missing */
+  recordFrom?: SearchProvider;
+}): SearchProvider {
+  /** Recorded response, or a live one that gets recorded. Only live calls cost anything. */
+  async function replay<Request extends object, Response extends { costDollars: number }>(
+    file: string,
+    request: Request,
+    live: (() => Promise<Response>) | undefined
+  ): Promise<Response> {
+    if (fs.existsSync(file)) {
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture<Request, Response>;
+      return { ...fixture.response, costDollars: 0 };
+    }
+    if (!live) {
+      throw new Error(`No recorded search fixture ${path.basename(file)} in ${dir}`);
+    }
+
+    const response = await live();
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ request, response }, null, 2));
+    return response;
+  }
+
+  return {
+    label: recordFrom ? `${recordFrom.label}, recording` : 'recorded fixtures',
+    billable: !!recordFrom?.billable,
+
+    async search(request: SearchRequest): Promise<SearchResponse> {
+      const key = { ...request, query: request.query.trim().toLowerCase() };
+      return replay(fixtureFile(dir, request.source, key, request.query), key, recordFrom && (() => recordFrom.search(request)));
+    },
+
+    async contents(urls: string[]): Promise<ContentsResponse> {
+      return replay(fixtureFile(dir, 'contents', { urls }, urls[0] || ''), { urls }, recordFrom && (() => recordFrom.contents(urls)));
+    },
+  };
+}
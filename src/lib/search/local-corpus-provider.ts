@@ -0,0 +1,28 @@
+/**
+ * Local Corpus Search Provider
+ * Patent searches answered from the USPTO corpus imported into SQLite (see
+ * lib/patents/local-corpus.ts). There is no web index or URL fetching
+ * offline: web searches come back empty and contents() fails.
+ */
+
+import { searchLocalCorpus } from '@/lib/patents/local-corpus';
+import type { SearchProvider } from './provider';
+
+export const localCorpusSearchProvider: SearchProvider = {
+  label: 'local corpus',
+  billable: false,
+
+  async search({ query, source, maxResults, startDate, endDate }) {
+    if (source === 'web') {
+      return { results: [], costDollars: 0 };
+    }
+    return {
+      results: searchLocalCorpus(query, { maxResults, startDate, endDate }),
+      costDollars: 0,
+    };
+  },
+
+  async contents() {
+    throw new Error('Fetching URLs is not available with the local patent corpus.');
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Search Providers
+ * Every tool that searches patents or the web, or fetches a URL, goes through
+ * a SearchProvider instead of building a Valyu client inline. The chat route
+ * creates one per request and hands it to tools via experimental_context.
+ *
+ * Providers answer with raw results in Valyu's result shape, so the patent
+ * normalization in lib/patents works the same whichever provider ran.
+ */
+
+import { createValyuSearchProvider } from './valyu-provider';
+import { createFixtureSearchProvider } from './fixture-provider';
+import { localCorpusSearchProvider } from './local-corpus-provider';
+import { withSearchCache } from './cached-provider';
+import { isLocalCorpusEnabled } from '@/lib/patents/local-corpus';
+
+/**
+ * What a search is for. Providers map each to their own source selection,
+ * e.g. Valyu's includedSources and relevanceThreshold.
+ */
+export type SearchSource = 'patents' | 'patentAnalysis' | 'patentNumbers' | 'web';
+
+export interface SearchRequest {
+  query: string;
+  source: SearchSource;
+  maxResults: number;
+  /** Publication date window, YYYY-MM-DD */
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SearchResponse {
+  /** Raw results in Valyu's shape - normalize patents with normalizePatentResults */
+  results: any[];
+  costDollars: number;
+  /** Served from the search cache - costDollars is 0 and nothing is billed */
+  cached?: boolean;
+  /** What the cached search cost when it originally ran */
+  savedDollars?: number;
+}
+
+export interface ContentsResponse {
+  results: Array<{ url: string; title?: string; content?: string; status: 'success' | 'failed' }>;
+  costDollars: number;
+}
+
+export interface SearchProvider {
+  /** Shown to users as the data source, e.g. "USPTO (via Valyu)" */
+  label: string;
+  /** Whether calls cost money and are billed to pay-per-use users */
+  billable: boolean;
+  search(request: SearchRequest): Promise<SearchResponse>;
+  /** Fetch the full content of URLs */
+  contents(urls: string[]): Promise<ContentsResponse>;
+}
+
+/**
+ * Provider for the current environment:
+ * - SEARCH_FIXTURES_DIR set: recorded fixtures (SEARCH_FIXTURES_MODE=record
+ *   records live Valyu responses into the directory first)
+ * - PATENT_SEARCH_BACKEND=local: the imported USPTO corpus
+ * - otherwise Valyu behind the search cache, or null when VALYU_API_KEY is missing
+ *
+ * userId and sessionId credit search cache hits to the user. cache: false
+ * skips the search cache for callers that need a fresh answer, e.g. watches.
+ */
+export function createSearchProvider({
+  userId,
+  sessionId,
+  cache = true,
+}: { userId?: string; sessionId?: string; cache?: boolean } = {}): SearchProvider | null {
+  const apiKey = process.env.VALYU_API_KEY;
+
+  if (process.env.SEARCH_FIXTURES_DIR) {
+    const recording = process.env.SEARCH_FIXTURES_MODE === 'record';
+    if (recording && !apiKey) return null;
+    return createFixtureSearchProvider({
+      dir: process.env.SEARCH_FIXTURES_DIR,
+      recordFrom: recording ? createValyuSearchProvider({ apiKey: apiKey! }) : undefined,
+    });
+  }
+
+  if (isLocalCorpusEnabled()) return localCorpusSearchProvider;
+
+  if (!apiKey) return null;
+  const valyu = createValyuSearchProvider({ apiKey });
+  return cache ? withSearchCache(valyu, { userId, sessionId }) : valyu;
+}
+
+/**
+ * The provider a tool call should use: the one the chat route passed in
+ * experimental_context, or one for the current environment
+ */
+export function getSearchProvider(options: unknown): SearchProvider | null {
+  const context = (options as any)?.experimental_context;
+  return context?.searchProvider || createSearchProvider({ userId: context?.userId, sessionId: context?.sessionId });
+}
@@ -0,0 +1,84 @@
+/**
+ * Valyu Search Provider
+ * Search and content extraction through the Valyu API. Which Valyu sources
+ * back each kind of search is configuration, not something tools decide.
+ *
+ * valyu-js reports failures as { success: false, error } rather than
+ * throwing; they are thrown here so callers can tell them from no matches.
+ */
+
+import { Valyu, type SearchType } from 'valyu-js';
+import type { SearchProvider, SearchSource } from './provider';
+
+export interface ValyuSourceConfig {
+  searchType: SearchType;
+  includedSources?: string[];
+  relevanceThreshold?: number;
+}
+
+export const DEFAULT_VALYU_SOURCES: Record<SearchSource, ValyuSourceConfig> = {
+  patents: {
+    searchType: 'proprietary',
+    includedSources: ['valyu/valyu-uspto'],
+    relevanceThreshold: 0.4,
+  },
+  // patentAnalysis deep dives keep their stricter threshold
+  patentAnalysis: {
+    searchType: 'proprietary',
+    includedSources: ['valyu/valyu-uspto'],
+    relevanceThreshold: 0.5,
+  },
+  // Exact number lookups - no threshold, the number match is checked afterwards
+  patentNumbers: {
+    searchType: 'proprietary',
+    includedSources: ['valyu/valyu-uspto'],
+  },
+  web: {
+    searchType: 'all',
+  },
+};
+
+export function createValyuSearchProvider({
+  apiKey,
+  baseUrl = 'https://api.valyu.network/v1',
+  sources = DEFAULT_VALYU_SOURCES,
+}: {
+  apiKey: string;
+  baseUrl?: string;
+  sources?: Record<SearchSource, ValyuSourceConfig>;
+}): SearchProvider {
+  const valyu = new Valyu(apiKey, baseUrl);
+
+  return {
+    label: 'Valyu',
+    billable: true,
+
+    async search({ query, source, maxResults, startDate, endDate }) {
+      const response = await valyu.search(query, {
+        ...sources[source],
+        maxNumResults: maxResults,
+        isToolCall: true,
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+      });
+      if (response?.success === false) {
+        throw new Error(`Valyu search failed: ${response.error || 'unknown error'}`);
+      }
+      return {
+        results: response?.results || [],
+        costDollars: (response as any)?.total_deduction_dollars || 0,
+      };
+    },
+
+    async contents(urls) {
+      const response: any = await valyu.contents(urls, { responseLength: 'max' });
+      if (response?.success === false) {
+        throw new Error(`Valyu contents failed: ${response.error || 'unknown error'}`);
+      }
+      return {
+        results: response?.results || [],
+        costDollars: response?.total_cost_dollars || 0,
+      };
+    },
+  };
+}
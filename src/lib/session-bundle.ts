@@ -0,0 +1,295 @@
+/**
+ * Session Bundles
+ * A chat session exported as one portable JSON file: the session metadata,
+ * every message with its parts, and the charts and CSVs the messages embed.
+ * Importing a bundle re-creates the session under fresh IDs and rewrites
+ * every reference to the old ones, so a bundle can move between the dev
+ * SQLite instance and production or be handed to another user.
+ */
+
+import { randomUUID } from 'crypto';
+import * as db from '@/lib/db';
+import { parseJson, toIsoString } from '@/lib/db-rows';
+import { ArtifactProvenance, parseProvenance } from '@/lib/provenance';
+
+export const SESSION_BUNDLE_FORMAT = 'patent-chat-session';
+export const SESSION_BUNDLE_VERSION = 1;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SessionBundleMessage {
+  /** Informational; messages get fresh IDs on import */
+  id: string;
+  role: string;
+  parts: any[];
+  metadata: Record<string, any> | null;
+  processingTimeMs: number | null;
+  createdAt: string | null;
+}
+
+export interface SessionBundleChart {
+  id: string;
+  chartData: any;
+  provenance: ArtifactProvenance | null;
+  createdAt: string | null;
+}
+
+export interface SessionBundleCsv {
+  id: string;
+  title: string;
+  description: string | null;
+  headers: string[];
+  rows: any[][];
+  provenance: ArtifactProvenance | null;
+  createdAt: string | null;
+}
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    id: string;
+    title: string;
+    createdAt: string | null;
+    lastMessageAt: string | null;
+  };
+  messages: SessionBundleMessage[];
+  charts: SessionBundleChart[];
+  csvs: SessionBundleCsv[];
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+function toBundleMessage(row: any): SessionBundleMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    parts: parseJson(row.content, []),
+    metadata: parseJson(row.metadata, null),
+    processingTimeMs: row.processing_time_ms ?? row.processingTimeMs ?? null,
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+function toBundleChart(row: any): SessionBundleChart {
+  return {
+    id: row.id,
+    chartData: parseJson(row.chart_data ?? row.chartData, {}),
+    provenance: parseProvenance(row.provenance),
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+function toBundleCsv(row: any): SessionBundleCsv {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || null,
+    headers: parseJson(row.headers, []),
+    rows: parseJson(row.rows, []),
+    provenance: parseProvenance(row.provenance),
+    createdAt: toIsoString(row.created_at ?? row.createdAt),
+  };
+}
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+/**
+ * Chart and CSV IDs embedded in message parts: chart image URLs, csv: links
+ * and CSV URLs, in text and in tool outputs alike
+ */
+export function referencedArtifactIds(messages: Array<{ parts: any[] }>): { chartIds: string[]; csvIds: string[] } {
+  const text = JSON.stringify(messages.map((message) => message.parts));
+  const chartIds = new Set<string>();
+  const csvIds = new Set<string>();
+  let match;
+
+  const chartPattern = /\/api\/charts\/([a-f0-9-]{36})/gi;
+  while ((match = chartPattern.exec(text)) !== null) chartIds.add(match[1]);
+
+  const csvPattern = /(?:csv:|\/api\/csvs\/)([a-f0-9-]{36})/gi;
+  while ((match = csvPattern.exec(text)) !== null) csvIds.add(match[1]);
+
+  return { chartIds: Array.from(chartIds), csvIds: Array.from(csvIds) };
+}
+
+/**
+ * Deep copy of a JSON value with every old ID replaced by its new one. IDs
+ * are UUIDs (see validateSessionBundle), so plain string replacement cannot
+ * hit unrelated text.
+ */
+function rewriteIds<T>(value: T, idMap: Map<string, string>): T {
+  if (value === null || value === undefined) return value;
+  let json = JSON.stringify(value);
+  idMap.forEach((newId, oldId) => {
+    json = json.split(oldId).join(newId);
+  });
+  return JSON.parse(json) as T;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * The user's session as a bundle, or null if it is not theirs. Charts and
+ * CSVs saved in the session are included, plus any the messages embed from
+ * another of the user's sessions.
+ */
+export async function exportSessionBundle(sessionId: string, userId: string): Promise<SessionBundle | null> {
+  const { data: session } = await db.getChatSession(sessionId, userId);
+  if (!session) return null;
+
+  const [{ data: messageRows, error }, { data: chartRows }, { data: csvRows }] = await Promise.all([
+    db.getChatMessages(sessionId),
+    db.getChartsForSessions([sessionId]),
+    db.getCSVsForSessions([sessionId]),
+  ]);
+  if (error) throw error;
+
+  const messages = (messageRows || []).map(toBundleMessage);
+  const charts = (chartRows || []).map(toBundleChart);
+  const csvs = (csvRows || []).map(toBundleCsv);
+
+  const { chartIds, csvIds } = referencedArtifactIds(messages);
+  const ownedBy = (row: any) => row && (row.user_id ?? row.userId) === userId;
+  for (const chartId of chartIds.filter((id) => !charts.some((chart) => chart.id === id))) {
+    const { data: row } = await db.getChart(chartId);
+    if (ownedBy(row)) charts.push(toBundleChart(row));
+  }
+  for (const csvId of csvIds.filter((id) => !csvs.some((csv) => csv.id === id))) {
+    const { data: row } = await db.getCSV(csvId);
+    if (ownedBy(row)) csvs.push(toBundleCsv(row));
+  }
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      title: session.title,
+      createdAt: toIsoString((session as any).created_at ?? (session as any).createdAt),
+      lastMessageAt: toIsoString((session as any).last_message_at ?? (session as any).lastMessageAt),
+    },
+    messages,
+    charts,
+    csvs,
+  };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Why the value is not a bundle this version can import, or null if it is
+ */
+export function validateSessionBundle(value: any): string | null {
+  if (!value || typeof value !== 'object' || value.format !== SESSION_BUNDLE_FORMAT) {
+    return 'Not a session bundle';
+  }
+  if (typeof value.version !== 'number' || value.version > SESSION_BUNDLE_VERSION) {
+    return `Unsupported bundle version ${value.version}`;
+  }
+  if (!value.session || !UUID_PATTERN.test(value.session.id)) {
+    return 'Bundle has no session';
+  }
+  if (!Array.isArray(value.messages) || !Array.isArray(value.charts) || !Array.isArray(value.csvs)) {
+    return 'Bundle is missing messages, charts or CSVs';
+  }
+  if (!value.messages.every((message: any) => message && typeof message.role === 'string' && Array.isArray(message.parts))) {
+    return 'Bundle has malformed messages';
+  }
+  // IDs are rewritten by string replacement, so anything but a UUID could
+  // clobber unrelated text
+  const hasUuids = (items: any[]) => items.every((item) => item && UUID_PATTERN.test(item.id));
+  if (!hasUuids(value.charts) || !hasUuids(value.csvs)) {
+    return 'Bundle has charts or CSVs without valid IDs';
+  }
+  return null;
+}
+
+/**
+ * Re-creates a bundle's session for the user under fresh IDs and returns the
+ * new session ID. Chart and CSV references in message parts and the session
+ * ID anywhere in them are rewritten to the new IDs.
+ */
+export async function importSessionBundle(
+  bundle: SessionBundle,
+  userId: string,
+  { projectId = null }: { projectId?: string | null } = {}
+): Promise<string> {
+  const idMap = new Map<string, string>();
+  const newId = (oldId: string) => {
+    if (!idMap.has(oldId)) idMap.set(oldId, randomUUID());
+    return idMap.get(oldId)!;
+  };
+
+  const sessionId = newId(bundle.session.id);
+  bundle.charts.forEach((chart) => newId(chart.id));
+  bundle.csvs.forEach((csv) => newId(csv.id));
+
+  const { error: sessionError } = await db.createChatSession({
+    id: sessionId,
+    user_id: userId,
+    title: bundle.session.title || 'Imported chat',
+    project_id: projectId,
+  });
+  if (sessionError) throw sessionError;
+
+  try {
+    for (const chart of bundle.charts) {
+      const { error } = await db.createChart({
+        id: newId(chart.id),
+        user_id: userId,
+        session_id: sessionId,
+        chart_data: rewriteIds(chart.chartData, idMap),
+        provenance: chart.provenance,
+      });
+      if (error) throw error;
+    }
+
+    for (const csv of bundle.csvs) {
+      const { error } = await db.createCSV({
+        id: newId(csv.id),
+        user_id: userId,
+        session_id: sessionId,
+        title: csv.title,
+        description: csv.description || undefined,
+        headers: csv.headers || [],
+        rows: csv.rows || [],
+        provenance: csv.provenance,
+      });
+      if (error) throw error;
+    }
+
+    const { error: messagesError } = await db.saveChatMessages(
+      sessionId,
+      bundle.messages.map((message) => ({
+        id: randomUUID(),
+        role: message.role,
+        content: rewriteIds(message.parts || [], idMap),
+        processing_time_ms: message.processingTimeMs ?? undefined,
+        metadata: rewriteIds(message.metadata ?? null, idMap),
+      }))
+    );
+    if (messagesError) throw messagesError;
+
+    const lastMessageAt = bundle.session.lastMessageAt ? new Date(bundle.session.lastMessageAt) : null;
+    if (lastMessageAt && !isNaN(lastMessageAt.getTime())) {
+      await db.updateChatSession(sessionId, userId, { last_message_at: lastMessageAt });
+    }
+  } catch (error) {
+    // Don't leave a half-imported chat in the user's history
+    await db.deleteChatSession(sessionId, userId);
+    throw error;
+  }
+
+  return sessionId;
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+interface ProjectState {
+  /** Project new chats and collections are created in; null shows all chats */
+  activeProjectId: string | null;
+}
+
+interface ProjectActions {
+  setActiveProject: (projectId: string | null) => void;
+}
+
+type ProjectStore = ProjectState & ProjectActions;
+
+export const useProjectStore = create<ProjectStore>()(
+  persist(
+    (set) => ({
+      activeProjectId: null,
+      setActiveProject: (activeProjectId) => set({ activeProjectId }),
+    }),
+    {
+      name: 'project-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
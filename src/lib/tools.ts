@@ -1,12 +1,222 @@
 import { z } from "zod";
 import { tool } from "ai";
-import { Valyu } from "valyu-js";
 import { track } from "@vercel/analytics/server";
 import { PolarEventTracker } from '@/lib/polar-events';
 import { Daytona } from '@daytonaio/sdk';
 import { createClient } from '@/utils/supabase/server';
 import * as db from '@/lib/db';
 import { randomUUID } from 'crypto';
+import { patentFiltersSchema } from '@/lib/patents/filters';
+import { PatentRecord, normalizePatentResults, normalizePatentNumber, dedupePatentRecords, findPatentNumbers } from '@/lib/patents/record';
+import { lookupPatent, matchesPatentNumber } from '@/lib/patents/lookup';
+import { assignFamilyIds, groupPatentFamilies, summarizeFamily } from '@/lib/patents/family';
+import { expandCitationGraph, getSessionLookupCache } from '@/lib/patents/citation-graph';
+import { searchPatents } from '@/lib/patents/search';
+import { rerankPatents } from '@/lib/patents/rerank';
+import { SearchProvider, getSearchProvider } from '@/lib/search/provider';
+import { AssigneeAlias, applyAssigneeAliases, countAssignees } from '@/lib/patents/assignees';
+import { parseClaims, independentClaimNumbers, splitClaimElements } from '@/lib/patents/claims';
+import { calculatePatentTerm, toDecimalYear } from '@/lib/patents/term';
+import { aggregatePatents } from '@/lib/patents/aggregate';
+import { comparePatents, comparisonTable } from '@/lib/patents/compare';
+import { SessionPatentStore } from '@/lib/patents/session-patents';
+import { findCollectionByName, loadPatentCollections } from '@/lib/patents/collections';
+import { ArtifactProvenance, ProvenanceMethod, createProvenance } from '@/lib/provenance';
+import {
+  splitTargetPassages,
+  mapClaimElements,
+  toClaimChartRows,
+  summarizeClaimChart,
+  CLAIM_CHART_HEADERS,
+  MAX_TARGET_PASSAGES,
+} from '@/lib/patents/claim-chart';
+import {
+  decomposeDisclosure,
+  mergeCandidates,
+  shortlistCandidates,
+  assessCoverage,
+  toCoverageMatrix,
+  uncoveredFeatures,
+} from '@/lib/patents/prior-art';
+
+/**
+ * Serialize headers and rows to CSV text
+ */
+function toCsvContent(headers: string[], rows: string[][]): string {
+  return [
+    headers.join(','),
+    ...rows.map(row =>
+      row.map(cell => {
+        // Escape cells that contain commas, quotes, or newlines
+        if (cell.includes(',') || cell.includes('"') || cell.includes('\n')) {
+          return `"${cell.replace(/"/g, '""')}"`;
+        }
+        return cell;
+      }).join(',')
+    )
+  ].join('\n');
+}
+
+/**
+ * Save a CSV to the database so it can be embedded as ![csv](csv:id).
+ * Returns null when saving fails - the table is still usable inline.
+ */
+async function saveCSV({
+  title,
+  description,
+  headers,
+  rows,
+  userId,
+  sessionId,
+  provenance,
+}: {
+  title: string;
+  description?: string;
+  headers: string[];
+  rows: string[][];
+  userId?: string;
+  sessionId?: string;
+  provenance?: ArtifactProvenance;
+}): Promise<string | null> {
+  try {
+    const csvId = randomUUID();
+
+    const insertData: any = {
+      id: csvId,
+      session_id: sessionId || null,
+      title,
+      description: description || undefined,
+      headers,
+      rows: rows,
+      provenance: provenance || null,
+    };
+
+    if (userId) {
+      insertData.user_id = userId;
+    } else {
+      insertData.anonymous_id = 'anonymous';
+    }
+
+    await db.createCSV(insertData);
+    return csvId;
+  } catch (error) {
+    console.error('[createCSV] Error saving CSV:', error);
+    return null;
+  }
+}
+
+/**
+ * Save chart data to the database so it can be embedded as
+ * ![title](/api/charts/id/image). Returns null when saving fails.
+ */
+async function saveChart({
+  chartData,
+  userId,
+  sessionId,
+  provenance,
+}: {
+  chartData: Record<string, any>;
+  userId?: string;
+  sessionId?: string;
+  provenance?: ArtifactProvenance;
+}): Promise<string | null> {
+  try {
+    const chartId = randomUUID();
+    const insertData: any = {
+      id: chartId,
+      session_id: sessionId || null,
+      chart_data: chartData,
+      provenance: provenance || null,
+    };
+
+    if (userId) {
+      insertData.user_id = userId;
+    } else {
+      insertData.anonymous_id = 'anonymous';
+    }
+
+    await db.createChart(insertData);
+    return chartId;
+  } catch (error) {
+    console.error('[createChart] Error saving chart:', error);
+    return null;
+  }
+}
+
+/**
+ * The signed-in user's assignee aliases. SQLite and Supabase rows share the
+ * alias/canonical/parent column names, so rows are used as-is.
+ */
+async function getUserAssigneeAliases(userId?: string): Promise<AssigneeAlias[]> {
+  if (!userId) return [];
+  try {
+    const { data } = await db.getAssigneeAliases(userId);
+    return (data || []) as AssigneeAlias[];
+  } catch (error) {
+    console.error('[AssigneeAliases] Failed to load aliases:', error);
+    return [];
+  }
+}
+
+/**
+ * Add retrieved records to the request's session patent store so
+ * aggregatePatents can count them later in the same turn
+ */
+function rememberSessionPatents(options: unknown, records: PatentRecord[]) {
+  const store: SessionPatentStore | undefined = (options as any)?.experimental_context?.sessionPatents;
+  store?.add(records, (options as any)?.toolCallId);
+}
+
+/**
+ * Provenance for a chart or CSV saved by this tool call. The source tool
+ * calls are the ones that retrieved the listed patents in this session.
+ */
+function artifactProvenance(
+  options: unknown,
+  tool: string,
+  method: ProvenanceMethod,
+  patentNumbers: string[]
+): ArtifactProvenance {
+  const store: SessionPatentStore | undefined = (options as any)?.experimental_context?.sessionPatents;
+  const numbers = Array.from(new Set(patentNumbers.map(normalizePatentNumber).filter(Boolean)));
+  return createProvenance({
+    method,
+    tool,
+    toolCallId: (options as any)?.toolCallId,
+    patentNumbers: numbers,
+    sourceToolCallIds: store?.toolCallIdsFor(numbers) || [],
+  });
+}
+
+/**
+ * Usage analytics plus Polar billing for a tool call that used the search
+ * provider. Only billable providers are charged, and only to pay-per-use
+ * users outside development.
+ */
+async function trackSearchUsage(
+  options: unknown,
+  provider: SearchProvider,
+  toolType: string,
+  { query, resultCount, costDollars, ...properties }: { query: string; resultCount: number; costDollars: number; hasFilters?: boolean }
+) {
+  const { userId, sessionId, userTier } = (options as any)?.experimental_context || {};
+
+  await track("Valyu API Call", { toolType, query, resultCount, ...properties });
+
+  if (!provider.billable || !userId || !sessionId || userTier !== 'pay_per_use' || process.env.NEXT_PUBLIC_APP_MODE === 'development') {
+    return;
+  }
+  try {
+    const polarTracker = new PolarEventTracker();
+    await polarTracker.trackValyuAPIUsage(userId, sessionId, toolType, costDollars, {
+      query,
+      resultCount,
+      success: true,
+    });
+  } catch (error) {
+    console.error(`[${toolType}] Failed to track usage:`, error);
+  }
+}
 
 export const patentTools = {
   // Chart Creation Tool - Create interactive charts for patent data visualization
@@ -133,6 +343,10 @@ export const patentTools = {
         .string()
         .optional()
         .describe("Optional description explaining what the chart shows"),
+      sourcePatentNumbers: z
+        .array(z.string())
+        .optional()
+        .describe("Patent numbers the values were taken from, recorded as the chart's sources"),
     }),
     execute: async ({
       title,
@@ -141,6 +355,7 @@ export const patentTools = {
       yAxisLabel,
       dataSeries,
       description,
+      sourcePatentNumbers = [],
     }, options) => {
       const userId = (options as any)?.experimental_context?.userId;
       const sessionId = (options as any)?.experimental_context?.sessionId;
@@ -190,30 +405,18 @@ export const patentTools = {
         },
       };
 
-      // Save chart to database
-      let chartId: string | null = null;
-      try {
-        chartId = randomUUID();
-        const insertData: any = {
-          id: chartId,
-          session_id: sessionId || null,
-          chart_data: chartData,
-        };
-
-        if (userId) {
-          insertData.user_id = userId;
-        } else {
-          insertData.anonymous_id = 'anonymous';
-        }
+      // Values were typed by the model - record which patents they mention
+      const provenance = artifactProvenance(options, "createChart", "model", [
+        ...sourcePatentNumbers,
+        ...findPatentNumbers(JSON.stringify({ title, description, dataSeries })),
+      ]);
 
-        await db.createChart(insertData);
-      } catch (error) {
-        console.error('[createChart] Error saving chart:', error);
-        chartId = null;
-      }
+      // Save chart to database
+      const chartId = await saveChart({ chartData, userId, sessionId, provenance });
 
       return {
         ...chartData,
+        provenance,
         chartId: chartId || undefined,
         imageUrl: chartId ? `/api/charts/${chartId}/image` : undefined,
       };
@@ -295,8 +498,9 @@ export const patentTools = {
       description: z.string().optional().describe("Optional description of the data"),
       headers: z.array(z.string()).describe("Column headers for the CSV"),
       rows: z.array(z.array(z.string())).describe("Data rows - each row is an array matching the headers"),
+      sourcePatentNumbers: z.array(z.string()).optional().describe("Patent numbers the values were taken from, recorded as the table's sources"),
     }),
-    execute: async ({ title, description, headers, rows }, options) => {
+    execute: async ({ title, description, headers, rows, sourcePatentNumbers = [] }, options) => {
       const userId = (options as any)?.experimental_context?.userId;
       const sessionId = (options as any)?.experimental_context?.sessionId;
 
@@ -316,45 +520,12 @@ export const patentTools = {
           };
         }
 
-        // Generate CSV content
-        const csvContent = [
-          headers.join(','),
-          ...rows.map(row =>
-            row.map(cell => {
-              // Escape cells that contain commas, quotes, or newlines
-              if (cell.includes(',') || cell.includes('"') || cell.includes('\n')) {
-                return `"${cell.replace(/"/g, '""')}"`;
-              }
-              return cell;
-            }).join(',')
-          )
-        ].join('\n');
-
-        // Save CSV to database
-        let csvId: string | null = null;
-        try {
-          csvId = randomUUID();
-
-          const insertData: any = {
-            id: csvId,
-            session_id: sessionId || null,
-            title,
-            description: description || undefined,
-            headers,
-            rows: rows,
-          };
-
-          if (userId) {
-            insertData.user_id = userId;
-          } else {
-            insertData.anonymous_id = 'anonymous';
-          }
-
-          await db.createCSV(insertData);
-        } catch (error) {
-          console.error('[createCSV] Error saving CSV:', error);
-          csvId = null;
-        }
+        const csvContent = toCsvContent(headers, rows);
+        const provenance = artifactProvenance(options, "createCSV", "model", [
+          ...sourcePatentNumbers,
+          ...findPatentNumbers(JSON.stringify({ title, description, rows })),
+        ]);
+        const csvId = await saveCSV({ title, description, headers, rows, userId, sessionId, provenance });
 
         // Track CSV creation
         await track('CSV Created', {
@@ -373,6 +544,7 @@ export const patentTools = {
           csvContent,
           rowCount: rows.length,
           columnCount: headers.length,
+          provenance,
           csvId: csvId || undefined,
           csvUrl: csvId ? `/api/csvs/${csvId}` : undefined,
           _instructions: csvId
@@ -495,60 +667,61 @@ ${execution.result || '(No output produced)'}
   patentSearch: tool({
     description: `Search USPTO patents by technology, inventor, assignee, claims, or patent number. Returns real patent data including patent numbers, titles, abstracts, filing dates, inventors, and assignees.
 
-IMPORTANT: When users ask for "examples" or multiple patents, use maxResults=15-20 to get comprehensive coverage. For single patent lookups, maxResults=5-10 is sufficient.`,
+IMPORTANT: When users ask for "examples" or multiple patents, use maxResults=15-20 to get comprehensive coverage. For single patent lookups, maxResults=5-10 is sufficient.
+
+FILTERS: Put constraints in the typed filter fields instead of the query text.
+- "Tesla, granted after 2020, H01M" -> query: "battery", assignees: ["Tesla"], publicationDateFrom: "2020", cpcClasses: ["H01M"], kindCodes: ["B1", "B2"]
+- Use filingDateFrom/filingDateTo for filing dates and publicationDateFrom/publicationDateTo for publication/grant dates
+- Use kindCodes ["A1"] for published applications only, ["B1", "B2"] for granted patents only
+The filters that were applied are echoed back in the "filters" field of the result.
+
+FAMILIES: Results that share a familyId are the same invention (application publication, grant, continuations, divisionals). Count families, not documents, when charting or ranking.`,
     inputSchema: z.object({
       query: z.string().describe('Patent search query (e.g., "solid-state battery manufacturing", "Tesla autonomous driving", "US11234567")'),
       maxResults: z.coerce.number().int().min(1).max(20).optional().default(15).describe('Maximum number of results (must be an integer between 1 and 20). Use 15-20 when user asks for "examples" or multiple patents. Default: 15'),
+      ...patentFiltersSchema.shape,
     }),
-    execute: async ({ query, maxResults }, options) => {
+    execute: async ({ query, maxResults, ...filterInput }, options) => {
       const userId = (options as any)?.experimental_context?.userId;
-      const sessionId = (options as any)?.experimental_context?.sessionId;
-      const userTier = (options as any)?.experimental_context?.userTier;
-      const isDevelopment = process.env.NEXT_PUBLIC_APP_MODE === 'development';
+      const pinnedCpcClasses: string[] = (options as any)?.experimental_context?.pinnedCpcClasses || [];
 
       try {
-        const apiKey = process.env.VALYU_API_KEY;
-        if (!apiKey) {
+        const provider = getSearchProvider(options);
+        if (!provider) {
           return "❌ Valyu API key not configured.";
         }
-        const valyu = new Valyu(apiKey, "https://api.valyu.network/v1");
 
-        // Try USPTO source - Valyu may use different source names, adjust if needed
-        const response = await valyu.search(query, {
-          maxNumResults: maxResults || 10,
-          searchType: "proprietary",
-          includedSources: ["valyu/valyu-uspto"], // Verify exact source name with Valyu docs
-          relevanceThreshold: 0.4,
-          isToolCall: true,
+        const { results, families, filters: filterSummary, costDollars, cached } = await searchPatents(provider, {
+          query,
+          maxResults: maxResults || 10,
+          // Classes pinned in the CPC browser apply unless the model picked its own
+          filters: filterInput.cpcClasses?.length || pinnedCpcClasses.length === 0
+            ? filterInput
+            : { ...filterInput, cpcClasses: pinnedCpcClasses },
+          assigneeAliases: await getUserAssigneeAliases(userId),
         });
 
-        await track("Valyu API Call", {
-          toolType: "patentSearch",
-          query: query,
-          resultCount: response?.results?.length || 0,
-        });
+        rememberSessionPatents(options, results);
 
-        if (userId && sessionId && userTier === 'pay_per_use' && !isDevelopment) {
-          try {
-            const polarTracker = new PolarEventTracker();
-            const valyuCostDollars = (response as any)?.total_deduction_dollars || 0;
-            await polarTracker.trackValyuAPIUsage(userId, sessionId, "patentSearch", valyuCostDollars, {
-              query,
-              resultCount: response?.results?.length || 0,
-              success: true,
-            });
-          } catch (error) {
-            console.error('[PatentSearch] Failed to track usage:', error);
-          }
-        }
+        await trackSearchUsage(options, provider, "patentSearch", {
+          query,
+          resultCount: results.length,
+          costDollars,
+          hasFilters: !!filterSummary,
+        });
 
         return JSON.stringify({
           type: "patents",
           query: query,
-          resultCount: response?.results?.length || 0,
-          results: response?.results || [],
+          cached: cached || undefined,
+          filters: filterSummary,
+          resultCount: results.length,
+          familyCount: families.length,
+          families: families.filter((family) => family.members.length > 1),
+          assigneeCounts: countAssignees(results),
+          results,
           favicon: 'https://www.uspto.gov/favicon.ico',
-          displaySource: 'USPTO (via Valyu)'
+          displaySource: `USPTO (via ${provider.label})`
         }, null, 2);
       } catch (error) {
         return `❌ Error searching patents: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -564,107 +737,906 @@ IMPORTANT: When users ask for "examples" or multiple patents, use maxResults=15-
     }),
     execute: async ({ query, maxResults }, options) => {
       const userId = (options as any)?.experimental_context?.userId;
-      const sessionId = (options as any)?.experimental_context?.sessionId;
-      const userTier = (options as any)?.experimental_context?.userTier;
-      const isDevelopment = process.env.NEXT_PUBLIC_APP_MODE === 'development';
 
       try {
-        const apiKey = process.env.VALYU_API_KEY;
-        if (!apiKey) {
+        const provider = getSearchProvider(options);
+        if (!provider) {
           return "❌ Valyu API key not configured.";
         }
-        const valyu = new Valyu(apiKey, "https://api.valyu.network/v1");
 
         // Search for patent details, citations, and related patents
-        const response = await valyu.search(query, {
-          maxNumResults: maxResults || 5,
-          searchType: "proprietary",
-          includedSources: ["valyu/valyu-uspto"], // May need to combine with web search for litigation/news
-          relevanceThreshold: 0.5,
-          isToolCall: true,
+        const response = await provider.search({ query, source: 'patentAnalysis', maxResults: maxResults || 5 });
+
+        const { records: results, families } = assignFamilyIds(
+          await rerankPatents(
+            query,
+            applyAssigneeAliases(normalizePatentResults(response.results), await getUserAssigneeAliases(userId))
+          )
+        );
+
+        rememberSessionPatents(options, results);
+
+        await trackSearchUsage(options, provider, "patentAnalysis", {
+          query,
+          resultCount: results.length,
+          costDollars: response.costDollars,
         });
 
-        await track("Valyu API Call", {
-          toolType: "patentAnalysis",
+        return JSON.stringify({
+          type: "patent_analysis",
           query: query,
-          resultCount: response?.results?.length || 0,
+          cached: response.cached || undefined,
+          resultCount: results.length,
+          familyCount: families.length,
+          families: families.filter((family) => family.members.length > 1),
+          assigneeCounts: countAssignees(results),
+          results,
+          favicon: 'https://www.uspto.gov/favicon.ico',
+          displaySource: `USPTO (via ${provider.label})`
+        }, null, 2);
+      } catch (error) {
+        return `❌ Error analyzing patents: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    },
+  }),
+
+  patentCitationGraph: tool({
+    description: `Build a citation network around a seed patent by expanding backward citations (patents it cites) and forward citations (later patents citing it) for N hops.
+
+    Use this when the user asks about citation networks, prior art lineage, forward/backward citations, or which patents build on a given patent.
+    The graph is saved like a chart and returns a chartId. Embed it in your response exactly like a chart:
+    ![Citation Network for US11234567](/api/charts/{chartId}/image)
+
+    Only patent numbers that appear as nodes in the returned graph may be cited as part of the network.`,
+    inputSchema: z.object({
+      patentNumber: z.string().describe('Seed patent or publication number (e.g., "US11234567B2", "US20200123456A1")'),
+      depth: z.coerce.number().int().min(1).max(3).optional().default(1).describe('Number of citation hops to expand (1-3). Each hop multiplies the number of lookups. Default: 1'),
+      direction: z.enum(['backward', 'forward', 'both']).optional().default('both').describe('"backward" = patents the seed cites, "forward" = patents citing the seed, "both" = both. Default: both'),
+      maxNodes: z.coerce.number().int().min(5).max(60).optional().default(30).describe('Maximum number of patents in the graph (5-60). Default: 30'),
+    }),
+    execute: async ({ patentNumber, depth, direction, maxNodes }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+      const sessionId = (options as any)?.experimental_context?.sessionId;
+
+      try {
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return "❌ Valyu API key not configured.";
+        }
+
+        let valyuCostDollars = 0;
+
+        const lookup = async (number: string) => {
+          const result = await lookupPatent(provider, number);
+          valyuCostDollars += result.costDollars;
+          return result.record;
+        };
+
+        const graph = await expandCitationGraph({
+          seed: patentNumber,
+          depth,
+          direction,
+          maxNodes,
+          lookup,
+          cache: getSessionLookupCache(sessionId),
         });
 
-        if (userId && sessionId && userTier === 'pay_per_use' && !isDevelopment) {
-          try {
-            const polarTracker = new PolarEventTracker();
-            const valyuCostDollars = (response as any)?.total_deduction_dollars || 0;
-            await polarTracker.trackValyuAPIUsage(userId, sessionId, "patentAnalysis", valyuCostDollars, {
-              query,
-              resultCount: response?.results?.length || 0,
-              success: true,
-            });
-          } catch (error) {
-            console.error('[PatentAnalysis] Failed to track usage:', error);
-          }
+        const seedNode = graph.nodes.find((node) => node.id === graph.seed);
+        if (!seedNode?.resolved) {
+          return `❌ Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`;
         }
 
+        await trackSearchUsage(options, provider, "patentCitationGraph", {
+          query: patentNumber,
+          resultCount: graph.nodes.length,
+          costDollars: valyuCostDollars,
+        });
+
+        const chartData = {
+          chartType: 'network' as const,
+          title: `Citation Network: ${graph.seed}`,
+          description: seedNode.title,
+          graph,
+          metadata: {
+            totalNodes: graph.nodes.length,
+            totalEdges: graph.edges.length,
+            depth: graph.depth,
+            direction: graph.direction,
+            truncated: graph.truncated,
+          },
+        };
+
+        // Save graph to the charts table so it can be embedded and exported like any chart
+        const provenance = artifactProvenance(options, "patentCitationGraph", "deterministic", graph.nodes.map((node) => node.id));
+        const chartId = await saveChart({ chartData, userId, sessionId, provenance });
+
+        return {
+          ...chartData,
+          provenance,
+          chartId: chartId || undefined,
+          imageUrl: chartId ? `/api/charts/${chartId}/image` : undefined,
+        };
+      } catch (error) {
+        return `❌ Error building citation graph: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    },
+  }),
+
+  patentFamily: tool({
+    description: `Find the family of a patent: its application publication, grant, continuations, continuations-in-part and divisionals.
+    Members are grouped by shared priority claims, family IDs and application lineage. Use this before counting or comparing patents when the same invention may appear several times.`,
+    inputSchema: z.object({
+      patentNumber: z.string().describe('Patent or publication number of any family member (e.g., "US11234567B2", "US20200123456A1")'),
+    }),
+    execute: async ({ patentNumber }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+
+      try {
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return "❌ Valyu API key not configured.";
+        }
+
+        const seedLookup = await lookupPatent(provider, patentNumber, 5);
+        let valyuCostDollars = seedLookup.costDollars;
+        const seed = seedLookup.record;
+        if (!seed) {
+          return `❌ Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`;
+        }
+
+        // Resolve the declared lineage (parents and priority applications)
+        const candidates: PatentRecord[] = [seed, ...seedLookup.related];
+        for (const application of [...seed.relatedApplications, ...seed.priorityClaims].slice(0, 5)) {
+          const lineage = await lookupPatent(provider, application);
+          valyuCostDollars += lineage.costDollars;
+          if (lineage.record) candidates.push(lineage.record);
+        }
+
+        // Continuations usually share a title and assignee with the parent
+        const siblingResponse = await provider.search({
+          query: `${seed.title} ${seed.assignees[0] || ''}`.trim(),
+          source: 'patents',
+          maxResults: 20,
+        });
+        valyuCostDollars += siblingResponse.costDollars;
+        candidates.push(...normalizePatentResults(siblingResponse.results));
+
+        const family = groupPatentFamilies(dedupePatentRecords(candidates)).find((f) =>
+          f.members.some((member) => member.patentNumber === seed.patentNumber)
+        );
+        if (!family) {
+          return `❌ Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`;
+        }
+        const members = applyAssigneeAliases(
+          family.members.map((member) => ({ ...member, familyId: family.familyId })),
+          await getUserAssigneeAliases(userId)
+        );
+
+        rememberSessionPatents(options, members);
+
+        await trackSearchUsage(options, provider, "patentFamily", {
+          query: patentNumber,
+          resultCount: members.length,
+          costDollars: valyuCostDollars,
+        });
+
         return JSON.stringify({
-          type: "patent_analysis",
-          query: query,
-          resultCount: response?.results?.length || 0,
-          results: response?.results || [],
+          type: "patent_family",
+          query: patentNumber,
+          family: summarizeFamily(family),
+          resultCount: members.length,
+          results: members,
           favicon: 'https://www.uspto.gov/favicon.ico',
-          displaySource: 'USPTO (via Valyu)'
+          displaySource: `USPTO (via ${provider.label})`
         }, null, 2);
       } catch (error) {
-        return `❌ Error analyzing patents: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        return `❌ Error finding patent family: ${error instanceof Error ? error.message : 'Unknown error'}`;
       }
     },
   }),
 
+  patentTerm: tool({
+    description: `Calculate when a US patent expires, deterministically. Use this for ANY expiry, term or maintenance fee question instead of estimating.
+    Computes the nominal expiry (20 years from filing, 17 from grant for pre-1995-06-08 filings, 14/15 from grant for designs), applies patent term adjustment (PTA), terminal disclaimers and patent term extension (PTE), and lists the 3.5/7.5/11.5-year maintenance fee windows.
+    Take dates from patentSearch/patentAnalysis results (filingDate, publicationDate of the grant). Only pass priorityDate for a US non-provisional parent (continuation/divisional) - provisional and foreign priority dates do not start the term.
+    A timeline chart is saved and returns a chartId. Embed it like a chart:
+    ![Patent Term: US11234567](/api/charts/{chartId}/image)`,
+    inputSchema: z.object({
+      patentNumber: z.string().optional().describe('Patent number, used to label the result (e.g., "US11234567B2")'),
+      patentType: z.enum(['utility', 'plant', 'design']).optional().default('utility').describe('Patent type. Design patents are kind S1. Default: utility'),
+      filingDate: z.string().describe('Filing date of the application that issued as this patent (YYYY-MM-DD)'),
+      priorityDate: z.string().optional().describe('Filing date of the earliest US non-provisional application claimed under 35 U.S.C. 120/121/365(c) (YYYY-MM-DD). NOT provisional or foreign priority'),
+      grantDate: z.string().optional().describe('Grant/issue date (YYYY-MM-DD). Needed for maintenance fees, design patents and pre-1995 filings'),
+      ptaDays: z.coerce.number().int().min(0).optional().describe('Patent term adjustment in days, as printed on the patent'),
+      pteDays: z.coerce.number().int().min(0).optional().describe('Patent term extension in days (regulatory review, e.g. FDA approval)'),
+      terminalDisclaimerDate: z.string().optional().describe('Expiry date of the patent named in a terminal disclaimer (YYYY-MM-DD)'),
+    }),
+    execute: async ({ patentNumber, patentType, ...dates }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+      const sessionId = (options as any)?.experimental_context?.sessionId;
 
-  webSearch: tool({
-    description: "Search the web for general information on any topic",
+      let term;
+      try {
+        term = calculatePatentTerm({ patentType, ...dates });
+      } catch (error) {
+        return `❌ Error calculating patent term: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+
+      await track('Patent Term Calculated', {
+        patentType: term.patentType,
+        hasPta: !!dates.ptaDays,
+        hasPte: !!dates.pteDays,
+        hasTerminalDisclaimer: !!dates.terminalDisclaimerDate,
+      });
+
+      const milestones = [
+        { label: 'Term starts', date: term.termStart },
+        ...(dates.filingDate !== term.termStart ? [{ label: 'Filed', date: dates.filingDate }] : []),
+        ...(dates.grantDate ? [{ label: 'Granted', date: dates.grantDate }] : []),
+        { label: 'Nominal expiry', date: term.nominalExpiry },
+        ...(term.adjustedExpiry !== term.nominalExpiry ? [{ label: 'Adjusted expiry', date: term.adjustedExpiry }] : []),
+      ];
+      const fees = term.maintenanceWindows.filter((window) => window.status !== 'not-due');
+      const label = patentNumber ? normalizePatentNumber(patentNumber) : 'Patent';
+
+      const chartData = {
+        chartType: 'scatter' as const,
+        title: `Patent Term: ${label}`,
+        xAxisLabel: 'Year',
+        yAxisLabel: 'Milestone',
+        description: `${term.termBasis}. Expires ${term.adjustedExpiry}.`,
+        dataSeries: [
+          {
+            name: 'Term',
+            data: milestones.map(({ label, date }) => ({ x: toDecimalYear(date), y: 2, label: `${label} (${date})` })),
+          },
+          ...(fees.length > 0
+            ? [{
+                name: 'Maintenance fees',
+                data: fees.map((fee) => ({ x: toDecimalYear(fee.dueDate), y: 1, label: `${fee.stage} fee due (${fee.dueDate})` })),
+              }]
+            : []),
+        ],
+        metadata: {
+          totalSeries: fees.length > 0 ? 2 : 1,
+          totalDataPoints: milestones.length + fees.length,
+          dateRange: { start: term.termStart, end: term.adjustedExpiry },
+        },
+      };
+
+      const provenance = artifactProvenance(options, "patentTerm", "deterministic", patentNumber ? [patentNumber] : []);
+      const chartId = await saveChart({ chartData, userId, sessionId, provenance });
+
+      return {
+        ...chartData,
+        patentNumber: patentNumber ? label : undefined,
+        term,
+        provenance,
+        chartId: chartId || undefined,
+        imageUrl: chartId ? `/api/charts/${chartId}/image` : undefined,
+      };
+    },
+  }),
+
+  aggregatePatents: tool({
+    description: `Count the patents retrieved in this session (by patentSearch, patentAnalysis, patentFamily and priorArtSearch) grouped by filing/priority/publication year, assignee, CPC class or inventor country. Counts are exact and each group lists its patent numbers.
+
+    ALWAYS use this for trend, ranking or share charts built from search results - never count by hand or type numbers into createChart.
+    - "Filing trend 2015-2024" -> groupBy: "year", yearFrom: 2015, yearTo: 2024, chartType: "line"
+    - "Top assignees" -> groupBy: "assignee", chartType: "bar"
+    - "Filings per year for the top assignees" -> groupBy: "year", seriesBy: "assignee", chartType: "line"
+    With chartType set, the chart is saved and returns a chartId. Embed it like any chart: ![Title](/api/charts/{chartId}/image)
+    Counts only cover what was retrieved - say so, and run more searches first if coverage is thin.`,
     inputSchema: z.object({
-      query: z.string().describe('Search query for any topic'),
-      maxResults: z.coerce.number().int().min(1).max(20).optional().default(5).describe('Maximum number of results (must be an integer between 1 and 20)'),
+      groupBy: z.enum(['year', 'assignee', 'cpc', 'inventorCountry']).describe('Dimension to count by (x-axis of the chart)'),
+      seriesBy: z.enum(['year', 'assignee', 'cpc', 'inventorCountry']).optional().describe('Optional second dimension - one chart series per top value (e.g. groupBy "year", seriesBy "assignee")'),
+      dateField: z.enum(['filing', 'priority', 'publication']).optional().default('filing').describe('Date that decides a patent\'s year. Default: filing'),
+      cpcLevel: z.enum(['class', 'subclass', 'group']).optional().default('subclass').describe('CPC granularity: class "H01", subclass "H01M", group "H01M 10/00". Default: subclass'),
+      countFamilies: z.boolean().optional().default(true).describe('Count each patent family once instead of every publication. Default: true'),
+      yearFrom: z.coerce.number().int().optional().describe('First year to include'),
+      yearTo: z.coerce.number().int().optional().describe('Last year to include'),
+      patentNumbers: z.array(z.string()).optional().describe('Only count these retrieved patents (default: all retrieved in the session)'),
+      limit: z.coerce.number().int().min(1).max(50).optional().describe('Maximum groups for non-year dimensions. Default: 15'),
+      chartType: z.enum(['bar', 'line', 'area']).optional().describe('Save the counts as a chart of this type'),
+      chartTitle: z.string().optional().describe('Title for the saved chart'),
     }),
-    execute: async ({ query, maxResults }, options) => {
+    execute: async ({ patentNumbers, chartType, chartTitle, ...aggregateOptions }, options) => {
       const userId = (options as any)?.experimental_context?.userId;
       const sessionId = (options as any)?.experimental_context?.sessionId;
-      const userTier = (options as any)?.experimental_context?.userTier;
-      const isDevelopment = process.env.NEXT_PUBLIC_APP_MODE === 'development';
+      const store: SessionPatentStore | undefined = (options as any)?.experimental_context?.sessionPatents;
+
+      // Base-number match, so "US11234567" selects the stored "US11234567B2"
+      const wanted = patentNumbers?.length ? patentNumbers : null;
+      const records = (store?.all() || []).filter(
+        (record) => !wanted || wanted.some((number) => matchesPatentNumber(record, number))
+      );
+      if (records.length === 0) {
+        return wanted
+          ? "❌ None of those patents have been retrieved in this session. Run patentSearch first."
+          : "❌ No patents have been retrieved in this session yet. Run patentSearch first.";
+      }
+
+      const aggregation = aggregatePatents(records, aggregateOptions);
+
+      await track('Patents Aggregated', {
+        groupBy: aggregation.groupBy,
+        seriesBy: aggregation.seriesBy || 'none',
+        totalPatents: aggregation.totalPatents,
+        charted: !!chartType,
+      });
+
+      const dimensionLabels = { year: 'Year', assignee: 'Assignee', cpc: 'CPC Class', inventorCountry: 'Inventor Country' };
+      const unitLabel = aggregation.countedUnit === 'families' ? 'Patent Families' : 'Patents';
+      let chart = {};
+      if (chartType) {
+        const chartData = {
+          chartType,
+          title: chartTitle || `${unitLabel} by ${dimensionLabels[aggregation.groupBy]}`,
+          xAxisLabel: dimensionLabels[aggregation.groupBy],
+          yAxisLabel: `Number of ${unitLabel}`,
+          dataSeries: aggregation.dataSeries,
+          description: `Counted from ${aggregation.totalPatents} ${aggregation.countedUnit} retrieved in this session.`,
+          metadata: {
+            totalSeries: aggregation.dataSeries.length,
+            totalDataPoints: aggregation.dataSeries.reduce((sum, series) => sum + series.data.length, 0),
+            dateRange: aggregation.groups.length > 0
+              ? { start: aggregation.groups[0].key, end: aggregation.groups[aggregation.groups.length - 1].key }
+              : null,
+          },
+        };
+        const provenance = artifactProvenance(
+          options,
+          "aggregatePatents",
+          "deterministic",
+          aggregation.groups.flatMap((group) => group.patentNumbers)
+        );
+        const chartId = await saveChart({ chartData, userId, sessionId, provenance });
+        chart = {
+          ...chartData,
+          provenance,
+          chartId: chartId || undefined,
+          imageUrl: chartId ? `/api/charts/${chartId}/image` : undefined,
+        };
+      }
+
+      return {
+        type: "patent_aggregation",
+        ...aggregation,
+        ...chart,
+      };
+    },
+  }),
+
+  patentClaims: tool({
+    description: `Get the claims of a specific patent parsed into a claim tree.
+    Each claim comes back with its number, text, the earlier claims it depends on, and whether it is independent.
+    Start any claim analysis from the independent claims (usually claim 1) - dependent claims only narrow them.`,
+    inputSchema: z.object({
+      patentNumber: z.string().describe('Patent or publication number (e.g., "US11234567B2")'),
+    }),
+    execute: async ({ patentNumber }, options) => {
+      const sessionId = (options as any)?.experimental_context?.sessionId;
 
       try {
-        const valyu = new Valyu(process.env.VALYU_API_KEY, "https://api.valyu.network/v1");
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return "❌ Valyu API key not configured.";
+        }
+
+        // Reuse records already fetched by a citation graph in this session
+        const cache = getSessionLookupCache(sessionId);
+        const cacheKey = normalizePatentNumber(patentNumber);
+        let valyuCostDollars = 0;
+        let record = cache.get(cacheKey) || null;
+        if (!record) {
+          const lookup = await lookupPatent(provider, patentNumber);
+          valyuCostDollars = lookup.costDollars;
+          record = lookup.record;
+          cache.set(cacheKey, record);
+        }
+
+        if (!record) {
+          return `❌ Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`;
+        }
+        const claims = parseClaims(record.claims);
 
-        const response = await valyu.search(query, {
-          searchType: "all" as const,
-          maxNumResults: maxResults || 5,
-          isToolCall: true,
+        await trackSearchUsage(options, provider, "patentClaims", {
+          query: patentNumber,
+          resultCount: claims.length,
+          costDollars: valyuCostDollars,
         });
 
-        await track("Valyu API Call", {
-          toolType: "webSearch",
-          query: query,
-          resultCount: response?.results?.length || 0,
+        if (claims.length === 0) {
+          return `❌ No claims text is available for ${record.patentNumber || patentNumber}.`;
+        }
+
+        return JSON.stringify({
+          type: "patent_claims",
+          patentNumber: record.patentNumber,
+          title: record.title,
+          url: record.url,
+          claimCount: claims.length,
+          independentClaims: independentClaimNumbers(claims),
+          claims,
+        }, null, 2);
+      } catch (error) {
+        return `❌ Error fetching patent claims: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    },
+  }),
+
+  claimChart: tool({
+    description: `Build an element-by-element claim chart mapping one independent claim of a patent to evidence in a target document (a product description or prior-art reference).
+    The claim is split into its preamble and limitations (1[pre], 1[a], 1[b]...), each element is mapped to numbered passages of the target, and the chart is saved as a CSV table.
+    Provide either targetText (pasted text) or targetUrl. Defaults to the first independent claim.
+
+    The result includes a csvId - embed the chart in your response with ![csv](csv:csvId) exactly like createCSV tables.`,
+    inputSchema: z.object({
+      patentNumber: z.string().describe('Patent number whose claim is charted (e.g., "US11234567B2")'),
+      claimNumber: z.coerce.number().int().min(1).optional().describe('Independent claim to chart (defaults to the first independent claim)'),
+      targetText: z.string().optional().describe('Product description or prior-art text to map the claim against'),
+      targetUrl: z.string().url().optional().describe('URL of the product page or reference to map the claim against'),
+      targetName: z.string().optional().describe('Short name for the target (e.g., "Acme X200 datasheet")'),
+    }),
+    execute: async ({ patentNumber, claimNumber, targetText, targetUrl, targetName }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+      const sessionId = (options as any)?.experimental_context?.sessionId;
+      const model = (options as any)?.experimental_context?.model;
+
+      const fail = (message: string) => ({ error: true, message: `❌ ${message}`, title: `Claim chart: ${patentNumber}` });
+
+      try {
+        if (!targetText && !targetUrl) {
+          return fail('Provide targetText or targetUrl to chart the claim against.');
+        }
+        if (!model) {
+          return fail('No language model available to map claim elements.');
+        }
+
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return fail('Valyu API key not configured.');
+        }
+        let valyuCostDollars = 0;
+
+        const cache = getSessionLookupCache(sessionId);
+        const cacheKey = normalizePatentNumber(patentNumber);
+        let record = cache.get(cacheKey) || null;
+        if (!record) {
+          const lookup = await lookupPatent(provider, patentNumber);
+          valyuCostDollars += lookup.costDollars;
+          record = lookup.record;
+          cache.set(cacheKey, record);
+        }
+        if (!record) {
+          return fail(`Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`);
+        }
+
+        const claims = parseClaims(record.claims);
+        const claim = claimNumber
+          ? claims.find((c) => c.number === claimNumber)
+          : claims.find((c) => c.independent);
+        if (!claim) {
+          return fail(claimNumber
+            ? `Claim ${claimNumber} not found in ${record.patentNumber} (${claims.length} claims).`
+            : `No claims text is available for ${record.patentNumber}.`);
+        }
+        if (!claim.independent) {
+          return fail(`Claim ${claim.number} depends on claim ${claim.dependsOn.join(', ')}. Chart an independent claim (${independentClaimNumbers(claims).join(', ')}).`);
+        }
+
+        // Resolve the target document
+        let target = targetText || '';
+        let name = targetName || 'Target';
+        if (!target && targetUrl) {
+          const contents = await provider.contents([targetUrl]);
+          valyuCostDollars += contents.costDollars;
+          const page = contents.results[0];
+          if (!page || page.status !== 'success' || typeof page.content !== 'string') {
+            return fail(`Could not fetch content from ${targetUrl}.`);
+          }
+          target = page.content;
+          name = targetName || page.title || targetUrl;
+        }
+
+        const allPassages = splitTargetPassages(target);
+        const passages = allPassages.slice(0, MAX_TARGET_PASSAGES);
+        const truncated = allPassages.length > passages.length;
+        if (passages.length === 0) {
+          return fail('The target text is too short to chart against.');
+        }
+
+        const elements = splitClaimElements(claim);
+        const mappings = await mapClaimElements({
+          model,
+          patentNumber: record.patentNumber,
+          elements,
+          passages,
+          targetName: name,
         });
 
-        if (userId && sessionId && userTier === 'pay_per_use' && !isDevelopment) {
-          try {
-            const polarTracker = new PolarEventTracker();
-            const valyuCostDollars = (response as any)?.total_deduction_dollars || 0;
-            await polarTracker.trackValyuAPIUsage(userId, sessionId, "webSearch", valyuCostDollars, {
-              query,
-              resultCount: response?.results?.length || 0,
-              success: true,
-            });
-          } catch (error) {
-            console.error('[WebSearch] Failed to track usage:', error);
+        const title = `Claim Chart - ${record.patentNumber} Claim ${claim.number} vs ${name}`;
+        const description = `Element-by-element mapping of claim ${claim.number} of ${record.patentNumber} (${record.title}) to ${targetUrl || name}. Citations refer to numbered passages (P1, P2...) of the target.${
+          truncated
+            ? ` Only the first ${passages.length} of ${allPassages.length} passages were analyzed - elements marked "Not found" may be disclosed later in the target.`
+            : ''
+        }`;
+        const rows = toClaimChartRows(elements, mappings, passages, targetUrl || name);
+        // Claim text is retrieved; the element-to-passage mapping is the model's judgement
+        const provenance = artifactProvenance(options, "claimChart", "model", [record.patentNumber]);
+        const csvId = await saveCSV({ title, description, headers: CLAIM_CHART_HEADERS, rows, userId, sessionId, provenance });
+        const summary = summarizeClaimChart(mappings);
+
+        await trackSearchUsage(options, provider, "claimChart", {
+          query: patentNumber,
+          resultCount: elements.length,
+          costDollars: valyuCostDollars,
+        });
+
+        return {
+          type: "claim_chart",
+          patentNumber: record.patentNumber,
+          claimNumber: claim.number,
+          target: targetUrl || name,
+          summary,
+          passagesAnalyzed: passages.length,
+          totalPassages: allPassages.length,
+          truncated,
+          title,
+          description,
+          headers: CLAIM_CHART_HEADERS,
+          rows,
+          csvContent: toCsvContent(CLAIM_CHART_HEADERS, rows),
+          rowCount: rows.length,
+          columnCount: CLAIM_CHART_HEADERS.length,
+          provenance,
+          csvId: csvId || undefined,
+          csvUrl: csvId ? `/api/csvs/${csvId}` : undefined,
+          _instructions: csvId
+            ? `IMPORTANT: Include this EXACT line in your markdown response to display the claim chart:\n\n![csv](csv:${csvId})\n\nSummarize which elements are met, partially met and not found, citing the passage labels.${
+                truncated ? ` Tell the user the target was too long to chart in full: only passages P1-P${passages.length} of ${allPassages.length} were analyzed, so "Not found" elements are not conclusive.` : ''
+              }`
+            : undefined,
+        };
+      } catch (error) {
+        return fail(`Error building claim chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  }),
+
+  comparePatents: tool({
+    description: `Compare 2-4 patents side by side: bibliographic data, abstracts, independent claims with the claim terms they share and the terms unique to each, CPC overlap and priority/filing/publication dates.
+    Patents already retrieved in this session are compared as retrieved; others are looked up by number.
+    The comparison is computed from the records (not written by you) and saved as a CSV table - embed it with ![csv](csv:csvId) exactly like createCSV tables.`,
+    inputSchema: z.object({
+      patentNumbers: z.array(z.string()).min(2).max(4).describe('Two to four patent numbers to compare (e.g., ["US11234567B2", "US10987654B1"])'),
+    }),
+    execute: async ({ patentNumbers }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+      const sessionId = (options as any)?.experimental_context?.sessionId;
+      const store: SessionPatentStore | undefined = (options as any)?.experimental_context?.sessionPatents;
+
+      const fail = (message: string) => ({ error: true, message: `❌ ${message}`, title: `Patent comparison: ${patentNumbers.join(', ')}` });
+
+      try {
+        const cache = getSessionLookupCache(sessionId);
+        const records: PatentRecord[] = [];
+        const lookedUp: PatentRecord[] = [];
+        let provider: SearchProvider | null = null;
+        let valyuCostDollars = 0;
+
+        for (const patentNumber of patentNumbers) {
+          const cacheKey = normalizePatentNumber(patentNumber);
+          let record =
+            (store?.all() || []).find((candidate) => matchesPatentNumber(candidate, patentNumber)) ||
+            cache.get(cacheKey) ||
+            null;
+
+          if (!record) {
+            provider = provider || getSearchProvider(options);
+            if (!provider) {
+              return fail(`${patentNumber} has not been retrieved in this session and the Valyu API key is not configured.`);
+            }
+            const lookup = await lookupPatent(provider, patentNumber);
+            valyuCostDollars += lookup.costDollars;
+            record = lookup.record;
+            cache.set(cacheKey, record);
+            if (record) lookedUp.push(record);
+          }
+          if (!record) {
+            return fail(`Patent ${patentNumber} could not be found in USPTO data. Check the number or run patentSearch first.`);
           }
+          if (!records.some((existing) => existing.patentNumber === record!.patentNumber)) records.push(record);
+        }
+
+        if (records.length < 2) {
+          return fail('Those numbers refer to the same patent - give at least two different patents.');
+        }
+        rememberSessionPatents(options, lookedUp);
+
+        const comparison = comparePatents(records);
+        const { title, description, headers, rows } = comparisonTable(comparison);
+        const provenance = artifactProvenance(
+          options,
+          "comparePatents",
+          "deterministic",
+          records.map((record) => record.patentNumber)
+        );
+        const csvId = await saveCSV({ title, description, headers, rows, userId, sessionId, provenance });
+
+        if (provider) {
+          await trackSearchUsage(options, provider, "comparePatents", {
+            query: patentNumbers.join(', '),
+            resultCount: lookedUp.length,
+            costDollars: valyuCostDollars,
+          });
+        }
+
+        return {
+          type: "patent_comparison",
+          comparison,
+          title,
+          description,
+          headers,
+          rows,
+          csvContent: toCsvContent(headers, rows),
+          rowCount: rows.length,
+          columnCount: headers.length,
+          provenance,
+          csvId: csvId || undefined,
+          csvUrl: csvId ? `/api/csvs/${csvId}` : undefined,
+          _instructions: csvId
+            ? `IMPORTANT: Include this EXACT line in your markdown response to display the comparison table:\n\n![csv](csv:${csvId})\n\nDiscuss the shared and unique claim terms and CPC overlap from the comparison - do not restate the table.`
+            : undefined,
+        };
+      } catch (error) {
+        return fail(`Error comparing patents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  }),
+
+  collectionPatents: tool({
+    description: `Load the patents the user saved to one of their collections (bookmarked shortlists), with the user's notes and tags.
+    Use this whenever the user refers to a collection or shortlist by name (e.g. "compare everything in my Solid-State Shortlist"). Call it without a name to list the user's collections.
+    Loaded patents count as retrieved in this session, so comparePatents, aggregatePatents and patentClaims can use them without searching again. comparePatents takes at most 4 patents - ask which to compare when a collection holds more.`,
+    inputSchema: z.object({
+      name: z.string().optional().describe('Collection name as the user wrote it. Omit to list all collections.'),
+    }),
+    execute: async ({ name }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+
+      if (!userId) {
+        return "❌ Sign in to use patent collections.";
+      }
+
+      try {
+        const collections = await loadPatentCollections(userId);
+        const summaries = collections.map((collection) => ({
+          name: collection.name,
+          description: collection.description,
+          patentCount: collection.items.length,
+        }));
+
+        if (!name) {
+          return JSON.stringify({ type: "patent_collections", collections: summaries }, null, 2);
+        }
+
+        const collection = findCollectionByName(collections, name);
+        if (!collection) {
+          return `❌ No collection named "${name}". The user's collections are: ${summaries.map((summary) => summary.name).join(', ') || 'none yet'}.`;
         }
 
+        const results = collection.items.map((item) => item.snapshot).filter((record) => !!record.patentNumber);
+        rememberSessionPatents(options, results);
+
+        return JSON.stringify({
+          type: "patent_collection",
+          query: collection.name,
+          collection: { name: collection.name, description: collection.description },
+          resultCount: results.length,
+          results,
+          annotations: collection.items.map((item) => ({
+            patentNumber: item.patentNumber,
+            notes: item.notes,
+            tags: item.tags,
+            savedAt: item.createdAt,
+          })),
+          favicon: 'https://www.uspto.gov/favicon.ico',
+          displaySource: 'Saved collection'
+        }, null, 2);
+      } catch (error) {
+        return `❌ Error loading collections: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    },
+  }),
+
+  priorArtSearch: tool({
+    description: `Run a full prior-art search for an invention disclosure.
+    The disclosure is decomposed into key technical features, each feature is searched in USPTO patents (and optionally the web),
+    the merged references are judged feature by feature and ranked by how many features they cover.
+    Returns the ranked references, a feature-by-reference coverage matrix saved as a CSV (embed with ![csv](csv:csvId)), and the features no reference fully discloses.
+    In prior-art mode the submitted disclosure is used automatically - only pass disclosure when the user pasted one into a normal chat.`,
+    inputSchema: z.object({
+      disclosure: z.string().optional().describe('Invention disclosure text (omit in prior-art mode)'),
+      focus: z.string().optional().describe('Optional aspect of the invention to concentrate the search on'),
+      includeWeb: z.boolean().optional().default(true).describe('Also search non-patent literature on the web'),
+      maxReferences: z.coerce.number().int().min(3).max(12).optional().default(8).describe('Number of references to assess and rank'),
+    }),
+    execute: async ({ disclosure, focus, includeWeb, maxReferences }, options) => {
+      const userId = (options as any)?.experimental_context?.userId;
+      const sessionId = (options as any)?.experimental_context?.sessionId;
+      const model = (options as any)?.experimental_context?.model;
+
+      try {
+        const text = ((options as any)?.experimental_context?.disclosure || disclosure || '').trim();
+        if (text.length < 100) {
+          return "❌ The invention disclosure is too short for a prior-art search. Paste or upload the full disclosure.";
+        }
+        if (!model) {
+          return "❌ No language model available to analyse the disclosure.";
+        }
+
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return "❌ Valyu API key not configured.";
+        }
+
+        const features = await decomposeDisclosure({ model, disclosure: text, focus });
+        if (features.length === 0) {
+          return "❌ Could not identify technical features in the disclosure.";
+        }
+
+        // Every feature query runs against USPTO and, optionally, the web. A
+        // failed search only loses its own results; features with no
+        // successful search are reported back instead of failing the run.
+        const featureHits = await Promise.all(
+          features.map(async (feature) => {
+            const settled = await Promise.allSettled(
+              feature.queries.flatMap((query) => [
+                provider
+                  .search({ query, source: 'patents', maxResults: 5 })
+                  .then((response) => ({ kind: 'patent' as const, response })),
+                ...(includeWeb
+                  ? [provider
+                      .search({ query, source: 'web', maxResults: 3 })
+                      .then((response) => ({ kind: 'web' as const, response }))]
+                  : []),
+              ])
+            );
+            const responses = settled.flatMap((s) => (s.status === 'fulfilled' ? [s.value] : []));
+            const errors = settled.flatMap((s) =>
+              s.status === 'rejected' ? [s.reason instanceof Error ? s.reason.message : String(s.reason)] : []
+            );
+            return {
+              featureId: feature.id,
+              failed: responses.length === 0,
+              error: errors[0],
+              patents: responses
+                .filter((r) => r.kind === 'patent')
+                .flatMap((r) => normalizePatentResults(r.response.results)),
+              web: responses
+                .filter((r) => r.kind === 'web')
+                .flatMap((r) => r.response.results),
+              costDollars: responses.reduce((sum, r) => sum + r.response.costDollars, 0),
+            };
+          })
+        );
+        const failedFeatures = featureHits
+          .filter((hit) => hit.failed)
+          .map((hit) => ({ featureId: hit.featureId, error: hit.error || 'Search failed' }));
+        if (failedFeatures.length === features.length) {
+          return `❌ Error running prior-art search: every feature search failed (${failedFeatures[0].error}).`;
+        }
+        const hits = featureHits.filter((hit) => !hit.failed);
+        const valyuCostDollars = hits.reduce((sum, hit) => sum + hit.costDollars, 0);
+
+        const candidates = mergeCandidates(hits);
+        if (candidates.length === 0) {
+          return "❌ No candidate references found for the disclosure's features.";
+        }
+
+        const ranked = await assessCoverage({
+          model,
+          features,
+          candidates: shortlistCandidates(candidates, maxReferences || 8),
+        });
+        const matrix = toCoverageMatrix(features, ranked);
+        const matrixTitle = `Prior-Art Coverage Matrix${focus ? ` - ${focus}` : ''}`;
+        const matrixDescription = `${features.length} features × ${ranked.length} references. ● disclosed, ◐ partial, ○ not disclosed. References ranked by feature coverage.`;
+        const rankedPatents = ranked.flatMap((c) => (c.patent ? [c.patent] : []));
+        rememberSessionPatents(options, rankedPatents);
+
+        // Coverage marks are the model's judgement of each reference
+        const provenance = artifactProvenance(options, "priorArtSearch", "model", rankedPatents.map((p) => p.patentNumber));
+        const csvId = await saveCSV({
+          title: matrixTitle,
+          description: matrixDescription,
+          headers: matrix.headers,
+          rows: matrix.rows,
+          userId,
+          sessionId,
+          provenance,
+        });
+
+        await trackSearchUsage(options, provider, "priorArtSearch", {
+          query: focus || 'invention disclosure',
+          resultCount: ranked.length,
+          costDollars: valyuCostDollars,
+        });
+
+        return JSON.stringify({
+          type: "prior_art",
+          query: focus || "Invention disclosure",
+          features,
+          ranking: ranked.map((c) => ({
+            label: c.label,
+            reference: c.title,
+            url: c.url,
+            coverageScore: c.coverageScore,
+            coverage: c.coverage,
+            foundBy: c.foundBy,
+          })),
+          uncoveredFeatures: uncoveredFeatures(features, ranked).map((f) => f.id),
+          // Features whose searches all failed: uncovered because unsearched, not because no art exists
+          failedFeatures,
+          matrix: {
+            csvId: csvId || undefined,
+            title: matrixTitle,
+            description: matrixDescription,
+            headers: matrix.headers,
+            rows: matrix.rows,
+            csvContent: toCsvContent(matrix.headers, matrix.rows),
+            rowCount: matrix.rows.length,
+            columnCount: matrix.headers.length,
+            provenance,
+          },
+          candidateCount: candidates.length,
+          resultCount: ranked.length,
+          // Patent records and web results in rank order, numbered as citations
+          results: ranked.map((c) => c.patent || c.web),
+          favicon: 'https://www.uspto.gov/favicon.ico',
+          displaySource: `USPTO and web (via ${provider.label})`,
+          _instructions: csvId
+            ? `Embed the coverage matrix with this EXACT line:\n\n![csv](csv:${csvId})\n\nThen write the narrative: closest references and what they disclose, features no reference fully discloses, and how the references might combine.${
+                failedFeatures.length > 0
+                  ? ` The searches for features ${failedFeatures.map((f) => f.featureId).join(', ')} failed - tell the user these features were not searched and should be re-run.`
+                  : ''
+              }`
+            : undefined,
+        }, null, 2);
+      } catch (error) {
+        return `❌ Error running prior-art search: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    },
+  }),
+
+  webSearch: tool({
+    description: "Search the web for general information on any topic",
+    inputSchema: z.object({
+      query: z.string().describe('Search query for any topic'),
+      maxResults: z.coerce.number().int().min(1).max(20).optional().default(5).describe('Maximum number of results (must be an integer between 1 and 20)'),
+    }),
+    execute: async ({ query, maxResults }, options) => {
+      try {
+        const provider = getSearchProvider(options);
+        if (!provider) {
+          return "❌ Valyu API key not configured.";
+        }
+
+        const response = await provider.search({ query, source: 'web', maxResults: maxResults || 5 });
+
+        await trackSearchUsage(options, provider, "webSearch", {
+          query,
+          resultCount: response.results.length,
+          costDollars: response.costDollars,
+        });
+
         return JSON.stringify({
           type: "web_search",
           query: query,
-          resultCount: response?.results?.length || 0,
-          results: response?.results || [],
+          cached: response.cached || undefined,
+          resultCount: response.results.length,
+          results: response.results,
         }, null, 2);
       } catch (error) {
         return `❌ Error performing web search: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -0,0 +1,49 @@
+-- Saved patent watches: a patentSearch query plus filters that can be re-run,
+-- with one snapshot per run. Mirrors patent_watches / patent_watch_snapshots
+-- in src/lib/local-db/schema.ts.
+
+create table if not exists public.patent_watches (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  query text not null,
+  filters jsonb not null default '{}'::jsonb,
+  max_results integer not null default 15,
+  unseen_count integer not null default 0,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_patent_watches_user_id on public.patent_watches(user_id);
+
+create table if not exists public.patent_watch_snapshots (
+  id uuid primary key,
+  watch_id uuid not null references public.patent_watches(id) on delete cascade,
+  patent_numbers jsonb not null default '[]'::jsonb,
+  new_patent_numbers jsonb not null default '[]'::jsonb,
+  results jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_patent_watch_snapshots_watch_id on public.patent_watch_snapshots(watch_id);
+
+-- Row level security: users only see their own watches and their snapshots
+alter table public.patent_watches enable row level security;
+alter table public.patent_watch_snapshots enable row level security;
+
+create policy "Users can manage own patent watches"
+  on public.patent_watches for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage snapshots of own patent watches"
+  on public.patent_watch_snapshots for all
+  using (exists (
+    select 1 from public.patent_watches w
+    where w.id = watch_id and w.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.patent_watches w
+    where w.id = watch_id and w.user_id = auth.uid()
+  ));
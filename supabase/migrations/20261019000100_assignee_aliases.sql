@@ -0,0 +1,21 @@
+-- Per-user assignee aliases, layered over the built-in alias table in
+-- src/lib/patents/assignees.ts. Mirrors assignee_aliases in
+-- src/lib/local-db/schema.ts.
+
+create table if not exists public.assignee_aliases (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  alias text not null,
+  canonical text not null,
+  parent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_assignee_aliases_user_id on public.assignee_aliases(user_id);
+
+alter table public.assignee_aliases enable row level security;
+
+create policy "Users can manage own assignee aliases"
+  on public.assignee_aliases for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,40 @@
+-- Search result cache shared by all users, and per-user cache hits for
+-- savings reporting. Mirrors search_cache and search_cache_hits in
+-- src/lib/local-db/schema.ts.
+
+create table if not exists public.search_cache (
+  key text primary key,
+  source text not null,
+  query text not null,
+  response jsonb not null,
+  cost_dollars numeric not null default 0,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists idx_search_cache_expires_at on public.search_cache(expires_at);
+
+-- Only the service role reads and writes the shared cache
+alter table public.search_cache enable row level security;
+
+create table if not exists public.search_cache_hits (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  session_id text,
+  source text not null,
+  query text not null,
+  saved_dollars numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_search_cache_hits_user_id on public.search_cache_hits(user_id);
+
+alter table public.search_cache_hits enable row level security;
+
+create policy "Users can view own search cache hits"
+  on public.search_cache_hits for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record own search cache hits"
+  on public.search_cache_hits for insert
+  with check (auth.uid() = user_id);
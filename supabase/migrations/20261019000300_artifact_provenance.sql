@@ -0,0 +1,6 @@
+-- Provenance for saved charts and CSVs: the tool calls and patents the
+-- values came from, and whether they were computed or typed by the model.
+-- Shape is ArtifactProvenance in src/lib/provenance.ts.
+
+alter table public.charts add column if not exists provenance jsonb;
+alter table public.csvs add column if not exists provenance jsonb;
@@ -0,0 +1,49 @@
+-- Patent collections: named lists of saved patents, each item holding a
+-- snapshot of the normalized PatentRecord plus the user's notes and tags.
+-- Mirrors patent_collections / patent_collection_items in
+-- src/lib/local-db/schema.ts.
+
+create table if not exists public.patent_collections (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_patent_collections_user_id on public.patent_collections(user_id);
+
+create table if not exists public.patent_collection_items (
+  id uuid primary key,
+  collection_id uuid not null references public.patent_collections(id) on delete cascade,
+  patent_number text not null,
+  snapshot jsonb not null,
+  notes text,
+  tags jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (collection_id, patent_number)
+);
+
+create index if not exists idx_patent_collection_items_collection_id on public.patent_collection_items(collection_id);
+
+-- Row level security: users only see their own collections and their items
+alter table public.patent_collections enable row level security;
+alter table public.patent_collection_items enable row level security;
+
+create policy "Users can manage own patent collections"
+  on public.patent_collections for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can manage items of own patent collections"
+  on public.patent_collection_items for all
+  using (exists (
+    select 1 from public.patent_collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.patent_collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ));
@@ -0,0 +1,31 @@
+-- Projects (workspaces): a named matter that groups chat sessions and patent
+-- collections. Charts and CSVs belong to a project through their session.
+-- Deleting a project keeps its chats and collections, unassigned.
+-- Mirrors projects in src/lib/local-db/schema.ts.
+
+create table if not exists public.projects (
+  id uuid primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_projects_user_id on public.projects(user_id);
+
+alter table public.chat_sessions
+  add column if not exists project_id uuid references public.projects(id) on delete set null;
+alter table public.patent_collections
+  add column if not exists project_id uuid references public.projects(id) on delete set null;
+
+create index if not exists idx_chat_sessions_project_id on public.chat_sessions(project_id);
+create index if not exists idx_patent_collections_project_id on public.patent_collections(project_id);
+
+-- Row level security: users only see their own projects
+alter table public.projects enable row level security;
+
+create policy "Users can manage own projects"
+  on public.projects for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
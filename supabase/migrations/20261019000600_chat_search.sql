@@ -0,0 +1,59 @@
+-- Full-text search across chat history. Messages keep a plain-text
+-- search_text (text parts plus the numbers and titles of patents returned by
+-- tool calls) written by the app; generated tsvectors over it and over
+-- session titles are GIN-indexed. Mirrors chat_messages_fts and
+-- chat_sessions_fts in src/lib/local-db/client.ts.
+
+alter table public.chat_messages
+  add column if not exists search_text text;
+
+alter table public.chat_messages
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(search_text, ''))) stored;
+
+alter table public.chat_sessions
+  add column if not exists title_vector tsvector
+  generated always as (to_tsvector('english', coalesce(title, ''))) stored;
+
+create index if not exists idx_chat_messages_search_vector on public.chat_messages using gin(search_vector);
+create index if not exists idx_chat_sessions_title_vector on public.chat_sessions using gin(title_vector);
+
+-- Session title and message matches for the calling user, best first.
+-- Snippets mark matches with chr(2)/chr(3) so the client highlights them
+-- without rendering HTML. Runs as the caller, so row level security applies.
+create or replace function public.search_chat_history(search_query text, result_limit int default 30)
+returns table (
+  session_id uuid,
+  session_title text,
+  message_id uuid,
+  role text,
+  snippet text,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+as $$
+  with q as (select to_tsquery('english', search_query) as query)
+  select * from (
+    select s.id, s.title, null::uuid, null::text,
+      ts_headline('english', s.title, q.query, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'),
+      s.updated_at
+    from public.chat_sessions s, q
+    where s.user_id = auth.uid() and s.title_vector @@ q.query
+    order by ts_rank(s.title_vector, q.query) desc
+    limit result_limit
+  ) titles
+  union all
+  select * from (
+    select m.session_id, s.title, m.id, m.role,
+      ts_headline('english', m.search_text, q.query,
+        'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=24, MinWords=8, MaxFragments=1, FragmentDelimiter=" … "'),
+      m.created_at
+    from public.chat_messages m
+    join public.chat_sessions s on s.id = m.session_id, q
+    where s.user_id = auth.uid() and m.search_vector @@ q.query
+    order by ts_rank(m.search_vector, q.query) desc
+    limit result_limit
+  ) messages;
+$$;
@@ -0,0 +1,4 @@
+-- Per-message metadata written by saveChatMessages (patent number
+-- verification results, see src/lib/patents/verification.ts).
+
+alter table public.chat_messages add column if not exists metadata jsonb;